@@ -0,0 +1,131 @@
+// FarmConnect service worker. Plain JS served as-is from /public, so it is
+// not bundled or type-checked; keep it dependency-free.
+//
+// - App shell: index.html and the hashed bundles it references are cached
+//   on install; navigations fall back to the cached shell when offline.
+// - Bundles and images under /assets: cache first (file names are hashed).
+// - Public Supabase reads (the catalogue and guide tables in CACHED_TABLES,
+//   public storage objects): network first, falling back to the last
+//   response seen only when the network is unreachable, so products and
+//   guides the user has opened still render offline. Per-user data and
+//   requests sent with `Cache-Control: no-store` always go to the network.
+//
+// Writes are never cached; the app queues them itself (src/lib/offlineQueue.ts).
+
+const VERSION = 'v1';
+const SHELL_CACHE = `farmconnect-shell-${VERSION}`;
+// Also cleared by the app on sign-out (src/lib/offline.ts).
+const DATA_CACHE = 'farmconnect-data';
+const MAX_DATA_ENTRIES = 300;
+const CACHED_TABLES = new Set([
+  'products',
+  'product_categories',
+  'reviews',
+  'educational_resources',
+  'resource_translations',
+]);
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('farmconnect-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && isStatic(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (isCachedRead(request, url)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('/index.html', { cache: 'reload' });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]);
+
+  await cache.put('/index.html', response);
+  await cache.addAll(['/manifest.webmanifest', '/icon.svg', ...assets]);
+}
+
+function isStatic(pathname) {
+  return pathname.startsWith('/assets/') || pathname === '/icon.svg' || pathname === '/manifest.webmanifest';
+}
+
+function isCachedRead(request, url) {
+  if (/no-store/i.test(request.headers.get('cache-control') || '')) return false;
+  if (url.pathname.startsWith('/storage/v1/object/public/')) return true;
+
+  const table = url.pathname.match(/^\/rest\/v1\/([^/]+)$/);
+  return Boolean(table && CACHED_TABLES.has(table[1]));
+}
+
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(DATA_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      trimCache(cache);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Oldest entries first: Cache.keys() returns them in insertion order.
+async function trimCache(cache) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_DATA_ENTRIES)).map(key => cache.delete(key)));
+}
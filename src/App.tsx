@@ -1,6 +1,9 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
-import { LanguageProvider } from './contexts/LanguageContext';
+import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
+import { CartProvider } from './contexts/CartContext';
+import { UnreadMessagesProvider } from './contexts/UnreadMessagesContext';
+import { OfflineProvider } from './contexts/OfflineContext';
 import Layout from './components/Layout';
 import Home from './pages/Home';
 import SignIn from './pages/SignIn';
@@ -9,14 +12,27 @@ import Dashboard from './pages/Dashboard';
 import Products from './pages/Products';
 import Resources from './pages/Resources';
 import Messages from './pages/Messages';
+import Cart from './pages/Cart';
+import Checkout from './pages/Checkout';
+import ProductForm from './pages/ProductForm';
+import ProductDetail from './pages/ProductDetail';
+import FarmerOrders from './pages/FarmerOrders';
+import OrderDetail from './pages/OrderDetail';
+import ContentTranslations from './pages/ContentTranslations';
+import AdminUsers from './pages/AdminUsers';
+import AdminUserDetail from './pages/AdminUserDetail';
+import AdminResources from './pages/AdminResources';
+import ResourceForm from './pages/ResourceForm';
+import ResourceAnalytics from './pages/ResourceAnalytics';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
+  const { t } = useLanguage();
 
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <p className="text-gray-600">Loading...</p>
+        <p className="text-gray-600">{t('loading')}</p>
       </div>
     );
   }
@@ -46,10 +62,114 @@ function AppRoutes() {
         path="/products"
         element={<Layout><Products /></Layout>}
       />
+      <Route
+        path="/products/:id"
+        element={<Layout><ProductDetail /></Layout>}
+      />
+      <Route
+        path="/products/new"
+        element={
+          <ProtectedRoute>
+            <Layout><ProductForm /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/products/:id/edit"
+        element={
+          <ProtectedRoute>
+            <Layout><ProductForm /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/orders/:id"
+        element={
+          <ProtectedRoute>
+            <Layout><OrderDetail /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/farmer/orders"
+        element={
+          <ProtectedRoute>
+            <Layout><FarmerOrders /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/users"
+        element={
+          <ProtectedRoute>
+            <Layout><AdminUsers /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/users/:id"
+        element={
+          <ProtectedRoute>
+            <Layout><AdminUserDetail /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/resources"
+        element={
+          <ProtectedRoute>
+            <Layout><AdminResources /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/resources/analytics"
+        element={
+          <ProtectedRoute>
+            <Layout><ResourceAnalytics /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/resources/new"
+        element={
+          <ProtectedRoute>
+            <Layout><ResourceForm /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/resources/:id/edit"
+        element={
+          <ProtectedRoute>
+            <Layout><ResourceForm /></Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/translations"
+        element={
+          <ProtectedRoute>
+            <Layout><ContentTranslations /></Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/resources"
         element={<Layout><Resources /></Layout>}
       />
+      <Route
+        path="/cart"
+        element={<Layout><Cart /></Layout>}
+      />
+      <Route
+        path="/checkout"
+        element={
+          <ProtectedRoute>
+            <Layout><Checkout /></Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/messages"
         element={
@@ -67,7 +187,13 @@ export default function App() {
     <BrowserRouter>
       <AuthProvider>
         <LanguageProvider>
-          <AppRoutes />
+          <CartProvider>
+            <UnreadMessagesProvider>
+              <OfflineProvider>
+                <AppRoutes />
+              </OfflineProvider>
+            </UnreadMessagesProvider>
+          </CartProvider>
         </LanguageProvider>
       </AuthProvider>
     </BrowserRouter>
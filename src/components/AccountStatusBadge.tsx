@@ -0,0 +1,11 @@
+import { useLanguage } from '../contexts/LanguageContext';
+
+export default function AccountStatusBadge({ active }: { active: boolean }) {
+  const { t } = useLanguage();
+
+  return (
+    <span className={`text-xs px-2 py-1 rounded-full ${active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+      {active ? t('adminUsers.active') : t('adminUsers.inactive')}
+    </span>
+  );
+}
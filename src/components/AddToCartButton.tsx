@@ -0,0 +1,19 @@
+import { useCart, CartProduct } from '../contexts/CartContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export default function AddToCartButton({ product }: { product: CartProduct }) {
+  const { items, addItem } = useCart();
+  const { t } = useLanguage();
+  const inCart = items[product.id]?.quantity || 0;
+  const canAdd = inCart < product.stock_quantity;
+
+  return (
+    <button
+      onClick={() => addItem(product)}
+      disabled={!canAdd}
+      className="w-full mt-3 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {inCart > 0 ? t('cart.addMore', { count: inCart }) : t('cart.add')}
+    </button>
+  );
+}
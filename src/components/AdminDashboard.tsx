@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Stats {
   totalUsers: number;
@@ -10,7 +12,17 @@ interface Stats {
   totalRevenue: number;
 }
 
+interface FailedRefund {
+  id: string;
+  order_id: string;
+  amount: number;
+  attempts: number;
+  last_error: string | null;
+  updated_at: string;
+}
+
 export default function AdminDashboard() {
+  const { t, formatNumber, formatDate } = useLanguage();
   const [stats, setStats] = useState<Stats>({
     totalUsers: 0,
     totalFarmers: 0,
@@ -19,6 +31,7 @@ export default function AdminDashboard() {
     totalOrders: 0,
     totalRevenue: 0,
   });
+  const [failedRefunds, setFailedRefunds] = useState<FailedRefund[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -27,12 +40,17 @@ export default function AdminDashboard() {
 
   const loadStats = async () => {
     try {
-      const [usersRes, farmersRes, buyersRes, productsRes, ordersRes] = await Promise.all([
-        supabase.from('user_profiles').select('*', { count: 'exact', head: true }),
-        supabase.from('user_profiles').select('*', { count: 'exact', head: true }).eq('role', 'farmer'),
-        supabase.from('user_profiles').select('*', { count: 'exact', head: true }).eq('role', 'buyer'),
+      const [usersRes, farmersRes, buyersRes, productsRes, ordersRes, refundsRes] = await Promise.all([
+        supabase.from('private_user_profiles').select('*', { count: 'exact', head: true }),
+        supabase.from('private_user_profiles').select('*', { count: 'exact', head: true }).eq('role', 'farmer'),
+        supabase.from('private_user_profiles').select('*', { count: 'exact', head: true }).eq('role', 'buyer'),
         supabase.from('products').select('*', { count: 'exact', head: true }),
         supabase.from('orders').select('total_amount'),
+        supabase
+          .from('payment_refunds')
+          .select('id, order_id, amount, attempts, last_error, updated_at')
+          .eq('status', 'failed')
+          .order('updated_at', { ascending: false }),
       ]);
 
       const totalRevenue = ordersRes.data?.reduce((sum, order) => sum + Number(order.total_amount), 0) || 0;
@@ -45,6 +63,7 @@ export default function AdminDashboard() {
         totalOrders: ordersRes.data?.length || 0,
         totalRevenue,
       });
+      setFailedRefunds(refundsRes.data || []);
     } catch (error) {
       console.error('Error loading stats:', error);
     } finally {
@@ -52,49 +71,117 @@ export default function AdminDashboard() {
     }
   };
 
-  if (loading) return <p>Loading dashboard...</p>;
+  if (loading) return <p>{t('dashboard.loading')}</p>;
 
   return (
     <div className="space-y-8">
+      {failedRefunds.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-red-800 mb-1">{t('admin.failedRefunds')}</h2>
+          <p className="text-sm text-red-700 mb-4">{t('admin.failedRefundsHint')}</p>
+          <ul className="space-y-2 text-sm">
+            {failedRefunds.map(refund => (
+              <li key={refund.id} className="flex flex-wrap justify-between gap-2">
+                <Link to={`/orders/${refund.order_id}`} className="font-medium text-red-800 hover:underline">
+                  {t('orders.number', { number: refund.order_id.slice(0, 8) })} · ₹{formatNumber(refund.amount)}
+                </Link>
+                <span className="text-red-700">
+                  {t('admin.refundAttempts', { count: refund.attempts, date: formatDate(refund.updated_at) })}
+                  {refund.last_error && ` · ${refund.last_error}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        <StatCard title="Total Users" value={stats.totalUsers} icon="👥" color="blue" />
-        <StatCard title="Total Farmers" value={stats.totalFarmers} icon="🌾" color="green" />
-        <StatCard title="Total Buyers" value={stats.totalBuyers} icon="🛒" color="purple" />
-        <StatCard title="Total Products" value={stats.totalProducts} icon="📦" color="orange" />
-        <StatCard title="Total Orders" value={stats.totalOrders} icon="📋" color="red" />
+        <StatCard title={t('admin.totalUsers')} value={stats.totalUsers} icon="👥" color="blue" />
+        <StatCard title={t('admin.totalFarmers')} value={stats.totalFarmers} icon="🌾" color="green" />
+        <StatCard title={t('admin.totalBuyers')} value={stats.totalBuyers} icon="🛒" color="purple" />
+        <StatCard title={t('admin.totalProducts')} value={stats.totalProducts} icon="📦" color="orange" />
+        <StatCard title={t('admin.totalOrders')} value={stats.totalOrders} icon="📋" color="red" />
         <StatCard
-          title="Total Revenue"
-          value={`₹${stats.totalRevenue.toLocaleString('en-IN')}`}
+          title={t('admin.totalRevenue')}
+          value={`₹${formatNumber(stats.totalRevenue)}`}
           icon="💰"
           color="yellow"
         />
       </div>
 
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Platform Analytics</h2>
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('admin.analytics')}</h2>
         <p className="text-gray-600">
-          The platform is connecting {stats.totalFarmers} farmers with {stats.totalBuyers} buyers,
-          facilitating rural entrepreneurship through {stats.totalProducts} value-added products.
+          {t('admin.analyticsSummary', {
+            farmers: stats.totalFarmers,
+            buyers: stats.totalBuyers,
+            products: stats.totalProducts,
+          })}
         </p>
       </div>
 
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Impact Measurement</h2>
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">{t('adminUsers.title')}</h2>
+            <p className="text-sm text-gray-600">{t('adminUsers.hint')}</p>
+          </div>
+          <Link
+            to="/admin/users"
+            className="text-green-600 hover:text-green-700 font-medium text-sm shrink-0 ml-4"
+          >
+            {t('adminUsers.manage')} →
+          </Link>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">{t('resourceAdmin.title')}</h2>
+            <p className="text-sm text-gray-600">{t('resourceAdmin.hint')}</p>
+          </div>
+          <Link
+            to="/admin/resources"
+            className="text-green-600 hover:text-green-700 font-medium text-sm shrink-0 ml-4"
+          >
+            {t('resourceAdmin.manage')} →
+          </Link>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">{t('translations.contentTitle')}</h2>
+            <p className="text-sm text-gray-600">{t('translations.contentHint')}</p>
+          </div>
+          <Link
+            to="/admin/translations"
+            className="text-green-600 hover:text-green-700 font-medium text-sm shrink-0 ml-4"
+          >
+            {t('translations.manage')} →
+          </Link>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('admin.impact')}</h2>
         <div className="space-y-3">
           <ImpactMetric
-            label="Farmer Engagement Rate"
+            label={t('admin.engagement')}
             value={stats.totalFarmers > 0 ? ((stats.totalProducts / stats.totalFarmers).toFixed(1)) : '0'}
-            unit="products/farmer"
+            unit={t('admin.productsPerFarmer')}
           />
           <ImpactMetric
-            label="Average Order Value"
+            label={t('admin.averageOrder')}
             value={stats.totalOrders > 0 ? `₹${(stats.totalRevenue / stats.totalOrders).toFixed(0)}` : '₹0'}
             unit=""
           />
           <ImpactMetric
-            label="Platform Growth"
+            label={t('admin.growth')}
             value={`${stats.totalUsers}`}
-            unit="registered users"
+            unit={t('admin.registeredUsers')}
           />
         </div>
       </div>
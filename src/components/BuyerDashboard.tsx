@@ -3,21 +3,45 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { Link } from 'react-router-dom';
+import ReviewForm, { ExistingReview } from './ReviewForm';
+import StatusBadge from './StatusBadge';
 
 interface Order {
   id: string;
   status: string;
+  payment_status: string;
   total_amount: number;
   created_at: string;
   farmer: {
     full_name: string;
   };
+  order_items: {
+    product_id: string;
+    quantity: number;
+    product: {
+      name: string;
+    } | null;
+  }[];
+}
+
+interface BuyerReview extends ExistingReview {
+  product_id: string;
+  order_id: string | null;
+}
+
+interface OrderTotals {
+  count: number;
+  pending: number;
+  paid: number;
+  due: number;
 }
 
 export default function BuyerDashboard() {
   const { user } = useAuth();
-  const { t } = useLanguage();
+  const { t, formatNumber, formatDate } = useLanguage();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [reviews, setReviews] = useState<BuyerReview[]>([]);
+  const [totals, setTotals] = useState<OrderTotals>({ count: 0, pending: 0, paid: 0, due: 0 });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -28,21 +52,46 @@ export default function BuyerDashboard() {
 
   const loadOrders = async () => {
     try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          status,
-          total_amount,
-          created_at,
-          farmer:farmer_id (full_name)
-        `)
-        .eq('buyer_id', user!.id)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (error) throw error;
-      setOrders(data as any || []);
+      const [ordersRes, reviewsRes, totalsRes] = await Promise.all([
+        supabase
+          .from('orders')
+          .select(`
+            id,
+            status,
+            payment_status,
+            total_amount,
+            created_at,
+            farmer:farmer_id (full_name),
+            order_items (product_id, quantity, product:product_id (name))
+          `)
+          .eq('buyer_id', user!.id)
+          .order('created_at', { ascending: false })
+          .limit(10),
+        supabase
+          .from('reviews')
+          .select('id, product_id, order_id, rating, comment')
+          .eq('buyer_id', user!.id),
+        supabase
+          .from('orders')
+          .select('status, total_amount, payment_status')
+          .eq('buyer_id', user!.id),
+      ]);
+
+      if (ordersRes.error) throw ordersRes.error;
+      setOrders(ordersRes.data as any || []);
+      setReviews(reviewsRes.data || []);
+      if (totalsRes.data) {
+        setTotals(totalsRes.data.reduce((sum, order) => {
+          const amount = order.status === 'cancelled' ? 0 : Number(order.total_amount);
+          const paid = order.payment_status === 'completed';
+          return {
+            count: sum.count + 1,
+            pending: sum.pending + (order.status === 'pending' || order.status === 'confirmed' ? 1 : 0),
+            paid: sum.paid + (paid ? amount : 0),
+            due: sum.due + (paid ? 0 : amount),
+          };
+        }, { count: 0, pending: 0, paid: 0, due: 0 }));
+      }
     } catch (error) {
       console.error('Error loading orders:', error);
     } finally {
@@ -52,17 +101,14 @@ export default function BuyerDashboard() {
 
   if (loading) return <p>{t('loading')}</p>;
 
-  const totalSpent = orders.reduce((sum, order) => sum + Number(order.total_amount), 0);
-  const pendingOrders = orders.filter(o => o.status === 'pending' || o.status === 'confirmed').length;
-
   return (
     <div className="space-y-8">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Total Orders</p>
-              <p className="text-2xl font-bold text-gray-800">{orders.length}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('buyer.totalOrders')}</p>
+              <p className="text-2xl font-bold text-gray-800">{totals.count}</p>
             </div>
             <div className="w-12 h-12 rounded-full bg-blue-100 text-blue-800 flex items-center justify-center text-2xl">
               📦
@@ -73,8 +119,8 @@ export default function BuyerDashboard() {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Pending Orders</p>
-              <p className="text-2xl font-bold text-gray-800">{pendingOrders}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('buyer.pendingOrders')}</p>
+              <p className="text-2xl font-bold text-gray-800">{totals.pending}</p>
             </div>
             <div className="w-12 h-12 rounded-full bg-orange-100 text-orange-800 flex items-center justify-center text-2xl">
               ⏳
@@ -85,8 +131,11 @@ export default function BuyerDashboard() {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Total Spent</p>
-              <p className="text-2xl font-bold text-gray-800">₹{totalSpent.toLocaleString('en-IN')}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('buyer.totalSpent')}</p>
+              <p className="text-2xl font-bold text-gray-800">₹{formatNumber(totals.paid)}</p>
+              {totals.due > 0 && (
+                <p className="text-xs text-orange-700">{t('buyer.stillToPay', { amount: formatNumber(totals.due) })}</p>
+              )}
             </div>
             <div className="w-12 h-12 rounded-full bg-green-100 text-green-800 flex items-center justify-center text-2xl">
               💰
@@ -100,29 +149,29 @@ export default function BuyerDashboard() {
           to="/products"
           className="bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg shadow-lg p-8 hover:from-green-600 hover:to-green-700 transition-all"
         >
-          <h3 className="text-2xl font-bold mb-2">Explore Products</h3>
-          <p className="text-green-100">Browse value-added products from farmers across India</p>
+          <h3 className="text-2xl font-bold mb-2">{t('buyer.explore.title')}</h3>
+          <p className="text-green-100">{t('buyer.explore.body')}</p>
         </Link>
 
         <Link
           to="/resources"
           className="bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg shadow-lg p-8 hover:from-blue-600 hover:to-blue-700 transition-all"
         >
-          <h3 className="text-2xl font-bold mb-2">Success Stories</h3>
-          <p className="text-blue-100">Read about farmer entrepreneurs and their journeys</p>
+          <h3 className="text-2xl font-bold mb-2">{t('buyer.stories.title')}</h3>
+          <p className="text-blue-100">{t('buyer.stories.body')}</p>
         </Link>
       </div>
 
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Your Orders</h2>
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('buyer.yourOrders')}</h2>
         {orders.length === 0 ? (
           <div className="text-center py-8">
-            <p className="text-gray-600 mb-4">You haven't placed any orders yet.</p>
+            <p className="text-gray-600 mb-4">{t('buyer.noOrders')}</p>
             <Link
               to="/products"
               className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors inline-block"
             >
-              Start Shopping
+              {t('buyer.startShopping')}
             </Link>
           </div>
         ) : (
@@ -131,12 +180,17 @@ export default function BuyerDashboard() {
               <div key={order.id} className="border border-gray-200 rounded-lg p-4">
                 <div className="flex justify-between items-start mb-2">
                   <div>
-                    <p className="text-sm font-medium text-gray-900">Order #{order.id.slice(0, 8)}</p>
+                    <Link
+                      to={`/orders/${order.id}`}
+                      className="text-sm font-medium text-gray-900 hover:text-green-600"
+                    >
+                      {t('orders.number', { number: order.id.slice(0, 8) })}
+                    </Link>
                     <p className="text-xs text-gray-600">
-                      From: {(order.farmer as any)?.full_name || 'Farmer'}
+                      {t('orders.fromFarmer', { name: (order.farmer as any)?.full_name || t('role.farmer') })}
                     </p>
                     <p className="text-xs text-gray-600">
-                      {new Date(order.created_at).toLocaleDateString('en-IN', {
+                      {formatDate(order.created_at, {
                         year: 'numeric',
                         month: 'long',
                         day: 'numeric'
@@ -145,11 +199,18 @@ export default function BuyerDashboard() {
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-semibold text-gray-900">
-                      ₹{Number(order.total_amount).toLocaleString('en-IN')}
+                      ₹{formatNumber(order.total_amount)}
                     </p>
                     <StatusBadge status={order.status} />
                   </div>
                 </div>
+                {order.status === 'delivered' && (
+                  <OrderReviews
+                    order={order}
+                    reviews={reviews.filter(r => r.order_id === order.id)}
+                    onChange={loadOrders}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -157,28 +218,60 @@ export default function BuyerDashboard() {
       </div>
 
       <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-        <h3 className="text-green-800 font-semibold mb-2">Support Local Communities</h3>
+        <h3 className="text-green-800 font-semibold mb-2">{t('buyer.support.title')}</h3>
         <p className="text-green-700 text-sm">
-          Every purchase you make directly supports farmer entrepreneurs and their families,
-          contributing to rural economic development across India.
+          {t('buyer.support.body')}
         </p>
       </div>
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const statusColors: Record<string, string> = {
-    pending: 'bg-yellow-100 text-yellow-800',
-    confirmed: 'bg-blue-100 text-blue-800',
-    shipped: 'bg-purple-100 text-purple-800',
-    delivered: 'bg-green-100 text-green-800',
-    cancelled: 'bg-red-100 text-red-800',
-  };
+interface OrderReviewsProps {
+  order: Order;
+  reviews: BuyerReview[];
+  onChange: () => void;
+}
+
+function OrderReviews({ order, reviews, onChange }: OrderReviewsProps) {
+  const { t } = useLanguage();
+  const [editing, setEditing] = useState<string | null>(null);
 
   return (
-    <span className={`text-xs px-2 py-1 rounded-full ${statusColors[status] || 'bg-gray-100 text-gray-800'}`}>
-      {status}
-    </span>
+    <div className="border-t border-gray-100 mt-2 pt-2 space-y-2">
+      {order.order_items.map(item => {
+        const review = reviews.find(r => r.product_id === item.product_id);
+
+        return (
+          <div key={item.product_id}>
+            <div className="flex justify-between items-center text-sm">
+              <Link to={`/products/${item.product_id}`} className="text-gray-700 hover:text-green-600">
+                {item.product?.name || t('farmer.product')} × {item.quantity}
+              </Link>
+              {editing !== item.product_id && (
+                <button
+                  onClick={() => setEditing(item.product_id)}
+                  className="text-green-600 hover:text-green-700 font-medium text-xs"
+                >
+                  {review ? `${'★'.repeat(review.rating)} ${t('reviews.edit')}` : t('reviews.write')}
+                </button>
+              )}
+            </div>
+            {editing === item.product_id && (
+              <ReviewForm
+                productId={item.product_id}
+                orderId={order.id}
+                review={review}
+                onSaved={() => {
+                  setEditing(null);
+                  onChange();
+                }}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
   );
 }
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ResourceTranslation, findTranslation, resourceTranslationsSelect } from '../lib/translations';
+
+interface LearningResource {
+  id: string;
+  title_en: string;
+  category: string;
+  translations: ResourceTranslation[];
+}
+
+interface LearningItem {
+  resource: LearningResource;
+  bookmarked: boolean;
+  lastViewedAt: string | null;
+  completed: boolean;
+}
+
+const resourceSelect = `resource:resource_id (id, title_en, category, ${resourceTranslationsSelect})`;
+
+export default function ContinueLearning() {
+  const { user } = useAuth();
+  const { t, language, formatDate } = useLanguage();
+  const [items, setItems] = useState<LearningItem[]>([]);
+  const [completedCount, setCompletedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadLearning();
+    }
+  }, [user]);
+
+  const loadLearning = async () => {
+    try {
+      const [bookmarksRes, recentRes, completedRes] = await Promise.all([
+        supabase
+          .from('resource_bookmarks')
+          .select(`created_at, ${resourceSelect}`)
+          .eq('user_id', user!.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('resource_progress')
+          .select(`last_viewed_at, completed_at, ${resourceSelect}`)
+          .eq('user_id', user!.id)
+          .order('last_viewed_at', { ascending: false })
+          .limit(5),
+        supabase
+          .from('resource_progress')
+          .select('resource_id', { count: 'exact', head: true })
+          .eq('user_id', user!.id)
+          .not('completed_at', 'is', null),
+      ]);
+
+      if (bookmarksRes.error) throw bookmarksRes.error;
+      if (recentRes.error) throw recentRes.error;
+
+      // Unfinished guides first: recently opened ones, then saved ones not
+      // opened yet. Resources that were unpublished come back as null.
+      const byId = new Map<string, LearningItem>();
+      (recentRes.data as any[]).forEach(row => {
+        if (!row.resource) return;
+        byId.set(row.resource.id, {
+          resource: row.resource,
+          bookmarked: false,
+          lastViewedAt: row.last_viewed_at,
+          completed: Boolean(row.completed_at),
+        });
+      });
+      (bookmarksRes.data as any[]).forEach(row => {
+        if (!row.resource) return;
+        const existing = byId.get(row.resource.id);
+        byId.set(row.resource.id, existing
+          ? { ...existing, bookmarked: true }
+          : { resource: row.resource, bookmarked: true, lastViewedAt: null, completed: false });
+      });
+
+      setItems(Array.from(byId.values()).sort((a, b) => Number(a.completed) - Number(b.completed)));
+      setCompletedCount(completedRes.count || 0);
+    } catch (error) {
+      console.error('Error loading learning:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">{t('learning.title')}</h2>
+          <p className="text-sm text-gray-600">{t('learning.completedCount', { count: completedCount })}</p>
+        </div>
+        <Link
+          to="/resources"
+          className="text-green-600 hover:text-green-700 font-medium text-sm"
+        >
+          {t('learning.browse')} →
+        </Link>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-gray-600">{t('learning.empty')}</p>
+      ) : (
+        <ul className="divide-y">
+          {items.slice(0, 6).map(({ resource, bookmarked, lastViewedAt, completed }) => (
+            <li key={resource.id} className="flex justify-between items-center py-3">
+              <div className="min-w-0">
+                <Link
+                  to={`/resources?resource=${resource.id}`}
+                  className="font-medium text-gray-900 hover:text-green-700"
+                >
+                  {findTranslation(resource.translations, language)?.title || resource.title_en}
+                </Link>
+                <p className="text-xs text-gray-600">
+                  {resource.category}
+                  {lastViewedAt && ` · ${t('learning.lastViewed', { date: formatDate(lastViewedAt) })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0 ml-4 text-xs">
+                {bookmarked && <span title={t('resources.saved')}>🔖</span>}
+                <span className={`px-2 py-1 rounded-full ${
+                  completed ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {completed
+                    ? t('resources.completed')
+                    : lastViewedAt ? t('learning.inProgress') : t('learning.notStarted')}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,11 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useOffline } from '../contexts/OfflineContext';
+import { replayWrite, stockWrite } from '../lib/offlineQueue';
 import { Link } from 'react-router-dom';
+import StatusBadge from './StatusBadge';
+import ContinueLearning from './ContinueLearning';
 
 interface Product {
   id: string;
@@ -20,11 +24,20 @@ interface Order {
   created_at: string;
 }
 
+interface OrderTotals {
+  count: number;
+  collected: number;
+  outstanding: number;
+}
+
 export default function FarmerDashboard() {
-  const { user } = useAuth();
-  const { t } = useLanguage();
+  const { user, profile } = useAuth();
+  const { t, formatNumber, formatDate } = useLanguage();
+  const { online, writes, queueWrite } = useOffline();
   const [products, setProducts] = useState<Product[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [reserved, setReserved] = useState<Record<string, number>>({});
+  const [totals, setTotals] = useState<OrderTotals>({ count: 0, collected: 0, outstanding: 0 });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -35,7 +48,7 @@ export default function FarmerDashboard() {
 
   const loadData = async () => {
     try {
-      const [productsRes, ordersRes] = await Promise.all([
+      const [productsRes, ordersRes, reservedRes, totalsRes] = await Promise.all([
         supabase
           .from('products')
           .select('id, name, price, stock_quantity, low_stock_threshold, is_active')
@@ -47,10 +60,37 @@ export default function FarmerDashboard() {
           .eq('farmer_id', user!.id)
           .order('created_at', { ascending: false })
           .limit(5),
+        supabase
+          .from('order_items')
+          .select('product_id, quantity, order:order_id!inner (farmer_id, status)')
+          .eq('order.farmer_id', user!.id)
+          .in('order.status', ['pending', 'confirmed']),
+        supabase
+          .from('orders')
+          .select('total_amount, payment_status')
+          .eq('farmer_id', user!.id)
+          .neq('status', 'cancelled'),
       ]);
 
       if (productsRes.data) setProducts(productsRes.data);
       if (ordersRes.data) setOrders(ordersRes.data);
+      if (reservedRes.data) {
+        const totals: Record<string, number> = {};
+        reservedRes.data.forEach(item => {
+          totals[item.product_id] = (totals[item.product_id] || 0) + item.quantity;
+        });
+        setReserved(totals);
+      }
+      if (totalsRes.data) {
+        setTotals(totalsRes.data.reduce((sum, order) => {
+          const amount = Number(order.total_amount);
+          return {
+            count: sum.count + 1,
+            collected: sum.collected + (order.payment_status === 'completed' ? amount : 0),
+            outstanding: sum.outstanding + (order.payment_status === 'completed' ? 0 : amount),
+          };
+        }, { count: 0, collected: 0, outstanding: 0 }));
+      }
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -58,19 +98,41 @@ export default function FarmerDashboard() {
     }
   };
 
+  const queuedStock = new Set(
+    writes.flatMap(w => (w.kind === 'stock' && !w.conflict ? [w.productId] : []))
+  );
+
+  // Stock edits go through the offline queue's conflict check even when
+  // online: orders placed since the dashboard loaded also move the stock.
+  const saveStock = async (product: Product, stock: number) => {
+    const write = stockWrite(user!.id, product, product.stock_quantity, stock);
+    setProducts(current => current.map(p => (p.id === product.id ? { ...p, stock_quantity: stock } : p)));
+
+    if (!online || queuedStock.has(product.id)) {
+      queueWrite(write);
+      return;
+    }
+
+    const result = await replayWrite(write);
+    if (result.status === 'offline') {
+      queueWrite(write);
+    } else if (result.status === 'conflict') {
+      queueWrite({ ...write, conflict: result.conflict });
+    }
+  };
+
   if (loading) return <p>{t('loading')}</p>;
 
   const lowStockProducts = products.filter(p => p.stock_quantity <= p.low_stock_threshold);
   const activeProducts = products.filter(p => p.is_active).length;
-  const totalRevenue = orders.reduce((sum, order) => sum + Number(order.total_amount), 0);
 
   return (
     <div className="space-y-8">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Active Products</p>
+              <p className="text-sm text-gray-600 mb-1">{t('farmer.activeProducts')}</p>
               <p className="text-2xl font-bold text-gray-800">{activeProducts}</p>
             </div>
             <div className="w-12 h-12 rounded-full bg-green-100 text-green-800 flex items-center justify-center text-2xl">
@@ -82,8 +144,8 @@ export default function FarmerDashboard() {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Total Orders</p>
-              <p className="text-2xl font-bold text-gray-800">{orders.length}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('farmer.totalOrders')}</p>
+              <p className="text-2xl font-bold text-gray-800">{totals.count}</p>
             </div>
             <div className="w-12 h-12 rounded-full bg-blue-100 text-blue-800 flex items-center justify-center text-2xl">
               📋
@@ -94,26 +156,46 @@ export default function FarmerDashboard() {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 mb-1">Total Revenue</p>
-              <p className="text-2xl font-bold text-gray-800">₹{totalRevenue.toLocaleString('en-IN')}</p>
+              <p className="text-sm text-gray-600 mb-1">{t('payment.collected')}</p>
+              <p className="text-2xl font-bold text-gray-800">₹{formatNumber(totals.collected)}</p>
             </div>
             <div className="w-12 h-12 rounded-full bg-yellow-100 text-yellow-800 flex items-center justify-center text-2xl">
               💰
             </div>
           </div>
         </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 mb-1">{t('payment.outstanding')}</p>
+              <p className="text-2xl font-bold text-gray-800">₹{formatNumber(totals.outstanding)}</p>
+            </div>
+            <div className="w-12 h-12 rounded-full bg-orange-100 text-orange-800 flex items-center justify-center text-2xl">
+              ⏳
+            </div>
+          </div>
+        </div>
       </div>
 
+      {profile && (
+        <PaymentOptions
+          acceptsCod={profile.accepts_cod}
+          acceptsOnline={profile.accepts_online}
+        />
+      )}
+
       {lowStockProducts.length > 0 && (
         <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
-          <h3 className="text-orange-800 font-semibold mb-2">Low Stock Alert</h3>
+          <h3 className="text-orange-800 font-semibold mb-2">{t('farmer.lowStock.title')}</h3>
           <p className="text-orange-700 text-sm mb-2">
-            The following products are running low on stock:
+            {t('farmer.lowStock.body')}
           </p>
           <ul className="list-disc list-inside text-orange-700 text-sm">
             {lowStockProducts.map(product => (
               <li key={product.id}>
-                {product.name} - {product.stock_quantity} units remaining
+                {t('farmer.lowStock.available', { name: product.name, count: product.stock_quantity })}
+                {reserved[product.id] > 0 && t('farmer.lowStock.reserved', { count: reserved[product.id] })}
               </li>
             ))}
           </ul>
@@ -122,7 +204,7 @@ export default function FarmerDashboard() {
 
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-semibold text-gray-800">Your Products</h2>
+          <h2 className="text-xl font-semibold text-gray-800">{t('farmer.yourProducts')}</h2>
           <Link
             to="/products/new"
             className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm"
@@ -132,16 +214,17 @@ export default function FarmerDashboard() {
         </div>
 
         {products.length === 0 ? (
-          <p className="text-gray-600">No products yet. Start by adding your first product!</p>
+          <p className="text-gray-600">{t('farmer.noProducts')}</p>
         ) : (
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead>
                 <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Price</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('farmer.product')}</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('products.price')}</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('products.stock')}</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('orders.status')}</th>
+                  <th className="px-4 py-3"></th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
@@ -149,14 +232,28 @@ export default function FarmerDashboard() {
                   <tr key={product.id}>
                     <td className="px-4 py-3 text-sm text-gray-900">{product.name}</td>
                     <td className="px-4 py-3 text-sm text-gray-900">₹{product.price}</td>
-                    <td className="px-4 py-3 text-sm text-gray-900">{product.stock_quantity}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <StockEditor
+                        stock={product.stock_quantity}
+                        queued={queuedStock.has(product.id)}
+                        onSave={(stock) => saveStock(product, stock)}
+                      />
+                    </td>
                     <td className="px-4 py-3 text-sm">
                       <span className={`px-2 py-1 rounded-full text-xs ${
                         product.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
                       }`}>
-                        {product.is_active ? 'Active' : 'Inactive'}
+                        {product.is_active ? t('products.status.active') : t('products.status.inactive')}
                       </span>
                     </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <Link
+                        to={`/products/${product.id}/edit`}
+                        className="text-green-600 hover:text-green-700 font-medium"
+                      >
+                        {t('edit')}
+                      </Link>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -166,28 +263,135 @@ export default function FarmerDashboard() {
       </div>
 
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Recent Orders</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('farmer.recentOrders')}</h2>
+          <Link
+            to="/farmer/orders"
+            className="text-green-600 hover:text-green-700 font-medium text-sm"
+          >
+            {t('orders.manage')} →
+          </Link>
+        </div>
         {orders.length === 0 ? (
-          <p className="text-gray-600">No orders yet.</p>
+          <p className="text-gray-600">{t('orders.none')}</p>
         ) : (
           <div className="space-y-3">
             {orders.map(order => (
               <div key={order.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
                 <div>
-                  <p className="text-sm font-medium text-gray-900">Order #{order.id.slice(0, 8)}</p>
-                  <p className="text-xs text-gray-600">{new Date(order.created_at).toLocaleDateString()}</p>
+                  <p className="text-sm font-medium text-gray-900">{t('orders.number', { number: order.id.slice(0, 8) })}</p>
+                  <p className="text-xs text-gray-600">{formatDate(order.created_at)}</p>
                 </div>
                 <div className="text-right">
-                  <p className="text-sm font-semibold text-gray-900">₹{Number(order.total_amount).toLocaleString('en-IN')}</p>
-                  <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
-                    {order.status}
-                  </span>
+                  <p className="text-sm font-semibold text-gray-900">₹{formatNumber(order.total_amount)}</p>
+                  <StatusBadge status={order.status} />
                 </div>
               </div>
             ))}
           </div>
         )}
       </div>
+
+      <ContinueLearning />
+    </div>
+  );
+}
+
+function StockEditor({ stock, queued, onSave }: { stock: number; queued: boolean; onSave: (stock: number) => void }) {
+  const { t } = useLanguage();
+  const [value, setValue] = useState(String(stock));
+
+  useEffect(() => {
+    setValue(String(stock));
+  }, [stock]);
+
+  const parsed = Number(value);
+  const changed = value !== '' && Number.isInteger(parsed) && parsed >= 0 && parsed !== stock;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changed) onSave(parsed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="number"
+        min={0}
+        step={1}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        aria-label={t('products.stock')}
+        className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+      />
+      {changed && (
+        <button type="submit" className="text-green-600 hover:text-green-700 font-medium">
+          {t('save')}
+        </button>
+      )}
+      {queued && <span title={t('offline.queued')}>⏳</span>}
+    </form>
+  );
+}
+
+function PaymentOptions({ acceptsCod, acceptsOnline }: { acceptsCod: boolean; acceptsOnline: boolean }) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [options, setOptions] = useState({ accepts_cod: acceptsCod, accepts_online: acceptsOnline });
+  const [error, setError] = useState('');
+
+  const toggle = async (key: 'accepts_cod' | 'accepts_online') => {
+    const next = { ...options, [key]: !options[key] };
+    if (!next.accepts_cod && !next.accepts_online) {
+      setError(t('payment.keepOne'));
+      return;
+    }
+
+    setError('');
+    setOptions(next);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update(next)
+      .eq('id', user!.id);
+
+    if (error) {
+      setOptions(options);
+      setError(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-2">{t('payment.options')}</h2>
+      <p className="text-sm text-gray-600 mb-4">{t('payment.optionsHint')}</p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-6">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.accepts_online}
+            onChange={() => toggle('accepts_online')}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+          />
+          {t('payment.online')}
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.accepts_cod}
+            onChange={() => toggle('accepts_cod')}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+          />
+          {t('payment.cod')}
+        </label>
+      </div>
     </div>
   );
 }
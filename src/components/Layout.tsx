@@ -2,6 +2,10 @@ import { ReactNode } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { languages, isLanguage } from '../locales';
+import { useCart } from '../contexts/CartContext';
+import { useUnreadMessages } from '../contexts/UnreadMessagesContext';
+import OfflineBanner from './OfflineBanner';
 
 interface LayoutProps {
   children: ReactNode;
@@ -10,6 +14,8 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const { profile, signOut } = useAuth();
   const { t, language, setLanguage } = useLanguage();
+  const { itemCount } = useCart();
+  const { unreadCount } = useUnreadMessages();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -52,18 +58,44 @@ export default function Layout({ children }: LayoutProps) {
                     className="text-gray-700 hover:text-green-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
                   >
                     {t('nav.messages')}
+                    {unreadCount > 0 && (
+                      <span
+                        title={t('messages.unread', { count: unreadCount })}
+                        className="ml-1 bg-green-600 text-white text-xs px-2 py-0.5 rounded-full"
+                      >
+                        {unreadCount}
+                      </span>
+                    )}
                   </Link>
                 </div>
               )}
             </div>
 
             <div className="flex items-center space-x-4">
-              <button
-                onClick={() => setLanguage(language === 'en' ? 'hi' : 'en')}
-                className="text-sm text-gray-600 hover:text-green-600 font-medium transition-colors"
+              {profile?.role !== 'farmer' && profile?.role !== 'admin' && (
+                <Link
+                  to="/cart"
+                  className="relative text-sm text-gray-700 hover:text-green-600 font-medium transition-colors"
+                >
+                  🛒 {t('nav.cart')}
+                  {itemCount > 0 && (
+                    <span className="ml-1 bg-green-600 text-white text-xs px-2 py-0.5 rounded-full">
+                      {itemCount}
+                    </span>
+                  )}
+                </Link>
+              )}
+
+              <select
+                value={language}
+                onChange={(e) => isLanguage(e.target.value) && setLanguage(e.target.value)}
+                aria-label={t('nav.language')}
+                className="text-sm text-gray-600 hover:text-green-600 font-medium bg-transparent border-none focus:ring-0 cursor-pointer"
               >
-                {language === 'en' ? 'हिंदी' : 'English'}
-              </button>
+                {languages.map(l => (
+                  <option key={l.code} value={l.code}>{l.name}</option>
+                ))}
+              </select>
 
               {profile ? (
                 <div className="flex items-center space-x-4">
@@ -90,6 +122,8 @@ export default function Layout({ children }: LayoutProps) {
         </div>
       </nav>
 
+      <OfflineBanner />
+
       <main>{children}</main>
     </div>
   );
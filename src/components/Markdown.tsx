@@ -0,0 +1,80 @@
+import { Fragment } from 'react';
+import { parseInline, parseMarkdown } from '../lib/markdown';
+
+const headingClasses = {
+  1: 'text-2xl font-bold text-gray-800 mt-6 mb-3',
+  2: 'text-xl font-semibold text-gray-800 mt-5 mb-2',
+  3: 'text-lg font-semibold text-gray-800 mt-4 mb-2',
+};
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((part, index) => {
+        switch (part.type) {
+          case 'strong':
+            return <strong key={index}>{part.text}</strong>;
+          case 'em':
+            return <em key={index}>{part.text}</em>;
+          case 'code':
+            return <code key={index} className="bg-gray-100 rounded px-1 text-sm">{part.text}</code>;
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={part.href}
+                target={part.href.startsWith('/') ? undefined : '_blank'}
+                rel="noopener noreferrer"
+                className="text-green-600 hover:text-green-700 underline"
+              >
+                {part.text}
+              </a>
+            );
+          default:
+            return <Fragment key={index}>{part.text}</Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+export default function Markdown({ source }: { source: string }) {
+  return (
+    <div className="text-gray-700 space-y-3">
+      {parseMarkdown(source).map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Tag = `h${block.level + 1}` as 'h2' | 'h3' | 'h4';
+            return <Tag key={index} className={headingClasses[block.level]}><Inline text={block.text} /></Tag>;
+          }
+          case 'list': {
+            const Tag = block.ordered ? 'ol' : 'ul';
+            return (
+              <Tag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline text={item} /></li>
+                ))}
+              </Tag>
+            );
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-4 border-green-200 pl-4 italic whitespace-pre-line">
+                <Inline text={block.text} />
+              </blockquote>
+            );
+          case 'code':
+            return (
+              <pre key={index} className="bg-gray-100 rounded-lg p-4 text-sm overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'rule':
+            return <hr key={index} className="border-gray-200" />;
+          default:
+            return <p key={index} className="whitespace-pre-line"><Inline text={block.text} /></p>;
+        }
+      })}
+    </div>
+  );
+}
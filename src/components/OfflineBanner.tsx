@@ -0,0 +1,74 @@
+import { useOffline } from '../contexts/OfflineContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { QueuedWrite } from '../lib/offlineQueue';
+
+export default function OfflineBanner() {
+  const { online, syncing, writes, resolveConflict } = useOffline();
+  const { t } = useLanguage();
+
+  const pending = writes.filter(w => !w.conflict).length;
+  const conflicts = writes.filter(w => w.conflict);
+
+  if (online && pending === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4 space-y-2">
+      {!online ? (
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded text-sm" role="status">
+          {t('offline.banner')}
+          {pending > 0 && ` ${t('offline.pending', { count: pending })}`}
+        </div>
+      ) : pending > 0 && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded text-sm" role="status">
+          {syncing ? t('offline.syncing') : t('offline.pending', { count: pending })}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+          <p className="font-medium mb-2">{t('offline.conflicts')}</p>
+          <ul className="space-y-2">
+            {conflicts.map(write => (
+              <li key={write.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span>{conflictText(write, t)}</span>
+                <span className="flex gap-2">
+                  <button
+                    onClick={() => resolveConflict(write.id, 'retry')}
+                    className="bg-white border border-red-300 px-3 py-1 rounded hover:bg-red-100 font-medium"
+                  >
+                    {write.kind === 'stock' && write.conflict?.currentStock !== undefined
+                      ? t('offline.keepMine', { stock: write.stock })
+                      : t('offline.retry')}
+                  </button>
+                  <button
+                    onClick={() => resolveConflict(write.id, 'discard')}
+                    className="px-3 py-1 rounded hover:bg-red-100 font-medium"
+                  >
+                    {write.kind === 'stock' && write.conflict?.currentStock !== undefined
+                      ? t('offline.keepServer', { stock: write.conflict.currentStock })
+                      : t('offline.discard')}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function conflictText(write: QueuedWrite, t: (key: string, params?: Record<string, string | number>) => string) {
+  const conflict = write.conflict!;
+  if (write.kind === 'stock') {
+    if (conflict.currentStock !== undefined) {
+      return t('offline.stockConflict', { name: write.productName, mine: write.stock, current: conflict.currentStock });
+    }
+    const reason = conflict.missing ? t('offline.productMissing') : conflict.error || t('errors.unexpected');
+    return t('offline.stockFailed', { name: write.productName, reason });
+  }
+  return t('offline.messageFailed', {
+    name: write.receiverName || t('messages.unknownUser'),
+    reason: conflict.error || t('errors.unexpected'),
+  });
+}
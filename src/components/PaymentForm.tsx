@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { payForOrders, PaymentMethod } from '../lib/payments';
+
+interface PaymentFormProps {
+  orderIds: string[];
+  amount: number;
+  onPaid: () => void;
+}
+
+export default function PaymentForm({ orderIds, amount, onPaid }: PaymentFormProps) {
+  const { t, formatNumber } = useLanguage();
+  const [method, setMethod] = useState<PaymentMethod>('upi');
+  const [upiId, setUpiId] = useState('');
+  const [cardNumber, setCardNumber] = useState('');
+  const [error, setError] = useState('');
+  const [paying, setPaying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (method === 'upi' && !/^[\w.-]+@[\w.-]+$/.test(upiId.trim())) {
+      setError(t('payment.invalidUpi'));
+      return;
+    }
+    if (method === 'card' && !/^\d{16}$/.test(cardNumber.replace(/\s/g, ''))) {
+      setError(t('payment.invalidCard'));
+      return;
+    }
+
+    setPaying(true);
+
+    try {
+      const result = await payForOrders(
+        orderIds,
+        method,
+        method === 'upi' ? { upi_id: upiId.trim() } : { card_number: cardNumber },
+      );
+
+      if (result === 'completed') {
+        onPaid();
+      } else if (result === 'failed') {
+        setError(t('payment.declined'));
+      } else {
+        setError(t('payment.processing'));
+      }
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">
+        {t('payment.title')} · ₹{formatNumber(amount)}
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-6 mb-4">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={method === 'upi'}
+            onChange={() => setMethod('upi')}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 mr-2"
+          />
+          UPI
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={method === 'card'}
+            onChange={() => setMethod('card')}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 mr-2"
+          />
+          {t('payment.card')}
+        </label>
+      </div>
+
+      {method === 'upi' ? (
+        <input
+          type="text"
+          placeholder="name@bank"
+          value={upiId}
+          onChange={(e) => setUpiId(e.target.value)}
+          className={inputClass}
+        />
+      ) : (
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="4111 1111 1111 1111"
+          value={cardNumber}
+          onChange={(e) => setCardNumber(e.target.value)}
+          className={inputClass}
+        />
+      )}
+
+      <button
+        type="submit"
+        disabled={paying}
+        className="w-full mt-4 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+      >
+        {paying ? t('loading') : t('payment.pay')}
+      </button>
+    </form>
+  );
+}
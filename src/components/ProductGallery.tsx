@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import ProductImage from './ProductImage';
+
+export default function ProductGallery({ images, alt }: { images: string[]; alt: string }) {
+  const [selected, setSelected] = useState(0);
+  const current = images[Math.min(selected, images.length - 1)];
+
+  return (
+    <div>
+      <ProductImage src={current} alt={alt} className="w-full h-80 rounded-lg" />
+
+      {images.length > 1 && (
+        <div className="flex gap-2 mt-3 overflow-x-auto">
+          {images.map((url, index) => (
+            <button
+              key={url}
+              onClick={() => setSelected(index)}
+              className={`flex-shrink-0 rounded-lg overflow-hidden border-2 ${
+                index === selected ? 'border-green-600' : 'border-transparent'
+              }`}
+            >
+              <ProductImage src={url} alt={`${alt} ${index + 1}`} className="w-16 h-16" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+
+interface ProductImageProps {
+  src?: string;
+  alt: string;
+  className?: string;
+}
+
+export default function ProductImage({ src, alt, className = '' }: ProductImageProps) {
+  const [failed, setFailed] = useState(false);
+
+  // The same element is reused when the list or gallery shows another image.
+  useEffect(() => setFailed(false), [src]);
+
+  if (!src || failed) {
+    return (
+      <div className={`bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center ${className}`}>
+        <span className="text-6xl">🌾</span>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={`object-cover ${className}`}
+    />
+  );
+}
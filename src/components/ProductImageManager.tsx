@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { deleteProductImages, uploadProductImage } from '../lib/productImages';
+
+const MAX_IMAGES = 8;
+
+interface ProductImageManagerProps {
+  farmerId: string;
+  productId: string;
+  images: string[];
+  onChange: (images: string[]) => void;
+}
+
+export default function ProductImageManager({ farmerId, productId, images, onChange }: ProductImageManagerProps) {
+  const { t } = useLanguage();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError('');
+
+    const selected = Array.from(files).slice(0, MAX_IMAGES - images.length);
+    if (selected.length < files.length) {
+      setError(t('photos.limit', { count: MAX_IMAGES }));
+    }
+
+    setUploading(true);
+    const uploaded: string[] = [];
+    try {
+      for (const file of selected) {
+        if (!file.type.startsWith('image/')) continue;
+        uploaded.push(await uploadProductImage(farmerId, productId, file));
+      }
+      onChange([...images, ...uploaded]);
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      // The batch is not added to the product, so nothing would point at
+      // the files that did upload.
+      deleteProductImages(uploaded).catch(cleanupError => {
+        console.error('Error removing uploaded images:', cleanupError);
+      });
+      setError(err?.message || t('photos.uploadFailed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= images.length) return;
+    const next = [...images];
+    const [image] = next.splice(from, 1);
+    next.splice(to, 0, image);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {images.map((url, index) => (
+          <div key={url} className="relative border border-gray-200 rounded-lg overflow-hidden">
+            <img src={url} alt={t('photos.alt', { number: index + 1 })} loading="lazy" className="w-full h-28 object-cover" />
+            {index === 0 && (
+              <span className="absolute top-1 left-1 text-xs bg-green-600 text-white px-2 py-0.5 rounded">
+                {t('photos.cover')}
+              </span>
+            )}
+            <div className="flex justify-between items-center bg-gray-50 px-2 py-1 text-xs">
+              <div className="flex gap-2">
+                <button type="button" onClick={() => move(index, index - 1)} disabled={index === 0} className="disabled:opacity-30">
+                  ←
+                </button>
+                <button type="button" onClick={() => move(index, index + 1)} disabled={index === images.length - 1} className="disabled:opacity-30">
+                  →
+                </button>
+              </div>
+              {index !== 0 && (
+                <button type="button" onClick={() => move(index, 0)} className="text-green-600 hover:text-green-700">
+                  {t('photos.setCover')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(images.filter(image => image !== url))}
+                className="text-red-600 hover:text-red-700"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {images.length < MAX_IMAGES && (
+          <label className="flex flex-col items-center justify-center h-28 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-green-500 text-sm text-gray-600">
+            {uploading ? t('photos.uploading') : t('photos.add')}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={uploading}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
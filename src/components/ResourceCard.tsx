@@ -0,0 +1,134 @@
+import { useLanguage } from '../contexts/LanguageContext';
+import { findTranslation } from '../lib/translations';
+import { markdownToText } from '../lib/markdown';
+import { Resource } from '../lib/resources';
+import Markdown from './Markdown';
+
+// Only passed for signed-in readers; the editor preview leaves it out.
+interface ResourceLearning {
+  bookmarked: boolean;
+  completed: boolean;
+  onToggleBookmark: () => void;
+  onToggleCompleted: () => void;
+}
+
+interface ResourceCardProps {
+  resource: Resource;
+  language: string;
+  isExpanded: boolean;
+  onToggle: () => void;
+  learning?: ResourceLearning;
+  onTagClick?: (tag: string) => void;
+}
+
+export default function ResourceCard({ resource, language, isExpanded, onToggle, learning, onTagClick }: ResourceCardProps) {
+  const { t, formatDate } = useLanguage();
+  const translation = findTranslation(resource.translations, language);
+  const title = translation?.title || resource.title_en;
+  const content = translation?.content || resource.content_en;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {resource.image_url && (
+        <img
+          src={resource.image_url}
+          alt=""
+          className={`w-full object-cover ${isExpanded ? 'h-64' : 'h-40'}`}
+        />
+      )}
+      <div className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">
+              {title}
+              {learning?.completed && (
+                <span className="ml-2 align-middle text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                  ✓ {t('resources.completed')}
+                </span>
+              )}
+            </h3>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full">
+                {resource.category}
+              </span>
+              <span className="flex items-center gap-1">
+                👁️ {t('resources.views', { count: resource.view_count })}
+              </span>
+              <span>
+                {formatDate(resource.published_at || resource.created_at, {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
+                })}
+              </span>
+            </div>
+            {resource.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {resource.tags.map(tag => onTagClick ? (
+                  <button
+                    key={tag}
+                    onClick={() => onTagClick(tag)}
+                    className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded hover:bg-green-100 hover:text-green-700"
+                  >
+                    #{tag}
+                  </button>
+                ) : (
+                  <span key={tag} className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {learning && (
+            <button
+              onClick={learning.onToggleBookmark}
+              aria-pressed={learning.bookmarked}
+              title={learning.bookmarked ? t('resources.unsave') : t('resources.save')}
+              className={`ml-4 text-2xl leading-none ${learning.bookmarked ? 'opacity-100' : 'opacity-40 hover:opacity-70'}`}
+            >
+              🔖
+              <span className="sr-only">{learning.bookmarked ? t('resources.unsave') : t('resources.save')}</span>
+            </button>
+          )}
+        </div>
+
+        {isExpanded ? (
+          <div className="max-w-none">
+            <Markdown source={content} />
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <button
+                onClick={onToggle}
+                className="text-green-600 hover:text-green-700 font-medium text-sm"
+              >
+                {t('resources.showLess')}
+              </button>
+              {learning && (
+                <button
+                  onClick={learning.onToggleCompleted}
+                  className={`py-1 px-3 rounded-lg text-sm font-medium transition-colors ${
+                    learning.completed
+                      ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      : 'bg-green-600 text-white hover:bg-green-700'
+                  }`}
+                >
+                  {learning.completed ? t('resources.markIncomplete') : t('resources.markComplete')}
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div>
+            <p className="text-gray-700 line-clamp-2">{markdownToText(content)}</p>
+            <button
+              onClick={onToggle}
+              className="mt-2 text-green-600 hover:text-green-700 font-medium text-sm"
+            >
+              {t('resources.readMore')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
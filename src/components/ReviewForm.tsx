@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export interface ExistingReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+}
+
+interface ReviewFormProps {
+  productId: string;
+  orderId: string;
+  review?: ExistingReview;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+export default function ReviewForm({ productId, orderId, review, onSaved, onCancel }: ReviewFormProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [rating, setRating] = useState(review?.rating || 0);
+  const [comment, setComment] = useState(review?.comment || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (rating < 1 || rating > 5) {
+      setError(t('reviews.ratingRequired'));
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = review
+        ? await supabase
+            .from('reviews')
+            .update({ rating, comment: comment.trim() || null })
+            .eq('id', review.id)
+        : await supabase
+            .from('reviews')
+            .insert({
+              product_id: productId,
+              buyer_id: user!.id,
+              order_id: orderId,
+              rating,
+              comment: comment.trim() || null,
+            });
+
+      if (error) throw error;
+      onSaved();
+    } catch (err: any) {
+      console.error('Error saving review:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-1" role="radiogroup" aria-label={t('reviews.rating')}>
+        {[1, 2, 3, 4, 5].map(value => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            onClick={() => setRating(value)}
+            className={`text-2xl ${value <= rating ? 'text-yellow-500' : 'text-gray-300'} hover:text-yellow-400`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={3}
+        placeholder={t('reviews.placeholder')}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+      />
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-green-600 text-white px-4 py-1 rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? t('loading') : t('save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-100 text-gray-700 px-4 py-1 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+        >
+          {t('cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,18 @@
+import { useLanguage } from '../contexts/LanguageContext';
+
+export default function StatusBadge({ status }: { status: string }) {
+  const { t } = useLanguage();
+  const statusColors: Record<string, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    confirmed: 'bg-blue-100 text-blue-800',
+    shipped: 'bg-purple-100 text-purple-800',
+    delivered: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
+
+  return (
+    <span className={`text-xs px-2 py-1 rounded-full ${statusColors[status] || 'bg-gray-100 text-gray-800'}`}>
+      {t(`status.${status}`)}
+    </span>
+  );
+}
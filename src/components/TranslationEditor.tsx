@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useLanguage } from '../contexts/LanguageContext';
+import { languages } from '../locales';
+
+export interface TranslationField {
+  name: string;
+  label: string;
+  multiline?: boolean;
+}
+
+interface TranslationEditorProps {
+  table: 'product_translations' | 'product_category_translations' | 'resource_translations';
+  parentColumn: 'product_id' | 'category_id' | 'resource_id';
+  parentId: string;
+  fields: TranslationField[];
+}
+
+type TranslationRow = { language: string } & Record<string, string>;
+
+interface Draft {
+  language: string;
+  values: Record<string, string>;
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+// Lists, adds, edits and removes the non-English versions of one row. English
+// is edited on the row itself and is what readers see for missing languages.
+export default function TranslationEditor({ table, parentColumn, parentId, fields }: TranslationEditorProps) {
+  const { t } = useLanguage();
+  const [rows, setRows] = useState<TranslationRow[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(null);
+    setLoading(true);
+    loadTranslations();
+  }, [table, parentId]);
+
+  const loadTranslations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from(table)
+        .select(['language', ...fields.map(field => field.name)].join(', '))
+        .eq(parentColumn, parentId);
+
+      if (error) throw error;
+      setRows((data as unknown as TranslationRow[]) || []);
+    } catch (error) {
+      console.error('Error loading translations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const languageName = (code: string) => languages.find(l => l.code === code)?.name || code;
+
+  const available = languages.filter(
+    l => l.code !== 'en' && !rows.some(row => row.language === l.code)
+  );
+
+  const startNew = (language: string) => {
+    if (!language) return;
+    setError('');
+    setDraft({
+      language,
+      values: Object.fromEntries(fields.map(field => [field.name, ''])),
+    });
+  };
+
+  const startEdit = (row: TranslationRow) => {
+    setError('');
+    setDraft({
+      language: row.language,
+      values: Object.fromEntries(fields.map(field => [field.name, row[field.name] || ''])),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (fields.some(field => !draft.values[field.name].trim())) {
+      setError(t('translations.required'));
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const values = Object.fromEntries(
+        Object.entries(draft.values).map(([name, value]) => [name, value.trim()])
+      );
+      const { error } = await supabase
+        .from(table)
+        .upsert(
+          {
+            [parentColumn]: parentId,
+            language: draft.language,
+            ...values,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: `${parentColumn},language` }
+        );
+
+      if (error) throw error;
+      setRows(current => [
+        ...current.filter(row => row.language !== draft.language),
+        { language: draft.language, ...values },
+      ]);
+      setDraft(null);
+    } catch (err: any) {
+      console.error('Error saving translation:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (language: string) => {
+    if (!confirm(t('translations.confirmRemove', { language: languageName(language) }))) return;
+
+    try {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq(parentColumn, parentId)
+        .eq('language', language);
+
+      if (error) throw error;
+      setRows(current => current.filter(row => row.language !== language));
+      if (draft?.language === language) setDraft(null);
+    } catch (err: any) {
+      console.error('Error removing translation:', err);
+      setError(err?.message || t('errors.unexpected'));
+    }
+  };
+
+  if (loading) return <p className="text-sm text-gray-600">{t('loading')}</p>;
+
+  const sortedRows = languages
+    .map(l => rows.find(row => row.language === l.code))
+    .filter((row): row is TranslationRow => Boolean(row));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">{t('translations.hint')}</p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {sortedRows.length === 0 && !draft && (
+        <p className="text-sm text-gray-600">{t('translations.none')}</p>
+      )}
+
+      {sortedRows.length > 0 && (
+        <ul className="divide-y border rounded-lg">
+          {sortedRows.map(row => (
+            <li key={row.language} className="flex items-center justify-between gap-4 px-4 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800">{languageName(row.language)}</p>
+                <p className="text-xs text-gray-600 truncate">{row[fields[0].name]}</p>
+              </div>
+              <div className="flex gap-3 text-sm shrink-0">
+                <button
+                  type="button"
+                  onClick={() => startEdit(row)}
+                  className="text-green-600 hover:text-green-700 font-medium"
+                >
+                  {t('edit')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(row.language)}
+                  className="text-red-600 hover:text-red-700 font-medium"
+                >
+                  {t('delete')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="border border-green-200 bg-green-50 rounded-lg p-4 space-y-3">
+          <p className="text-sm font-medium text-gray-800">{languageName(draft.language)}</p>
+          {fields.map(field => (
+            <div key={field.name}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              {field.multiline ? (
+                <textarea
+                  value={draft.values[field.name]}
+                  onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [field.name]: e.target.value } })}
+                  rows={4}
+                  lang={draft.language}
+                  className={inputClass}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={draft.values[field.name]}
+                  onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [field.name]: e.target.value } })}
+                  lang={draft.language}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {saving ? t('loading') : t('save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+            >
+              {t('cancel')}
+            </button>
+          </div>
+        </div>
+      ) : available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => startNew(e.target.value)}
+          aria-label={t('translations.add')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          <option value="">{t('translations.add')}</option>
+          {available.map(l => (
+            <option key={l.code} value={l.code}>{l.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { MAX_VOICE_NOTE_SECONDS } from '../lib/messageAttachments';
+
+interface VoiceRecorderProps {
+  disabled?: boolean;
+  onRecorded: (recording: Blob, durationSeconds: number) => void;
+  onError: (message: string) => void;
+}
+
+export default function VoiceRecorder({ disabled, onRecorded, onError }: VoiceRecorderProps) {
+  const { t } = useLanguage();
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(Math.floor(seconds));
+      if (seconds >= MAX_VOICE_NOTE_SECONDS) stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Release the microphone if the user navigates away mid-recording.
+  useEffect(() => () => recorderRef.current?.stream.getTracks().forEach(track => track.stop()), []);
+
+  const start = async () => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      onError(t('voice.unsupported'));
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        const blob = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+        if (blob.size > 0) onRecorded(blob, Math.min(duration, MAX_VOICE_NOTE_SECONDS));
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      recorder.start();
+      setRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      onError(t('voice.noMicrophone'));
+    }
+  };
+
+  const stop = () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    setRecording(false);
+  };
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return recording ? (
+    <button
+      type="button"
+      onClick={stop}
+      className="flex items-center gap-2 bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition-colors text-sm"
+    >
+      <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+      {formatTime(elapsed)} / {formatTime(MAX_VOICE_NOTE_SECONDS)}
+    </button>
+  ) : (
+    <button
+      type="button"
+      onClick={start}
+      disabled={disabled}
+      title={t('voice.record')}
+      className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+    >
+      🎤
+    </button>
+  );
+}
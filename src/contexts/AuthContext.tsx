@@ -1,11 +1,14 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, AuthError } from '@supabase/supabase-js';
 import { supabase, UserProfile } from '../lib/supabase';
+import { clearOfflineData } from '../lib/offline';
+import { saveQueue } from '../lib/offlineQueue';
 
 interface AuthContextType {
   user: User | null;
   profile: UserProfile | null;
   loading: boolean;
+  deactivated: boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUp: (email: string, password: string, profileData: Partial<UserProfile>) => Promise<{ error: any | null }>;
   signOut: () => Promise<void>;
@@ -17,6 +20,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [deactivated, setDeactivated] = useState(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -46,12 +50,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const loadProfile = async (userId: string) => {
     try {
       const { data, error } = await supabase
-        .from('user_profiles')
+        .from('private_user_profiles')
         .select('*')
         .eq('id', userId)
         .maybeSingle();
 
       if (error) throw error;
+      if (data && !data.is_active) {
+        // The database bans deactivated accounts; this ends a session that
+        // was already open when the admin deactivated it.
+        setDeactivated(true);
+        setUser(null);
+        setProfile(null);
+        supabase.auth.signOut();
+        return;
+      }
       setProfile(data);
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -61,6 +74,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signIn = async (email: string, password: string) => {
+    setDeactivated(false);
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     return { error };
   };
@@ -83,10 +97,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setProfile(null);
+    // Unsent writes belong to this user; the next person on the device must
+    // not see or replay them.
+    saveQueue([]);
+    await clearOfflineData().catch(error => {
+      console.error('Error clearing offline data:', error);
+    });
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, profile, loading, deactivated, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
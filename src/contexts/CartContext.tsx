@@ -0,0 +1,143 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+
+const STORAGE_KEY = 'farmconnect.cart';
+
+export interface CartProduct {
+  id: string;
+  name: string;
+  price: number;
+  unit: string;
+  stock_quantity: number;
+  farmer_id: string;
+  farmer_name: string;
+}
+
+export interface CartItem {
+  product: CartProduct;
+  quantity: number;
+}
+
+export interface FarmerCartGroup {
+  farmer_id: string;
+  farmer_name: string;
+  items: CartItem[];
+  subtotal: number;
+}
+
+interface CartContextType {
+  items: Record<string, CartItem>;
+  itemCount: number;
+  total: number;
+  addItem: (product: CartProduct, quantity?: number) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  removeItem: (productId: string) => void;
+  syncStock: (productId: string, stockQuantity: number) => void;
+  clearCart: () => void;
+  groupByFarmer: () => FarmerCartGroup[];
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+function loadStoredCart(): Record<string, CartItem> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('Error reading stored cart:', error);
+    return {};
+  }
+}
+
+function clampQuantity(quantity: number, stock: number) {
+  return Math.max(0, Math.min(Math.floor(quantity), stock));
+}
+
+export function CartProvider({ children }: { children: ReactNode }) {
+  const [items, setItems] = useState<Record<string, CartItem>>(loadStoredCart);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  const addItem = (product: CartProduct, quantity = 1) => {
+    setItems(current => {
+      const existing = current[product.id];
+      const nextQuantity = clampQuantity((existing?.quantity || 0) + quantity, product.stock_quantity);
+      if (nextQuantity === 0) return current;
+      return { ...current, [product.id]: { product, quantity: nextQuantity } };
+    });
+  };
+
+  const updateQuantity = (productId: string, quantity: number) => {
+    setItems(current => {
+      const existing = current[productId];
+      if (!existing) return current;
+
+      const nextQuantity = clampQuantity(quantity, existing.product.stock_quantity);
+      if (nextQuantity === 0) {
+        const { [productId]: _removed, ...rest } = current;
+        return rest;
+      }
+      return { ...current, [productId]: { ...existing, quantity: nextQuantity } };
+    });
+  };
+
+  const removeItem = (productId: string) => {
+    setItems(current => {
+      const { [productId]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const syncStock = (productId: string, stockQuantity: number) => {
+    setItems(current => {
+      const existing = current[productId];
+      if (!existing) return current;
+
+      const product = { ...existing.product, stock_quantity: stockQuantity };
+      const nextQuantity = clampQuantity(existing.quantity, stockQuantity);
+      if (nextQuantity === 0) {
+        const { [productId]: _removed, ...rest } = current;
+        return rest;
+      }
+      return { ...current, [productId]: { product, quantity: nextQuantity } };
+    });
+  };
+
+  const clearCart = () => setItems({});
+
+  const groupByFarmer = (): FarmerCartGroup[] => {
+    const groups: Record<string, FarmerCartGroup> = {};
+    Object.values(items).forEach(item => {
+      const { farmer_id, farmer_name } = item.product;
+      if (!groups[farmer_id]) {
+        groups[farmer_id] = { farmer_id, farmer_name, items: [], subtotal: 0 };
+      }
+      groups[farmer_id].items.push(item);
+      groups[farmer_id].subtotal += Number(item.product.price) * item.quantity;
+    });
+    return Object.values(groups);
+  };
+
+  const itemCount = Object.values(items).reduce((sum, item) => sum + item.quantity, 0);
+  const total = Object.values(items).reduce(
+    (sum, item) => sum + Number(item.product.price) * item.quantity,
+    0
+  );
+
+  return (
+    <CartContext.Provider
+      value={{ items, itemCount, total, addItem, updateQuantity, removeItem, syncStock, clearCart, groupByFarmer }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
@@ -1,117 +1,156 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { Catalog, Language, fallbackCatalog, isLanguage, loadCatalog, localeFor } from '../locales';
 
-type Language = 'en' | 'hi';
+export type { Language } from '../locales';
+
+type TranslationParams = Record<string, string | number>;
+
+const STORAGE_KEY = 'farmconnect.language';
 
 interface LanguageContextType {
   language: Language;
+  locale: string;
   setLanguage: (lang: Language) => void;
-  t: (key: string) => string;
+  t: (key: string, params?: TranslationParams) => string;
+  formatNumber: (value: number | string) => string;
+  formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
 }
 
-const translations: Record<Language, Record<string, string>> = {
-  en: {
-    'app.name': 'FarmConnect',
-    'app.tagline': 'Empowering Indian Farmers',
-    'nav.home': 'Home',
-    'nav.products': 'Products',
-    'nav.resources': 'Resources',
-    'nav.dashboard': 'Dashboard',
-    'nav.messages': 'Messages',
-    'auth.signin': 'Sign In',
-    'auth.signup': 'Sign Up',
-    'auth.signout': 'Sign Out',
-    'auth.email': 'Email',
-    'auth.password': 'Password',
-    'auth.fullname': 'Full Name',
-    'auth.phone': 'Phone Number',
-    'auth.role': 'I am a',
-    'auth.role.farmer': 'Farmer',
-    'auth.role.buyer': 'Buyer',
-    'auth.state': 'State',
-    'auth.district': 'District',
-    'role.admin': 'Admin',
-    'role.farmer': 'Farmer',
-    'role.buyer': 'Buyer',
-    'welcome': 'Welcome',
-    'loading': 'Loading...',
-    'save': 'Save',
-    'cancel': 'Cancel',
-    'delete': 'Delete',
-    'edit': 'Edit',
-    'view': 'View',
-    'search': 'Search',
-    'filter': 'Filter',
-    'products.title': 'Products',
-    'products.add': 'Add Product',
-    'products.name': 'Product Name',
-    'products.price': 'Price',
-    'products.stock': 'Stock',
-    'products.organic': 'Organic',
-    'products.traditional': 'Traditional',
-    'orders.title': 'Orders',
-    'orders.status': 'Status',
-    'orders.total': 'Total',
-    'resources.title': 'Educational Resources',
-    'dashboard.welcome': 'Welcome to your dashboard',
-  },
-  hi: {
-    'app.name': 'फार्मकनेक्ट',
-    'app.tagline': 'भारतीय किसानों को सशक्त बनाना',
-    'nav.home': 'होम',
-    'nav.products': 'उत्पाद',
-    'nav.resources': 'संसाधन',
-    'nav.dashboard': 'डैशबोर्ड',
-    'nav.messages': 'संदेश',
-    'auth.signin': 'साइन इन करें',
-    'auth.signup': 'साइन अप करें',
-    'auth.signout': 'साइन आउट करें',
-    'auth.email': 'ईमेल',
-    'auth.password': 'पासवर्ड',
-    'auth.fullname': 'पूरा नाम',
-    'auth.phone': 'फोन नंबर',
-    'auth.role': 'मैं हूँ',
-    'auth.role.farmer': 'किसान',
-    'auth.role.buyer': 'खरीदार',
-    'auth.state': 'राज्य',
-    'auth.district': 'जिला',
-    'role.admin': 'व्यवस्थापक',
-    'role.farmer': 'किसान',
-    'role.buyer': 'खरीदार',
-    'welcome': 'स्वागत है',
-    'loading': 'लोड हो रहा है...',
-    'save': 'सहेजें',
-    'cancel': 'रद्द करें',
-    'delete': 'हटाएं',
-    'edit': 'संपादित करें',
-    'view': 'देखें',
-    'search': 'खोजें',
-    'filter': 'फ़िल्टर',
-    'products.title': 'उत्पाद',
-    'products.add': 'उत्पाद जोड़ें',
-    'products.name': 'उत्पाद का नाम',
-    'products.price': 'कीमत',
-    'products.stock': 'स्टॉक',
-    'products.organic': 'जैविक',
-    'products.traditional': 'पारंपरिक',
-    'orders.title': 'आदेश',
-    'orders.status': 'स्थिति',
-    'orders.total': 'कुल',
-    'resources.title': 'शैक्षिक संसाधन',
-    'dashboard.welcome': 'अपने डैशबोर्ड में आपका स्वागत है',
-  },
-};
-
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+const reportedMissing = new Set<string>();
+
+// Development only: each key missing from the active catalog is logged once,
+// so untranslated strings show up while clicking through the app.
+function reportMissing(language: Language, key: string) {
+  const id = `${language}:${key}`;
+  if (!import.meta.env.DEV || reportedMissing.has(id)) return;
+  reportedMissing.add(id);
+  console.warn(`[i18n] Missing ${language} translation for "${key}"`);
+}
+
+function reportIncompleteCatalog(language: Language, catalog: Catalog) {
+  if (!import.meta.env.DEV || language === 'en') return;
+  const missing = Object.keys(fallbackCatalog).filter(key => !(key in catalog));
+  if (missing.length > 0) {
+    console.warn(`[i18n] ${language} catalog is missing ${missing.length} keys:`, missing);
+  }
+}
+
+function interpolate(template: string, params?: TranslationParams) {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+// Guests keep their last choice; first-time visitors get their browser's language if we support it.
+function initialLanguage(): Language {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(stored)) return stored;
+
+  const browser = navigator.language?.split('-')[0];
+  return isLanguage(browser) ? browser : 'en';
+}
+
 export function LanguageProvider({ children }: { children: ReactNode }) {
-  const [language, setLanguage] = useState<Language>('en');
+  const { profile } = useAuth();
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+  const [catalog, setCatalog] = useState<{ language: Language; entries: Catalog }>({
+    language: 'en',
+    entries: fallbackCatalog,
+  });
+  const locale = localeFor(language);
+
+  useEffect(() => {
+    if (profile && isLanguage(profile.language_preference)) {
+      setLanguageState(profile.language_preference);
+      localStorage.setItem(STORAGE_KEY, profile.language_preference);
+    }
+  }, [profile?.id]);
 
-  const t = (key: string): string => {
-    return translations[language][key] || key;
+  useEffect(() => {
+    let cancelled = false;
+
+    // Keep showing the previous catalog until the new one has arrived.
+    loadCatalog(language)
+      .then(loaded => {
+        if (cancelled) return;
+        reportIncompleteCatalog(language, loaded);
+        setCatalog({ language, entries: loaded });
+        document.documentElement.lang = language;
+      })
+      .catch(error => console.error('Error loading translations:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  const setLanguage = (lang: Language) => {
+    setLanguageState(lang);
+    localStorage.setItem(STORAGE_KEY, lang);
+
+    if (profile) {
+      supabase
+        .from('user_profiles')
+        .update({ language_preference: lang })
+        .eq('id', profile.id)
+        .then(({ error }) => {
+          if (error) console.error('Error saving language preference:', error);
+        });
+    }
   };
 
+  const lookup = (key: string) => {
+    if (key in catalog.entries) return catalog.entries[key];
+    if (!(key in fallbackCatalog)) return undefined;
+    reportMissing(catalog.language, key);
+    return fallbackCatalog[key];
+  };
+
+  // Plural forms live under `key_one`, `key_few`, `key_other` etc., chosen by
+  // the locale's plural rules whenever a numeric `count` is passed. The
+  // language's own `_other` beats the English form for the exact rule; the
+  // English forms are only used, with English rules, when it has neither.
+  const pluralTemplate = (key: string, count: number) => {
+    const rule = new Intl.PluralRules(localeFor(catalog.language)).select(count);
+    const form = [`${key}_${rule}`, `${key}_other`].find(candidate => candidate in catalog.entries);
+    if (form) return catalog.entries[form];
+
+    const englishRule = new Intl.PluralRules(localeFor('en')).select(count);
+    return lookup(`${key}_${englishRule}`) ?? lookup(`${key}_other`);
+  };
+
+  const t = (key: string, params?: TranslationParams): string => {
+    let template: string | undefined;
+    if (typeof params?.count === 'number') {
+      template = pluralTemplate(key, params.count);
+    }
+    template ??= lookup(key);
+
+    if (template === undefined) {
+      reportMissing('en', key);
+      return key;
+    }
+    return interpolate(template, params);
+  };
+
+  const formatNumber = (value: number | string) => Number(value).toLocaleString(locale);
+
+  const formatDate = (value: string | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Date(value).toLocaleDateString(locale, options);
+
+  const formatDateTime = (value: string | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Date(value).toLocaleString(locale, options);
+
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider
+      value={{ language, locale, setLanguage, t, formatNumber, formatDate, formatDateTime }}
+    >
       {children}
     </LanguageContext.Provider>
   );
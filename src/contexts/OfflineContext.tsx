@@ -0,0 +1,116 @@
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { QueuedWrite, addToQueue, loadQueue, replayWrite, saveQueue } from '../lib/offlineQueue';
+
+const RETRY_INTERVAL_MS = 30000;
+
+interface OfflineContextType {
+  online: boolean;
+  syncing: boolean;
+  // The signed-in user's queued writes, oldest first, including conflicts.
+  writes: QueuedWrite[];
+  queueWrite: (write: QueuedWrite) => void;
+  resolveConflict: (id: string, resolution: 'retry' | 'discard') => void;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+export function OfflineProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [queue, setQueue] = useState<QueuedWrite[]>(loadQueue);
+  const syncingRef = useRef(false);
+
+  const writes = user ? queue.filter(w => w.userId === user.id) : [];
+  const pending = writes.filter(w => !w.conflict).length;
+
+  // localStorage is the source of truth, so a replay that finishes after
+  // another edit was queued does not drop it.
+  const updateQueue = (change: (current: QueuedWrite[]) => QueuedWrite[]) => {
+    const next = change(loadQueue());
+    saveQueue(next);
+    setQueue(next);
+  };
+
+  const sync = async () => {
+    if (!user || syncingRef.current || !navigator.onLine) return;
+
+    const waiting = loadQueue().filter(w => w.userId === user.id && !w.conflict);
+    if (waiting.length === 0) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      for (const write of waiting) {
+        const result = await replayWrite(write);
+        if (result.status === 'offline') break;
+        updateQueue(current => result.status === 'done'
+          ? current.filter(w => w.id !== write.id)
+          : current.map(w => (w.id === write.id ? { ...w, conflict: result.conflict } : w)));
+      }
+    } catch (error) {
+      console.error('Error replaying offline changes:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    setQueue(loadQueue());
+    sync();
+
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [user]);
+
+  // The browser can report online while requests still fail on a weak
+  // signal, so keep retrying while anything is waiting.
+  useEffect(() => {
+    if (pending === 0) return;
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pending, user]);
+
+  const queueWrite = (write: QueuedWrite) => {
+    updateQueue(current => addToQueue(current, write));
+  };
+
+  // Retrying a stock conflict overwrites the server's value; discarding
+  // keeps it.
+  const resolveConflict = (id: string, resolution: 'retry' | 'discard') => {
+    updateQueue(current => resolution === 'discard'
+      ? current.filter(w => w.id !== id)
+      : current.map(w => {
+          if (w.id !== id) return w;
+          const { conflict, ...rest } = w;
+          return rest.kind === 'stock' ? { ...rest, force: true } : rest;
+        }));
+    if (resolution === 'retry') sync();
+  };
+
+  return (
+    <OfflineContext.Provider value={{ online, syncing, writes, queueWrite, resolveConflict }}>
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
@@ -0,0 +1,67 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+interface UnreadMessagesContextType {
+  unreadCount: number;
+  refreshUnread: () => Promise<void>;
+}
+
+const UnreadMessagesContext = createContext<UnreadMessagesContextType | undefined>(undefined);
+
+export function UnreadMessagesProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnread = async () => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('receiver_id', user.id)
+      .eq('is_read', false);
+
+    if (error) {
+      console.error('Error loading unread messages:', error);
+      return;
+    }
+    setUnreadCount(count || 0);
+  };
+
+  useEffect(() => {
+    refreshUnread();
+    if (!user) return;
+
+    // New messages and read receipts both change the count.
+    const channel = supabase
+      .channel(`unread-messages-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages', filter: `receiver_id=eq.${user.id}` },
+        () => refreshUnread()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return (
+    <UnreadMessagesContext.Provider value={{ unreadCount, refreshUnread }}>
+      {children}
+    </UnreadMessagesContext.Provider>
+  );
+}
+
+export function useUnreadMessages() {
+  const context = useContext(UnreadMessagesContext);
+  if (context === undefined) {
+    throw new Error('useUnreadMessages must be used within an UnreadMessagesProvider');
+  }
+  return context;
+}
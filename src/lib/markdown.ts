@@ -0,0 +1,114 @@
+// A deliberately small Markdown subset for educational resources: headings,
+// paragraphs, lists, quotes, code blocks, rules, and bold/italic/code/links
+// inline. It produces data, not HTML, so rendered content can never inject
+// markup; unsupported syntax simply shows as text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^```/;
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    HEADING.test(line) || BULLET.test(line) || NUMBERED.test(line) ||
+    QUOTE.test(line) || RULE.test(line) || FENCE.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = line.match(HEADING)!;
+      blocks.push({ type: 'heading', level: hashes.length as 1 | 2 | 3, text: text.trim() });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = NUMBERED.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+      while (i < lines.length && pattern.test(lines[i])) items.push(lines[i++].match(pattern)![1]);
+      blocks.push({ type: 'list', ordered, items });
+    } else if (QUOTE.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quote.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', text: quote.join('\n') });
+    } else {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) paragraph.push(lines[i++]);
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    }
+  }
+
+  return blocks;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  return text
+    .split(INLINE)
+    .filter(Boolean)
+    .map((part): MarkdownInline => {
+      if (/^(\*\*|__).+\1$/.test(part)) return { type: 'strong', text: part.slice(2, -2) };
+      if (/^`.+`$/.test(part)) return { type: 'code', text: part.slice(1, -1) };
+      if (/^([*_]).+\1$/.test(part)) return { type: 'em', text: part.slice(1, -1) };
+
+      const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      if (link) {
+        return safeHref(link[2])
+          ? { type: 'link', text: link[1], href: link[2] }
+          : { type: 'text', text: link[1] };
+      }
+
+      return { type: 'text', text: part };
+    });
+}
+
+// Only web, mail and same-site links; anything else (javascript:, data:)
+// is shown as its label.
+export function safeHref(href: string) {
+  return /^(https?:\/\/|mailto:|\/(?!\/))/i.test(href);
+}
+
+// Plain text for excerpts and search, with the Markdown syntax removed.
+export function markdownToText(source: string) {
+  return parseMarkdown(source)
+    .filter(block => block.type !== 'rule')
+    .map(block => {
+      if (block.type === 'code') return block.text;
+      const text = block.type === 'list' ? block.items.join(' ') : 'text' in block ? block.text : '';
+      return parseInline(text).map(part => part.text).join('');
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,84 @@
+import { supabase } from './supabase';
+import { resizeImage } from './productImages';
+
+const BUCKET = 'message-attachments';
+const THUMBNAIL_DIMENSION = 320;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export const MAX_VOICE_NOTE_SECONDS = 120;
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export type AttachmentType = 'image' | 'audio';
+
+export interface MessageAttachment {
+  attachment_type: AttachmentType;
+  attachment_path: string;
+  attachment_thumbnail_path: string | null;
+  attachment_duration: number | null;
+}
+
+async function upload(path: string, blob: Blob, contentType: string) {
+  if (blob.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error('Attachments must be smaller than 5 MB');
+  }
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, blob, { contentType });
+
+  if (error) throw error;
+}
+
+export async function uploadMessageImage(senderId: string, receiverId: string, file: File): Promise<MessageAttachment> {
+  const [image, thumbnail] = await Promise.all([
+    resizeImage(file),
+    resizeImage(file, THUMBNAIL_DIMENSION),
+  ]);
+  const base = `${senderId}/${receiverId}/${crypto.randomUUID()}`;
+
+  await upload(`${base}.jpg`, image, 'image/jpeg');
+  await upload(`${base}_thumb.jpg`, thumbnail, 'image/jpeg');
+
+  return {
+    attachment_type: 'image',
+    attachment_path: `${base}.jpg`,
+    attachment_thumbnail_path: `${base}_thumb.jpg`,
+    attachment_duration: null,
+  };
+}
+
+export async function uploadVoiceNote(
+  senderId: string,
+  receiverId: string,
+  recording: Blob,
+  durationSeconds: number
+): Promise<MessageAttachment> {
+  // MediaRecorder reports e.g. "audio/webm;codecs=opus"; Storage wants the bare type.
+  const contentType = recording.type.split(';')[0] || 'audio/webm';
+  const extension = contentType.split('/')[1];
+  const path = `${senderId}/${receiverId}/${crypto.randomUUID()}.${extension}`;
+
+  await upload(path, recording, contentType);
+
+  return {
+    attachment_type: 'audio',
+    attachment_path: path,
+    attachment_thumbnail_path: null,
+    attachment_duration: Math.max(1, Math.round(durationSeconds)),
+  };
+}
+
+export async function getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+  if (error) throw error;
+  const urls: Record<string, string> = {};
+  (data || []).forEach(item => {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+}
@@ -0,0 +1,25 @@
+// Must match DATA_CACHE in public/sw.js.
+const DATA_CACHE = 'farmconnect-data';
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+}
+
+// Cached API responses belong to whoever was signed in; drop them so the
+// next person on a shared phone does not see them offline.
+export async function clearOfflineData() {
+  if (!('caches' in window)) return;
+  await caches.delete(DATA_CACHE);
+}
+
+// supabase-js reports a failed fetch as an error object rather than throwing.
+export function isNetworkError(error: { message?: string } | null | undefined) {
+  if (!navigator.onLine) return true;
+  return Boolean(error?.message && /failed to fetch|networkerror|load failed|network request failed/i.test(error.message));
+}
@@ -0,0 +1,169 @@
+import { supabase } from './supabase';
+import { isNetworkError } from './offline';
+
+const STORAGE_KEY = 'farmconnect.offlineQueue';
+
+// Why a queued write could not be applied. Stock edits carry the server's
+// current value so the farmer can choose between theirs and the server's.
+export interface WriteConflict {
+  currentStock?: number;
+  missing?: boolean;
+  error?: string;
+}
+
+interface BaseWrite {
+  id: string;
+  userId: string;
+  queuedAt: string;
+  conflict?: WriteConflict;
+}
+
+export interface StockWrite extends BaseWrite {
+  kind: 'stock';
+  productId: string;
+  productName: string;
+  // Stock on screen when the edit was made; the edit only applies if the
+  // server still has this value, unless the farmer chose to overwrite.
+  baseStock: number;
+  stock: number;
+  force?: boolean;
+}
+
+export interface MessageWrite extends BaseWrite {
+  kind: 'message';
+  // Generated up front so a replay that already reached the server is not
+  // inserted twice.
+  messageId: string;
+  receiverId: string;
+  receiverName: string;
+  productId: string | null;
+  orderId: string | null;
+  content: string;
+}
+
+export type QueuedWrite = StockWrite | MessageWrite;
+
+export type ReplayResult =
+  | { status: 'done' }
+  | { status: 'offline' }
+  | { status: 'conflict'; conflict: WriteConflict };
+
+export function stockWrite(
+  userId: string,
+  product: { id: string; name: string },
+  baseStock: number,
+  stock: number
+): StockWrite {
+  return {
+    kind: 'stock',
+    id: crypto.randomUUID(),
+    userId,
+    queuedAt: new Date().toISOString(),
+    productId: product.id,
+    productName: product.name,
+    baseStock,
+    stock,
+  };
+}
+
+export function messageWrite(
+  userId: string,
+  receiver: { id: string; full_name: string },
+  scope: { productId: string | null; orderId: string | null },
+  content: string
+): MessageWrite {
+  return {
+    kind: 'message',
+    id: crypto.randomUUID(),
+    userId,
+    queuedAt: new Date().toISOString(),
+    messageId: crypto.randomUUID(),
+    receiverId: receiver.id,
+    receiverName: receiver.full_name,
+    productId: scope.productId,
+    orderId: scope.orderId,
+    content,
+  };
+}
+
+export function loadQueue(): QueuedWrite[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueue(writes: QueuedWrite[]) {
+  if (writes.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(writes));
+  }
+}
+
+// A second stock edit to the same product replaces the first but keeps its
+// base, so the conflict check compares against what the farmer first saw.
+export function addToQueue(writes: QueuedWrite[], write: QueuedWrite): QueuedWrite[] {
+  if (write.kind === 'stock') {
+    const existing = writes.find(
+      (w): w is StockWrite => w.kind === 'stock' && w.productId === write.productId && !w.conflict
+    );
+    if (existing) {
+      return writes.map(w => (w === existing ? { ...write, id: existing.id, baseStock: existing.baseStock } : w));
+    }
+  }
+  return [...writes, write];
+}
+
+export async function replayWrite(write: QueuedWrite): Promise<ReplayResult> {
+  return write.kind === 'stock' ? replayStock(write) : replayMessage(write);
+}
+
+async function replayStock(write: StockWrite): Promise<ReplayResult> {
+  let query = supabase
+    .from('products')
+    .update({ stock_quantity: write.stock, updated_at: new Date().toISOString() })
+    .eq('id', write.productId);
+
+  if (!write.force) query = query.eq('stock_quantity', write.baseStock);
+
+  const { data, error } = await query.select('id');
+  if (error) return failed(error);
+  if (data.length > 0) return { status: 'done' };
+
+  // Nothing updated: either the product is gone or its stock moved (usually
+  // orders placed while the farmer was offline). no-store keeps the service
+  // worker from answering with a cached copy.
+  const { data: current, error: readError } = await supabase
+    .from('products')
+    .select('stock_quantity')
+    .eq('id', write.productId)
+    .setHeader('Cache-Control', 'no-store')
+    .maybeSingle();
+
+  if (readError) return failed(readError);
+  if (!current) return { status: 'conflict', conflict: { missing: true } };
+  if (current.stock_quantity === write.stock) return { status: 'done' };
+  return { status: 'conflict', conflict: { currentStock: current.stock_quantity } };
+}
+
+async function replayMessage(write: MessageWrite): Promise<ReplayResult> {
+  const { error } = await supabase.from('messages').insert({
+    id: write.messageId,
+    sender_id: write.userId,
+    receiver_id: write.receiverId,
+    product_id: write.productId,
+    order_id: write.orderId,
+    content: write.content,
+  });
+
+  // 23505: an earlier attempt was delivered but its response was lost.
+  if (!error || error.code === '23505') return { status: 'done' };
+  return failed(error);
+}
+
+function failed(error: { message: string }): ReplayResult {
+  if (isNetworkError(error)) return { status: 'offline' };
+  return { status: 'conflict', conflict: { error: error.message } };
+}
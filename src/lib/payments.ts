@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+
+// How an order is settled: through a gateway, or in cash to the farmer.
+export type OrderPaymentMethod = 'online' | 'cod';
+
+// How an online payment is made at the gateway.
+export type PaymentMethod = 'upi' | 'card';
+
+export type PaymentResult = 'completed' | 'failed' | 'created';
+
+export interface PaymentDetails {
+  upi_id?: string;
+  card_number?: string;
+}
+
+export interface PaymentSession {
+  payment_id: string;
+  provider: string;
+  checkout: Record<string, unknown>;
+}
+
+/**
+ * Browser side of a payment gateway: takes the session the `payments` edge
+ * function created and collects the money. The order's final status always
+ * comes from the gateway's webhook, never from the browser.
+ */
+interface PaymentGateway {
+  collect(session: PaymentSession, details: PaymentDetails): Promise<PaymentResult>;
+}
+
+async function invokePayments<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+
+  if (error) {
+    const payload = await error.context?.json?.().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  return data as T;
+}
+
+const mockGateway: PaymentGateway = {
+  async collect(session, details) {
+    const { status } = await invokePayments<{ status: PaymentResult }>({
+      action: 'simulate',
+      payment_id: session.payment_id,
+      details,
+    });
+    return status;
+  },
+};
+
+const gateways: Record<string, PaymentGateway> = {
+  mock: mockGateway,
+};
+
+export async function payForOrders(
+  orderIds: string[],
+  method: PaymentMethod,
+  details: PaymentDetails,
+): Promise<PaymentResult> {
+  const session = await invokePayments<PaymentSession>({
+    action: 'create',
+    order_ids: orderIds,
+    method,
+  });
+
+  const gateway = gateways[session.provider];
+  if (!gateway) {
+    throw new Error(`Payment provider "${session.provider}" is not supported in the browser`);
+  }
+  return gateway.collect(session, details);
+}
+
+// Sends a cancelled order's queued refund to the gateway straight away
+// rather than on the next scheduled run, which also retries anything this
+// misses. Safe to call for orders that were never paid.
+export async function processRefund(orderId: string): Promise<void> {
+  await invokePayments({ action: 'refund', order_id: orderId });
+}
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+
+const BUCKET = 'product-images';
+const MAX_DIMENSION = 1280;
+const JPEG_QUALITY = 0.8;
+
+export function getProductImages(images: unknown): string[] {
+  return Array.isArray(images) ? images.filter((url): url is string => typeof url === 'string') : [];
+}
+
+export async function resizeImage(file: Blob, maxDimension = MAX_DIMENSION): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not compress image'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+export async function uploadProductImage(farmerId: string, productId: string, file: File) {
+  const blob = await resizeImage(file);
+  const path = `${farmerId}/${productId}/${crypto.randomUUID()}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, blob, { contentType: 'image/jpeg', cacheControl: '31536000' });
+
+  if (error) throw error;
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function deleteProductImages(urls: string[]) {
+  const marker = `/object/public/${BUCKET}/`;
+  const paths = urls
+    .map(url => url.split(marker)[1])
+    .filter((path): path is string => Boolean(path));
+
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+  if (error) throw error;
+}
@@ -0,0 +1,73 @@
+import { supabase } from './supabase';
+import { resizeImage } from './productImages';
+import { ResourceTranslation } from './translations';
+
+const BUCKET = 'resource-images';
+
+export interface Resource {
+  id: string;
+  title_en: string;
+  content_en: string;
+  category: string;
+  tags: string[];
+  image_url: string | null;
+  is_published: boolean;
+  published_at: string | null;
+  view_count: number;
+  created_at: string;
+  translations: ResourceTranslation[];
+}
+
+export type ResourceStatus = 'draft' | 'scheduled' | 'published';
+
+export const resourceStatuses: ResourceStatus[] = ['draft', 'scheduled', 'published'];
+
+// A published resource with a future published_at is scheduled; readers only
+// see it once that time has passed (enforced by RLS).
+export function resourceStatus(resource: Pick<Resource, 'is_published' | 'published_at'>): ResourceStatus {
+  if (!resource.is_published) return 'draft';
+  if (resource.published_at && new Date(resource.published_at) > new Date()) return 'scheduled';
+  return 'published';
+}
+
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export async function uploadResourceImage(resourceId: string, file: File) {
+  const blob = await resizeImage(file);
+  const path = `${resourceId}/${crypto.randomUUID()}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, blob, { contentType: 'image/jpeg', cacheControl: '31536000' });
+
+  if (error) throw error;
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function deleteResourceImage(url: string) {
+  const path = url.split(`/object/public/${BUCKET}/`)[1];
+  if (!path) return;
+
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+export interface ResourceProgress {
+  resource_id: string;
+  last_viewed_at: string;
+  completed_at: string | null;
+}
+
+// Records a view server-side (see record_resource_view), which also updates
+// the reader's resource_progress. Returns whether it counted as a new view.
+export async function recordResourceView(resourceId: string, language: string) {
+  const { data, error } = await supabase.rpc('record_resource_view', {
+    p_resource_id: resourceId,
+    p_language: language,
+  });
+
+  if (error) throw error;
+  return data as boolean;
+}
@@ -21,6 +21,17 @@ export interface UserProfile {
   district: string | null;
   profile_image_url: string | null;
   is_active: boolean;
+  accepts_cod: boolean;
+  accepts_online: boolean;
   created_at: string;
   updated_at: string;
 }
+
+export interface DeliveryAddress {
+  full_name: string;
+  phone: string;
+  address_line: string;
+  district: string;
+  state: string;
+  pincode: string;
+}
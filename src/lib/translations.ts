@@ -0,0 +1,40 @@
+// Translatable rows keep their English text on the row itself and every other
+// language in a companion *_translations table keyed on (parent, language).
+
+export interface CategoryTranslation {
+  language: string;
+  name: string;
+}
+
+export interface ResourceTranslation {
+  language: string;
+  title: string;
+  content: string;
+}
+
+export interface ProductTranslation {
+  language: string;
+  name: string;
+  description: string;
+}
+
+export interface TranslatableCategory {
+  name_en: string;
+  translations?: CategoryTranslation[] | null;
+}
+
+// PostgREST embed for the translations of each content type.
+export const categoryTranslationsSelect = 'translations:product_category_translations(language, name)';
+export const resourceTranslationsSelect = 'translations:resource_translations(language, title, content)';
+export const productTranslationsSelect = 'translations:product_translations(language, name, description)';
+
+export function findTranslation<T extends { language: string }>(
+  translations: T[] | null | undefined,
+  language: string
+): T | undefined {
+  return translations?.find(translation => translation.language === language);
+}
+
+export function categoryName(category: TranslatableCategory, language: string) {
+  return findTranslation(category.translations, language)?.name || category.name_en;
+}
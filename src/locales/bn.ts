@@ -0,0 +1,442 @@
+const bn: Record<string, string> = {
+  'app.name': 'ফার্মকানেক্ট',
+  'app.tagline': 'ভারতীয় কৃষকদের ক্ষমতায়ন',
+  'nav.home': 'হোম',
+  'nav.products': 'পণ্য',
+  'nav.resources': 'সম্পদ',
+  'nav.dashboard': 'ড্যাশবোর্ড',
+  'nav.messages': 'বার্তা',
+  'nav.cart': 'ঝুড়ি',
+  'nav.language': 'ভাষা',
+  'auth.signin': 'সাইন ইন',
+  'auth.signup': 'সাইন আপ',
+  'auth.signout': 'সাইন আউট',
+  'auth.email': 'ইমেল',
+  'auth.password': 'পাসওয়ার্ড',
+  'auth.fullname': 'পুরো নাম',
+  'auth.phone': 'ফোন নম্বর',
+  'auth.role': 'আমি একজন',
+  'auth.role.farmer': 'কৃষক',
+  'auth.role.buyer': 'ক্রেতা',
+  'auth.state': 'রাজ্য',
+  'auth.district': 'জেলা',
+  'auth.language': 'ভাষা',
+  'auth.selectState': 'রাজ্য বেছে নিন',
+  'auth.haveAccount': 'আগে থেকেই অ্যাকাউন্ট আছে?',
+  'auth.noAccount': 'অ্যাকাউন্ট নেই?',
+  'auth.role.admin': 'অ্যাডমিন',
+  'auth.deactivated': 'এই অ্যাকাউন্টটি নিষ্ক্রিয় করা হয়েছে। অনুগ্রহ করে সহায়তার সাথে যোগাযোগ করুন।',
+  'role.admin': 'প্রশাসক',
+  'role.farmer': 'কৃষক',
+  'role.buyer': 'ক্রেতা',
+  'welcome': 'স্বাগতম',
+  'loading': 'লোড হচ্ছে...',
+  'save': 'সংরক্ষণ করুন',
+  'cancel': 'বাতিল করুন',
+  'delete': 'মুছুন',
+  'edit': 'সম্পাদনা করুন',
+  'view': 'দেখুন',
+  'search': 'খুঁজুন',
+  'filter': 'ফিল্টার',
+  'products.title': 'পণ্য',
+  'products.add': 'পণ্য যোগ করুন',
+  'products.name': 'পণ্যের নাম',
+  'products.price': 'দাম',
+  'products.stock': 'মজুত',
+  'products.organic': 'জৈব',
+  'products.traditional': 'ঐতিহ্যবাহী',
+  'products.edit': 'পণ্য সম্পাদনা করুন',
+  'products.description': 'বিবরণ',
+  'products.category': 'বিভাগ',
+  'products.unit': 'একক',
+  'products.lowStock': 'কম মজুতের সীমা',
+  'products.processing': 'প্রক্রিয়াকরণ পদ্ধতি',
+  'products.shelfLife': 'সংরক্ষণকাল (দিন)',
+  'products.tags': 'ট্যাগ',
+  'products.active': 'ক্রেতাদের কাছে দৃশ্যমান',
+  'products.photos': 'ছবি',
+  'products.searchHint': 'ইংরেজি বা হিন্দিতে খুঁজুন, যেমন pickle, achaar, अचार',
+  'products.allCategories': 'সব বিভাগ',
+  'products.allStates': 'সব রাজ্য',
+  'products.sort.relevance': 'সেরা মিল',
+  'products.sort.newest': 'নতুনতম',
+  'products.sort.priceAsc': 'দাম: কম থেকে বেশি',
+  'products.sort.priceDesc': 'দাম: বেশি থেকে কম',
+  'products.sort.rating': 'সর্বোচ্চ রেটিং',
+  'products.clearFilters': 'ফিল্টার সরান',
+  'products.loadMore': 'আরও দেখুন',
+  'products.status.active': 'সক্রিয়',
+  'products.status.inactive': 'নিষ্ক্রিয়',
+  'products.perUnit': 'প্রতি {unit} ₹{price}',
+  'products.unavailable': 'এই পণ্যটি উপলব্ধ নেই।',
+  'products.linkCopied': 'লিঙ্ক কপি হয়েছে!',
+  'products.share': '🔗 শেয়ার করুন',
+  'products.reviewCount_one': '({count}টি পর্যালোচনা)',
+  'products.reviewCount_other': '({count}টি পর্যালোচনা)',
+  'products.perUnitStock': 'প্রতি {unit} · মজুত: {stock}',
+  'products.india': 'ভারত',
+  'products.moreFrom': '{name}-এর আরও পণ্য',
+  'products.moreFromFarmer': 'এই কৃষকের আরও পণ্য',
+  'products.moreIn': '{category}-এ আরও',
+  'products.minPrice': 'সর্বনিম্ন ₹',
+  'products.maxPrice': 'সর্বোচ্চ ₹',
+  'products.noResults': 'আপনার শর্তের সঙ্গে মেলে এমন কোনো পণ্য পাওয়া যায়নি।',
+  'products.per': 'প্রতি {unit}',
+  'products.stockCount': 'মজুত: {count}',
+  'orders.title': 'অর্ডার',
+  'orders.status': 'অবস্থা',
+  'orders.total': 'মোট',
+  'orders.manage': 'অর্ডার পরিচালনা করুন',
+  'orders.allStatuses': 'সব অবস্থা',
+  'orders.from': 'থেকে',
+  'orders.to': 'পর্যন্ত',
+  'orders.items': 'জিনিসপত্র',
+  'orders.history': 'অবস্থার ইতিহাস',
+  'orders.payment': 'পেমেন্ট',
+  'orders.cancel': 'অর্ডার বাতিল করুন',
+  'orders.messageFarmer': 'এই অর্ডার নিয়ে কৃষককে বার্তা পাঠান',
+  'orders.none': 'এখনও কোনো অর্ডার নেই।',
+  'orders.number': 'অর্ডার #{number}',
+  'orders.fromFarmer': 'বিক্রেতা: {name}',
+  'orders.action.pending': 'অপেক্ষমাণ',
+  'orders.action.confirmed': 'নিশ্চিত করুন',
+  'orders.action.shipped': 'পাঠানো হয়েছে চিহ্নিত করুন',
+  'orders.action.delivered': 'পৌঁছে দেওয়া হয়েছে চিহ্নিত করুন',
+  'orders.action.cancelled': 'বাতিল করুন',
+  'orders.farmersOnly': 'শুধুমাত্র কৃষক অ্যাকাউন্ট অর্ডার পরিচালনা করতে পারে।',
+  'orders.noMatches': 'এই ফিল্টারের সঙ্গে মেলে এমন কোনো অর্ডার নেই।',
+  'orders.confirmCancel': 'এই অর্ডারটি বাতিল করবেন? এর মজুত আবার উপলব্ধ হবে।',
+  'orders.step.pending': 'অর্ডার দেওয়া হয়েছে',
+  'orders.step.confirmed': 'কৃষক নিশ্চিত করেছেন',
+  'orders.step.shipped': 'পাঠানো হয়েছে',
+  'orders.step.delivered': 'পৌঁছে দেওয়া হয়েছে',
+  'orders.step.cancelled': 'বাতিল',
+  'orders.confirmBuyerCancel': 'এই অর্ডারটি বাতিল করবেন?',
+  'orders.notFound': 'এই অর্ডারটি পাওয়া যায়নি।',
+  'orders.refundProcessing': 'আপনার ফেরত প্রক্রিয়াধীন।',
+  'resources.title': 'শিক্ষামূলক সম্পদ',
+  'resources.subtitle': 'মূল্য সংযোজন, বিপণন কৌশল এবং উদ্যোক্তা হওয়া সম্পর্কে জানুন',
+  'resources.categories': 'বিভাগ',
+  'resources.all': 'সব',
+  'resources.none': 'এই বিভাগে কোনো সম্পদ পাওয়া যায়নি।',
+  'resources.views_one': '{count} বার দেখা হয়েছে',
+  'resources.views_other': '{count} বার দেখা হয়েছে',
+  'resources.showLess': 'কম দেখান',
+  'resources.readMore': 'আরও পড়ুন →',
+  'resources.saved': 'সংরক্ষিত',
+  'resources.savedFilter': 'সংরক্ষিত ({count})',
+  'resources.save': 'পরে পড়ার জন্য সংরক্ষণ করুন',
+  'resources.unsave': 'সংরক্ষিত থেকে সরান',
+  'resources.noneSaved': 'আপনি এখনও কোনো নির্দেশিকা সংরক্ষণ করেননি। এখানে রাখতে নির্দেশিকায় 🔖 চাপুন।',
+  'resources.completed': 'সম্পন্ন',
+  'resources.markComplete': 'সম্পন্ন হিসেবে চিহ্নিত করুন',
+  'resources.markIncomplete': 'অসম্পূর্ণ হিসেবে চিহ্নিত করুন',
+  'resources.progress': 'আপনি {total}টির মধ্যে {completed}টি নির্দেশিকা সম্পন্ন করেছেন',
+  'resources.searchHint': 'গাইড খুঁজুন, যেমন প্যাকেজিং, সংরক্ষণ, আচার',
+  'resources.readIn': 'পড়ার ভাষা',
+  'resources.tags': 'ট্যাগ',
+  'resources.removeTag': '#{tag} ফিল্টার সরান',
+  'resources.clearFilters': 'ফিল্টার মুছুন',
+  'resources.noMatches': 'আপনার খোঁজের সঙ্গে মেলে এমন কোনো গাইড নেই।',
+  'resources.share': '🔗 এই তালিকা শেয়ার করুন',
+  'resources.linkCopied': 'লিংক কপি হয়েছে!',
+  'cart.title': 'আপনার ঝুড়ি',
+  'cart.empty': 'আপনার ঝুড়ি খালি।',
+  'cart.subtotal': 'উপমোট',
+  'cart.remove': 'সরান',
+  'cart.clear': 'ঝুড়ি খালি করুন',
+  'cart.checkout': 'চেকআউটে যান',
+  'cart.add': 'ঝুড়িতে যোগ করুন',
+  'cart.addMore': 'ঝুড়িতে যোগ করুন (ঝুড়িতে {count})',
+  'cart.itemCount_one': '{count}টি জিনিস',
+  'cart.itemCount_other': '{count}টি জিনিস',
+  'checkout.title': 'চেকআউট',
+  'checkout.address': 'ডেলিভারির ঠিকানা',
+  'checkout.notes': 'কৃষকদের জন্য নোট',
+  'checkout.summary': 'অর্ডারের সারসংক্ষেপ',
+  'checkout.place': 'অর্ডার দিন',
+  'checkout.confirmed': 'অর্ডার সফলভাবে দেওয়া হয়েছে',
+  'checkout.invalidPincode': 'অনুগ্রহ করে সঠিক ৬ অঙ্কের পিন কোড দিন',
+  'checkout.insufficientStock': 'কিছু জিনিসের যথেষ্ট মজুত আর নেই। উপলব্ধ পরিমাণ অনুযায়ী আপনার ঝুড়ি হালনাগাদ করা হয়েছে।',
+  'checkout.buyersOnly': 'শুধুমাত্র ক্রেতা অ্যাকাউন্ট অর্ডার দিতে পারে।',
+  'checkout.oversoldLine': '{name}: {requested}টি চাওয়া হয়েছে, মাত্র {available}টি উপলব্ধ',
+  'checkout.addressLine': 'ঠিকানা',
+  'checkout.addressPlaceholder': 'বাড়ি / রাস্তা / গ্রাম',
+  'checkout.pincode': 'পিন কোড',
+  'checkout.splitNotice_one': 'আপনার ঝুড়ি {count}টি অর্ডার হিসেবে দেওয়া হবে।',
+  'checkout.splitNotice_other': 'আপনার ঝুড়ি {count}টি আলাদা অর্ডার হিসেবে দেওয়া হবে, প্রতি কৃষকের জন্য একটি।',
+  'checkout.sent_one': '{count}টি অর্ডার কৃষকদের কাছে পাঠানো হয়েছে।',
+  'checkout.sent_other': '{count}টি অর্ডার কৃষকদের কাছে পাঠানো হয়েছে।',
+  'checkout.shipSeparately': 'প্রত্যেক কৃষক আপনার কেনাকাটার নিজের অংশ আলাদাভাবে নিশ্চিত করে পাঠাবেন।',
+  'checkout.keepCash': 'ক্যাশ অন ডেলিভারি অর্ডারের জন্য নগদ প্রস্তুত রাখুন।',
+  'checkout.completePayment_one': 'আপনার জিনিসগুলি সংরক্ষিত আছে। অর্ডারটি কৃষকদের কাছে পাঠাতে অনলাইন পেমেন্ট সম্পূর্ণ করুন।',
+  'checkout.completePayment_other': 'আপনার জিনিসগুলি সংরক্ষিত আছে। অর্ডারগুলি কৃষকদের কাছে পাঠাতে অনলাইন পেমেন্ট সম্পূর্ণ করুন।',
+  'payment.title': 'পেমেন্ট',
+  'payment.card': 'কার্ড',
+  'payment.pay': 'এখনই পেমেন্ট করুন',
+  'payment.pending': 'পেমেন্ট বাকি',
+  'payment.online': 'অনলাইনে পেমেন্ট',
+  'payment.cod': 'ক্যাশ অন ডেলিভারি',
+  'payment.collected': 'আদায় হয়েছে',
+  'payment.outstanding': 'বকেয়া',
+  'payment.markPaid': 'নগদ পাওয়া গেছে চিহ্নিত করুন',
+  'payment.options': 'পেমেন্টের বিকল্প',
+  'payment.keepOne': 'অন্তত একটি পেমেন্টের বিকল্প চালু রাখুন।',
+  'payment.optionsHint': 'ক্রেতারা আপনার অর্ডারের জন্য কীভাবে পেমেন্ট করতে পারবেন তা বেছে নিন।',
+  'payment.invalidUpi': 'অনুগ্রহ করে সঠিক UPI আইডি দিন, যেমন name@bank',
+  'payment.invalidCard': 'অনুগ্রহ করে সঠিক ১৬ অঙ্কের কার্ড নম্বর দিন',
+  'payment.declined': 'পেমেন্ট প্রত্যাখ্যাত হয়েছে। আবার চেষ্টা করুন বা অন্য পদ্ধতি ব্যবহার করুন।',
+  'payment.processing': 'পেমেন্ট এখনও প্রক্রিয়াধীন। কয়েক মিনিট পরে আপনার অর্ডারের পাতা দেখুন।',
+  'messages.conversations': 'কথোপকথন',
+  'messages.select': 'পড়তে ও উত্তর দিতে একটি কথোপকথন বেছে নিন।',
+  'messages.placeholder': 'একটি বার্তা লিখুন...',
+  'messages.send': 'পাঠান',
+  'messages.allConversations': 'সব কথোপকথন',
+  'messages.askFarmer': 'কৃষককে জিজ্ঞাসা করুন',
+  'messages.contactBuyer': 'ক্রেতার সঙ্গে যোগাযোগ করুন',
+  'messages.unread_one': '{count}টি অপঠিত বার্তা',
+  'messages.unread_other': '{count}টি অপঠিত বার্তা',
+  'messages.voiceNote': '🎤 ভয়েস নোট',
+  'messages.photo': '📷 ছবি',
+  'messages.unknownUser': 'ব্যবহারকারী',
+  'messages.youHaveUnread_one': 'আপনার {count}টি অপঠিত বার্তা আছে',
+  'messages.youHaveUnread_other': 'আপনার {count}টি অপঠিত বার্তা আছে',
+  'messages.none': 'এখনও কোনো কথোপকথন নেই।',
+  'messages.you': 'আপনি: ',
+  'messages.imageOnly': 'অনুগ্রহ করে একটি ছবির ফাইল বেছে নিন',
+  'messages.sendPhoto': 'ছবি পাঠান',
+  'messages.sayHello': 'কথোপকথন শুরু করতে নমস্কার বলুন।',
+  'messages.seen': 'দেখা হয়েছে',
+  'messages.photoAlt': 'ছবি',
+  'dashboard.welcome': 'আপনার ড্যাশবোর্ডে স্বাগতম',
+  'dashboard.loading': 'ড্যাশবোর্ড লোড হচ্ছে...',
+  'errors.unexpected': 'একটি অপ্রত্যাশিত ত্রুটি ঘটেছে',
+  'home.intro': 'মূল্য সংযোজিত কৃষিপণ্য তৈরি করা কৃষকদের সঙ্গে সরাসরি যুক্ত হোন। গ্রামীণ উদ্যোগকে সমর্থন করুন এবং তাজা, খাঁটি পণ্য আপনার দরজায় পান।',
+  'home.getStarted': 'শুরু করুন',
+  'home.browse': 'পণ্য দেখুন',
+  'home.howItWorks': 'ফার্মকানেক্ট কীভাবে কাজ করে',
+  'home.farmers.title': 'কৃষকদের জন্য',
+  'home.farmers.body': 'আপনার মূল্য সংযোজিত পণ্যের তালিকা করুন, মজুত সামলান এবং সারা ভারতের ক্রেতাদের কাছে পৌঁছান। ব্যবসা বাড়াতে শিক্ষামূলক সম্পদ ব্যবহার করুন।',
+  'home.buyers.title': 'ক্রেতাদের জন্য',
+  'home.buyers.body': 'কৃষকদের কাছ থেকে সরাসরি খাঁটি কৃষিপণ্য খুঁজে নিন। জৈব ও ঐতিহ্যবাহী পদ্ধতি অনুযায়ী বাছাই করুন এবং স্থানীয় সম্প্রদায়কে সমর্থন করুন।',
+  'home.impact.title': 'প্রভাব দেখুন',
+  'home.impact.body': 'বিক্রির প্রবণতা ও ক্রেতাদের অংশগ্রহণ পর্যবেক্ষণ করুন এবং গ্রামীণ উদ্যোগে অর্থনৈতিক প্রভাব পরিমাপ করুন।',
+  'home.categories': 'পণ্যের বিভাগ',
+  'home.category.processed': 'প্রক্রিয়াজাত খাদ্য',
+  'home.category.dairy': 'দুগ্ধজাত পণ্য',
+  'home.category.beverages': 'পানীয়',
+  'home.category.grains': 'শস্য ও আটা',
+  'home.category.crafts': 'হস্তশিল্প',
+  'home.category.organic': 'জৈব ফসল',
+  'home.join.title': 'ফার্মকানেক্ট সম্প্রদায়ে যোগ দিন',
+  'home.join.body': 'আপনি বাজার বাড়াতে চাওয়া কৃষক হোন বা খাঁটি পণ্য খোঁজা ক্রেতা, গ্রামীণ উদ্যোগের জন্য ফার্মকানেক্টই আপনার মঞ্চ।',
+  'home.signUpNow': 'এখনই সাইন আপ করুন',
+  'admin.totalUsers': 'মোট ব্যবহারকারী',
+  'admin.totalFarmers': 'মোট কৃষক',
+  'admin.totalBuyers': 'মোট ক্রেতা',
+  'admin.totalProducts': 'মোট পণ্য',
+  'admin.totalOrders': 'মোট অর্ডার',
+  'admin.totalRevenue': 'মোট আয়',
+  'admin.analytics': 'প্ল্যাটফর্ম বিশ্লেষণ',
+  'admin.analyticsSummary': 'প্ল্যাটফর্মটি {farmers} জন কৃষককে {buyers} জন ক্রেতার সঙ্গে যুক্ত করছে এবং {products}টি মূল্য সংযোজিত পণ্যের মাধ্যমে গ্রামীণ উদ্যোগকে এগিয়ে নিয়ে যাচ্ছে।',
+  'admin.impact': 'প্রভাব পরিমাপ',
+  'admin.engagement': 'কৃষক অংশগ্রহণের হার',
+  'admin.productsPerFarmer': 'পণ্য/কৃষক',
+  'admin.averageOrder': 'গড় অর্ডার মূল্য',
+  'admin.growth': 'প্ল্যাটফর্মের বৃদ্ধি',
+  'admin.registeredUsers': 'নিবন্ধিত ব্যবহারকারী',
+  'admin.failedRefunds': 'মনোযোগ প্রয়োজন এমন রিফান্ড',
+  'admin.failedRefundsHint': 'পেমেন্ট গেটওয়ে এই রিফান্ডগুলি বারবার প্রত্যাখ্যান করেছে। ক্রেতাকে নিজে রিফান্ড দিন এবং গেটওয়ের ড্যাশবোর্ড দেখুন।',
+  'admin.refundAttempts_one': '{count}টি চেষ্টা, শেষ {date}',
+  'admin.refundAttempts_other': '{count}টি চেষ্টা, শেষ {date}',
+  'farmer.activeProducts': 'সক্রিয় পণ্য',
+  'farmer.totalOrders': 'মোট অর্ডার',
+  'farmer.lowStock.title': 'কম মজুতের সতর্কতা',
+  'farmer.lowStock.body': 'নিচের পণ্যগুলির মজুত কমে আসছে:',
+  'farmer.lowStock.available_one': '{name} - {count} একক উপলব্ধ',
+  'farmer.lowStock.available_other': '{name} - {count} একক উপলব্ধ',
+  'farmer.lowStock.reserved': ' (খোলা অর্ডারে আরও {count} সংরক্ষিত)',
+  'farmer.yourProducts': 'আপনার পণ্য',
+  'farmer.noProducts': 'এখনও কোনো পণ্য নেই। প্রথম পণ্যটি যোগ করে শুরু করুন!',
+  'farmer.product': 'পণ্য',
+  'farmer.recentOrders': 'সাম্প্রতিক অর্ডার',
+  'status.pending': 'অপেক্ষমাণ',
+  'status.confirmed': 'নিশ্চিত',
+  'status.shipped': 'পাঠানো হয়েছে',
+  'status.delivered': 'পৌঁছে দেওয়া হয়েছে',
+  'status.cancelled': 'বাতিল',
+  'buyer.totalOrders': 'মোট অর্ডার',
+  'buyer.pendingOrders': 'অপেক্ষমাণ অর্ডার',
+  'buyer.totalSpent': 'মোট খরচ',
+  'buyer.stillToPay': '₹{amount} এখনও দেওয়া বাকি',
+  'buyer.explore.title': 'পণ্য ঘুরে দেখুন',
+  'buyer.explore.body': 'সারা ভারতের কৃষকদের মূল্য সংযোজিত পণ্য দেখুন',
+  'buyer.stories.title': 'সাফল্যের গল্প',
+  'buyer.stories.body': 'কৃষক উদ্যোক্তা এবং তাঁদের যাত্রার কথা পড়ুন',
+  'buyer.yourOrders': 'আপনার অর্ডার',
+  'buyer.noOrders': 'আপনি এখনও কোনো অর্ডার দেননি।',
+  'buyer.startShopping': 'কেনাকাটা শুরু করুন',
+  'buyer.support.title': 'স্থানীয় সম্প্রদায়কে সমর্থন করুন',
+  'buyer.support.body': 'আপনার প্রতিটি কেনাকাটা সরাসরি কৃষক উদ্যোক্তা ও তাঁদের পরিবারকে সাহায্য করে এবং সারা ভারতে গ্রামীণ অর্থনৈতিক উন্নয়নে অবদান রাখে।',
+  'reviews.edit': 'পর্যালোচনা সম্পাদনা করুন',
+  'reviews.write': 'পর্যালোচনা লিখুন',
+  'reviews.ratingRequired': 'অনুগ্রহ করে ১ থেকে ৫ তারার মধ্যে রেটিং বেছে নিন',
+  'reviews.rating': 'রেটিং',
+  'reviews.placeholder': 'এই পণ্যটি আপনার কেমন লেগেছে?',
+  'reviews.none': 'এখনও কোনো পর্যালোচনা নেই।',
+  'reviews.outOfFive': '৫-এর মধ্যে {rating}',
+  'reviews.title': 'পর্যালোচনা',
+  'reviews.verified': '✓ যাচাইকৃত কেনাকাটা',
+  'reviews.newer': '← নতুন',
+  'reviews.older': 'পুরোনো →',
+  'reviews.page': 'পাতা {page} / {pages}',
+  'reviews.farmerReply': 'কৃষকের উত্তর',
+  'reviews.editReply': 'উত্তর সম্পাদনা করুন',
+  'reviews.reply': 'উত্তর দিন',
+  'photos.limit': 'প্রতি পণ্যে সর্বোচ্চ {count}টি ছবি যোগ করা যায়',
+  'photos.uploadFailed': 'ছবি আপলোড করা যায়নি',
+  'photos.alt': 'পণ্যের ছবি {number}',
+  'photos.cover': 'প্রচ্ছদ',
+  'photos.setCover': 'প্রচ্ছদ করুন',
+  'photos.uploading': 'আপলোড হচ্ছে...',
+  'photos.add': '+ ছবি যোগ করুন',
+  'voice.unsupported': 'এই ব্রাউজারে ভয়েস নোট সমর্থিত নয়',
+  'voice.noMicrophone': 'মাইক্রোফোন ব্যবহার করা যায়নি',
+  'voice.record': 'ভয়েস নোট রেকর্ড করুন',
+  'paymentStatus.pending': 'বাকি',
+  'paymentStatus.completed': 'পরিশোধিত',
+  'paymentStatus.failed': 'ব্যর্থ',
+  'paymentStatus.refunded': 'ফেরত দেওয়া হয়েছে',
+  'productForm.nameRequired': 'পণ্যের নাম আবশ্যক',
+  'productForm.descriptionRequired': 'বিবরণ আবশ্যক',
+  'productForm.unitRequired': 'একক আবশ্যক',
+  'productForm.priceInvalid': 'দাম ০ বা তার বেশি সংখ্যা হতে হবে',
+  'productForm.priceTooLarge': 'দাম খুব বেশি',
+  'productForm.priceDecimals': 'দামে সর্বোচ্চ ২ দশমিক স্থান থাকতে পারে',
+  'productForm.stockInvalid': 'মজুত ০ বা তার বেশি পূর্ণসংখ্যা হতে হবে',
+  'productForm.lowStockInvalid': 'কম মজুতের সীমা ০ বা তার বেশি পূর্ণসংখ্যা হতে হবে',
+  'productForm.shelfLifeInvalid': 'সংরক্ষণকাল দিনের পূর্ণসংখ্যা হতে হবে',
+  'productForm.notFound': 'পণ্য পাওয়া যায়নি',
+  'productForm.farmersOnly': 'শুধুমাত্র কৃষক অ্যাকাউন্ট পণ্যের তালিকা করতে পারে।',
+  'productForm.selectCategory': 'বিভাগ বেছে নিন',
+  'productForm.processingPlaceholder': 'যেমন রোদে শুকানো, কোল্ড-প্রেসড',
+  'productForm.tagsPlaceholder': 'আচার, আম, ঘরে তৈরি',
+  'productForm.tagsHint': 'ট্যাগগুলি কমা দিয়ে আলাদা করুন',
+  'productForm.stockChanged': 'সম্পাদনার সময় স্টক বদলে {count} হয়েছে, সম্ভবত নতুন অর্ডারের কারণে। স্টক দেখে আবার সংরক্ষণ করুন।',
+  'translations.title': 'অন্যান্য ভাষা',
+  'translations.hint': 'ইংরেজি হল মূল লেখা। যাঁদের ভাষার সংস্করণ এখানে নেই, তাঁরা ইংরেজি লেখা দেখবেন।',
+  'translations.none': 'এখনও অন্য কোনো ভাষার সংস্করণ নেই।',
+  'translations.add': '+ ভাষা যোগ করুন',
+  'translations.required': 'এই ভাষার জন্য সব ঘর পূরণ করুন',
+  'translations.confirmRemove': '{language} সংস্করণটি সরাবেন?',
+  'translations.saveFirst': 'আগে পণ্যটি সংরক্ষণ করুন, তারপর এখানে অন্য ভাষার সংস্করণ যোগ করুন।',
+  'translations.contentTitle': 'বিষয়বস্তুর অনুবাদ',
+  'translations.contentHint': 'বিভাগের নাম ও শিক্ষামূলক সম্পদ আরও ভাষায় যোগ করুন।',
+  'translations.manage': 'অনুবাদ পরিচালনা করুন',
+  'translations.adminsOnly': 'শুধুমাত্র প্রশাসকরা বিষয়বস্তুর অনুবাদ পরিচালনা করতে পারেন।',
+  'translations.categories': 'পণ্যের বিভাগ',
+  'translations.resources': 'শিক্ষামূলক সম্পদ',
+  'translations.selectItem': 'ভাষার সংস্করণ দেখতে ও সম্পাদনা করতে একটি আইটেম বেছে নিন।',
+  'translations.name': 'নাম',
+  'translations.resourceTitle': 'শিরোনাম',
+  'translations.resourceContent': 'বিষয়বস্তু',
+  'adminUsers.title': 'ব্যবহারকারী',
+  'adminUsers.hint': 'ব্যবহারকারী খুঁজুন, ভূমিকা পরিবর্তন করুন এবং অ্যাকাউন্ট নিষ্ক্রিয় করুন।',
+  'adminUsers.manage': 'ব্যবহারকারী পরিচালনা করুন',
+  'adminUsers.adminsOnly': 'শুধুমাত্র অ্যাডমিন অ্যাকাউন্ট ব্যবহারকারী পরিচালনা করতে পারে।',
+  'adminUsers.searchHint': 'নাম বা ফোন নম্বর দিয়ে খুঁজুন',
+  'adminUsers.role': 'ভূমিকা',
+  'adminUsers.allRoles': 'সব ভূমিকা',
+  'adminUsers.status': 'অ্যাকাউন্ট',
+  'adminUsers.allStatuses': 'সব অ্যাকাউন্ট',
+  'adminUsers.active': 'সক্রিয়',
+  'adminUsers.inactive': 'নিষ্ক্রিয়',
+  'adminUsers.noMatches': 'এই ফিল্টারের সাথে মেলে এমন কোনো ব্যবহারকারী নেই।',
+  'adminUsers.count_one': '{count} জন ব্যবহারকারী',
+  'adminUsers.count_other': '{count} জন ব্যবহারকারী',
+  'adminUsers.showingOf': '{total} জনের মধ্যে {shown} জন ব্যবহারকারী দেখানো হচ্ছে। বাকিদের দেখতে ফিল্টার সংকুচিত করুন।',
+  'adminUsers.location': 'অবস্থান',
+  'adminUsers.joined': 'যোগদান',
+  'adminUsers.joinedOn': '{date} তারিখে যোগ দিয়েছেন',
+  'adminUsers.notFound': 'এই ব্যবহারকারীকে খুঁজে পাওয়া যায়নি।',
+  'adminUsers.selfNotice': 'আপনি নিজের অ্যাকাউন্টের ভূমিকা বা অবস্থা পরিবর্তন করতে পারবেন না।',
+  'adminUsers.changeRole': 'ভূমিকা পরিবর্তন করুন',
+  'adminUsers.deactivate': 'অ্যাকাউন্ট নিষ্ক্রিয় করুন',
+  'adminUsers.reactivate': 'অ্যাকাউন্ট পুনরায় সক্রিয় করুন',
+  'adminUsers.confirmDeactivate': '{name}-কে নিষ্ক্রিয় করবেন? তাঁকে সাইন আউট করা হবে এবং তাঁর পণ্য ক্রেতাদের কাছ থেকে লুকানো হবে।',
+  'adminUsers.confirmReactivate': '{name}-কে পুনরায় সক্রিয় করবেন? তিনি আবার সাইন ইন করতে পারবেন।',
+  'adminUsers.products': 'পণ্য',
+  'adminUsers.orders': 'সাম্প্রতিক অর্ডার',
+  'adminUsers.boughtFrom': '{name}-এর কাছ থেকে কেনা',
+  'adminUsers.soldTo': '{name}-কে বিক্রি',
+  'resourceAdmin.title': 'শিক্ষা সংস্থান',
+  'resourceAdmin.hint': 'কৃষকদের জন্য নির্দেশিকা লিখুন, নির্ধারণ করুন এবং প্রকাশ করুন।',
+  'resourceAdmin.manage': 'সংস্থান পরিচালনা করুন',
+  'resourceAdmin.new': 'নতুন সংস্থান',
+  'resourceAdmin.adminsOnly': 'শুধুমাত্র অ্যাডমিন অ্যাকাউন্ট শিক্ষা সংস্থান পরিচালনা করতে পারে।',
+  'resourceAdmin.none': 'এখানে এখনও কোনো সংস্থান নেই।',
+  'resourceAdmin.updated': 'সর্বশেষ আপডেট',
+  'resourceAdmin.confirmDelete': '"{title}" মুছবেন? এটি আর ফেরানো যাবে না।',
+  'resourceForm.newTitle': 'নতুন সংস্থান',
+  'resourceForm.editTitle': 'সংস্থান সম্পাদনা করুন',
+  'resourceForm.notFound': 'এই সংস্থানটি খুঁজে পাওয়া যায়নি।',
+  'resourceForm.untitled': 'শিরোনামহীন সংস্থান',
+  'resourceForm.category': 'বিভাগ',
+  'resourceForm.markdownHint': 'ফরম্যাটিং: # শিরোনাম, **বোল্ড**, *ইটালিক*, - তালিকা, 1. ক্রমিক তালিকা, > উদ্ধৃতি, [লিংক](https://...)।',
+  'resourceForm.tagsHint': 'ট্যাগ যোগ করতে Enter বা কমা চাপুন।',
+  'resourceForm.removeTag': 'ট্যাগ {tag} সরান',
+  'resourceForm.image': 'প্রধান ছবি',
+  'resourceForm.removeImage': 'ছবি সরান',
+  'resourceForm.uploading': 'আপলোড হচ্ছে...',
+  'resourceForm.visibility': 'দৃশ্যমানতা',
+  'resourceForm.status.draft': 'খসড়া',
+  'resourceForm.status.published': 'প্রকাশিত',
+  'resourceForm.status.scheduled': 'নির্ধারিত',
+  'resourceForm.preview': 'প্রিভিউ',
+  'resourceForm.otherLanguages': 'অন্যান্য ভাষার অনুবাদ আলাদাভাবে পরিচালিত হয়।',
+  'resourceForm.titleRequired': 'অনুগ্রহ করে ইংরেজি শিরোনাম লিখুন।',
+  'resourceForm.contentRequired': 'অনুগ্রহ করে ইংরেজি বিষয়বস্তু লিখুন।',
+  'resourceForm.categoryRequired': 'অনুগ্রহ করে একটি বিভাগ বেছে নিন।',
+  'resourceForm.hindiIncomplete': 'হিন্দি শিরোনাম ও বিষয়বস্তু দুটোই পূরণ করুন, অথবা দুটোই খালি রাখুন।',
+  'resourceForm.scheduleRequired': 'সংস্থানটি কখন প্রকাশিত হবে তা বেছে নিন।',
+  'resourceForm.scheduleInPast': 'নির্ধারিত সময় ভবিষ্যতে হতে হবে।',
+  'learning.title': 'শেখা চালিয়ে যান',
+  'learning.browse': 'সব নির্দেশিকা',
+  'learning.empty': 'শিক্ষা সংস্থানে একটি নির্দেশিকা সংরক্ষণ করুন বা খুলুন, সেটি এখানে দেখাবে।',
+  'learning.completedCount_one': '{count}টি নির্দেশিকা সম্পন্ন',
+  'learning.completedCount_other': '{count}টি নির্দেশিকা সম্পন্ন',
+  'learning.lastViewed': '{date} তারিখে খোলা হয়েছে',
+  'learning.inProgress': 'চলছে',
+  'learning.notStarted': 'শুরু হয়নি',
+  'resourceAnalytics.title': 'সংস্থান বিশ্লেষণ',
+  'resourceAnalytics.lastDays_one': 'গত {count} দিন',
+  'resourceAnalytics.lastDays_other': 'গত {count} দিন',
+  'resourceAnalytics.views': 'ভিউ',
+  'resourceAnalytics.readers': 'স্বতন্ত্র পাঠক',
+  'resourceAnalytics.readersCount_one': '{count} জন পাঠক',
+  'resourceAnalytics.readersCount_other': '{count} জন পাঠক',
+  'resourceAnalytics.bookmarks': 'সংরক্ষণ',
+  'resourceAnalytics.completions': 'সম্পন্ন',
+  'resourceAnalytics.languages': 'ভাষা',
+  'resourceAnalytics.allResources': 'সব সংস্থান',
+  'resourceAnalytics.showAll': 'সব সংস্থান দেখান',
+  'resourceAnalytics.dailyViews': 'প্রতিদিনের ভিউ',
+  'offline.banner': 'আপনি অফলাইনে আছেন। আপনি সংরক্ষিত ডেটা দেখছেন, আবার সংযোগ হলে আপনার পরিবর্তন পাঠানো হবে।',
+  'offline.pending_one': '{count}টি পরিবর্তন পাঠানোর অপেক্ষায় আছে।',
+  'offline.pending_other': '{count}টি পরিবর্তন পাঠানোর অপেক্ষায় আছে।',
+  'offline.syncing': 'অফলাইনে করা পরিবর্তন পাঠানো হচ্ছে...',
+  'offline.conflicts': 'অফলাইনে করা কিছু পরিবর্তনে আপনার মনোযোগ দরকার',
+  'offline.stockConflict': '{name}: আপনি স্টক {mine} করেছিলেন, কিন্তু এর মধ্যে তা বদলে {current} হয়েছে।',
+  'offline.stockFailed': '{name}-এর স্টক সংরক্ষণ করা যায়নি: {reason}',
+  'offline.messageFailed': '{name}-কে বার্তা পাঠানো যায়নি: {reason}',
+  'offline.productMissing': 'পণ্যটি আর নেই',
+  'offline.keepMine': '{stock} রাখুন',
+  'offline.keepServer': '{stock}-ই রাখুন',
+  'offline.retry': 'আবার চেষ্টা করুন',
+  'offline.discard': 'বাদ দিন',
+  'offline.queued': 'নেটওয়ার্কের অপেক্ষায়',
+  'offline.notSent': 'পাঠানো হয়নি',
+  'offline.attachmentsNeedNetwork': 'ছবি ও ভয়েস নোটের জন্য সংযোগ দরকার। টেক্সট বার্তা সংরক্ষিত থাকে এবং আবার সংযোগ হলে পাঠানো হয়।',
+};
+
+export default bn;
@@ -0,0 +1,442 @@
+const en: Record<string, string> = {
+  'app.name': 'FarmConnect',
+  'app.tagline': 'Empowering Indian Farmers',
+  'nav.home': 'Home',
+  'nav.products': 'Products',
+  'nav.resources': 'Resources',
+  'nav.dashboard': 'Dashboard',
+  'nav.messages': 'Messages',
+  'nav.cart': 'Cart',
+  'nav.language': 'Language',
+  'auth.signin': 'Sign In',
+  'auth.signup': 'Sign Up',
+  'auth.signout': 'Sign Out',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.fullname': 'Full Name',
+  'auth.phone': 'Phone Number',
+  'auth.role': 'I am a',
+  'auth.role.farmer': 'Farmer',
+  'auth.role.buyer': 'Buyer',
+  'auth.state': 'State',
+  'auth.district': 'District',
+  'auth.language': 'Language',
+  'auth.selectState': 'Select State',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.noAccount': "Don't have an account?",
+  'auth.role.admin': 'Admin',
+  'auth.deactivated': 'This account has been deactivated. Please contact support.',
+  'role.admin': 'Admin',
+  'role.farmer': 'Farmer',
+  'role.buyer': 'Buyer',
+  'welcome': 'Welcome',
+  'loading': 'Loading...',
+  'save': 'Save',
+  'cancel': 'Cancel',
+  'delete': 'Delete',
+  'edit': 'Edit',
+  'view': 'View',
+  'search': 'Search',
+  'filter': 'Filter',
+  'products.title': 'Products',
+  'products.add': 'Add Product',
+  'products.name': 'Product Name',
+  'products.price': 'Price',
+  'products.stock': 'Stock',
+  'products.organic': 'Organic',
+  'products.traditional': 'Traditional',
+  'products.edit': 'Edit Product',
+  'products.description': 'Description',
+  'products.category': 'Category',
+  'products.unit': 'Unit',
+  'products.lowStock': 'Low Stock Threshold',
+  'products.processing': 'Processing Method',
+  'products.shelfLife': 'Shelf Life (days)',
+  'products.tags': 'Tags',
+  'products.active': 'Visible to buyers',
+  'products.photos': 'Photos',
+  'products.searchHint': 'Search in English or Hindi, e.g. pickle, achaar, अचार',
+  'products.allCategories': 'All Categories',
+  'products.allStates': 'All States',
+  'products.sort.relevance': 'Best match',
+  'products.sort.newest': 'Newest',
+  'products.sort.priceAsc': 'Price: Low to High',
+  'products.sort.priceDesc': 'Price: High to Low',
+  'products.sort.rating': 'Top Rated',
+  'products.clearFilters': 'Clear filters',
+  'products.loadMore': 'Load more',
+  'products.status.active': 'Active',
+  'products.status.inactive': 'Inactive',
+  'products.perUnit': '₹{price} per {unit}',
+  'products.unavailable': 'This product is not available.',
+  'products.linkCopied': 'Link copied!',
+  'products.share': '🔗 Share',
+  'products.reviewCount_one': '({count} review)',
+  'products.reviewCount_other': '({count} reviews)',
+  'products.perUnitStock': 'per {unit} · Stock: {stock}',
+  'products.india': 'India',
+  'products.moreFrom': 'More from {name}',
+  'products.moreFromFarmer': 'More from this farmer',
+  'products.moreIn': 'More in {category}',
+  'products.minPrice': 'Min ₹',
+  'products.maxPrice': 'Max ₹',
+  'products.noResults': 'No products found matching your criteria.',
+  'products.per': 'per {unit}',
+  'products.stockCount': 'Stock: {count}',
+  'orders.title': 'Orders',
+  'orders.status': 'Status',
+  'orders.total': 'Total',
+  'orders.manage': 'Manage Orders',
+  'orders.allStatuses': 'All statuses',
+  'orders.from': 'From',
+  'orders.to': 'To',
+  'orders.items': 'Items',
+  'orders.history': 'Status History',
+  'orders.payment': 'Payment',
+  'orders.cancel': 'Cancel Order',
+  'orders.messageFarmer': 'Message the farmer about this order',
+  'orders.none': 'No orders yet.',
+  'orders.number': 'Order #{number}',
+  'orders.fromFarmer': 'From: {name}',
+  'orders.action.pending': 'Pending',
+  'orders.action.confirmed': 'Confirm',
+  'orders.action.shipped': 'Mark Shipped',
+  'orders.action.delivered': 'Mark Delivered',
+  'orders.action.cancelled': 'Cancel',
+  'orders.farmersOnly': 'Only farmer accounts can manage orders.',
+  'orders.noMatches': 'No orders match these filters.',
+  'orders.confirmCancel': 'Cancel this order? Its stock will be released.',
+  'orders.step.pending': 'Order placed',
+  'orders.step.confirmed': 'Confirmed by farmer',
+  'orders.step.shipped': 'Shipped',
+  'orders.step.delivered': 'Delivered',
+  'orders.step.cancelled': 'Cancelled',
+  'orders.confirmBuyerCancel': 'Cancel this order?',
+  'orders.notFound': 'This order could not be found.',
+  'orders.refundProcessing': 'Your refund is being processed.',
+  'resources.title': 'Educational Resources',
+  'resources.subtitle': 'Learn about value addition, marketing strategies, and entrepreneurship',
+  'resources.categories': 'Categories',
+  'resources.all': 'All',
+  'resources.none': 'No resources found in this category.',
+  'resources.views_one': '{count} view',
+  'resources.views_other': '{count} views',
+  'resources.showLess': 'Show Less',
+  'resources.readMore': 'Read More →',
+  'resources.saved': 'Saved',
+  'resources.savedFilter': 'Saved ({count})',
+  'resources.save': 'Save for later',
+  'resources.unsave': 'Remove from saved',
+  'resources.noneSaved': 'You have not saved any guides yet. Tap 🔖 on a guide to keep it here.',
+  'resources.completed': 'Completed',
+  'resources.markComplete': 'Mark as completed',
+  'resources.markIncomplete': 'Mark as not completed',
+  'resources.progress': 'You have completed {completed} of {total} guides',
+  'resources.searchHint': 'Search guides, e.g. packaging, storage, अचार',
+  'resources.readIn': 'Read in',
+  'resources.tags': 'Tags',
+  'resources.removeTag': 'Remove #{tag} filter',
+  'resources.clearFilters': 'Clear filters',
+  'resources.noMatches': 'No guides match your search.',
+  'resources.share': '🔗 Share this list',
+  'resources.linkCopied': 'Link copied!',
+  'cart.title': 'Your Cart',
+  'cart.empty': 'Your cart is empty.',
+  'cart.subtotal': 'Subtotal',
+  'cart.remove': 'Remove',
+  'cart.clear': 'Clear Cart',
+  'cart.checkout': 'Proceed to Checkout',
+  'cart.add': 'Add to Cart',
+  'cart.addMore': 'Add to Cart ({count} in cart)',
+  'cart.itemCount_one': '{count} item',
+  'cart.itemCount_other': '{count} items',
+  'checkout.title': 'Checkout',
+  'checkout.address': 'Delivery Address',
+  'checkout.notes': 'Notes for the farmers',
+  'checkout.summary': 'Order Summary',
+  'checkout.place': 'Place Orders',
+  'checkout.confirmed': 'Orders placed successfully',
+  'checkout.invalidPincode': 'Please enter a valid 6-digit PIN code',
+  'checkout.insufficientStock': 'Some items no longer have enough stock. Your cart has been updated to what is available.',
+  'checkout.buyersOnly': 'Only buyer accounts can place orders.',
+  'checkout.oversoldLine': '{name}: requested {requested}, only {available} available',
+  'checkout.addressLine': 'Address',
+  'checkout.addressPlaceholder': 'House / street / village',
+  'checkout.pincode': 'PIN Code',
+  'checkout.splitNotice_one': 'Your cart will be placed as {count} order.',
+  'checkout.splitNotice_other': 'Your cart will be placed as {count} separate orders, one per farmer.',
+  'checkout.sent_one': '{count} order was sent to the farmers.',
+  'checkout.sent_other': '{count} orders were sent to the farmers.',
+  'checkout.shipSeparately': 'Each farmer will confirm and ship their part of your purchase separately.',
+  'checkout.keepCash': 'Keep cash ready for orders marked cash on delivery.',
+  'checkout.completePayment_one': 'Your items are reserved. Complete the online payment to send the order to the farmers.',
+  'checkout.completePayment_other': 'Your items are reserved. Complete the online payment to send the orders to the farmers.',
+  'payment.title': 'Payment',
+  'payment.card': 'Card',
+  'payment.pay': 'Pay Now',
+  'payment.pending': 'Payment pending',
+  'payment.online': 'Pay online',
+  'payment.cod': 'Cash on delivery',
+  'payment.collected': 'Collected',
+  'payment.outstanding': 'Outstanding',
+  'payment.markPaid': 'Mark Cash Received',
+  'payment.options': 'Payment Options',
+  'payment.keepOne': 'Keep at least one payment option enabled.',
+  'payment.optionsHint': 'Choose how buyers can pay for your orders.',
+  'payment.invalidUpi': 'Please enter a valid UPI ID, e.g. name@bank',
+  'payment.invalidCard': 'Please enter a valid 16-digit card number',
+  'payment.declined': 'The payment was declined. Please try again or use another method.',
+  'payment.processing': 'The payment is still being processed. Check your order page in a few minutes.',
+  'messages.conversations': 'Conversations',
+  'messages.select': 'Select a conversation to read and reply.',
+  'messages.placeholder': 'Type a message...',
+  'messages.send': 'Send',
+  'messages.allConversations': 'All conversations',
+  'messages.askFarmer': 'Ask the farmer',
+  'messages.contactBuyer': 'Contact buyer',
+  'messages.unread_one': '{count} unread message',
+  'messages.unread_other': '{count} unread messages',
+  'messages.voiceNote': '🎤 Voice note',
+  'messages.photo': '📷 Photo',
+  'messages.unknownUser': 'User',
+  'messages.youHaveUnread_one': 'You have {count} unread message',
+  'messages.youHaveUnread_other': 'You have {count} unread messages',
+  'messages.none': 'No conversations yet.',
+  'messages.you': 'You: ',
+  'messages.imageOnly': 'Please choose an image file',
+  'messages.sendPhoto': 'Send a photo',
+  'messages.sayHello': 'Say hello to start the conversation.',
+  'messages.seen': 'Seen',
+  'messages.photoAlt': 'Photo',
+  'dashboard.welcome': 'Welcome to your dashboard',
+  'dashboard.loading': 'Loading dashboard...',
+  'errors.unexpected': 'An unexpected error occurred',
+  'home.intro': 'Connect directly with farmers producing value-added agricultural products. Support rural entrepreneurship and get fresh, authentic products delivered to your door.',
+  'home.getStarted': 'Get Started',
+  'home.browse': 'Browse Products',
+  'home.howItWorks': 'How FarmConnect Works',
+  'home.farmers.title': 'For Farmers',
+  'home.farmers.body': 'List your value-added products, manage inventory, and reach customers across India. Access educational resources to grow your business.',
+  'home.buyers.title': 'For Buyers',
+  'home.buyers.body': 'Discover authentic agricultural products directly from farmers. Filter by organic, traditional methods, and support local communities.',
+  'home.impact.title': 'Track Impact',
+  'home.impact.body': 'Monitor sales trends, customer engagement, and measure the economic impact on rural entrepreneurship.',
+  'home.categories': 'Product Categories',
+  'home.category.processed': 'Processed Foods',
+  'home.category.dairy': 'Dairy Products',
+  'home.category.beverages': 'Beverages',
+  'home.category.grains': 'Grains & Flours',
+  'home.category.crafts': 'Handmade Crafts',
+  'home.category.organic': 'Organic Produce',
+  'home.join.title': 'Join the FarmConnect Community',
+  'home.join.body': "Whether you're a farmer looking to expand your market or a buyer seeking authentic products, FarmConnect is your platform for rural entrepreneurship.",
+  'home.signUpNow': 'Sign Up Now',
+  'admin.totalUsers': 'Total Users',
+  'admin.totalFarmers': 'Total Farmers',
+  'admin.totalBuyers': 'Total Buyers',
+  'admin.totalProducts': 'Total Products',
+  'admin.totalOrders': 'Total Orders',
+  'admin.totalRevenue': 'Total Revenue',
+  'admin.analytics': 'Platform Analytics',
+  'admin.analyticsSummary': 'The platform is connecting {farmers} farmers with {buyers} buyers, facilitating rural entrepreneurship through {products} value-added products.',
+  'admin.impact': 'Impact Measurement',
+  'admin.engagement': 'Farmer Engagement Rate',
+  'admin.productsPerFarmer': 'products/farmer',
+  'admin.averageOrder': 'Average Order Value',
+  'admin.growth': 'Platform Growth',
+  'admin.registeredUsers': 'registered users',
+  'admin.failedRefunds': 'Refunds that need attention',
+  'admin.failedRefundsHint': "The payment gateway kept declining these refunds. Refund the buyer by hand and check the gateway's dashboard.",
+  'admin.refundAttempts_one': '{count} attempt, last on {date}',
+  'admin.refundAttempts_other': '{count} attempts, last on {date}',
+  'farmer.activeProducts': 'Active Products',
+  'farmer.totalOrders': 'Total Orders',
+  'farmer.lowStock.title': 'Low Stock Alert',
+  'farmer.lowStock.body': 'The following products are running low on stock:',
+  'farmer.lowStock.available_one': '{name} - {count} unit available',
+  'farmer.lowStock.available_other': '{name} - {count} units available',
+  'farmer.lowStock.reserved': ' ({count} more reserved in open orders)',
+  'farmer.yourProducts': 'Your Products',
+  'farmer.noProducts': 'No products yet. Start by adding your first product!',
+  'farmer.product': 'Product',
+  'farmer.recentOrders': 'Recent Orders',
+  'status.pending': 'Pending',
+  'status.confirmed': 'Confirmed',
+  'status.shipped': 'Shipped',
+  'status.delivered': 'Delivered',
+  'status.cancelled': 'Cancelled',
+  'buyer.totalOrders': 'Total Orders',
+  'buyer.pendingOrders': 'Pending Orders',
+  'buyer.totalSpent': 'Total Spent',
+  'buyer.stillToPay': '₹{amount} still to pay',
+  'buyer.explore.title': 'Explore Products',
+  'buyer.explore.body': 'Browse value-added products from farmers across India',
+  'buyer.stories.title': 'Success Stories',
+  'buyer.stories.body': 'Read about farmer entrepreneurs and their journeys',
+  'buyer.yourOrders': 'Your Orders',
+  'buyer.noOrders': "You haven't placed any orders yet.",
+  'buyer.startShopping': 'Start Shopping',
+  'buyer.support.title': 'Support Local Communities',
+  'buyer.support.body': 'Every purchase you make directly supports farmer entrepreneurs and their families, contributing to rural economic development across India.',
+  'reviews.edit': 'Edit review',
+  'reviews.write': 'Write a review',
+  'reviews.ratingRequired': 'Please choose a rating from 1 to 5 stars',
+  'reviews.rating': 'Rating',
+  'reviews.placeholder': 'What did you think of this product?',
+  'reviews.none': 'No reviews yet.',
+  'reviews.outOfFive': '{rating} out of 5',
+  'reviews.title': 'Reviews',
+  'reviews.verified': '✓ Verified purchase',
+  'reviews.newer': '← Newer',
+  'reviews.older': 'Older →',
+  'reviews.page': 'Page {page} of {pages}',
+  'reviews.farmerReply': 'Reply from the farmer',
+  'reviews.editReply': 'Edit reply',
+  'reviews.reply': 'Reply',
+  'photos.limit': 'You can add up to {count} photos per product',
+  'photos.uploadFailed': 'Could not upload image',
+  'photos.alt': 'Product photo {number}',
+  'photos.cover': 'Cover',
+  'photos.setCover': 'Set cover',
+  'photos.uploading': 'Uploading...',
+  'photos.add': '+ Add photos',
+  'voice.unsupported': 'Voice notes are not supported in this browser',
+  'voice.noMicrophone': 'Could not access the microphone',
+  'voice.record': 'Record a voice note',
+  'paymentStatus.pending': 'Pending',
+  'paymentStatus.completed': 'Paid',
+  'paymentStatus.failed': 'Failed',
+  'paymentStatus.refunded': 'Refunded',
+  'productForm.nameRequired': 'Product name is required',
+  'productForm.descriptionRequired': 'Description is required',
+  'productForm.unitRequired': 'Unit is required',
+  'productForm.priceInvalid': 'Price must be a number of 0 or more',
+  'productForm.priceTooLarge': 'Price is too large',
+  'productForm.priceDecimals': 'Price can have at most 2 decimal places',
+  'productForm.stockInvalid': 'Stock must be a whole number of 0 or more',
+  'productForm.lowStockInvalid': 'Low stock threshold must be a whole number of 0 or more',
+  'productForm.shelfLifeInvalid': 'Shelf life must be a whole number of days',
+  'productForm.notFound': 'Product not found',
+  'productForm.farmersOnly': 'Only farmer accounts can list products.',
+  'productForm.selectCategory': 'Select Category',
+  'productForm.processingPlaceholder': 'e.g. Sun-dried, cold-pressed',
+  'productForm.tagsPlaceholder': 'pickle, mango, homemade',
+  'productForm.tagsHint': 'Separate tags with commas',
+  'productForm.stockChanged': 'Stock changed to {count} while you were editing, probably because of new orders. Check the stock and save again.',
+  'translations.title': 'Other languages',
+  'translations.hint': 'English is the original. Readers whose language has no version here see the English text.',
+  'translations.none': 'No other language versions yet.',
+  'translations.add': '+ Add a language',
+  'translations.required': 'Fill in every field for this language',
+  'translations.confirmRemove': 'Remove the {language} version?',
+  'translations.saveFirst': 'Save the product first, then add versions in other languages here.',
+  'translations.contentTitle': 'Content translations',
+  'translations.contentHint': 'Add category names and learning resources in more languages.',
+  'translations.manage': 'Manage translations',
+  'translations.adminsOnly': 'Only admins can manage content translations.',
+  'translations.categories': 'Product categories',
+  'translations.resources': 'Learning resources',
+  'translations.selectItem': 'Select an item to see and edit its language versions.',
+  'translations.name': 'Name',
+  'translations.resourceTitle': 'Title',
+  'translations.resourceContent': 'Content',
+  'adminUsers.title': 'Users',
+  'adminUsers.hint': 'Find users, change roles and deactivate accounts.',
+  'adminUsers.manage': 'Manage users',
+  'adminUsers.adminsOnly': 'Only admin accounts can manage users.',
+  'adminUsers.searchHint': 'Search by name or phone number',
+  'adminUsers.role': 'Role',
+  'adminUsers.allRoles': 'All roles',
+  'adminUsers.status': 'Account',
+  'adminUsers.allStatuses': 'All accounts',
+  'adminUsers.active': 'Active',
+  'adminUsers.inactive': 'Deactivated',
+  'adminUsers.noMatches': 'No users match these filters.',
+  'adminUsers.count_one': '{count} user',
+  'adminUsers.count_other': '{count} users',
+  'adminUsers.showingOf': 'Showing {shown} of {total} users. Narrow the filters to see the rest.',
+  'adminUsers.location': 'Location',
+  'adminUsers.joined': 'Joined',
+  'adminUsers.joinedOn': 'Joined {date}',
+  'adminUsers.notFound': 'This user could not be found.',
+  'adminUsers.selfNotice': 'You cannot change the role or status of your own account.',
+  'adminUsers.changeRole': 'Change role',
+  'adminUsers.deactivate': 'Deactivate account',
+  'adminUsers.reactivate': 'Reactivate account',
+  'adminUsers.confirmDeactivate': 'Deactivate {name}? They will be signed out and their products hidden from buyers.',
+  'adminUsers.confirmReactivate': 'Reactivate {name}? They will be able to sign in again.',
+  'adminUsers.products': 'Products',
+  'adminUsers.orders': 'Recent orders',
+  'adminUsers.boughtFrom': 'Bought from {name}',
+  'adminUsers.soldTo': 'Sold to {name}',
+  'resourceAdmin.title': 'Learning resources',
+  'resourceAdmin.hint': 'Write, schedule and publish guides for farmers.',
+  'resourceAdmin.manage': 'Manage resources',
+  'resourceAdmin.new': 'New resource',
+  'resourceAdmin.adminsOnly': 'Only admin accounts can manage learning resources.',
+  'resourceAdmin.none': 'No resources here yet.',
+  'resourceAdmin.updated': 'Last updated',
+  'resourceAdmin.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'resourceForm.newTitle': 'New resource',
+  'resourceForm.editTitle': 'Edit resource',
+  'resourceForm.notFound': 'This resource could not be found.',
+  'resourceForm.untitled': 'Untitled resource',
+  'resourceForm.category': 'Category',
+  'resourceForm.markdownHint': 'Formatting: # heading, **bold**, *italic*, - list item, 1. numbered item, > quote, [link](https://...).',
+  'resourceForm.tagsHint': 'Press Enter or comma to add a tag.',
+  'resourceForm.removeTag': 'Remove tag {tag}',
+  'resourceForm.image': 'Featured image',
+  'resourceForm.removeImage': 'Remove image',
+  'resourceForm.uploading': 'Uploading...',
+  'resourceForm.visibility': 'Visibility',
+  'resourceForm.status.draft': 'Draft',
+  'resourceForm.status.published': 'Published',
+  'resourceForm.status.scheduled': 'Scheduled',
+  'resourceForm.preview': 'Preview',
+  'resourceForm.otherLanguages': 'Translations into other languages are managed separately.',
+  'resourceForm.titleRequired': 'Please enter an English title.',
+  'resourceForm.contentRequired': 'Please enter the English content.',
+  'resourceForm.categoryRequired': 'Please choose a category.',
+  'resourceForm.hindiIncomplete': 'Fill in both the Hindi title and content, or leave both empty.',
+  'resourceForm.scheduleRequired': 'Choose when the resource should be published.',
+  'resourceForm.scheduleInPast': 'The scheduled time must be in the future.',
+  'learning.title': 'Continue learning',
+  'learning.browse': 'All guides',
+  'learning.empty': 'Save or open a guide under Resources and it will show up here.',
+  'learning.completedCount_one': '{count} guide completed',
+  'learning.completedCount_other': '{count} guides completed',
+  'learning.lastViewed': 'opened {date}',
+  'learning.inProgress': 'In progress',
+  'learning.notStarted': 'Not started',
+  'resourceAnalytics.title': 'Resource analytics',
+  'resourceAnalytics.lastDays_one': 'Last {count} day',
+  'resourceAnalytics.lastDays_other': 'Last {count} days',
+  'resourceAnalytics.views': 'Views',
+  'resourceAnalytics.readers': 'Unique readers',
+  'resourceAnalytics.readersCount_one': '{count} reader',
+  'resourceAnalytics.readersCount_other': '{count} readers',
+  'resourceAnalytics.bookmarks': 'Saves',
+  'resourceAnalytics.completions': 'Completions',
+  'resourceAnalytics.languages': 'Languages',
+  'resourceAnalytics.allResources': 'All resources',
+  'resourceAnalytics.showAll': 'Show all resources',
+  'resourceAnalytics.dailyViews': 'Views per day',
+  'offline.banner': 'You are offline. You are seeing saved data, and your changes will be sent when you reconnect.',
+  'offline.pending_one': '{count} change is waiting to be sent.',
+  'offline.pending_other': '{count} changes are waiting to be sent.',
+  'offline.syncing': 'Sending the changes you made offline...',
+  'offline.conflicts': 'Some changes you made offline need your attention',
+  'offline.stockConflict': '{name}: you set the stock to {mine}, but it has changed to {current} in the meantime.',
+  'offline.stockFailed': 'Stock for {name} could not be saved: {reason}',
+  'offline.messageFailed': 'Message to {name} could not be sent: {reason}',
+  'offline.productMissing': 'the product no longer exists',
+  'offline.keepMine': 'Use {stock}',
+  'offline.keepServer': 'Keep {stock}',
+  'offline.retry': 'Try again',
+  'offline.discard': 'Discard',
+  'offline.queued': 'Waiting for network',
+  'offline.notSent': 'Not sent',
+  'offline.attachmentsNeedNetwork': 'Photos and voice notes need a connection. Text messages are saved and sent when you reconnect.',
+};
+
+export default en;
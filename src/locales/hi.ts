@@ -0,0 +1,442 @@
+const hi: Record<string, string> = {
+  'app.name': 'फार्मकनेक्ट',
+  'app.tagline': 'भारतीय किसानों को सशक्त बनाना',
+  'nav.home': 'होम',
+  'nav.products': 'उत्पाद',
+  'nav.resources': 'संसाधन',
+  'nav.dashboard': 'डैशबोर्ड',
+  'nav.messages': 'संदेश',
+  'nav.cart': 'टोकरी',
+  'nav.language': 'भाषा',
+  'auth.signin': 'साइन इन करें',
+  'auth.signup': 'साइन अप करें',
+  'auth.signout': 'साइन आउट करें',
+  'auth.email': 'ईमेल',
+  'auth.password': 'पासवर्ड',
+  'auth.fullname': 'पूरा नाम',
+  'auth.phone': 'फोन नंबर',
+  'auth.role': 'मैं हूँ',
+  'auth.role.farmer': 'किसान',
+  'auth.role.buyer': 'खरीदार',
+  'auth.state': 'राज्य',
+  'auth.district': 'जिला',
+  'auth.language': 'भाषा',
+  'auth.selectState': 'राज्य चुनें',
+  'auth.haveAccount': 'पहले से खाता है?',
+  'auth.noAccount': 'खाता नहीं है?',
+  'auth.role.admin': 'व्यवस्थापक',
+  'auth.deactivated': 'यह खाता निष्क्रिय कर दिया गया है। कृपया सहायता से संपर्क करें।',
+  'role.admin': 'व्यवस्थापक',
+  'role.farmer': 'किसान',
+  'role.buyer': 'खरीदार',
+  'welcome': 'स्वागत है',
+  'loading': 'लोड हो रहा है...',
+  'save': 'सहेजें',
+  'cancel': 'रद्द करें',
+  'delete': 'हटाएं',
+  'edit': 'संपादित करें',
+  'view': 'देखें',
+  'search': 'खोजें',
+  'filter': 'फ़िल्टर',
+  'products.title': 'उत्पाद',
+  'products.add': 'उत्पाद जोड़ें',
+  'products.name': 'उत्पाद का नाम',
+  'products.price': 'कीमत',
+  'products.stock': 'स्टॉक',
+  'products.organic': 'जैविक',
+  'products.traditional': 'पारंपरिक',
+  'products.edit': 'उत्पाद संपादित करें',
+  'products.description': 'विवरण',
+  'products.category': 'श्रेणी',
+  'products.unit': 'इकाई',
+  'products.lowStock': 'कम स्टॉक सीमा',
+  'products.processing': 'प्रसंस्करण विधि',
+  'products.shelfLife': 'शेल्फ लाइफ (दिन)',
+  'products.tags': 'टैग',
+  'products.active': 'खरीदारों को दिखाई दे',
+  'products.photos': 'फ़ोटो',
+  'products.searchHint': 'हिंदी या अंग्रेज़ी में खोजें, जैसे अचार, achaar, pickle',
+  'products.allCategories': 'सभी श्रेणियां',
+  'products.allStates': 'सभी राज्य',
+  'products.sort.relevance': 'सबसे उपयुक्त',
+  'products.sort.newest': 'नवीनतम',
+  'products.sort.priceAsc': 'कीमत: कम से अधिक',
+  'products.sort.priceDesc': 'कीमत: अधिक से कम',
+  'products.sort.rating': 'सर्वोच्च रेटिंग',
+  'products.clearFilters': 'फ़िल्टर हटाएं',
+  'products.loadMore': 'और देखें',
+  'products.status.active': 'सक्रिय',
+  'products.status.inactive': 'निष्क्रिय',
+  'products.perUnit': '₹{price} प्रति {unit}',
+  'products.unavailable': 'यह उत्पाद उपलब्ध नहीं है।',
+  'products.linkCopied': 'लिंक कॉपी हो गया!',
+  'products.share': '🔗 साझा करें',
+  'products.reviewCount_one': '({count} समीक्षा)',
+  'products.reviewCount_other': '({count} समीक्षाएं)',
+  'products.perUnitStock': 'प्रति {unit} · स्टॉक: {stock}',
+  'products.india': 'भारत',
+  'products.moreFrom': '{name} के और उत्पाद',
+  'products.moreFromFarmer': 'इस किसान के और उत्पाद',
+  'products.moreIn': '{category} में और',
+  'products.minPrice': 'न्यूनतम ₹',
+  'products.maxPrice': 'अधिकतम ₹',
+  'products.noResults': 'आपके मानदंडों से मेल खाता कोई उत्पाद नहीं मिला।',
+  'products.per': 'प्रति {unit}',
+  'products.stockCount': 'स्टॉक: {count}',
+  'orders.title': 'आदेश',
+  'orders.status': 'स्थिति',
+  'orders.total': 'कुल',
+  'orders.manage': 'ऑर्डर प्रबंधित करें',
+  'orders.allStatuses': 'सभी स्थितियां',
+  'orders.from': 'से',
+  'orders.to': 'तक',
+  'orders.items': 'वस्तुएं',
+  'orders.history': 'स्थिति इतिहास',
+  'orders.payment': 'भुगतान',
+  'orders.cancel': 'ऑर्डर रद्द करें',
+  'orders.messageFarmer': 'इस ऑर्डर के बारे में किसान को संदेश भेजें',
+  'orders.none': 'अभी कोई ऑर्डर नहीं है।',
+  'orders.number': 'ऑर्डर #{number}',
+  'orders.fromFarmer': 'विक्रेता: {name}',
+  'orders.action.pending': 'लंबित',
+  'orders.action.confirmed': 'पुष्टि करें',
+  'orders.action.shipped': 'भेजा गया चिह्नित करें',
+  'orders.action.delivered': 'पहुंचाया गया चिह्नित करें',
+  'orders.action.cancelled': 'रद्द करें',
+  'orders.farmersOnly': 'केवल किसान खाते ही ऑर्डर प्रबंधित कर सकते हैं।',
+  'orders.noMatches': 'इन फ़िल्टरों से मेल खाता कोई ऑर्डर नहीं है।',
+  'orders.confirmCancel': 'यह ऑर्डर रद्द करें? इसका स्टॉक वापस उपलब्ध हो जाएगा।',
+  'orders.step.pending': 'ऑर्डर दिया गया',
+  'orders.step.confirmed': 'किसान ने पुष्टि की',
+  'orders.step.shipped': 'भेजा गया',
+  'orders.step.delivered': 'पहुंचाया गया',
+  'orders.step.cancelled': 'रद्द',
+  'orders.confirmBuyerCancel': 'यह ऑर्डर रद्द करें?',
+  'orders.notFound': 'यह ऑर्डर नहीं मिला।',
+  'orders.refundProcessing': 'आपका रिफंड प्रक्रिया में है।',
+  'resources.title': 'शैक्षिक संसाधन',
+  'resources.subtitle': 'मूल्य संवर्धन, विपणन रणनीतियों और उद्यमिता के बारे में जानें',
+  'resources.categories': 'श्रेणियां',
+  'resources.all': 'सभी',
+  'resources.none': 'इस श्रेणी में कोई संसाधन नहीं मिला।',
+  'resources.views_one': '{count} बार देखा गया',
+  'resources.views_other': '{count} बार देखा गया',
+  'resources.showLess': 'कम दिखाएं',
+  'resources.readMore': 'और पढ़ें →',
+  'resources.saved': 'सहेजा गया',
+  'resources.savedFilter': 'सहेजे गए ({count})',
+  'resources.save': 'बाद के लिए सहेजें',
+  'resources.unsave': 'सहेजे गए से हटाएँ',
+  'resources.noneSaved': 'आपने अभी तक कोई मार्गदर्शिका नहीं सहेजी है। उसे यहाँ रखने के लिए मार्गदर्शिका पर 🔖 दबाएँ।',
+  'resources.completed': 'पूरा हुआ',
+  'resources.markComplete': 'पूरा हुआ चिह्नित करें',
+  'resources.markIncomplete': 'अधूरा चिह्नित करें',
+  'resources.progress': 'आपने {total} में से {completed} मार्गदर्शिकाएँ पूरी की हैं',
+  'resources.searchHint': 'गाइड खोजें, जैसे पैकेजिंग, भंडारण, अचार',
+  'resources.readIn': 'पढ़ने की भाषा',
+  'resources.tags': 'टैग',
+  'resources.removeTag': '#{tag} फ़िल्टर हटाएँ',
+  'resources.clearFilters': 'फ़िल्टर हटाएँ',
+  'resources.noMatches': 'आपकी खोज से कोई गाइड मेल नहीं खाती।',
+  'resources.share': '🔗 यह सूची साझा करें',
+  'resources.linkCopied': 'लिंक कॉपी हो गया!',
+  'cart.title': 'आपकी टोकरी',
+  'cart.empty': 'आपकी टोकरी खाली है।',
+  'cart.subtotal': 'उप-योग',
+  'cart.remove': 'हटाएं',
+  'cart.clear': 'टोकरी खाली करें',
+  'cart.checkout': 'चेकआउट करें',
+  'cart.add': 'टोकरी में डालें',
+  'cart.addMore': 'टोकरी में डालें (टोकरी में {count})',
+  'cart.itemCount_one': '{count} वस्तु',
+  'cart.itemCount_other': '{count} वस्तुएं',
+  'checkout.title': 'चेकआउट',
+  'checkout.address': 'डिलीवरी पता',
+  'checkout.notes': 'किसानों के लिए नोट',
+  'checkout.summary': 'ऑर्डर सारांश',
+  'checkout.place': 'ऑर्डर दें',
+  'checkout.confirmed': 'ऑर्डर सफलतापूर्वक दिए गए',
+  'checkout.invalidPincode': 'कृपया सही 6 अंकों का पिन कोड दर्ज करें',
+  'checkout.insufficientStock': 'कुछ वस्तुओं का पर्याप्त स्टॉक अब नहीं है। आपकी टोकरी को उपलब्ध मात्रा के अनुसार अपडेट कर दिया गया है।',
+  'checkout.buyersOnly': 'केवल खरीदार खाते ही ऑर्डर दे सकते हैं।',
+  'checkout.oversoldLine': '{name}: {requested} मांगे गए, केवल {available} उपलब्ध',
+  'checkout.addressLine': 'पता',
+  'checkout.addressPlaceholder': 'मकान / गली / गांव',
+  'checkout.pincode': 'पिन कोड',
+  'checkout.splitNotice_one': 'आपकी टोकरी {count} ऑर्डर के रूप में दी जाएगी।',
+  'checkout.splitNotice_other': 'आपकी टोकरी {count} अलग-अलग ऑर्डर के रूप में दी जाएगी, हर किसान के लिए एक।',
+  'checkout.sent_one': '{count} ऑर्डर किसानों को भेजा गया।',
+  'checkout.sent_other': '{count} ऑर्डर किसानों को भेजे गए।',
+  'checkout.shipSeparately': 'हर किसान आपकी खरीद का अपना हिस्सा अलग से पुष्टि करके भेजेगा।',
+  'checkout.keepCash': 'डिलीवरी पर नकद वाले ऑर्डरों के लिए नकद तैयार रखें।',
+  'checkout.completePayment_one': 'आपकी वस्तुएं आरक्षित हैं। ऑर्डर किसानों को भेजने के लिए ऑनलाइन भुगतान पूरा करें।',
+  'checkout.completePayment_other': 'आपकी वस्तुएं आरक्षित हैं। ऑर्डर किसानों को भेजने के लिए ऑनलाइन भुगतान पूरा करें।',
+  'payment.title': 'भुगतान',
+  'payment.card': 'कार्ड',
+  'payment.pay': 'अभी भुगतान करें',
+  'payment.pending': 'भुगतान बाकी है',
+  'payment.online': 'ऑनलाइन भुगतान',
+  'payment.cod': 'डिलीवरी पर नकद',
+  'payment.collected': 'प्राप्त',
+  'payment.outstanding': 'बकाया',
+  'payment.markPaid': 'नकद प्राप्त हुआ',
+  'payment.options': 'भुगतान विकल्प',
+  'payment.keepOne': 'कम से कम एक भुगतान विकल्प चालू रखें।',
+  'payment.optionsHint': 'चुनें कि खरीदार आपके ऑर्डर का भुगतान कैसे कर सकते हैं।',
+  'payment.invalidUpi': 'कृपया सही UPI आईडी दर्ज करें, जैसे name@bank',
+  'payment.invalidCard': 'कृपया सही 16 अंकों का कार्ड नंबर दर्ज करें',
+  'payment.declined': 'भुगतान अस्वीकार हो गया। कृपया फिर से कोशिश करें या कोई दूसरा तरीका अपनाएं।',
+  'payment.processing': 'भुगतान अभी प्रक्रिया में है। कुछ मिनट बाद अपना ऑर्डर पेज देखें।',
+  'messages.conversations': 'बातचीत',
+  'messages.select': 'पढ़ने और जवाब देने के लिए एक बातचीत चुनें।',
+  'messages.placeholder': 'संदेश लिखें...',
+  'messages.send': 'भेजें',
+  'messages.allConversations': 'सभी बातचीत',
+  'messages.askFarmer': 'किसान से पूछें',
+  'messages.contactBuyer': 'खरीदार से संपर्क करें',
+  'messages.unread_one': '{count} अपठित संदेश',
+  'messages.unread_other': '{count} अपठित संदेश',
+  'messages.voiceNote': '🎤 वॉइस नोट',
+  'messages.photo': '📷 फ़ोटो',
+  'messages.unknownUser': 'उपयोगकर्ता',
+  'messages.youHaveUnread_one': 'आपके पास {count} अपठित संदेश है',
+  'messages.youHaveUnread_other': 'आपके पास {count} अपठित संदेश हैं',
+  'messages.none': 'अभी कोई बातचीत नहीं है।',
+  'messages.you': 'आप: ',
+  'messages.imageOnly': 'कृपया एक छवि फ़ाइल चुनें',
+  'messages.sendPhoto': 'फ़ोटो भेजें',
+  'messages.sayHello': 'बातचीत शुरू करने के लिए नमस्ते कहें।',
+  'messages.seen': 'देखा गया',
+  'messages.photoAlt': 'फ़ोटो',
+  'dashboard.welcome': 'अपने डैशबोर्ड में आपका स्वागत है',
+  'dashboard.loading': 'डैशबोर्ड लोड हो रहा है...',
+  'errors.unexpected': 'एक अप्रत्याशित त्रुटि हुई',
+  'home.intro': 'मूल्य-वर्धित कृषि उत्पाद बनाने वाले किसानों से सीधे जुड़ें। ग्रामीण उद्यमिता का समर्थन करें और ताज़ा, असली उत्पाद अपने घर पर पाएं।',
+  'home.getStarted': 'शुरू करें',
+  'home.browse': 'उत्पाद देखें',
+  'home.howItWorks': 'फार्मकनेक्ट कैसे काम करता है',
+  'home.farmers.title': 'किसानों के लिए',
+  'home.farmers.body': 'अपने मूल्य-वर्धित उत्पाद सूचीबद्ध करें, स्टॉक संभालें और पूरे भारत के ग्राहकों तक पहुंचें। अपना व्यवसाय बढ़ाने के लिए शैक्षिक संसाधनों का लाभ उठाएं।',
+  'home.buyers.title': 'खरीदारों के लिए',
+  'home.buyers.body': 'किसानों से सीधे असली कृषि उत्पाद खोजें। जैविक और पारंपरिक तरीकों के अनुसार छांटें और स्थानीय समुदायों का साथ दें।',
+  'home.impact.title': 'प्रभाव देखें',
+  'home.impact.body': 'बिक्री के रुझान और ग्राहकों की भागीदारी पर नज़र रखें, और ग्रामीण उद्यमिता पर आर्थिक प्रभाव को मापें।',
+  'home.categories': 'उत्पाद श्रेणियां',
+  'home.category.processed': 'प्रसंस्कृत खाद्य',
+  'home.category.dairy': 'डेयरी उत्पाद',
+  'home.category.beverages': 'पेय पदार्थ',
+  'home.category.grains': 'अनाज और आटा',
+  'home.category.crafts': 'हस्तशिल्प',
+  'home.category.organic': 'जैविक उपज',
+  'home.join.title': 'फार्मकनेक्ट समुदाय से जुड़ें',
+  'home.join.body': 'चाहे आप अपना बाज़ार बढ़ाना चाहने वाले किसान हों या असली उत्पाद खोजने वाले खरीदार, फार्मकनेक्ट ग्रामीण उद्यमिता का आपका मंच है।',
+  'home.signUpNow': 'अभी साइन अप करें',
+  'admin.totalUsers': 'कुल उपयोगकर्ता',
+  'admin.totalFarmers': 'कुल किसान',
+  'admin.totalBuyers': 'कुल खरीदार',
+  'admin.totalProducts': 'कुल उत्पाद',
+  'admin.totalOrders': 'कुल ऑर्डर',
+  'admin.totalRevenue': 'कुल राजस्व',
+  'admin.analytics': 'प्लेटफ़ॉर्म विश्लेषण',
+  'admin.analyticsSummary': 'प्लेटफ़ॉर्म {farmers} किसानों को {buyers} खरीदारों से जोड़ रहा है और {products} मूल्य-वर्धित उत्पादों के ज़रिए ग्रामीण उद्यमिता को बढ़ावा दे रहा है।',
+  'admin.impact': 'प्रभाव मापन',
+  'admin.engagement': 'किसान भागीदारी दर',
+  'admin.productsPerFarmer': 'उत्पाद/किसान',
+  'admin.averageOrder': 'औसत ऑर्डर मूल्य',
+  'admin.growth': 'प्लेटफ़ॉर्म वृद्धि',
+  'admin.registeredUsers': 'पंजीकृत उपयोगकर्ता',
+  'admin.failedRefunds': 'ध्यान देने योग्य रिफ़ंड',
+  'admin.failedRefundsHint': 'पेमेंट गेटवे ने ये रिफ़ंड बार-बार अस्वीकार किए। खरीदार को स्वयं रिफ़ंड करें और गेटवे का डैशबोर्ड जाँचें।',
+  'admin.refundAttempts_one': '{count} प्रयास, अंतिम {date} को',
+  'admin.refundAttempts_other': '{count} प्रयास, अंतिम {date} को',
+  'farmer.activeProducts': 'सक्रिय उत्पाद',
+  'farmer.totalOrders': 'कुल ऑर्डर',
+  'farmer.lowStock.title': 'कम स्टॉक चेतावनी',
+  'farmer.lowStock.body': 'इन उत्पादों का स्टॉक कम हो रहा है:',
+  'farmer.lowStock.available_one': '{name} - {count} इकाई उपलब्ध',
+  'farmer.lowStock.available_other': '{name} - {count} इकाइयां उपलब्ध',
+  'farmer.lowStock.reserved': ' (खुले ऑर्डरों में {count} और आरक्षित)',
+  'farmer.yourProducts': 'आपके उत्पाद',
+  'farmer.noProducts': 'अभी कोई उत्पाद नहीं है। अपना पहला उत्पाद जोड़कर शुरू करें!',
+  'farmer.product': 'उत्पाद',
+  'farmer.recentOrders': 'हाल के ऑर्डर',
+  'status.pending': 'लंबित',
+  'status.confirmed': 'पुष्टि हुई',
+  'status.shipped': 'भेजा गया',
+  'status.delivered': 'पहुंचाया गया',
+  'status.cancelled': 'रद्द',
+  'buyer.totalOrders': 'कुल ऑर्डर',
+  'buyer.pendingOrders': 'लंबित ऑर्डर',
+  'buyer.totalSpent': 'कुल खर्च',
+  'buyer.stillToPay': '₹{amount} का भुगतान बाकी',
+  'buyer.explore.title': 'उत्पाद देखें',
+  'buyer.explore.body': 'पूरे भारत के किसानों के मूल्य-वर्धित उत्पाद देखें',
+  'buyer.stories.title': 'सफलता की कहानियां',
+  'buyer.stories.body': 'किसान उद्यमियों और उनकी यात्रा के बारे में पढ़ें',
+  'buyer.yourOrders': 'आपके ऑर्डर',
+  'buyer.noOrders': 'आपने अभी तक कोई ऑर्डर नहीं दिया है।',
+  'buyer.startShopping': 'खरीदारी शुरू करें',
+  'buyer.support.title': 'स्थानीय समुदायों का साथ दें',
+  'buyer.support.body': 'आपकी हर खरीद सीधे किसान उद्यमियों और उनके परिवारों की मदद करती है और पूरे भारत में ग्रामीण आर्थिक विकास में योगदान देती है।',
+  'reviews.edit': 'समीक्षा संपादित करें',
+  'reviews.write': 'समीक्षा लिखें',
+  'reviews.ratingRequired': 'कृपया 1 से 5 स्टार के बीच रेटिंग चुनें',
+  'reviews.rating': 'रेटिंग',
+  'reviews.placeholder': 'आपको यह उत्पाद कैसा लगा?',
+  'reviews.none': 'अभी कोई समीक्षा नहीं है।',
+  'reviews.outOfFive': '5 में से {rating}',
+  'reviews.title': 'समीक्षाएं',
+  'reviews.verified': '✓ सत्यापित खरीद',
+  'reviews.newer': '← नई',
+  'reviews.older': 'पुरानी →',
+  'reviews.page': 'पृष्ठ {page} / {pages}',
+  'reviews.farmerReply': 'किसान का जवाब',
+  'reviews.editReply': 'जवाब संपादित करें',
+  'reviews.reply': 'जवाब दें',
+  'photos.limit': 'आप हर उत्पाद में अधिकतम {count} फ़ोटो जोड़ सकते हैं',
+  'photos.uploadFailed': 'छवि अपलोड नहीं हो सकी',
+  'photos.alt': 'उत्पाद फ़ोटो {number}',
+  'photos.cover': 'मुख्य फ़ोटो',
+  'photos.setCover': 'मुख्य बनाएं',
+  'photos.uploading': 'अपलोड हो रहा है...',
+  'photos.add': '+ फ़ोटो जोड़ें',
+  'voice.unsupported': 'इस ब्राउज़र में वॉइस नोट समर्थित नहीं हैं',
+  'voice.noMicrophone': 'माइक्रोफ़ोन तक पहुंच नहीं मिली',
+  'voice.record': 'वॉइस नोट रिकॉर्ड करें',
+  'paymentStatus.pending': 'बाकी',
+  'paymentStatus.completed': 'भुगतान हो गया',
+  'paymentStatus.failed': 'विफल',
+  'paymentStatus.refunded': 'वापस किया गया',
+  'productForm.nameRequired': 'उत्पाद का नाम आवश्यक है',
+  'productForm.descriptionRequired': 'विवरण आवश्यक है',
+  'productForm.unitRequired': 'इकाई आवश्यक है',
+  'productForm.priceInvalid': 'कीमत 0 या उससे अधिक की संख्या होनी चाहिए',
+  'productForm.priceTooLarge': 'कीमत बहुत अधिक है',
+  'productForm.priceDecimals': 'कीमत में अधिकतम 2 दशमलव स्थान हो सकते हैं',
+  'productForm.stockInvalid': 'स्टॉक 0 या उससे अधिक की पूर्ण संख्या होना चाहिए',
+  'productForm.lowStockInvalid': 'कम स्टॉक सीमा 0 या उससे अधिक की पूर्ण संख्या होनी चाहिए',
+  'productForm.shelfLifeInvalid': 'शेल्फ लाइफ दिनों की पूर्ण संख्या होनी चाहिए',
+  'productForm.notFound': 'उत्पाद नहीं मिला',
+  'productForm.farmersOnly': 'केवल किसान खाते ही उत्पाद सूचीबद्ध कर सकते हैं।',
+  'productForm.selectCategory': 'श्रेणी चुनें',
+  'productForm.processingPlaceholder': 'जैसे धूप में सुखाया, कोल्ड-प्रेस्ड',
+  'productForm.tagsPlaceholder': 'अचार, आम, घर का बना',
+  'productForm.tagsHint': 'टैग को अल्पविराम से अलग करें',
+  'productForm.stockChanged': 'संपादन के दौरान स्टॉक बदलकर {count} हो गया, शायद नए ऑर्डर के कारण। स्टॉक जाँचें और फिर से सहेजें।',
+  'translations.title': 'अन्य भाषाएँ',
+  'translations.hint': 'अंग्रेज़ी मूल पाठ है। जिन पाठकों की भाषा का संस्करण यहाँ नहीं है, उन्हें अंग्रेज़ी पाठ दिखेगा।',
+  'translations.none': 'अभी कोई अन्य भाषा संस्करण नहीं है।',
+  'translations.add': '+ भाषा जोड़ें',
+  'translations.required': 'इस भाषा के लिए सभी फ़ील्ड भरें',
+  'translations.confirmRemove': '{language} संस्करण हटाएँ?',
+  'translations.saveFirst': 'पहले उत्पाद सहेजें, फिर यहाँ अन्य भाषाओं में संस्करण जोड़ें।',
+  'translations.contentTitle': 'सामग्री अनुवाद',
+  'translations.contentHint': 'श्रेणियों के नाम और शिक्षण संसाधन अधिक भाषाओं में जोड़ें।',
+  'translations.manage': 'अनुवाद प्रबंधित करें',
+  'translations.adminsOnly': 'केवल व्यवस्थापक सामग्री अनुवाद प्रबंधित कर सकते हैं।',
+  'translations.categories': 'उत्पाद श्रेणियाँ',
+  'translations.resources': 'शिक्षण संसाधन',
+  'translations.selectItem': 'इसके भाषा संस्करण देखने और संपादित करने के लिए कोई आइटम चुनें।',
+  'translations.name': 'नाम',
+  'translations.resourceTitle': 'शीर्षक',
+  'translations.resourceContent': 'सामग्री',
+  'adminUsers.title': 'उपयोगकर्ता',
+  'adminUsers.hint': 'उपयोगकर्ता खोजें, भूमिकाएँ बदलें और खाते निष्क्रिय करें।',
+  'adminUsers.manage': 'उपयोगकर्ता प्रबंधित करें',
+  'adminUsers.adminsOnly': 'केवल व्यवस्थापक खाते उपयोगकर्ताओं का प्रबंधन कर सकते हैं।',
+  'adminUsers.searchHint': 'नाम या फ़ोन नंबर से खोजें',
+  'adminUsers.role': 'भूमिका',
+  'adminUsers.allRoles': 'सभी भूमिकाएँ',
+  'adminUsers.status': 'खाता',
+  'adminUsers.allStatuses': 'सभी खाते',
+  'adminUsers.active': 'सक्रिय',
+  'adminUsers.inactive': 'निष्क्रिय',
+  'adminUsers.noMatches': 'इन फ़िल्टरों से कोई उपयोगकर्ता मेल नहीं खाता।',
+  'adminUsers.count_one': '{count} उपयोगकर्ता',
+  'adminUsers.count_other': '{count} उपयोगकर्ता',
+  'adminUsers.showingOf': '{total} में से {shown} उपयोगकर्ता दिखाए जा रहे हैं। बाकी देखने के लिए फ़िल्टर सीमित करें।',
+  'adminUsers.location': 'स्थान',
+  'adminUsers.joined': 'शामिल हुए',
+  'adminUsers.joinedOn': '{date} को शामिल हुए',
+  'adminUsers.notFound': 'यह उपयोगकर्ता नहीं मिला।',
+  'adminUsers.selfNotice': 'आप अपने खाते की भूमिका या स्थिति नहीं बदल सकते।',
+  'adminUsers.changeRole': 'भूमिका बदलें',
+  'adminUsers.deactivate': 'खाता निष्क्रिय करें',
+  'adminUsers.reactivate': 'खाता फिर से सक्रिय करें',
+  'adminUsers.confirmDeactivate': '{name} को निष्क्रिय करें? वे साइन आउट हो जाएँगे और उनके उत्पाद खरीदारों से छिप जाएँगे।',
+  'adminUsers.confirmReactivate': '{name} को फिर से सक्रिय करें? वे फिर से साइन इन कर सकेंगे।',
+  'adminUsers.products': 'उत्पाद',
+  'adminUsers.orders': 'हाल के ऑर्डर',
+  'adminUsers.boughtFrom': '{name} से खरीदा',
+  'adminUsers.soldTo': '{name} को बेचा',
+  'resourceAdmin.title': 'शिक्षण संसाधन',
+  'resourceAdmin.hint': 'किसानों के लिए मार्गदर्शिकाएँ लिखें, निर्धारित करें और प्रकाशित करें।',
+  'resourceAdmin.manage': 'संसाधन प्रबंधित करें',
+  'resourceAdmin.new': 'नया संसाधन',
+  'resourceAdmin.adminsOnly': 'केवल व्यवस्थापक खाते शिक्षण संसाधनों का प्रबंधन कर सकते हैं।',
+  'resourceAdmin.none': 'यहाँ अभी कोई संसाधन नहीं है।',
+  'resourceAdmin.updated': 'अंतिम अपडेट',
+  'resourceAdmin.confirmDelete': '"{title}" हटाएँ? इसे वापस नहीं किया जा सकता।',
+  'resourceForm.newTitle': 'नया संसाधन',
+  'resourceForm.editTitle': 'संसाधन संपादित करें',
+  'resourceForm.notFound': 'यह संसाधन नहीं मिला।',
+  'resourceForm.untitled': 'बिना शीर्षक संसाधन',
+  'resourceForm.category': 'श्रेणी',
+  'resourceForm.markdownHint': 'फ़ॉर्मेटिंग: # शीर्षक, **बोल्ड**, *इटैलिक*, - सूची, 1. क्रमांकित सूची, > उद्धरण, [लिंक](https://...)।',
+  'resourceForm.tagsHint': 'टैग जोड़ने के लिए Enter या कॉमा दबाएँ।',
+  'resourceForm.removeTag': 'टैग {tag} हटाएँ',
+  'resourceForm.image': 'मुख्य चित्र',
+  'resourceForm.removeImage': 'चित्र हटाएँ',
+  'resourceForm.uploading': 'अपलोड हो रहा है...',
+  'resourceForm.visibility': 'दृश्यता',
+  'resourceForm.status.draft': 'ड्राफ़्ट',
+  'resourceForm.status.published': 'प्रकाशित',
+  'resourceForm.status.scheduled': 'निर्धारित',
+  'resourceForm.preview': 'पूर्वावलोकन',
+  'resourceForm.otherLanguages': 'अन्य भाषाओं में अनुवाद अलग से प्रबंधित होते हैं।',
+  'resourceForm.titleRequired': 'कृपया अंग्रेज़ी शीर्षक दर्ज करें।',
+  'resourceForm.contentRequired': 'कृपया अंग्रेज़ी सामग्री दर्ज करें।',
+  'resourceForm.categoryRequired': 'कृपया श्रेणी चुनें।',
+  'resourceForm.hindiIncomplete': 'हिंदी शीर्षक और सामग्री दोनों भरें, या दोनों खाली छोड़ें।',
+  'resourceForm.scheduleRequired': 'चुनें कि संसाधन कब प्रकाशित होना चाहिए।',
+  'resourceForm.scheduleInPast': 'निर्धारित समय भविष्य में होना चाहिए।',
+  'learning.title': 'सीखना जारी रखें',
+  'learning.browse': 'सभी मार्गदर्शिकाएँ',
+  'learning.empty': 'शिक्षण संसाधनों में कोई मार्गदर्शिका सहेजें या खोलें, वह यहाँ दिखाई देगी।',
+  'learning.completedCount_one': '{count} मार्गदर्शिका पूरी हुई',
+  'learning.completedCount_other': '{count} मार्गदर्शिकाएँ पूरी हुईं',
+  'learning.lastViewed': '{date} को खोला',
+  'learning.inProgress': 'जारी है',
+  'learning.notStarted': 'शुरू नहीं किया',
+  'resourceAnalytics.title': 'संसाधन विश्लेषण',
+  'resourceAnalytics.lastDays_one': 'पिछला {count} दिन',
+  'resourceAnalytics.lastDays_other': 'पिछले {count} दिन',
+  'resourceAnalytics.views': 'व्यू',
+  'resourceAnalytics.readers': 'अलग-अलग पाठक',
+  'resourceAnalytics.readersCount_one': '{count} पाठक',
+  'resourceAnalytics.readersCount_other': '{count} पाठक',
+  'resourceAnalytics.bookmarks': 'सहेजे गए',
+  'resourceAnalytics.completions': 'पूर्णताएँ',
+  'resourceAnalytics.languages': 'भाषाएँ',
+  'resourceAnalytics.allResources': 'सभी संसाधन',
+  'resourceAnalytics.showAll': 'सभी संसाधन दिखाएँ',
+  'resourceAnalytics.dailyViews': 'प्रतिदिन व्यू',
+  'offline.banner': 'आप ऑफ़लाइन हैं। आप सहेजा गया डेटा देख रहे हैं, और आपके बदलाव दोबारा जुड़ने पर भेजे जाएँगे।',
+  'offline.pending_one': '{count} बदलाव भेजे जाने की प्रतीक्षा में है।',
+  'offline.pending_other': '{count} बदलाव भेजे जाने की प्रतीक्षा में हैं।',
+  'offline.syncing': 'ऑफ़लाइन किए गए बदलाव भेजे जा रहे हैं...',
+  'offline.conflicts': 'ऑफ़लाइन किए गए कुछ बदलावों पर आपका ध्यान चाहिए',
+  'offline.stockConflict': '{name}: आपने स्टॉक {mine} किया था, लेकिन इस बीच यह बदलकर {current} हो गया है।',
+  'offline.stockFailed': '{name} का स्टॉक सहेजा नहीं जा सका: {reason}',
+  'offline.messageFailed': '{name} को संदेश नहीं भेजा जा सका: {reason}',
+  'offline.productMissing': 'उत्पाद अब मौजूद नहीं है',
+  'offline.keepMine': '{stock} रखें',
+  'offline.keepServer': '{stock} ही रहने दें',
+  'offline.retry': 'फिर से कोशिश करें',
+  'offline.discard': 'छोड़ दें',
+  'offline.queued': 'नेटवर्क की प्रतीक्षा',
+  'offline.notSent': 'नहीं भेजा गया',
+  'offline.attachmentsNeedNetwork': 'फ़ोटो और वॉइस नोट के लिए नेटवर्क चाहिए। टेक्स्ट संदेश सहेजे जाते हैं और दोबारा जुड़ने पर भेजे जाते हैं।',
+};
+
+export default hi;
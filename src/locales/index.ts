@@ -0,0 +1,42 @@
+import en from './en';
+
+export type Catalog = Record<string, string>;
+
+export const languages = [
+  { code: 'en', name: 'English', locale: 'en-IN' },
+  { code: 'hi', name: 'हिन्दी', locale: 'hi-IN' },
+  { code: 'te', name: 'తెలుగు', locale: 'te-IN' },
+  { code: 'ta', name: 'தமிழ்', locale: 'ta-IN' },
+  { code: 'mr', name: 'मराठी', locale: 'mr-IN' },
+  { code: 'bn', name: 'বাংলা', locale: 'bn-IN' },
+  { code: 'kn', name: 'ಕನ್ನಡ', locale: 'kn-IN' },
+] as const;
+
+export type Language = (typeof languages)[number]['code'];
+
+// English ships with the main bundle as the fallback; every other catalog is
+// split into its own chunk and fetched the first time it is selected.
+const loaders: Record<Exclude<Language, 'en'>, () => Promise<{ default: Catalog }>> = {
+  hi: () => import('./hi'),
+  te: () => import('./te'),
+  ta: () => import('./ta'),
+  mr: () => import('./mr'),
+  bn: () => import('./bn'),
+  kn: () => import('./kn'),
+};
+
+export const fallbackCatalog: Catalog = en;
+
+export function isLanguage(value: unknown): value is Language {
+  return languages.some(language => language.code === value);
+}
+
+export function localeFor(language: Language): string {
+  return languages.find(l => l.code === language)!.locale;
+}
+
+export async function loadCatalog(language: Language): Promise<Catalog> {
+  if (language === 'en') return en;
+  const module = await loaders[language]();
+  return module.default;
+}
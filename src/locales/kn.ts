@@ -0,0 +1,442 @@
+const kn: Record<string, string> = {
+  'app.name': 'ಫಾರ್ಮ್‌ಕನೆಕ್ಟ್',
+  'app.tagline': 'ಭಾರತೀಯ ರೈತರ ಸಬಲೀಕರಣ',
+  'nav.home': 'ಮುಖಪುಟ',
+  'nav.products': 'ಉತ್ಪನ್ನಗಳು',
+  'nav.resources': 'ಸಂಪನ್ಮೂಲಗಳು',
+  'nav.dashboard': 'ಡ್ಯಾಶ್‌ಬೋರ್ಡ್',
+  'nav.messages': 'ಸಂದೇಶಗಳು',
+  'nav.cart': 'ಬುಟ್ಟಿ',
+  'nav.language': 'ಭಾಷೆ',
+  'auth.signin': 'ಸೈನ್ ಇನ್',
+  'auth.signup': 'ಸೈನ್ ಅಪ್',
+  'auth.signout': 'ಸೈನ್ ಔಟ್',
+  'auth.email': 'ಇಮೇಲ್',
+  'auth.password': 'ಪಾಸ್‌ವರ್ಡ್',
+  'auth.fullname': 'ಪೂರ್ಣ ಹೆಸರು',
+  'auth.phone': 'ಫೋನ್ ಸಂಖ್ಯೆ',
+  'auth.role': 'ನಾನು ಒಬ್ಬ',
+  'auth.role.farmer': 'ರೈತ',
+  'auth.role.buyer': 'ಖರೀದಿದಾರ',
+  'auth.state': 'ರಾಜ್ಯ',
+  'auth.district': 'ಜಿಲ್ಲೆ',
+  'auth.language': 'ಭಾಷೆ',
+  'auth.selectState': 'ರಾಜ್ಯವನ್ನು ಆಯ್ಕೆಮಾಡಿ',
+  'auth.haveAccount': 'ಈಗಾಗಲೇ ಖಾತೆ ಇದೆಯೇ?',
+  'auth.noAccount': 'ಖಾತೆ ಇಲ್ಲವೇ?',
+  'auth.role.admin': 'ನಿರ್ವಾಹಕ',
+  'auth.deactivated': 'ಈ ಖಾತೆಯನ್ನು ನಿಷ್ಕ್ರಿಯಗೊಳಿಸಲಾಗಿದೆ. ದಯವಿಟ್ಟು ಸಹಾಯವನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+  'role.admin': 'ನಿರ್ವಾಹಕ',
+  'role.farmer': 'ರೈತ',
+  'role.buyer': 'ಖರೀದಿದಾರ',
+  'welcome': 'ಸ್ವಾಗತ',
+  'loading': 'ಲೋಡ್ ಆಗುತ್ತಿದೆ...',
+  'save': 'ಉಳಿಸಿ',
+  'cancel': 'ರದ್ದುಮಾಡಿ',
+  'delete': 'ಅಳಿಸಿ',
+  'edit': 'ಸಂಪಾದಿಸಿ',
+  'view': 'ನೋಡಿ',
+  'search': 'ಹುಡುಕಿ',
+  'filter': 'ಫಿಲ್ಟರ್',
+  'products.title': 'ಉತ್ಪನ್ನಗಳು',
+  'products.add': 'ಉತ್ಪನ್ನ ಸೇರಿಸಿ',
+  'products.name': 'ಉತ್ಪನ್ನದ ಹೆಸರು',
+  'products.price': 'ಬೆಲೆ',
+  'products.stock': 'ದಾಸ್ತಾನು',
+  'products.organic': 'ಸಾವಯವ',
+  'products.traditional': 'ಸಾಂಪ್ರದಾಯಿಕ',
+  'products.edit': 'ಉತ್ಪನ್ನ ಸಂಪಾದಿಸಿ',
+  'products.description': 'ವಿವರಣೆ',
+  'products.category': 'ವರ್ಗ',
+  'products.unit': 'ಘಟಕ',
+  'products.lowStock': 'ಕಡಿಮೆ ದಾಸ್ತಾನು ಮಿತಿ',
+  'products.processing': 'ಸಂಸ್ಕರಣಾ ವಿಧಾನ',
+  'products.shelfLife': 'ಬಾಳಿಕೆ ಅವಧಿ (ದಿನಗಳು)',
+  'products.tags': 'ಟ್ಯಾಗ್‌ಗಳು',
+  'products.active': 'ಖರೀದಿದಾರರಿಗೆ ಕಾಣಿಸುತ್ತದೆ',
+  'products.photos': 'ಫೋಟೋಗಳು',
+  'products.searchHint': 'ಇಂಗ್ಲಿಷ್ ಅಥವಾ ಹಿಂದಿಯಲ್ಲಿ ಹುಡುಕಿ, ಉದಾ. pickle, achaar, अचार',
+  'products.allCategories': 'ಎಲ್ಲಾ ವರ್ಗಗಳು',
+  'products.allStates': 'ಎಲ್ಲಾ ರಾಜ್ಯಗಳು',
+  'products.sort.relevance': 'ಅತ್ಯುತ್ತಮ ಹೊಂದಾಣಿಕೆ',
+  'products.sort.newest': 'ಹೊಸದು',
+  'products.sort.priceAsc': 'ಬೆಲೆ: ಕಡಿಮೆಯಿಂದ ಹೆಚ್ಚು',
+  'products.sort.priceDesc': 'ಬೆಲೆ: ಹೆಚ್ಚಿನಿಂದ ಕಡಿಮೆ',
+  'products.sort.rating': 'ಅತಿ ಹೆಚ್ಚು ರೇಟಿಂಗ್',
+  'products.clearFilters': 'ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+  'products.loadMore': 'ಇನ್ನಷ್ಟು ತೋರಿಸಿ',
+  'products.status.active': 'ಸಕ್ರಿಯ',
+  'products.status.inactive': 'ನಿಷ್ಕ್ರಿಯ',
+  'products.perUnit': 'ಪ್ರತಿ {unit}ಗೆ ₹{price}',
+  'products.unavailable': 'ಈ ಉತ್ಪನ್ನ ಲಭ್ಯವಿಲ್ಲ.',
+  'products.linkCopied': 'ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ!',
+  'products.share': '🔗 ಹಂಚಿಕೊಳ್ಳಿ',
+  'products.reviewCount_one': '({count} ವಿಮರ್ಶೆ)',
+  'products.reviewCount_other': '({count} ವಿಮರ್ಶೆಗಳು)',
+  'products.perUnitStock': 'ಪ್ರತಿ {unit}ಗೆ · ದಾಸ್ತಾನು: {stock}',
+  'products.india': 'ಭಾರತ',
+  'products.moreFrom': '{name} ಅವರಿಂದ ಇನ್ನಷ್ಟು',
+  'products.moreFromFarmer': 'ಈ ರೈತರಿಂದ ಇನ್ನಷ್ಟು',
+  'products.moreIn': '{category}ಯಲ್ಲಿ ಇನ್ನಷ್ಟು',
+  'products.minPrice': 'ಕನಿಷ್ಠ ₹',
+  'products.maxPrice': 'ಗರಿಷ್ಠ ₹',
+  'products.noResults': 'ನಿಮ್ಮ ಮಾನದಂಡಗಳಿಗೆ ಹೊಂದುವ ಯಾವುದೇ ಉತ್ಪನ್ನಗಳು ಸಿಗಲಿಲ್ಲ.',
+  'products.per': 'ಪ್ರತಿ {unit}ಗೆ',
+  'products.stockCount': 'ದಾಸ್ತಾನು: {count}',
+  'orders.title': 'ಆರ್ಡರ್‌ಗಳು',
+  'orders.status': 'ಸ್ಥಿತಿ',
+  'orders.total': 'ಒಟ್ಟು',
+  'orders.manage': 'ಆರ್ಡರ್‌ಗಳನ್ನು ನಿರ್ವಹಿಸಿ',
+  'orders.allStatuses': 'ಎಲ್ಲಾ ಸ್ಥಿತಿಗಳು',
+  'orders.from': 'ಇಂದ',
+  'orders.to': 'ವರೆಗೆ',
+  'orders.items': 'ವಸ್ತುಗಳು',
+  'orders.history': 'ಸ್ಥಿತಿ ಇತಿಹಾಸ',
+  'orders.payment': 'ಪಾವತಿ',
+  'orders.cancel': 'ಆರ್ಡರ್ ರದ್ದುಮಾಡಿ',
+  'orders.messageFarmer': 'ಈ ಆರ್ಡರ್ ಬಗ್ಗೆ ರೈತರಿಗೆ ಸಂದೇಶ ಕಳುಹಿಸಿ',
+  'orders.none': 'ಇನ್ನೂ ಯಾವುದೇ ಆರ್ಡರ್‌ಗಳಿಲ್ಲ.',
+  'orders.number': 'ಆರ್ಡರ್ #{number}',
+  'orders.fromFarmer': 'ಮಾರಾಟಗಾರ: {name}',
+  'orders.action.pending': 'ಬಾಕಿ',
+  'orders.action.confirmed': 'ದೃಢೀಕರಿಸಿ',
+  'orders.action.shipped': 'ಕಳುಹಿಸಲಾಗಿದೆ ಎಂದು ಗುರುತಿಸಿ',
+  'orders.action.delivered': 'ತಲುಪಿಸಲಾಗಿದೆ ಎಂದು ಗುರುತಿಸಿ',
+  'orders.action.cancelled': 'ರದ್ದುಮಾಡಿ',
+  'orders.farmersOnly': 'ರೈತರ ಖಾತೆಗಳು ಮಾತ್ರ ಆರ್ಡರ್‌ಗಳನ್ನು ನಿರ್ವಹಿಸಬಹುದು.',
+  'orders.noMatches': 'ಈ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಹೊಂದುವ ಯಾವುದೇ ಆರ್ಡರ್‌ಗಳಿಲ್ಲ.',
+  'orders.confirmCancel': 'ಈ ಆರ್ಡರ್ ರದ್ದುಮಾಡಬೇಕೇ? ಅದರ ದಾಸ್ತಾನು ಮತ್ತೆ ಲಭ್ಯವಾಗುತ್ತದೆ.',
+  'orders.step.pending': 'ಆರ್ಡರ್ ಮಾಡಲಾಗಿದೆ',
+  'orders.step.confirmed': 'ರೈತರು ದೃಢೀಕರಿಸಿದ್ದಾರೆ',
+  'orders.step.shipped': 'ಕಳುಹಿಸಲಾಗಿದೆ',
+  'orders.step.delivered': 'ತಲುಪಿಸಲಾಗಿದೆ',
+  'orders.step.cancelled': 'ರದ್ದಾಗಿದೆ',
+  'orders.confirmBuyerCancel': 'ಈ ಆರ್ಡರ್ ರದ್ದುಮಾಡಬೇಕೇ?',
+  'orders.notFound': 'ಈ ಆರ್ಡರ್ ಕಂಡುಬಂದಿಲ್ಲ.',
+  'orders.refundProcessing': 'ನಿಮ್ಮ ಮರುಪಾವತಿ ಪ್ರಕ್ರಿಯೆಯಲ್ಲಿದೆ.',
+  'resources.title': 'ಶೈಕ್ಷಣಿಕ ಸಂಪನ್ಮೂಲಗಳು',
+  'resources.subtitle': 'ಮೌಲ್ಯವರ್ಧನೆ, ಮಾರುಕಟ್ಟೆ ತಂತ್ರಗಳು ಮತ್ತು ಉದ್ಯಮಶೀಲತೆಯ ಬಗ್ಗೆ ತಿಳಿಯಿರಿ',
+  'resources.categories': 'ವರ್ಗಗಳು',
+  'resources.all': 'ಎಲ್ಲಾ',
+  'resources.none': 'ಈ ವರ್ಗದಲ್ಲಿ ಯಾವುದೇ ಸಂಪನ್ಮೂಲಗಳು ಸಿಗಲಿಲ್ಲ.',
+  'resources.views_one': '{count} ವೀಕ್ಷಣೆ',
+  'resources.views_other': '{count} ವೀಕ್ಷಣೆಗಳು',
+  'resources.showLess': 'ಕಡಿಮೆ ತೋರಿಸಿ',
+  'resources.readMore': 'ಇನ್ನಷ್ಟು ಓದಿ →',
+  'resources.saved': 'ಉಳಿಸಲಾಗಿದೆ',
+  'resources.savedFilter': 'ಉಳಿಸಿದವು ({count})',
+  'resources.save': 'ನಂತರಕ್ಕಾಗಿ ಉಳಿಸಿ',
+  'resources.unsave': 'ಉಳಿಸಿದವುಗಳಿಂದ ತೆಗೆದುಹಾಕಿ',
+  'resources.noneSaved': 'ನೀವು ಇನ್ನೂ ಯಾವುದೇ ಮಾರ್ಗದರ್ಶಿಯನ್ನು ಉಳಿಸಿಲ್ಲ. ಇಲ್ಲಿ ಇರಿಸಲು ಮಾರ್ಗದರ್ಶಿಯಲ್ಲಿ 🔖 ಒತ್ತಿ.',
+  'resources.completed': 'ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'resources.markComplete': 'ಪೂರ್ಣಗೊಂಡಿದೆ ಎಂದು ಗುರುತಿಸಿ',
+  'resources.markIncomplete': 'ಪೂರ್ಣಗೊಂಡಿಲ್ಲ ಎಂದು ಗುರುತಿಸಿ',
+  'resources.progress': 'ನೀವು {total} ರಲ್ಲಿ {completed} ಮಾರ್ಗದರ್ಶಿಗಳನ್ನು ಪೂರ್ಣಗೊಳಿಸಿದ್ದೀರಿ',
+  'resources.searchHint': 'ಮಾರ್ಗದರ್ಶಿಗಳನ್ನು ಹುಡುಕಿ, ಉದಾ. ಪ್ಯಾಕೇಜಿಂಗ್, ಸಂಗ್ರಹಣೆ, ಉಪ್ಪಿನಕಾಯಿ',
+  'resources.readIn': 'ಓದುವ ಭಾಷೆ',
+  'resources.tags': 'ಟ್ಯಾಗ್‌ಗಳು',
+  'resources.removeTag': '#{tag} ಫಿಲ್ಟರ್ ತೆಗೆದುಹಾಕಿ',
+  'resources.clearFilters': 'ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+  'resources.noMatches': 'ನಿಮ್ಮ ಹುಡುಕಾಟಕ್ಕೆ ಹೊಂದುವ ಮಾರ್ಗದರ್ಶಿಗಳಿಲ್ಲ.',
+  'resources.share': '🔗 ಈ ಪಟ್ಟಿಯನ್ನು ಹಂಚಿಕೊಳ್ಳಿ',
+  'resources.linkCopied': 'ಲಿಂಕ್ ನಕಲಾಗಿದೆ!',
+  'cart.title': 'ನಿಮ್ಮ ಬುಟ್ಟಿ',
+  'cart.empty': 'ನಿಮ್ಮ ಬುಟ್ಟಿ ಖಾಲಿಯಾಗಿದೆ.',
+  'cart.subtotal': 'ಉಪಮೊತ್ತ',
+  'cart.remove': 'ತೆಗೆದುಹಾಕಿ',
+  'cart.clear': 'ಬುಟ್ಟಿ ಖಾಲಿಮಾಡಿ',
+  'cart.checkout': 'ಚೆಕ್‌ಔಟ್‌ಗೆ ಮುಂದುವರಿಯಿರಿ',
+  'cart.add': 'ಬುಟ್ಟಿಗೆ ಸೇರಿಸಿ',
+  'cart.addMore': 'ಬುಟ್ಟಿಗೆ ಸೇರಿಸಿ (ಬುಟ್ಟಿಯಲ್ಲಿ {count})',
+  'cart.itemCount_one': '{count} ವಸ್ತು',
+  'cart.itemCount_other': '{count} ವಸ್ತುಗಳು',
+  'checkout.title': 'ಚೆಕ್‌ಔಟ್',
+  'checkout.address': 'ವಿತರಣಾ ವಿಳಾಸ',
+  'checkout.notes': 'ರೈತರಿಗಾಗಿ ಟಿಪ್ಪಣಿಗಳು',
+  'checkout.summary': 'ಆರ್ಡರ್ ಸಾರಾಂಶ',
+  'checkout.place': 'ಆರ್ಡರ್ ಮಾಡಿ',
+  'checkout.confirmed': 'ಆರ್ಡರ್‌ಗಳನ್ನು ಯಶಸ್ವಿಯಾಗಿ ಮಾಡಲಾಗಿದೆ',
+  'checkout.invalidPincode': 'ದಯವಿಟ್ಟು ಮಾನ್ಯ 6 ಅಂಕಿಯ ಪಿನ್ ಕೋಡ್ ನಮೂದಿಸಿ',
+  'checkout.insufficientStock': 'ಕೆಲವು ವಸ್ತುಗಳಿಗೆ ಸಾಕಷ್ಟು ದಾಸ್ತಾನು ಈಗ ಇಲ್ಲ. ಲಭ್ಯವಿರುವಷ್ಟಕ್ಕೆ ನಿಮ್ಮ ಬುಟ್ಟಿಯನ್ನು ನವೀಕರಿಸಲಾಗಿದೆ.',
+  'checkout.buyersOnly': 'ಖರೀದಿದಾರರ ಖಾತೆಗಳು ಮಾತ್ರ ಆರ್ಡರ್ ಮಾಡಬಹುದು.',
+  'checkout.oversoldLine': '{name}: {requested} ಕೇಳಲಾಗಿದೆ, ಕೇವಲ {available} ಲಭ್ಯವಿದೆ',
+  'checkout.addressLine': 'ವಿಳಾಸ',
+  'checkout.addressPlaceholder': 'ಮನೆ / ಬೀದಿ / ಗ್ರಾಮ',
+  'checkout.pincode': 'ಪಿನ್ ಕೋಡ್',
+  'checkout.splitNotice_one': 'ನಿಮ್ಮ ಬುಟ್ಟಿಯನ್ನು {count} ಆರ್ಡರ್ ಆಗಿ ಮಾಡಲಾಗುತ್ತದೆ.',
+  'checkout.splitNotice_other': 'ನಿಮ್ಮ ಬುಟ್ಟಿಯನ್ನು {count} ಪ್ರತ್ಯೇಕ ಆರ್ಡರ್‌ಗಳಾಗಿ ಮಾಡಲಾಗುತ್ತದೆ, ಪ್ರತಿ ರೈತರಿಗೆ ಒಂದು.',
+  'checkout.sent_one': '{count} ಆರ್ಡರ್ ರೈತರಿಗೆ ಕಳುಹಿಸಲಾಗಿದೆ.',
+  'checkout.sent_other': '{count} ಆರ್ಡರ್‌ಗಳನ್ನು ರೈತರಿಗೆ ಕಳುಹಿಸಲಾಗಿದೆ.',
+  'checkout.shipSeparately': 'ಪ್ರತಿ ರೈತರೂ ನಿಮ್ಮ ಖರೀದಿಯಲ್ಲಿ ತಮ್ಮ ಭಾಗವನ್ನು ಪ್ರತ್ಯೇಕವಾಗಿ ದೃಢೀಕರಿಸಿ ಕಳುಹಿಸುತ್ತಾರೆ.',
+  'checkout.keepCash': 'ವಿತರಣೆಯ ವೇಳೆ ನಗದು ಆರ್ಡರ್‌ಗಳಿಗೆ ನಗದು ಸಿದ್ಧವಾಗಿಡಿ.',
+  'checkout.completePayment_one': 'ನಿಮ್ಮ ವಸ್ತುಗಳನ್ನು ಕಾಯ್ದಿರಿಸಲಾಗಿದೆ. ಆರ್ಡರ್ ಅನ್ನು ರೈತರಿಗೆ ಕಳುಹಿಸಲು ಆನ್‌ಲೈನ್ ಪಾವತಿಯನ್ನು ಪೂರ್ಣಗೊಳಿಸಿ.',
+  'checkout.completePayment_other': 'ನಿಮ್ಮ ವಸ್ತುಗಳನ್ನು ಕಾಯ್ದಿರಿಸಲಾಗಿದೆ. ಆರ್ಡರ್‌ಗಳನ್ನು ರೈತರಿಗೆ ಕಳುಹಿಸಲು ಆನ್‌ಲೈನ್ ಪಾವತಿಯನ್ನು ಪೂರ್ಣಗೊಳಿಸಿ.',
+  'payment.title': 'ಪಾವತಿ',
+  'payment.card': 'ಕಾರ್ಡ್',
+  'payment.pay': 'ಈಗ ಪಾವತಿಸಿ',
+  'payment.pending': 'ಪಾವತಿ ಬಾಕಿ ಇದೆ',
+  'payment.online': 'ಆನ್‌ಲೈನ್ ಪಾವತಿ',
+  'payment.cod': 'ವಿತರಣೆಯ ವೇಳೆ ನಗದು',
+  'payment.collected': 'ಸಂಗ್ರಹಿಸಲಾಗಿದೆ',
+  'payment.outstanding': 'ಬಾಕಿ',
+  'payment.markPaid': 'ನಗದು ಸಿಕ್ಕಿದೆ ಎಂದು ಗುರುತಿಸಿ',
+  'payment.options': 'ಪಾವತಿ ಆಯ್ಕೆಗಳು',
+  'payment.keepOne': 'ಕನಿಷ್ಠ ಒಂದು ಪಾವತಿ ಆಯ್ಕೆಯನ್ನು ಸಕ್ರಿಯವಾಗಿಡಿ.',
+  'payment.optionsHint': 'ಖರೀದಿದಾರರು ನಿಮ್ಮ ಆರ್ಡರ್‌ಗಳಿಗೆ ಹೇಗೆ ಪಾವತಿಸಬಹುದು ಎಂಬುದನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'payment.invalidUpi': 'ದಯವಿಟ್ಟು ಮಾನ್ಯ UPI ಐಡಿ ನಮೂದಿಸಿ, ಉದಾ. name@bank',
+  'payment.invalidCard': 'ದಯವಿಟ್ಟು ಮಾನ್ಯ 16 ಅಂಕಿಯ ಕಾರ್ಡ್ ಸಂಖ್ಯೆ ನಮೂದಿಸಿ',
+  'payment.declined': 'ಪಾವತಿ ನಿರಾಕರಿಸಲಾಗಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ ಅಥವಾ ಬೇರೆ ವಿಧಾನ ಬಳಸಿ.',
+  'payment.processing': 'ಪಾವತಿ ಇನ್ನೂ ಪ್ರಕ್ರಿಯೆಯಲ್ಲಿದೆ. ಕೆಲವು ನಿಮಿಷಗಳ ನಂತರ ನಿಮ್ಮ ಆರ್ಡರ್ ಪುಟ ನೋಡಿ.',
+  'messages.conversations': 'ಸಂಭಾಷಣೆಗಳು',
+  'messages.select': 'ಓದಲು ಮತ್ತು ಉತ್ತರಿಸಲು ಒಂದು ಸಂಭಾಷಣೆಯನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'messages.placeholder': 'ಸಂದೇಶ ಟೈಪ್ ಮಾಡಿ...',
+  'messages.send': 'ಕಳುಹಿಸಿ',
+  'messages.allConversations': 'ಎಲ್ಲಾ ಸಂಭಾಷಣೆಗಳು',
+  'messages.askFarmer': 'ರೈತರನ್ನು ಕೇಳಿ',
+  'messages.contactBuyer': 'ಖರೀದಿದಾರರನ್ನು ಸಂಪರ್ಕಿಸಿ',
+  'messages.unread_one': '{count} ಓದದ ಸಂದೇಶ',
+  'messages.unread_other': '{count} ಓದದ ಸಂದೇಶಗಳು',
+  'messages.voiceNote': '🎤 ಧ್ವನಿ ಟಿಪ್ಪಣಿ',
+  'messages.photo': '📷 ಫೋಟೋ',
+  'messages.unknownUser': 'ಬಳಕೆದಾರ',
+  'messages.youHaveUnread_one': 'ನಿಮಗೆ {count} ಓದದ ಸಂದೇಶವಿದೆ',
+  'messages.youHaveUnread_other': 'ನಿಮಗೆ {count} ಓದದ ಸಂದೇಶಗಳಿವೆ',
+  'messages.none': 'ಇನ್ನೂ ಯಾವುದೇ ಸಂಭಾಷಣೆಗಳಿಲ್ಲ.',
+  'messages.you': 'ನೀವು: ',
+  'messages.imageOnly': 'ದಯವಿಟ್ಟು ಚಿತ್ರ ಫೈಲ್ ಆಯ್ಕೆಮಾಡಿ',
+  'messages.sendPhoto': 'ಫೋಟೋ ಕಳುಹಿಸಿ',
+  'messages.sayHello': 'ಸಂಭಾಷಣೆ ಆರಂಭಿಸಲು ನಮಸ್ಕಾರ ಹೇಳಿ.',
+  'messages.seen': 'ನೋಡಲಾಗಿದೆ',
+  'messages.photoAlt': 'ಫೋಟೋ',
+  'dashboard.welcome': 'ನಿಮ್ಮ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್‌ಗೆ ಸ್ವಾಗತ',
+  'dashboard.loading': 'ಡ್ಯಾಶ್‌ಬೋರ್ಡ್ ಲೋಡ್ ಆಗುತ್ತಿದೆ...',
+  'errors.unexpected': 'ಅನಿರೀಕ್ಷಿತ ದೋಷ ಸಂಭವಿಸಿದೆ',
+  'home.intro': 'ಮೌಲ್ಯವರ್ಧಿತ ಕೃಷಿ ಉತ್ಪನ್ನಗಳನ್ನು ತಯಾರಿಸುವ ರೈತರೊಂದಿಗೆ ನೇರವಾಗಿ ಸಂಪರ್ಕ ಸಾಧಿಸಿ. ಗ್ರಾಮೀಣ ಉದ್ಯಮಶೀಲತೆಗೆ ಬೆಂಬಲ ನೀಡಿ ಮತ್ತು ತಾಜಾ, ಅಸಲಿ ಉತ್ಪನ್ನಗಳನ್ನು ನಿಮ್ಮ ಮನೆ ಬಾಗಿಲಿಗೆ ಪಡೆಯಿರಿ.',
+  'home.getStarted': 'ಪ್ರಾರಂಭಿಸಿ',
+  'home.browse': 'ಉತ್ಪನ್ನಗಳನ್ನು ನೋಡಿ',
+  'home.howItWorks': 'ಫಾರ್ಮ್‌ಕನೆಕ್ಟ್ ಹೇಗೆ ಕೆಲಸ ಮಾಡುತ್ತದೆ',
+  'home.farmers.title': 'ರೈತರಿಗಾಗಿ',
+  'home.farmers.body': 'ನಿಮ್ಮ ಮೌಲ್ಯವರ್ಧಿತ ಉತ್ಪನ್ನಗಳನ್ನು ಪಟ್ಟಿ ಮಾಡಿ, ದಾಸ್ತಾನು ನಿರ್ವಹಿಸಿ ಮತ್ತು ಭಾರತದಾದ್ಯಂತ ಗ್ರಾಹಕರನ್ನು ತಲುಪಿ. ನಿಮ್ಮ ವ್ಯಾಪಾರ ಬೆಳೆಸಲು ಶೈಕ್ಷಣಿಕ ಸಂಪನ್ಮೂಲಗಳನ್ನು ಬಳಸಿ.',
+  'home.buyers.title': 'ಖರೀದಿದಾರರಿಗಾಗಿ',
+  'home.buyers.body': 'ರೈತರಿಂದ ನೇರವಾಗಿ ಅಸಲಿ ಕೃಷಿ ಉತ್ಪನ್ನಗಳನ್ನು ಕಂಡುಕೊಳ್ಳಿ. ಸಾವಯವ, ಸಾಂಪ್ರದಾಯಿಕ ವಿಧಾನಗಳ ಪ್ರಕಾರ ಫಿಲ್ಟರ್ ಮಾಡಿ ಮತ್ತು ಸ್ಥಳೀಯ ಸಮುದಾಯಗಳಿಗೆ ಬೆಂಬಲ ನೀಡಿ.',
+  'home.impact.title': 'ಪರಿಣಾಮವನ್ನು ಗಮನಿಸಿ',
+  'home.impact.body': 'ಮಾರಾಟದ ಪ್ರವೃತ್ತಿಗಳು, ಗ್ರಾಹಕರ ತೊಡಗಿಸಿಕೊಳ್ಳುವಿಕೆಯನ್ನು ಗಮನಿಸಿ ಮತ್ತು ಗ್ರಾಮೀಣ ಉದ್ಯಮಶೀಲತೆಯ ಮೇಲಿನ ಆರ್ಥಿಕ ಪರಿಣಾಮವನ್ನು ಅಳೆಯಿರಿ.',
+  'home.categories': 'ಉತ್ಪನ್ನ ವರ್ಗಗಳು',
+  'home.category.processed': 'ಸಂಸ್ಕರಿಸಿದ ಆಹಾರಗಳು',
+  'home.category.dairy': 'ಹಾಲಿನ ಉತ್ಪನ್ನಗಳು',
+  'home.category.beverages': 'ಪಾನೀಯಗಳು',
+  'home.category.grains': 'ಧಾನ್ಯಗಳು ಮತ್ತು ಹಿಟ್ಟು',
+  'home.category.crafts': 'ಕರಕುಶಲ ವಸ್ತುಗಳು',
+  'home.category.organic': 'ಸಾವಯವ ಉತ್ಪನ್ನ',
+  'home.join.title': 'ಫಾರ್ಮ್‌ಕನೆಕ್ಟ್ ಸಮುದಾಯಕ್ಕೆ ಸೇರಿ',
+  'home.join.body': 'ನೀವು ಮಾರುಕಟ್ಟೆ ವಿಸ್ತರಿಸಲು ಬಯಸುವ ರೈತರಾಗಿರಲಿ ಅಥವಾ ಅಸಲಿ ಉತ್ಪನ್ನಗಳನ್ನು ಹುಡುಕುವ ಖರೀದಿದಾರರಾಗಿರಲಿ, ಗ್ರಾಮೀಣ ಉದ್ಯಮಶೀಲತೆಗೆ ಫಾರ್ಮ್‌ಕನೆಕ್ಟ್ ನಿಮ್ಮ ವೇದಿಕೆ.',
+  'home.signUpNow': 'ಈಗಲೇ ಸೈನ್ ಅಪ್ ಮಾಡಿ',
+  'admin.totalUsers': 'ಒಟ್ಟು ಬಳಕೆದಾರರು',
+  'admin.totalFarmers': 'ಒಟ್ಟು ರೈತರು',
+  'admin.totalBuyers': 'ಒಟ್ಟು ಖರೀದಿದಾರರು',
+  'admin.totalProducts': 'ಒಟ್ಟು ಉತ್ಪನ್ನಗಳು',
+  'admin.totalOrders': 'ಒಟ್ಟು ಆರ್ಡರ್‌ಗಳು',
+  'admin.totalRevenue': 'ಒಟ್ಟು ಆದಾಯ',
+  'admin.analytics': 'ವೇದಿಕೆ ವಿಶ್ಲೇಷಣೆ',
+  'admin.analyticsSummary': 'ವೇದಿಕೆಯು {farmers} ರೈತರನ್ನು {buyers} ಖರೀದಿದಾರರೊಂದಿಗೆ ಜೋಡಿಸುತ್ತಿದೆ ಮತ್ತು {products} ಮೌಲ್ಯವರ್ಧಿತ ಉತ್ಪನ್ನಗಳ ಮೂಲಕ ಗ್ರಾಮೀಣ ಉದ್ಯಮಶೀಲತೆಗೆ ನೆರವಾಗುತ್ತಿದೆ.',
+  'admin.impact': 'ಪರಿಣಾಮ ಮಾಪನ',
+  'admin.engagement': 'ರೈತರ ಭಾಗವಹಿಸುವಿಕೆ ದರ',
+  'admin.productsPerFarmer': 'ಉತ್ಪನ್ನಗಳು/ರೈತ',
+  'admin.averageOrder': 'ಸರಾಸರಿ ಆರ್ಡರ್ ಮೌಲ್ಯ',
+  'admin.growth': 'ವೇದಿಕೆ ಬೆಳವಣಿಗೆ',
+  'admin.registeredUsers': 'ನೋಂದಾಯಿತ ಬಳಕೆದಾರರು',
+  'admin.failedRefunds': 'ಗಮನ ಅಗತ್ಯವಿರುವ ಮರುಪಾವತಿಗಳು',
+  'admin.failedRefundsHint': 'ಪಾವತಿ ಗೇಟ್‌ವೇ ಈ ಮರುಪಾವತಿಗಳನ್ನು ಪದೇ ಪದೇ ತಿರಸ್ಕರಿಸಿದೆ. ಖರೀದಿದಾರರಿಗೆ ನೀವೇ ಮರುಪಾವತಿ ಮಾಡಿ ಮತ್ತು ಗೇಟ್‌ವೇ ಡ್ಯಾಶ್‌ಬೋರ್ಡ್ ಪರಿಶೀಲಿಸಿ.',
+  'admin.refundAttempts_one': '{count} ಪ್ರಯತ್ನ, ಕೊನೆಯದು {date}',
+  'admin.refundAttempts_other': '{count} ಪ್ರಯತ್ನಗಳು, ಕೊನೆಯದು {date}',
+  'farmer.activeProducts': 'ಸಕ್ರಿಯ ಉತ್ಪನ್ನಗಳು',
+  'farmer.totalOrders': 'ಒಟ್ಟು ಆರ್ಡರ್‌ಗಳು',
+  'farmer.lowStock.title': 'ಕಡಿಮೆ ದಾಸ್ತಾನು ಎಚ್ಚರಿಕೆ',
+  'farmer.lowStock.body': 'ಈ ಉತ್ಪನ್ನಗಳ ದಾಸ್ತಾನು ಕಡಿಮೆಯಾಗುತ್ತಿದೆ:',
+  'farmer.lowStock.available_one': '{name} - {count} ಘಟಕ ಲಭ್ಯವಿದೆ',
+  'farmer.lowStock.available_other': '{name} - {count} ಘಟಕಗಳು ಲಭ್ಯವಿವೆ',
+  'farmer.lowStock.reserved': ' (ತೆರೆದ ಆರ್ಡರ್‌ಗಳಲ್ಲಿ ಇನ್ನೂ {count} ಕಾಯ್ದಿರಿಸಲಾಗಿದೆ)',
+  'farmer.yourProducts': 'ನಿಮ್ಮ ಉತ್ಪನ್ನಗಳು',
+  'farmer.noProducts': 'ಇನ್ನೂ ಯಾವುದೇ ಉತ್ಪನ್ನಗಳಿಲ್ಲ. ನಿಮ್ಮ ಮೊದಲ ಉತ್ಪನ್ನ ಸೇರಿಸಿ ಪ್ರಾರಂಭಿಸಿ!',
+  'farmer.product': 'ಉತ್ಪನ್ನ',
+  'farmer.recentOrders': 'ಇತ್ತೀಚಿನ ಆರ್ಡರ್‌ಗಳು',
+  'status.pending': 'ಬಾಕಿ',
+  'status.confirmed': 'ದೃಢೀಕರಿಸಲಾಗಿದೆ',
+  'status.shipped': 'ಕಳುಹಿಸಲಾಗಿದೆ',
+  'status.delivered': 'ತಲುಪಿಸಲಾಗಿದೆ',
+  'status.cancelled': 'ರದ್ದಾಗಿದೆ',
+  'buyer.totalOrders': 'ಒಟ್ಟು ಆರ್ಡರ್‌ಗಳು',
+  'buyer.pendingOrders': 'ಬಾಕಿ ಆರ್ಡರ್‌ಗಳು',
+  'buyer.totalSpent': 'ಒಟ್ಟು ಖರ್ಚು',
+  'buyer.stillToPay': '₹{amount} ಇನ್ನೂ ಪಾವತಿಸಬೇಕಿದೆ',
+  'buyer.explore.title': 'ಉತ್ಪನ್ನಗಳನ್ನು ಅನ್ವೇಷಿಸಿ',
+  'buyer.explore.body': 'ಭಾರತದಾದ್ಯಂತದ ರೈತರ ಮೌಲ್ಯವರ್ಧಿತ ಉತ್ಪನ್ನಗಳನ್ನು ನೋಡಿ',
+  'buyer.stories.title': 'ಯಶೋಗಾಥೆಗಳು',
+  'buyer.stories.body': 'ರೈತ ಉದ್ಯಮಿಗಳು ಮತ್ತು ಅವರ ಪಯಣದ ಬಗ್ಗೆ ಓದಿ',
+  'buyer.yourOrders': 'ನಿಮ್ಮ ಆರ್ಡರ್‌ಗಳು',
+  'buyer.noOrders': 'ನೀವು ಇನ್ನೂ ಯಾವುದೇ ಆರ್ಡರ್ ಮಾಡಿಲ್ಲ.',
+  'buyer.startShopping': 'ಶಾಪಿಂಗ್ ಪ್ರಾರಂಭಿಸಿ',
+  'buyer.support.title': 'ಸ್ಥಳೀಯ ಸಮುದಾಯಗಳಿಗೆ ಬೆಂಬಲ ನೀಡಿ',
+  'buyer.support.body': 'ನೀವು ಮಾಡುವ ಪ್ರತಿಯೊಂದು ಖರೀದಿಯೂ ರೈತ ಉದ್ಯಮಿಗಳು ಮತ್ತು ಅವರ ಕುಟುಂಬಗಳಿಗೆ ನೇರವಾಗಿ ನೆರವಾಗುತ್ತದೆ ಮತ್ತು ಭಾರತದಾದ್ಯಂತ ಗ್ರಾಮೀಣ ಆರ್ಥಿಕ ಅಭಿವೃದ್ಧಿಗೆ ಕೊಡುಗೆ ನೀಡುತ್ತದೆ.',
+  'reviews.edit': 'ವಿಮರ್ಶೆ ಸಂಪಾದಿಸಿ',
+  'reviews.write': 'ವಿಮರ್ಶೆ ಬರೆಯಿರಿ',
+  'reviews.ratingRequired': 'ದಯವಿಟ್ಟು 1 ರಿಂದ 5 ನಕ್ಷತ್ರಗಳ ನಡುವೆ ರೇಟಿಂಗ್ ಆಯ್ಕೆಮಾಡಿ',
+  'reviews.rating': 'ರೇಟಿಂಗ್',
+  'reviews.placeholder': 'ಈ ಉತ್ಪನ್ನ ನಿಮಗೆ ಹೇಗೆ ಅನಿಸಿತು?',
+  'reviews.none': 'ಇನ್ನೂ ಯಾವುದೇ ವಿಮರ್ಶೆಗಳಿಲ್ಲ.',
+  'reviews.outOfFive': '5 ರಲ್ಲಿ {rating}',
+  'reviews.title': 'ವಿಮರ್ಶೆಗಳು',
+  'reviews.verified': '✓ ಪರಿಶೀಲಿತ ಖರೀದಿ',
+  'reviews.newer': '← ಹೊಸವು',
+  'reviews.older': 'ಹಳೆಯವು →',
+  'reviews.page': 'ಪುಟ {page} / {pages}',
+  'reviews.farmerReply': 'ರೈತರ ಉತ್ತರ',
+  'reviews.editReply': 'ಉತ್ತರ ಸಂಪಾದಿಸಿ',
+  'reviews.reply': 'ಉತ್ತರಿಸಿ',
+  'photos.limit': 'ಪ್ರತಿ ಉತ್ಪನ್ನಕ್ಕೆ ಗರಿಷ್ಠ {count} ಫೋಟೋಗಳನ್ನು ಸೇರಿಸಬಹುದು',
+  'photos.uploadFailed': 'ಚಿತ್ರವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ',
+  'photos.alt': 'ಉತ್ಪನ್ನದ ಫೋಟೋ {number}',
+  'photos.cover': 'ಮುಖಚಿತ್ರ',
+  'photos.setCover': 'ಮುಖಚಿತ್ರವಾಗಿಸಿ',
+  'photos.uploading': 'ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತಿದೆ...',
+  'photos.add': '+ ಫೋಟೋಗಳನ್ನು ಸೇರಿಸಿ',
+  'voice.unsupported': 'ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಧ್ವನಿ ಟಿಪ್ಪಣಿಗಳಿಗೆ ಬೆಂಬಲವಿಲ್ಲ',
+  'voice.noMicrophone': 'ಮೈಕ್ರೊಫೋನ್ ಬಳಸಲಾಗಲಿಲ್ಲ',
+  'voice.record': 'ಧ್ವನಿ ಟಿಪ್ಪಣಿ ರೆಕಾರ್ಡ್ ಮಾಡಿ',
+  'paymentStatus.pending': 'ಬಾಕಿ',
+  'paymentStatus.completed': 'ಪಾವತಿಸಲಾಗಿದೆ',
+  'paymentStatus.failed': 'ವಿಫಲವಾಗಿದೆ',
+  'paymentStatus.refunded': 'ಮರುಪಾವತಿಸಲಾಗಿದೆ',
+  'productForm.nameRequired': 'ಉತ್ಪನ್ನದ ಹೆಸರು ಅಗತ್ಯ',
+  'productForm.descriptionRequired': 'ವಿವರಣೆ ಅಗತ್ಯ',
+  'productForm.unitRequired': 'ಘಟಕ ಅಗತ್ಯ',
+  'productForm.priceInvalid': 'ಬೆಲೆ 0 ಅಥವಾ ಅದಕ್ಕಿಂತ ಹೆಚ್ಚಿನ ಸಂಖ್ಯೆಯಾಗಿರಬೇಕು',
+  'productForm.priceTooLarge': 'ಬೆಲೆ ತುಂಬಾ ಹೆಚ್ಚಾಗಿದೆ',
+  'productForm.priceDecimals': 'ಬೆಲೆಯಲ್ಲಿ ಗರಿಷ್ಠ 2 ದಶಮಾಂಶ ಸ್ಥಾನಗಳಿರಬಹುದು',
+  'productForm.stockInvalid': 'ದಾಸ್ತಾನು 0 ಅಥವಾ ಅದಕ್ಕಿಂತ ಹೆಚ್ಚಿನ ಪೂರ್ಣ ಸಂಖ್ಯೆಯಾಗಿರಬೇಕು',
+  'productForm.lowStockInvalid': 'ಕಡಿಮೆ ದಾಸ್ತಾನು ಮಿತಿ 0 ಅಥವಾ ಅದಕ್ಕಿಂತ ಹೆಚ್ಚಿನ ಪೂರ್ಣ ಸಂಖ್ಯೆಯಾಗಿರಬೇಕು',
+  'productForm.shelfLifeInvalid': 'ಬಾಳಿಕೆ ಅವಧಿ ದಿನಗಳಲ್ಲಿ ಪೂರ್ಣ ಸಂಖ್ಯೆಯಾಗಿರಬೇಕು',
+  'productForm.notFound': 'ಉತ್ಪನ್ನ ಕಂಡುಬಂದಿಲ್ಲ',
+  'productForm.farmersOnly': 'ರೈತರ ಖಾತೆಗಳು ಮಾತ್ರ ಉತ್ಪನ್ನಗಳನ್ನು ಪಟ್ಟಿ ಮಾಡಬಹುದು.',
+  'productForm.selectCategory': 'ವರ್ಗವನ್ನು ಆಯ್ಕೆಮಾಡಿ',
+  'productForm.processingPlaceholder': 'ಉದಾ. ಬಿಸಿಲಿನಲ್ಲಿ ಒಣಗಿಸಿದ, ಕೋಲ್ಡ್-ಪ್ರೆಸ್ಡ್',
+  'productForm.tagsPlaceholder': 'ಉಪ್ಪಿನಕಾಯಿ, ಮಾವು, ಮನೆಯಲ್ಲಿ ತಯಾರಿಸಿದ',
+  'productForm.tagsHint': 'ಟ್ಯಾಗ್‌ಗಳನ್ನು ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ',
+  'productForm.stockChanged': 'ನೀವು ಸಂಪಾದಿಸುತ್ತಿರುವಾಗ ಸ್ಟಾಕ್ {count} ಆಗಿ ಬದಲಾಯಿತು, ಬಹುಶಃ ಹೊಸ ಆರ್ಡರ್‌ಗಳಿಂದ. ಸ್ಟಾಕ್ ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಉಳಿಸಿ.',
+  'translations.title': 'ಇತರ ಭಾಷೆಗಳು',
+  'translations.hint': 'ಇಂಗ್ಲಿಷ್ ಮೂಲ ಪಠ್ಯ. ತಮ್ಮ ಭಾಷೆಯ ಆವೃತ್ತಿ ಇಲ್ಲದ ಓದುಗರಿಗೆ ಇಂಗ್ಲಿಷ್ ಪಠ್ಯ ಕಾಣಿಸುತ್ತದೆ.',
+  'translations.none': 'ಇನ್ನೂ ಇತರ ಭಾಷಾ ಆವೃತ್ತಿಗಳಿಲ್ಲ.',
+  'translations.add': '+ ಭಾಷೆ ಸೇರಿಸಿ',
+  'translations.required': 'ಈ ಭಾಷೆಗೆ ಎಲ್ಲಾ ಕ್ಷೇತ್ರಗಳನ್ನು ಭರ್ತಿಮಾಡಿ',
+  'translations.confirmRemove': '{language} ಆವೃತ್ತಿಯನ್ನು ತೆಗೆದುಹಾಕಬೇಕೇ?',
+  'translations.saveFirst': 'ಮೊದಲು ಉತ್ಪನ್ನವನ್ನು ಉಳಿಸಿ, ನಂತರ ಇಲ್ಲಿ ಇತರ ಭಾಷೆಗಳ ಆವೃತ್ತಿಗಳನ್ನು ಸೇರಿಸಿ.',
+  'translations.contentTitle': 'ವಿಷಯ ಅನುವಾದಗಳು',
+  'translations.contentHint': 'ವರ್ಗಗಳ ಹೆಸರುಗಳು ಮತ್ತು ಕಲಿಕಾ ಸಂಪನ್ಮೂಲಗಳನ್ನು ಇನ್ನಷ್ಟು ಭಾಷೆಗಳಲ್ಲಿ ಸೇರಿಸಿ.',
+  'translations.manage': 'ಅನುವಾದಗಳನ್ನು ನಿರ್ವಹಿಸಿ',
+  'translations.adminsOnly': 'ನಿರ್ವಾಹಕರು ಮಾತ್ರ ವಿಷಯ ಅನುವಾದಗಳನ್ನು ನಿರ್ವಹಿಸಬಹುದು.',
+  'translations.categories': 'ಉತ್ಪನ್ನ ವರ್ಗಗಳು',
+  'translations.resources': 'ಕಲಿಕಾ ಸಂಪನ್ಮೂಲಗಳು',
+  'translations.selectItem': 'ಭಾಷಾ ಆವೃತ್ತಿಗಳನ್ನು ನೋಡಲು ಮತ್ತು ಸಂಪಾದಿಸಲು ಒಂದು ಐಟಂ ಆಯ್ಕೆಮಾಡಿ.',
+  'translations.name': 'ಹೆಸರು',
+  'translations.resourceTitle': 'ಶೀರ್ಷಿಕೆ',
+  'translations.resourceContent': 'ವಿಷಯ',
+  'adminUsers.title': 'ಬಳಕೆದಾರರು',
+  'adminUsers.hint': 'ಬಳಕೆದಾರರನ್ನು ಹುಡುಕಿ, ಪಾತ್ರಗಳನ್ನು ಬದಲಿಸಿ ಮತ್ತು ಖಾತೆಗಳನ್ನು ನಿಷ್ಕ್ರಿಯಗೊಳಿಸಿ.',
+  'adminUsers.manage': 'ಬಳಕೆದಾರರನ್ನು ನಿರ್ವಹಿಸಿ',
+  'adminUsers.adminsOnly': 'ನಿರ್ವಾಹಕ ಖಾತೆಗಳು ಮಾತ್ರ ಬಳಕೆದಾರರನ್ನು ನಿರ್ವಹಿಸಬಹುದು.',
+  'adminUsers.searchHint': 'ಹೆಸರು ಅಥವಾ ಫೋನ್ ಸಂಖ್ಯೆಯಿಂದ ಹುಡುಕಿ',
+  'adminUsers.role': 'ಪಾತ್ರ',
+  'adminUsers.allRoles': 'ಎಲ್ಲಾ ಪಾತ್ರಗಳು',
+  'adminUsers.status': 'ಖಾತೆ',
+  'adminUsers.allStatuses': 'ಎಲ್ಲಾ ಖಾತೆಗಳು',
+  'adminUsers.active': 'ಸಕ್ರಿಯ',
+  'adminUsers.inactive': 'ನಿಷ್ಕ್ರಿಯ',
+  'adminUsers.noMatches': 'ಈ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಹೊಂದುವ ಬಳಕೆದಾರರಿಲ್ಲ.',
+  'adminUsers.count_one': '{count} ಬಳಕೆದಾರ',
+  'adminUsers.count_other': '{count} ಬಳಕೆದಾರರು',
+  'adminUsers.showingOf': '{total} ರಲ್ಲಿ {shown} ಬಳಕೆದಾರರನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ. ಉಳಿದವರನ್ನು ನೋಡಲು ಫಿಲ್ಟರ್‌ಗಳನ್ನು ಸಂಕುಚಿಸಿ.',
+  'adminUsers.location': 'ಸ್ಥಳ',
+  'adminUsers.joined': 'ಸೇರಿದ ದಿನಾಂಕ',
+  'adminUsers.joinedOn': '{date} ರಂದು ಸೇರಿದರು',
+  'adminUsers.notFound': 'ಈ ಬಳಕೆದಾರರು ಕಂಡುಬಂದಿಲ್ಲ.',
+  'adminUsers.selfNotice': 'ನಿಮ್ಮ ಸ್ವಂತ ಖಾತೆಯ ಪಾತ್ರ ಅಥವಾ ಸ್ಥಿತಿಯನ್ನು ಬದಲಿಸಲು ಸಾಧ್ಯವಿಲ್ಲ.',
+  'adminUsers.changeRole': 'ಪಾತ್ರ ಬದಲಿಸಿ',
+  'adminUsers.deactivate': 'ಖಾತೆಯನ್ನು ನಿಷ್ಕ್ರಿಯಗೊಳಿಸಿ',
+  'adminUsers.reactivate': 'ಖಾತೆಯನ್ನು ಮರು ಸಕ್ರಿಯಗೊಳಿಸಿ',
+  'adminUsers.confirmDeactivate': '{name} ಅವರನ್ನು ನಿಷ್ಕ್ರಿಯಗೊಳಿಸುವುದೇ? ಅವರನ್ನು ಸೈನ್ ಔಟ್ ಮಾಡಲಾಗುತ್ತದೆ ಮತ್ತು ಅವರ ಉತ್ಪನ್ನಗಳನ್ನು ಖರೀದಿದಾರರಿಂದ ಮರೆಮಾಡಲಾಗುತ್ತದೆ.',
+  'adminUsers.confirmReactivate': '{name} ಅವರನ್ನು ಮರು ಸಕ್ರಿಯಗೊಳಿಸುವುದೇ? ಅವರು ಮತ್ತೆ ಸೈನ್ ಇನ್ ಮಾಡಬಹುದು.',
+  'adminUsers.products': 'ಉತ್ಪನ್ನಗಳು',
+  'adminUsers.orders': 'ಇತ್ತೀಚಿನ ಆರ್ಡರ್‌ಗಳು',
+  'adminUsers.boughtFrom': '{name} ಅವರಿಂದ ಖರೀದಿಸಲಾಗಿದೆ',
+  'adminUsers.soldTo': '{name} ಅವರಿಗೆ ಮಾರಾಟ',
+  'resourceAdmin.title': 'ಕಲಿಕಾ ಸಂಪನ್ಮೂಲಗಳು',
+  'resourceAdmin.hint': 'ರೈತರಿಗಾಗಿ ಮಾರ್ಗದರ್ಶಿಗಳನ್ನು ಬರೆಯಿರಿ, ನಿಗದಿಪಡಿಸಿ ಮತ್ತು ಪ್ರಕಟಿಸಿ.',
+  'resourceAdmin.manage': 'ಸಂಪನ್ಮೂಲಗಳನ್ನು ನಿರ್ವಹಿಸಿ',
+  'resourceAdmin.new': 'ಹೊಸ ಸಂಪನ್ಮೂಲ',
+  'resourceAdmin.adminsOnly': 'ನಿರ್ವಾಹಕ ಖಾತೆಗಳು ಮಾತ್ರ ಕಲಿಕಾ ಸಂಪನ್ಮೂಲಗಳನ್ನು ನಿರ್ವಹಿಸಬಹುದು.',
+  'resourceAdmin.none': 'ಇಲ್ಲಿ ಇನ್ನೂ ಯಾವುದೇ ಸಂಪನ್ಮೂಲಗಳಿಲ್ಲ.',
+  'resourceAdmin.updated': 'ಕೊನೆಯ ನವೀಕರಣ',
+  'resourceAdmin.confirmDelete': '"{title}" ಅಳಿಸುವುದೇ? ಇದನ್ನು ರದ್ದುಗೊಳಿಸಲಾಗುವುದಿಲ್ಲ.',
+  'resourceForm.newTitle': 'ಹೊಸ ಸಂಪನ್ಮೂಲ',
+  'resourceForm.editTitle': 'ಸಂಪನ್ಮೂಲವನ್ನು ಸಂಪಾದಿಸಿ',
+  'resourceForm.notFound': 'ಈ ಸಂಪನ್ಮೂಲ ಕಂಡುಬಂದಿಲ್ಲ.',
+  'resourceForm.untitled': 'ಶೀರ್ಷಿಕೆಯಿಲ್ಲದ ಸಂಪನ್ಮೂಲ',
+  'resourceForm.category': 'ವರ್ಗ',
+  'resourceForm.markdownHint': 'ಫಾರ್ಮ್ಯಾಟಿಂಗ್: # ಶೀರ್ಷಿಕೆ, **ದಪ್ಪ**, *ಓರೆ*, - ಪಟ್ಟಿ, 1. ಸಂಖ್ಯೆ ಪಟ್ಟಿ, > ಉಲ್ಲೇಖ, [ಲಿಂಕ್](https://...).',
+  'resourceForm.tagsHint': 'ಟ್ಯಾಗ್ ಸೇರಿಸಲು Enter ಅಥವಾ ಅಲ್ಪವಿರಾಮ ಒತ್ತಿ.',
+  'resourceForm.removeTag': 'ಟ್ಯಾಗ್ {tag} ತೆಗೆದುಹಾಕಿ',
+  'resourceForm.image': 'ಮುಖ್ಯ ಚಿತ್ರ',
+  'resourceForm.removeImage': 'ಚಿತ್ರ ತೆಗೆದುಹಾಕಿ',
+  'resourceForm.uploading': 'ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತಿದೆ...',
+  'resourceForm.visibility': 'ಗೋಚರತೆ',
+  'resourceForm.status.draft': 'ಕರಡು',
+  'resourceForm.status.published': 'ಪ್ರಕಟಿತ',
+  'resourceForm.status.scheduled': 'ನಿಗದಿತ',
+  'resourceForm.preview': 'ಮುನ್ನೋಟ',
+  'resourceForm.otherLanguages': 'ಇತರ ಭಾಷೆಗಳ ಅನುವಾದಗಳನ್ನು ಪ್ರತ್ಯೇಕವಾಗಿ ನಿರ್ವಹಿಸಲಾಗುತ್ತದೆ.',
+  'resourceForm.titleRequired': 'ದಯವಿಟ್ಟು ಇಂಗ್ಲಿಷ್ ಶೀರ್ಷಿಕೆ ನಮೂದಿಸಿ.',
+  'resourceForm.contentRequired': 'ದಯವಿಟ್ಟು ಇಂಗ್ಲಿಷ್ ವಿಷಯ ನಮೂದಿಸಿ.',
+  'resourceForm.categoryRequired': 'ದಯವಿಟ್ಟು ವರ್ಗವನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'resourceForm.hindiIncomplete': 'ಹಿಂದಿ ಶೀರ್ಷಿಕೆ ಮತ್ತು ವಿಷಯ ಎರಡನ್ನೂ ತುಂಬಿ, ಅಥವಾ ಎರಡನ್ನೂ ಖಾಲಿ ಬಿಡಿ.',
+  'resourceForm.scheduleRequired': 'ಸಂಪನ್ಮೂಲ ಯಾವಾಗ ಪ್ರಕಟವಾಗಬೇಕು ಎಂದು ಆಯ್ಕೆಮಾಡಿ.',
+  'resourceForm.scheduleInPast': 'ನಿಗದಿತ ಸಮಯ ಭವಿಷ್ಯದಲ್ಲಿರಬೇಕು.',
+  'learning.title': 'ಕಲಿಕೆಯನ್ನು ಮುಂದುವರಿಸಿ',
+  'learning.browse': 'ಎಲ್ಲಾ ಮಾರ್ಗದರ್ಶಿಗಳು',
+  'learning.empty': 'ಕಲಿಕಾ ಸಂಪನ್ಮೂಲಗಳಲ್ಲಿ ಮಾರ್ಗದರ್ಶಿಯನ್ನು ಉಳಿಸಿ ಅಥವಾ ತೆರೆಯಿರಿ, ಅದು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತದೆ.',
+  'learning.completedCount_one': '{count} ಮಾರ್ಗದರ್ಶಿ ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'learning.completedCount_other': '{count} ಮಾರ್ಗದರ್ಶಿಗಳು ಪೂರ್ಣಗೊಂಡಿವೆ',
+  'learning.lastViewed': '{date} ರಂದು ತೆರೆಯಲಾಗಿದೆ',
+  'learning.inProgress': 'ಪ್ರಗತಿಯಲ್ಲಿದೆ',
+  'learning.notStarted': 'ಪ್ರಾರಂಭಿಸಿಲ್ಲ',
+  'resourceAnalytics.title': 'ಸಂಪನ್ಮೂಲ ವಿಶ್ಲೇಷಣೆ',
+  'resourceAnalytics.lastDays_one': 'ಕಳೆದ {count} ದಿನ',
+  'resourceAnalytics.lastDays_other': 'ಕಳೆದ {count} ದಿನಗಳು',
+  'resourceAnalytics.views': 'ವೀಕ್ಷಣೆಗಳು',
+  'resourceAnalytics.readers': 'ವಿಶಿಷ್ಟ ಓದುಗರು',
+  'resourceAnalytics.readersCount_one': '{count} ಓದುಗ',
+  'resourceAnalytics.readersCount_other': '{count} ಓದುಗರು',
+  'resourceAnalytics.bookmarks': 'ಉಳಿಸಿದವು',
+  'resourceAnalytics.completions': 'ಪೂರ್ಣಗೊಳಿಸಿದವು',
+  'resourceAnalytics.languages': 'ಭಾಷೆಗಳು',
+  'resourceAnalytics.allResources': 'ಎಲ್ಲಾ ಸಂಪನ್ಮೂಲಗಳು',
+  'resourceAnalytics.showAll': 'ಎಲ್ಲಾ ಸಂಪನ್ಮೂಲಗಳನ್ನು ತೋರಿಸಿ',
+  'resourceAnalytics.dailyViews': 'ದಿನವಾರು ವೀಕ್ಷಣೆಗಳು',
+  'offline.banner': 'ನೀವು ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿದ್ದೀರಿ. ನೀವು ಉಳಿಸಿದ ಡೇಟಾವನ್ನು ನೋಡುತ್ತಿದ್ದೀರಿ; ಮತ್ತೆ ಸಂಪರ್ಕವಾದಾಗ ನಿಮ್ಮ ಬದಲಾವಣೆಗಳನ್ನು ಕಳುಹಿಸಲಾಗುತ್ತದೆ.',
+  'offline.pending_one': '{count} ಬದಲಾವಣೆ ಕಳುಹಿಸಲು ಕಾಯುತ್ತಿದೆ.',
+  'offline.pending_other': '{count} ಬದಲಾವಣೆಗಳು ಕಳುಹಿಸಲು ಕಾಯುತ್ತಿವೆ.',
+  'offline.syncing': 'ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿ ಮಾಡಿದ ಬದಲಾವಣೆಗಳನ್ನು ಕಳುಹಿಸಲಾಗುತ್ತಿದೆ...',
+  'offline.conflicts': 'ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿ ಮಾಡಿದ ಕೆಲವು ಬದಲಾವಣೆಗಳಿಗೆ ನಿಮ್ಮ ಗಮನ ಬೇಕು',
+  'offline.stockConflict': '{name}: ನೀವು ಸ್ಟಾಕ್ ಅನ್ನು {mine} ಎಂದು ಹೊಂದಿಸಿದ್ದೀರಿ, ಆದರೆ ಈ ನಡುವೆ ಅದು {current} ಆಗಿ ಬದಲಾಗಿದೆ.',
+  'offline.stockFailed': '{name} ಸ್ಟಾಕ್ ಉಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {reason}',
+  'offline.messageFailed': '{name} ಅವರಿಗೆ ಸಂದೇಶ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {reason}',
+  'offline.productMissing': 'ಉತ್ಪನ್ನ ಈಗ ಅಸ್ತಿತ್ವದಲ್ಲಿಲ್ಲ',
+  'offline.keepMine': '{stock} ಬಳಸಿ',
+  'offline.keepServer': '{stock} ಅನ್ನೇ ಉಳಿಸಿ',
+  'offline.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'offline.discard': 'ತ್ಯಜಿಸಿ',
+  'offline.queued': 'ನೆಟ್‌ವರ್ಕ್‌ಗಾಗಿ ಕಾಯುತ್ತಿದೆ',
+  'offline.notSent': 'ಕಳುಹಿಸಲಾಗಿಲ್ಲ',
+  'offline.attachmentsNeedNetwork': 'ಫೋಟೋ ಮತ್ತು ಧ್ವನಿ ಟಿಪ್ಪಣಿಗಳಿಗೆ ಸಂಪರ್ಕ ಬೇಕು. ಪಠ್ಯ ಸಂದೇಶಗಳನ್ನು ಉಳಿಸಿ, ಮತ್ತೆ ಸಂಪರ್ಕವಾದಾಗ ಕಳುಹಿಸಲಾಗುತ್ತದೆ.',
+};
+
+export default kn;
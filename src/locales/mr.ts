@@ -0,0 +1,442 @@
+const mr: Record<string, string> = {
+  'app.name': 'फार्मकनेक्ट',
+  'app.tagline': 'भारतीय शेतकऱ्यांचे सक्षमीकरण',
+  'nav.home': 'मुख्यपृष्ठ',
+  'nav.products': 'उत्पादने',
+  'nav.resources': 'संसाधने',
+  'nav.dashboard': 'डॅशबोर्ड',
+  'nav.messages': 'संदेश',
+  'nav.cart': 'टोपली',
+  'nav.language': 'भाषा',
+  'auth.signin': 'साइन इन करा',
+  'auth.signup': 'साइन अप करा',
+  'auth.signout': 'साइन आउट करा',
+  'auth.email': 'ईमेल',
+  'auth.password': 'पासवर्ड',
+  'auth.fullname': 'पूर्ण नाव',
+  'auth.phone': 'फोन नंबर',
+  'auth.role': 'मी आहे',
+  'auth.role.farmer': 'शेतकरी',
+  'auth.role.buyer': 'खरेदीदार',
+  'auth.state': 'राज्य',
+  'auth.district': 'जिल्हा',
+  'auth.language': 'भाषा',
+  'auth.selectState': 'राज्य निवडा',
+  'auth.haveAccount': 'आधीच खाते आहे?',
+  'auth.noAccount': 'खाते नाही?',
+  'auth.role.admin': 'प्रशासक',
+  'auth.deactivated': 'हे खाते निष्क्रिय केले आहे. कृपया सहाय्याशी संपर्क साधा.',
+  'role.admin': 'प्रशासक',
+  'role.farmer': 'शेतकरी',
+  'role.buyer': 'खरेदीदार',
+  'welcome': 'स्वागत आहे',
+  'loading': 'लोड होत आहे...',
+  'save': 'जतन करा',
+  'cancel': 'रद्द करा',
+  'delete': 'हटवा',
+  'edit': 'संपादित करा',
+  'view': 'पहा',
+  'search': 'शोधा',
+  'filter': 'फिल्टर',
+  'products.title': 'उत्पादने',
+  'products.add': 'उत्पादन जोडा',
+  'products.name': 'उत्पादनाचे नाव',
+  'products.price': 'किंमत',
+  'products.stock': 'साठा',
+  'products.organic': 'सेंद्रिय',
+  'products.traditional': 'पारंपरिक',
+  'products.edit': 'उत्पादन संपादित करा',
+  'products.description': 'वर्णन',
+  'products.category': 'श्रेणी',
+  'products.unit': 'एकक',
+  'products.lowStock': 'कमी साठा मर्यादा',
+  'products.processing': 'प्रक्रिया पद्धत',
+  'products.shelfLife': 'टिकण्याचा कालावधी (दिवस)',
+  'products.tags': 'टॅग',
+  'products.active': 'खरेदीदारांना दिसेल',
+  'products.photos': 'फोटो',
+  'products.searchHint': 'इंग्रजी किंवा हिंदीत शोधा, उदा. pickle, achaar, अचार',
+  'products.allCategories': 'सर्व श्रेणी',
+  'products.allStates': 'सर्व राज्ये',
+  'products.sort.relevance': 'सर्वोत्तम जुळणारे',
+  'products.sort.newest': 'नवीनतम',
+  'products.sort.priceAsc': 'किंमत: कमी ते जास्त',
+  'products.sort.priceDesc': 'किंमत: जास्त ते कमी',
+  'products.sort.rating': 'सर्वोच्च रेटिंग',
+  'products.clearFilters': 'फिल्टर काढा',
+  'products.loadMore': 'आणखी पहा',
+  'products.status.active': 'सक्रिय',
+  'products.status.inactive': 'निष्क्रिय',
+  'products.perUnit': 'प्रति {unit} ₹{price}',
+  'products.unavailable': 'हे उत्पादन उपलब्ध नाही.',
+  'products.linkCopied': 'लिंक कॉपी झाली!',
+  'products.share': '🔗 शेअर करा',
+  'products.reviewCount_one': '({count} परीक्षण)',
+  'products.reviewCount_other': '({count} परीक्षणे)',
+  'products.perUnitStock': 'प्रति {unit} · साठा: {stock}',
+  'products.india': 'भारत',
+  'products.moreFrom': '{name} यांची आणखी उत्पादने',
+  'products.moreFromFarmer': 'या शेतकऱ्याची आणखी उत्पादने',
+  'products.moreIn': '{category} मधील आणखी',
+  'products.minPrice': 'किमान ₹',
+  'products.maxPrice': 'कमाल ₹',
+  'products.noResults': 'तुमच्या निकषांशी जुळणारी कोणतीही उत्पादने सापडली नाहीत.',
+  'products.per': 'प्रति {unit}',
+  'products.stockCount': 'साठा: {count}',
+  'orders.title': 'ऑर्डर',
+  'orders.status': 'स्थिती',
+  'orders.total': 'एकूण',
+  'orders.manage': 'ऑर्डर व्यवस्थापित करा',
+  'orders.allStatuses': 'सर्व स्थिती',
+  'orders.from': 'पासून',
+  'orders.to': 'पर्यंत',
+  'orders.items': 'वस्तू',
+  'orders.history': 'स्थिती इतिहास',
+  'orders.payment': 'देयक',
+  'orders.cancel': 'ऑर्डर रद्द करा',
+  'orders.messageFarmer': 'या ऑर्डरबद्दल शेतकऱ्याला संदेश पाठवा',
+  'orders.none': 'अद्याप कोणतीही ऑर्डर नाही.',
+  'orders.number': 'ऑर्डर #{number}',
+  'orders.fromFarmer': 'विक्रेता: {name}',
+  'orders.action.pending': 'प्रलंबित',
+  'orders.action.confirmed': 'पुष्टी करा',
+  'orders.action.shipped': 'पाठवले म्हणून चिन्हांकित करा',
+  'orders.action.delivered': 'पोहोचवले म्हणून चिन्हांकित करा',
+  'orders.action.cancelled': 'रद्द करा',
+  'orders.farmersOnly': 'फक्त शेतकरी खाती ऑर्डर व्यवस्थापित करू शकतात.',
+  'orders.noMatches': 'या फिल्टरशी जुळणारी कोणतीही ऑर्डर नाही.',
+  'orders.confirmCancel': 'ही ऑर्डर रद्द करायची? तिचा साठा पुन्हा उपलब्ध होईल.',
+  'orders.step.pending': 'ऑर्डर दिली',
+  'orders.step.confirmed': 'शेतकऱ्याने पुष्टी केली',
+  'orders.step.shipped': 'पाठवले',
+  'orders.step.delivered': 'पोहोचवले',
+  'orders.step.cancelled': 'रद्द',
+  'orders.confirmBuyerCancel': 'ही ऑर्डर रद्द करायची?',
+  'orders.notFound': 'ही ऑर्डर सापडली नाही.',
+  'orders.refundProcessing': 'तुमचा परतावा प्रक्रियेत आहे.',
+  'resources.title': 'शैक्षणिक संसाधने',
+  'resources.subtitle': 'मूल्यवर्धन, विपणन धोरणे आणि उद्योजकतेबद्दल जाणून घ्या',
+  'resources.categories': 'श्रेणी',
+  'resources.all': 'सर्व',
+  'resources.none': 'या श्रेणीत कोणतीही संसाधने सापडली नाहीत.',
+  'resources.views_one': '{count} वेळा पाहिले',
+  'resources.views_other': '{count} वेळा पाहिले',
+  'resources.showLess': 'कमी दाखवा',
+  'resources.readMore': 'अधिक वाचा →',
+  'resources.saved': 'जतन केलेले',
+  'resources.savedFilter': 'जतन केलेले ({count})',
+  'resources.save': 'नंतरसाठी जतन करा',
+  'resources.unsave': 'जतन केलेल्यांमधून काढा',
+  'resources.noneSaved': 'तुम्ही अद्याप कोणतीही मार्गदर्शिका जतन केलेली नाही. ती येथे ठेवण्यासाठी मार्गदर्शिकेवर 🔖 दाबा.',
+  'resources.completed': 'पूर्ण',
+  'resources.markComplete': 'पूर्ण म्हणून चिन्हांकित करा',
+  'resources.markIncomplete': 'अपूर्ण म्हणून चिन्हांकित करा',
+  'resources.progress': 'तुम्ही {total} पैकी {completed} मार्गदर्शिका पूर्ण केल्या आहेत',
+  'resources.searchHint': 'मार्गदर्शक शोधा, उदा. पॅकेजिंग, साठवण, लोणचे',
+  'resources.readIn': 'वाचण्याची भाषा',
+  'resources.tags': 'टॅग',
+  'resources.removeTag': '#{tag} फिल्टर काढा',
+  'resources.clearFilters': 'फिल्टर काढा',
+  'resources.noMatches': 'तुमच्या शोधाशी जुळणारे मार्गदर्शक नाहीत.',
+  'resources.share': '🔗 ही यादी शेअर करा',
+  'resources.linkCopied': 'लिंक कॉपी झाली!',
+  'cart.title': 'तुमची टोपली',
+  'cart.empty': 'तुमची टोपली रिकामी आहे.',
+  'cart.subtotal': 'उपएकूण',
+  'cart.remove': 'काढा',
+  'cart.clear': 'टोपली रिकामी करा',
+  'cart.checkout': 'चेकआउट करा',
+  'cart.add': 'टोपलीत टाका',
+  'cart.addMore': 'टोपलीत टाका (टोपलीत {count})',
+  'cart.itemCount_one': '{count} वस्तू',
+  'cart.itemCount_other': '{count} वस्तू',
+  'checkout.title': 'चेकआउट',
+  'checkout.address': 'डिलिव्हरी पत्ता',
+  'checkout.notes': 'शेतकऱ्यांसाठी नोंद',
+  'checkout.summary': 'ऑर्डर सारांश',
+  'checkout.place': 'ऑर्डर द्या',
+  'checkout.confirmed': 'ऑर्डर यशस्वीरित्या दिल्या',
+  'checkout.invalidPincode': 'कृपया वैध 6 अंकी पिन कोड टाका',
+  'checkout.insufficientStock': 'काही वस्तूंचा पुरेसा साठा आता नाही. उपलब्ध प्रमाणानुसार तुमची टोपली अद्ययावत केली आहे.',
+  'checkout.buyersOnly': 'फक्त खरेदीदार खाती ऑर्डर देऊ शकतात.',
+  'checkout.oversoldLine': '{name}: {requested} मागितले, फक्त {available} उपलब्ध',
+  'checkout.addressLine': 'पत्ता',
+  'checkout.addressPlaceholder': 'घर / रस्ता / गाव',
+  'checkout.pincode': 'पिन कोड',
+  'checkout.splitNotice_one': 'तुमची टोपली {count} ऑर्डर म्हणून दिली जाईल.',
+  'checkout.splitNotice_other': 'तुमची टोपली {count} वेगवेगळ्या ऑर्डर म्हणून दिली जाईल, प्रत्येक शेतकऱ्यासाठी एक.',
+  'checkout.sent_one': '{count} ऑर्डर शेतकऱ्यांना पाठवली.',
+  'checkout.sent_other': '{count} ऑर्डर शेतकऱ्यांना पाठवल्या.',
+  'checkout.shipSeparately': 'प्रत्येक शेतकरी तुमच्या खरेदीतील आपला भाग स्वतंत्रपणे पुष्टी करून पाठवेल.',
+  'checkout.keepCash': 'डिलिव्हरीवर रोख असलेल्या ऑर्डरसाठी रोख तयार ठेवा.',
+  'checkout.completePayment_one': 'तुमच्या वस्तू राखीव आहेत. ऑर्डर शेतकऱ्यांना पाठवण्यासाठी ऑनलाइन देयक पूर्ण करा.',
+  'checkout.completePayment_other': 'तुमच्या वस्तू राखीव आहेत. ऑर्डर शेतकऱ्यांना पाठवण्यासाठी ऑनलाइन देयक पूर्ण करा.',
+  'payment.title': 'देयक',
+  'payment.card': 'कार्ड',
+  'payment.pay': 'आता भरा',
+  'payment.pending': 'देयक प्रलंबित',
+  'payment.online': 'ऑनलाइन भरा',
+  'payment.cod': 'डिलिव्हरीवर रोख',
+  'payment.collected': 'जमा',
+  'payment.outstanding': 'थकबाकी',
+  'payment.markPaid': 'रोख मिळाली म्हणून चिन्हांकित करा',
+  'payment.options': 'देयक पर्याय',
+  'payment.keepOne': 'किमान एक देयक पर्याय सुरू ठेवा.',
+  'payment.optionsHint': 'खरेदीदार तुमच्या ऑर्डरसाठी कसे पैसे देऊ शकतात ते निवडा.',
+  'payment.invalidUpi': 'कृपया वैध UPI आयडी टाका, उदा. name@bank',
+  'payment.invalidCard': 'कृपया वैध 16 अंकी कार्ड नंबर टाका',
+  'payment.declined': 'देयक नाकारले गेले. कृपया पुन्हा प्रयत्न करा किंवा दुसरी पद्धत वापरा.',
+  'payment.processing': 'देयक अजून प्रक्रियेत आहे. काही मिनिटांनी तुमचे ऑर्डर पृष्ठ पहा.',
+  'messages.conversations': 'संभाषणे',
+  'messages.select': 'वाचण्यासाठी आणि उत्तर देण्यासाठी एक संभाषण निवडा.',
+  'messages.placeholder': 'संदेश लिहा...',
+  'messages.send': 'पाठवा',
+  'messages.allConversations': 'सर्व संभाषणे',
+  'messages.askFarmer': 'शेतकऱ्याला विचारा',
+  'messages.contactBuyer': 'खरेदीदाराशी संपर्क करा',
+  'messages.unread_one': '{count} न वाचलेला संदेश',
+  'messages.unread_other': '{count} न वाचलेले संदेश',
+  'messages.voiceNote': '🎤 व्हॉइस नोट',
+  'messages.photo': '📷 फोटो',
+  'messages.unknownUser': 'वापरकर्ता',
+  'messages.youHaveUnread_one': 'तुमच्याकडे {count} न वाचलेला संदेश आहे',
+  'messages.youHaveUnread_other': 'तुमच्याकडे {count} न वाचलेले संदेश आहेत',
+  'messages.none': 'अद्याप कोणतेही संभाषण नाही.',
+  'messages.you': 'तुम्ही: ',
+  'messages.imageOnly': 'कृपया प्रतिमा फाइल निवडा',
+  'messages.sendPhoto': 'फोटो पाठवा',
+  'messages.sayHello': 'संभाषण सुरू करण्यासाठी नमस्कार म्हणा.',
+  'messages.seen': 'पाहिले',
+  'messages.photoAlt': 'फोटो',
+  'dashboard.welcome': 'तुमच्या डॅशबोर्डवर स्वागत आहे',
+  'dashboard.loading': 'डॅशबोर्ड लोड होत आहे...',
+  'errors.unexpected': 'अनपेक्षित त्रुटी आली',
+  'home.intro': 'मूल्यवर्धित कृषी उत्पादने बनवणाऱ्या शेतकऱ्यांशी थेट जोडा. ग्रामीण उद्योजकतेला पाठिंबा द्या आणि ताजी, अस्सल उत्पादने थेट तुमच्या घरी मिळवा.',
+  'home.getStarted': 'सुरुवात करा',
+  'home.browse': 'उत्पादने पहा',
+  'home.howItWorks': 'फार्मकनेक्ट कसे काम करते',
+  'home.farmers.title': 'शेतकऱ्यांसाठी',
+  'home.farmers.body': 'तुमची मूल्यवर्धित उत्पादने सूचीबद्ध करा, साठा सांभाळा आणि संपूर्ण भारतातील ग्राहकांपर्यंत पोहोचा. तुमचा व्यवसाय वाढवण्यासाठी शैक्षणिक संसाधनांचा वापर करा.',
+  'home.buyers.title': 'खरेदीदारांसाठी',
+  'home.buyers.body': 'शेतकऱ्यांकडून थेट अस्सल कृषी उत्पादने शोधा. सेंद्रिय, पारंपरिक पद्धतींनुसार निवडा आणि स्थानिक समुदायांना पाठिंबा द्या.',
+  'home.impact.title': 'परिणाम पहा',
+  'home.impact.body': 'विक्रीचे कल, ग्राहकांचा सहभाग यावर लक्ष ठेवा आणि ग्रामीण उद्योजकतेवरील आर्थिक परिणाम मोजा.',
+  'home.categories': 'उत्पादन श्रेणी',
+  'home.category.processed': 'प्रक्रिया केलेले अन्न',
+  'home.category.dairy': 'दुग्धजन्य पदार्थ',
+  'home.category.beverages': 'पेये',
+  'home.category.grains': 'धान्य व पीठ',
+  'home.category.crafts': 'हस्तकला',
+  'home.category.organic': 'सेंद्रिय उत्पन्न',
+  'home.join.title': 'फार्मकनेक्ट समुदायात सामील व्हा',
+  'home.join.body': 'तुम्ही तुमची बाजारपेठ वाढवू इच्छिणारे शेतकरी असा किंवा अस्सल उत्पादने शोधणारे खरेदीदार, ग्रामीण उद्योजकतेसाठी फार्मकनेक्ट हे तुमचे व्यासपीठ आहे.',
+  'home.signUpNow': 'आताच साइन अप करा',
+  'admin.totalUsers': 'एकूण वापरकर्ते',
+  'admin.totalFarmers': 'एकूण शेतकरी',
+  'admin.totalBuyers': 'एकूण खरेदीदार',
+  'admin.totalProducts': 'एकूण उत्पादने',
+  'admin.totalOrders': 'एकूण ऑर्डर',
+  'admin.totalRevenue': 'एकूण महसूल',
+  'admin.analytics': 'प्लॅटफॉर्म विश्लेषण',
+  'admin.analyticsSummary': 'प्लॅटफॉर्म {farmers} शेतकऱ्यांना {buyers} खरेदीदारांशी जोडत आहे आणि {products} मूल्यवर्धित उत्पादनांद्वारे ग्रामीण उद्योजकतेला चालना देत आहे.',
+  'admin.impact': 'परिणाम मापन',
+  'admin.engagement': 'शेतकरी सहभाग दर',
+  'admin.productsPerFarmer': 'उत्पादने/शेतकरी',
+  'admin.averageOrder': 'सरासरी ऑर्डर मूल्य',
+  'admin.growth': 'प्लॅटफॉर्म वाढ',
+  'admin.registeredUsers': 'नोंदणीकृत वापरकर्ते',
+  'admin.failedRefunds': 'लक्ष देण्याची गरज असलेले परतावे',
+  'admin.failedRefundsHint': 'पेमेंट गेटवेने हे परतावे वारंवार नाकारले. खरेदीदाराला स्वतः परतावा द्या आणि गेटवेचा डॅशबोर्ड तपासा.',
+  'admin.refundAttempts_one': '{count} प्रयत्न, शेवटचा {date} रोजी',
+  'admin.refundAttempts_other': '{count} प्रयत्न, शेवटचा {date} रोजी',
+  'farmer.activeProducts': 'सक्रिय उत्पादने',
+  'farmer.totalOrders': 'एकूण ऑर्डर',
+  'farmer.lowStock.title': 'कमी साठा सूचना',
+  'farmer.lowStock.body': 'खालील उत्पादनांचा साठा कमी होत आहे:',
+  'farmer.lowStock.available_one': '{name} - {count} एकक उपलब्ध',
+  'farmer.lowStock.available_other': '{name} - {count} एकके उपलब्ध',
+  'farmer.lowStock.reserved': ' (खुल्या ऑर्डरमध्ये आणखी {count} राखीव)',
+  'farmer.yourProducts': 'तुमची उत्पादने',
+  'farmer.noProducts': 'अद्याप कोणतेही उत्पादन नाही. तुमचे पहिले उत्पादन जोडून सुरुवात करा!',
+  'farmer.product': 'उत्पादन',
+  'farmer.recentOrders': 'अलीकडील ऑर्डर',
+  'status.pending': 'प्रलंबित',
+  'status.confirmed': 'पुष्टी झाली',
+  'status.shipped': 'पाठवले',
+  'status.delivered': 'पोहोचवले',
+  'status.cancelled': 'रद्द',
+  'buyer.totalOrders': 'एकूण ऑर्डर',
+  'buyer.pendingOrders': 'प्रलंबित ऑर्डर',
+  'buyer.totalSpent': 'एकूण खर्च',
+  'buyer.stillToPay': '₹{amount} भरणे बाकी',
+  'buyer.explore.title': 'उत्पादने शोधा',
+  'buyer.explore.body': 'संपूर्ण भारतातील शेतकऱ्यांची मूल्यवर्धित उत्पादने पहा',
+  'buyer.stories.title': 'यशोगाथा',
+  'buyer.stories.body': 'शेतकरी उद्योजक आणि त्यांच्या प्रवासाबद्दल वाचा',
+  'buyer.yourOrders': 'तुमच्या ऑर्डर',
+  'buyer.noOrders': 'तुम्ही अद्याप कोणतीही ऑर्डर दिलेली नाही.',
+  'buyer.startShopping': 'खरेदी सुरू करा',
+  'buyer.support.title': 'स्थानिक समुदायांना पाठिंबा द्या',
+  'buyer.support.body': 'तुमची प्रत्येक खरेदी शेतकरी उद्योजकांना आणि त्यांच्या कुटुंबांना थेट मदत करते आणि संपूर्ण भारतात ग्रामीण आर्थिक विकासाला हातभार लावते.',
+  'reviews.edit': 'परीक्षण संपादित करा',
+  'reviews.write': 'परीक्षण लिहा',
+  'reviews.ratingRequired': 'कृपया 1 ते 5 तारे यांमधील रेटिंग निवडा',
+  'reviews.rating': 'रेटिंग',
+  'reviews.placeholder': 'हे उत्पादन तुम्हाला कसे वाटले?',
+  'reviews.none': 'अद्याप कोणतेही परीक्षण नाही.',
+  'reviews.outOfFive': '5 पैकी {rating}',
+  'reviews.title': 'परीक्षणे',
+  'reviews.verified': '✓ सत्यापित खरेदी',
+  'reviews.newer': '← नवीन',
+  'reviews.older': 'जुने →',
+  'reviews.page': 'पृष्ठ {page} / {pages}',
+  'reviews.farmerReply': 'शेतकऱ्याचे उत्तर',
+  'reviews.editReply': 'उत्तर संपादित करा',
+  'reviews.reply': 'उत्तर द्या',
+  'photos.limit': 'प्रत्येक उत्पादनासाठी जास्तीत जास्त {count} फोटो जोडता येतात',
+  'photos.uploadFailed': 'प्रतिमा अपलोड करता आली नाही',
+  'photos.alt': 'उत्पादन फोटो {number}',
+  'photos.cover': 'मुखपृष्ठ',
+  'photos.setCover': 'मुखपृष्ठ करा',
+  'photos.uploading': 'अपलोड होत आहे...',
+  'photos.add': '+ फोटो जोडा',
+  'voice.unsupported': 'या ब्राउझरमध्ये व्हॉइस नोट समर्थित नाहीत',
+  'voice.noMicrophone': 'मायक्रोफोन वापरता आला नाही',
+  'voice.record': 'व्हॉइस नोट रेकॉर्ड करा',
+  'paymentStatus.pending': 'बाकी',
+  'paymentStatus.completed': 'भरले',
+  'paymentStatus.failed': 'अयशस्वी',
+  'paymentStatus.refunded': 'परत केले',
+  'productForm.nameRequired': 'उत्पादनाचे नाव आवश्यक आहे',
+  'productForm.descriptionRequired': 'वर्णन आवश्यक आहे',
+  'productForm.unitRequired': 'एकक आवश्यक आहे',
+  'productForm.priceInvalid': 'किंमत 0 किंवा त्याहून अधिक संख्या असावी',
+  'productForm.priceTooLarge': 'किंमत खूप जास्त आहे',
+  'productForm.priceDecimals': 'किमतीत जास्तीत जास्त 2 दशांश स्थाने असू शकतात',
+  'productForm.stockInvalid': 'साठा 0 किंवा त्याहून अधिक पूर्ण संख्या असावा',
+  'productForm.lowStockInvalid': 'कमी साठा मर्यादा 0 किंवा त्याहून अधिक पूर्ण संख्या असावी',
+  'productForm.shelfLifeInvalid': 'टिकण्याचा कालावधी दिवसांत पूर्ण संख्या असावा',
+  'productForm.notFound': 'उत्पादन सापडले नाही',
+  'productForm.farmersOnly': 'फक्त शेतकरी खाती उत्पादने सूचीबद्ध करू शकतात.',
+  'productForm.selectCategory': 'श्रेणी निवडा',
+  'productForm.processingPlaceholder': 'उदा. उन्हात वाळवलेले, कोल्ड-प्रेस्ड',
+  'productForm.tagsPlaceholder': 'लोणचे, आंबा, घरगुती',
+  'productForm.tagsHint': 'टॅग स्वल्पविरामाने वेगळे करा',
+  'productForm.stockChanged': 'तुम्ही संपादन करत असताना साठा {count} झाला, बहुधा नवीन ऑर्डरमुळे. साठा तपासा आणि पुन्हा जतन करा.',
+  'translations.title': 'इतर भाषा',
+  'translations.hint': 'इंग्रजी हा मूळ मजकूर आहे. ज्यांच्या भाषेची आवृत्ती येथे नाही त्यांना इंग्रजी मजकूर दिसेल.',
+  'translations.none': 'अद्याप इतर भाषेतील आवृत्ती नाही.',
+  'translations.add': '+ भाषा जोडा',
+  'translations.required': 'या भाषेसाठी सर्व रकाने भरा',
+  'translations.confirmRemove': '{language} आवृत्ती काढायची?',
+  'translations.saveFirst': 'आधी उत्पादन जतन करा, मग येथे इतर भाषांतील आवृत्त्या जोडा.',
+  'translations.contentTitle': 'मजकूर भाषांतरे',
+  'translations.contentHint': 'श्रेणींची नावे आणि शैक्षणिक संसाधने अधिक भाषांमध्ये जोडा.',
+  'translations.manage': 'भाषांतरे व्यवस्थापित करा',
+  'translations.adminsOnly': 'फक्त प्रशासक मजकूर भाषांतरे व्यवस्थापित करू शकतात.',
+  'translations.categories': 'उत्पादन श्रेणी',
+  'translations.resources': 'शैक्षणिक संसाधने',
+  'translations.selectItem': 'भाषा आवृत्त्या पाहण्यासाठी आणि संपादित करण्यासाठी एक घटक निवडा.',
+  'translations.name': 'नाव',
+  'translations.resourceTitle': 'शीर्षक',
+  'translations.resourceContent': 'मजकूर',
+  'adminUsers.title': 'वापरकर्ते',
+  'adminUsers.hint': 'वापरकर्ते शोधा, भूमिका बदला आणि खाती निष्क्रिय करा.',
+  'adminUsers.manage': 'वापरकर्ते व्यवस्थापित करा',
+  'adminUsers.adminsOnly': 'फक्त प्रशासक खाती वापरकर्ते व्यवस्थापित करू शकतात.',
+  'adminUsers.searchHint': 'नाव किंवा फोन नंबरने शोधा',
+  'adminUsers.role': 'भूमिका',
+  'adminUsers.allRoles': 'सर्व भूमिका',
+  'adminUsers.status': 'खाते',
+  'adminUsers.allStatuses': 'सर्व खाती',
+  'adminUsers.active': 'सक्रिय',
+  'adminUsers.inactive': 'निष्क्रिय',
+  'adminUsers.noMatches': 'या फिल्टरशी जुळणारे वापरकर्ते नाहीत.',
+  'adminUsers.count_one': '{count} वापरकर्ता',
+  'adminUsers.count_other': '{count} वापरकर्ते',
+  'adminUsers.showingOf': '{total} पैकी {shown} वापरकर्ते दाखवत आहे. उर्वरित पाहण्यासाठी फिल्टर मर्यादित करा.',
+  'adminUsers.location': 'ठिकाण',
+  'adminUsers.joined': 'सामील झाले',
+  'adminUsers.joinedOn': '{date} रोजी सामील झाले',
+  'adminUsers.notFound': 'हा वापरकर्ता सापडला नाही.',
+  'adminUsers.selfNotice': 'तुम्ही तुमच्या स्वतःच्या खात्याची भूमिका किंवा स्थिती बदलू शकत नाही.',
+  'adminUsers.changeRole': 'भूमिका बदला',
+  'adminUsers.deactivate': 'खाते निष्क्रिय करा',
+  'adminUsers.reactivate': 'खाते पुन्हा सक्रिय करा',
+  'adminUsers.confirmDeactivate': '{name} यांना निष्क्रिय करायचे? ते साइन आउट होतील आणि त्यांची उत्पादने खरेदीदारांपासून लपवली जातील.',
+  'adminUsers.confirmReactivate': '{name} यांना पुन्हा सक्रिय करायचे? ते पुन्हा साइन इन करू शकतील.',
+  'adminUsers.products': 'उत्पादने',
+  'adminUsers.orders': 'अलीकडील ऑर्डर',
+  'adminUsers.boughtFrom': '{name} यांच्याकडून खरेदी',
+  'adminUsers.soldTo': '{name} यांना विकले',
+  'resourceAdmin.title': 'शिक्षण संसाधने',
+  'resourceAdmin.hint': 'शेतकऱ्यांसाठी मार्गदर्शिका लिहा, नियोजित करा आणि प्रकाशित करा.',
+  'resourceAdmin.manage': 'संसाधने व्यवस्थापित करा',
+  'resourceAdmin.new': 'नवीन संसाधन',
+  'resourceAdmin.adminsOnly': 'फक्त प्रशासक खाती शिक्षण संसाधने व्यवस्थापित करू शकतात.',
+  'resourceAdmin.none': 'येथे अद्याप कोणतेही संसाधन नाही.',
+  'resourceAdmin.updated': 'शेवटचे अपडेट',
+  'resourceAdmin.confirmDelete': '"{title}" हटवायचे? हे पूर्ववत करता येणार नाही.',
+  'resourceForm.newTitle': 'नवीन संसाधन',
+  'resourceForm.editTitle': 'संसाधन संपादित करा',
+  'resourceForm.notFound': 'हे संसाधन सापडले नाही.',
+  'resourceForm.untitled': 'शीर्षक नसलेले संसाधन',
+  'resourceForm.category': 'श्रेणी',
+  'resourceForm.markdownHint': 'फॉरमॅटिंग: # शीर्षक, **ठळक**, *तिरपे*, - यादी, 1. क्रमांकित यादी, > अवतरण, [दुवा](https://...).',
+  'resourceForm.tagsHint': 'टॅग जोडण्यासाठी Enter किंवा स्वल्पविराम दाबा.',
+  'resourceForm.removeTag': 'टॅग {tag} काढा',
+  'resourceForm.image': 'मुख्य चित्र',
+  'resourceForm.removeImage': 'चित्र काढा',
+  'resourceForm.uploading': 'अपलोड होत आहे...',
+  'resourceForm.visibility': 'दृश्यता',
+  'resourceForm.status.draft': 'मसुदा',
+  'resourceForm.status.published': 'प्रकाशित',
+  'resourceForm.status.scheduled': 'नियोजित',
+  'resourceForm.preview': 'पूर्वावलोकन',
+  'resourceForm.otherLanguages': 'इतर भाषांमधील भाषांतरे स्वतंत्रपणे व्यवस्थापित केली जातात.',
+  'resourceForm.titleRequired': 'कृपया इंग्रजी शीर्षक प्रविष्ट करा.',
+  'resourceForm.contentRequired': 'कृपया इंग्रजी मजकूर प्रविष्ट करा.',
+  'resourceForm.categoryRequired': 'कृपया श्रेणी निवडा.',
+  'resourceForm.hindiIncomplete': 'हिंदी शीर्षक आणि मजकूर दोन्ही भरा, किंवा दोन्ही रिकामे ठेवा.',
+  'resourceForm.scheduleRequired': 'संसाधन केव्हा प्रकाशित करायचे ते निवडा.',
+  'resourceForm.scheduleInPast': 'नियोजित वेळ भविष्यातील असावी.',
+  'learning.title': 'शिकणे सुरू ठेवा',
+  'learning.browse': 'सर्व मार्गदर्शिका',
+  'learning.empty': 'शिक्षण संसाधनांमध्ये एखादी मार्गदर्शिका जतन करा किंवा उघडा, ती येथे दिसेल.',
+  'learning.completedCount_one': '{count} मार्गदर्शिका पूर्ण',
+  'learning.completedCount_other': '{count} मार्गदर्शिका पूर्ण',
+  'learning.lastViewed': '{date} रोजी उघडले',
+  'learning.inProgress': 'सुरू आहे',
+  'learning.notStarted': 'सुरू केले नाही',
+  'resourceAnalytics.title': 'संसाधन विश्लेषण',
+  'resourceAnalytics.lastDays_one': 'मागील {count} दिवस',
+  'resourceAnalytics.lastDays_other': 'मागील {count} दिवस',
+  'resourceAnalytics.views': 'व्ह्यूज',
+  'resourceAnalytics.readers': 'वेगवेगळे वाचक',
+  'resourceAnalytics.readersCount_one': '{count} वाचक',
+  'resourceAnalytics.readersCount_other': '{count} वाचक',
+  'resourceAnalytics.bookmarks': 'जतन',
+  'resourceAnalytics.completions': 'पूर्ण केलेले',
+  'resourceAnalytics.languages': 'भाषा',
+  'resourceAnalytics.allResources': 'सर्व संसाधने',
+  'resourceAnalytics.showAll': 'सर्व संसाधने दाखवा',
+  'resourceAnalytics.dailyViews': 'दररोजचे व्ह्यूज',
+  'offline.banner': 'तुम्ही ऑफलाइन आहात. तुम्ही जतन केलेला डेटा पाहत आहात, आणि पुन्हा जोडल्यावर तुमचे बदल पाठवले जातील.',
+  'offline.pending_one': '{count} बदल पाठवण्याच्या प्रतीक्षेत आहे.',
+  'offline.pending_other': '{count} बदल पाठवण्याच्या प्रतीक्षेत आहेत.',
+  'offline.syncing': 'ऑफलाइन केलेले बदल पाठवले जात आहेत...',
+  'offline.conflicts': 'ऑफलाइन केलेल्या काही बदलांकडे लक्ष देणे आवश्यक आहे',
+  'offline.stockConflict': '{name}: तुम्ही साठा {mine} केला होता, पण दरम्यान तो {current} झाला आहे.',
+  'offline.stockFailed': '{name} चा साठा जतन करता आला नाही: {reason}',
+  'offline.messageFailed': '{name} यांना संदेश पाठवता आला नाही: {reason}',
+  'offline.productMissing': 'उत्पादन आता अस्तित्वात नाही',
+  'offline.keepMine': '{stock} ठेवा',
+  'offline.keepServer': '{stock}च राहू द्या',
+  'offline.retry': 'पुन्हा प्रयत्न करा',
+  'offline.discard': 'रद्द करा',
+  'offline.queued': 'नेटवर्कची प्रतीक्षा',
+  'offline.notSent': 'पाठवले नाही',
+  'offline.attachmentsNeedNetwork': 'फोटो आणि व्हॉइस नोटसाठी नेटवर्क लागते. मजकूर संदेश जतन होतात आणि पुन्हा जोडल्यावर पाठवले जातात.',
+};
+
+export default mr;
@@ -0,0 +1,442 @@
+const ta: Record<string, string> = {
+  'app.name': 'ஃபார்ம்கனெக்ட்',
+  'app.tagline': 'இந்திய விவசாயிகளுக்கு அதிகாரமளித்தல்',
+  'nav.home': 'முகப்பு',
+  'nav.products': 'பொருட்கள்',
+  'nav.resources': 'வளங்கள்',
+  'nav.dashboard': 'டாஷ்போர்டு',
+  'nav.messages': 'செய்திகள்',
+  'nav.cart': 'கூடை',
+  'nav.language': 'மொழி',
+  'auth.signin': 'உள்நுழை',
+  'auth.signup': 'பதிவு செய்',
+  'auth.signout': 'வெளியேறு',
+  'auth.email': 'மின்னஞ்சல்',
+  'auth.password': 'கடவுச்சொல்',
+  'auth.fullname': 'முழுப் பெயர்',
+  'auth.phone': 'தொலைபேசி எண்',
+  'auth.role': 'நான் ஒரு',
+  'auth.role.farmer': 'விவசாயி',
+  'auth.role.buyer': 'வாங்குபவர்',
+  'auth.state': 'மாநிலம்',
+  'auth.district': 'மாவட்டம்',
+  'auth.language': 'மொழி',
+  'auth.selectState': 'மாநிலத்தைத் தேர்ந்தெடுக்கவும்',
+  'auth.haveAccount': 'ஏற்கனவே கணக்கு உள்ளதா?',
+  'auth.noAccount': 'கணக்கு இல்லையா?',
+  'auth.role.admin': 'நிர்வாகி',
+  'auth.deactivated': 'இந்தக் கணக்கு செயலிழக்கச் செய்யப்பட்டுள்ளது. உதவிக் குழுவைத் தொடர்பு கொள்ளவும்.',
+  'role.admin': 'நிர்வாகி',
+  'role.farmer': 'விவசாயி',
+  'role.buyer': 'வாங்குபவர்',
+  'welcome': 'வரவேற்கிறோம்',
+  'loading': 'ஏற்றுகிறது...',
+  'save': 'சேமி',
+  'cancel': 'ரத்து செய்',
+  'delete': 'நீக்கு',
+  'edit': 'திருத்து',
+  'view': 'பார்',
+  'search': 'தேடு',
+  'filter': 'வடிகட்டி',
+  'products.title': 'பொருட்கள்',
+  'products.add': 'பொருளைச் சேர்',
+  'products.name': 'பொருளின் பெயர்',
+  'products.price': 'விலை',
+  'products.stock': 'இருப்பு',
+  'products.organic': 'இயற்கை',
+  'products.traditional': 'பாரம்பரிய',
+  'products.edit': 'பொருளைத் திருத்து',
+  'products.description': 'விளக்கம்',
+  'products.category': 'வகை',
+  'products.unit': 'அலகு',
+  'products.lowStock': 'குறைந்த இருப்பு வரம்பு',
+  'products.processing': 'பதப்படுத்தும் முறை',
+  'products.shelfLife': 'சேமிப்புக் காலம் (நாட்கள்)',
+  'products.tags': 'குறிச்சொற்கள்',
+  'products.active': 'வாங்குபவர்களுக்குத் தெரியும்',
+  'products.photos': 'புகைப்படங்கள்',
+  'products.searchHint': 'ஆங்கிலம் அல்லது இந்தியில் தேடுங்கள், எ.கா. pickle, achaar, अचार',
+  'products.allCategories': 'அனைத்து வகைகள்',
+  'products.allStates': 'அனைத்து மாநிலங்கள்',
+  'products.sort.relevance': 'சிறந்த பொருத்தம்',
+  'products.sort.newest': 'புதியவை',
+  'products.sort.priceAsc': 'விலை: குறைவு முதல் அதிகம்',
+  'products.sort.priceDesc': 'விலை: அதிகம் முதல் குறைவு',
+  'products.sort.rating': 'அதிக மதிப்பீடு',
+  'products.clearFilters': 'வடிகட்டிகளை அழி',
+  'products.loadMore': 'மேலும் காட்டு',
+  'products.status.active': 'செயலில்',
+  'products.status.inactive': 'செயலற்றது',
+  'products.perUnit': 'ஒரு {unit}க்கு ₹{price}',
+  'products.unavailable': 'இந்தப் பொருள் கிடைக்கவில்லை.',
+  'products.linkCopied': 'இணைப்பு நகலெடுக்கப்பட்டது!',
+  'products.share': '🔗 பகிர்',
+  'products.reviewCount_one': '({count} மதிப்புரை)',
+  'products.reviewCount_other': '({count} மதிப்புரைகள்)',
+  'products.perUnitStock': 'ஒரு {unit}க்கு · இருப்பு: {stock}',
+  'products.india': 'இந்தியா',
+  'products.moreFrom': '{name} வழங்கும் மேலும் பொருட்கள்',
+  'products.moreFromFarmer': 'இந்த விவசாயியின் மேலும் பொருட்கள்',
+  'products.moreIn': '{category} வகையில் மேலும்',
+  'products.minPrice': 'குறைந்தபட்சம் ₹',
+  'products.maxPrice': 'அதிகபட்சம் ₹',
+  'products.noResults': 'உங்கள் நிபந்தனைகளுக்குப் பொருந்தும் பொருட்கள் இல்லை.',
+  'products.per': 'ஒரு {unit}க்கு',
+  'products.stockCount': 'இருப்பு: {count}',
+  'orders.title': 'ஆர்டர்கள்',
+  'orders.status': 'நிலை',
+  'orders.total': 'மொத்தம்',
+  'orders.manage': 'ஆர்டர்களை நிர்வகி',
+  'orders.allStatuses': 'அனைத்து நிலைகள்',
+  'orders.from': 'முதல்',
+  'orders.to': 'வரை',
+  'orders.items': 'பொருட்கள்',
+  'orders.history': 'நிலை வரலாறு',
+  'orders.payment': 'கட்டணம்',
+  'orders.cancel': 'ஆர்டரை ரத்து செய்',
+  'orders.messageFarmer': 'இந்த ஆர்டர் பற்றி விவசாயிக்குச் செய்தி அனுப்பு',
+  'orders.none': 'இன்னும் ஆர்டர்கள் இல்லை.',
+  'orders.number': 'ஆர்டர் #{number}',
+  'orders.fromFarmer': 'விற்பவர்: {name}',
+  'orders.action.pending': 'நிலுவையில்',
+  'orders.action.confirmed': 'உறுதிசெய்',
+  'orders.action.shipped': 'அனுப்பப்பட்டதாகக் குறி',
+  'orders.action.delivered': 'வழங்கப்பட்டதாகக் குறி',
+  'orders.action.cancelled': 'ரத்து செய்',
+  'orders.farmersOnly': 'விவசாயி கணக்குகள் மட்டுமே ஆர்டர்களை நிர்வகிக்க முடியும்.',
+  'orders.noMatches': 'இந்த வடிகட்டிகளுக்குப் பொருந்தும் ஆர்டர்கள் இல்லை.',
+  'orders.confirmCancel': 'இந்த ஆர்டரை ரத்து செய்யவா? அதன் இருப்பு மீண்டும் கிடைக்கும்.',
+  'orders.step.pending': 'ஆர்டர் செய்யப்பட்டது',
+  'orders.step.confirmed': 'விவசாயி உறுதிசெய்தார்',
+  'orders.step.shipped': 'அனுப்பப்பட்டது',
+  'orders.step.delivered': 'வழங்கப்பட்டது',
+  'orders.step.cancelled': 'ரத்து செய்யப்பட்டது',
+  'orders.confirmBuyerCancel': 'இந்த ஆர்டரை ரத்து செய்யவா?',
+  'orders.notFound': 'இந்த ஆர்டர் கிடைக்கவில்லை.',
+  'orders.refundProcessing': 'உங்கள் பணம் திருப்பியளிப்பு செயல்பாட்டில் உள்ளது.',
+  'resources.title': 'கல்வி வளங்கள்',
+  'resources.subtitle': 'மதிப்புக் கூட்டல், சந்தைப்படுத்தல் உத்திகள் மற்றும் தொழில்முனைவு பற்றி அறியுங்கள்',
+  'resources.categories': 'வகைகள்',
+  'resources.all': 'அனைத்தும்',
+  'resources.none': 'இந்த வகையில் வளங்கள் எதுவும் இல்லை.',
+  'resources.views_one': '{count} பார்வை',
+  'resources.views_other': '{count} பார்வைகள்',
+  'resources.showLess': 'குறைவாகக் காட்டு',
+  'resources.readMore': 'மேலும் படிக்க →',
+  'resources.saved': 'சேமிக்கப்பட்டது',
+  'resources.savedFilter': 'சேமித்தவை ({count})',
+  'resources.save': 'பின்னர் படிக்கச் சேமிக்கவும்',
+  'resources.unsave': 'சேமித்தவற்றிலிருந்து நீக்கவும்',
+  'resources.noneSaved': 'நீங்கள் இன்னும் எந்த வழிகாட்டியையும் சேமிக்கவில்லை. இங்கே வைத்திருக்க வழிகாட்டியில் 🔖 ஐத் தட்டவும்.',
+  'resources.completed': 'முடிந்தது',
+  'resources.markComplete': 'முடிந்ததாகக் குறிக்கவும்',
+  'resources.markIncomplete': 'முடிக்கவில்லை எனக் குறிக்கவும்',
+  'resources.progress': '{total} வழிகாட்டிகளில் {completed} ஐ முடித்துள்ளீர்கள்',
+  'resources.searchHint': 'வழிகாட்டிகளைத் தேடுங்கள், எ.கா. பேக்கேஜிங், சேமிப்பு, அச்சார்',
+  'resources.readIn': 'படிக்கும் மொழி',
+  'resources.tags': 'குறிச்சொற்கள்',
+  'resources.removeTag': '#{tag} வடிப்பானை நீக்கு',
+  'resources.clearFilters': 'வடிப்பான்களை அழி',
+  'resources.noMatches': 'உங்கள் தேடலுக்குப் பொருந்தும் வழிகாட்டிகள் இல்லை.',
+  'resources.share': '🔗 இந்தப் பட்டியலைப் பகிருங்கள்',
+  'resources.linkCopied': 'இணைப்பு நகலெடுக்கப்பட்டது!',
+  'cart.title': 'உங்கள் கூடை',
+  'cart.empty': 'உங்கள் கூடை காலியாக உள்ளது.',
+  'cart.subtotal': 'கூட்டுத்தொகை',
+  'cart.remove': 'அகற்று',
+  'cart.clear': 'கூடையைக் காலியாக்கு',
+  'cart.checkout': 'செக்அவுட் செய்',
+  'cart.add': 'கூடையில் சேர்',
+  'cart.addMore': 'கூடையில் சேர் (கூடையில் {count})',
+  'cart.itemCount_one': '{count} பொருள்',
+  'cart.itemCount_other': '{count} பொருட்கள்',
+  'checkout.title': 'செக்அவுட்',
+  'checkout.address': 'டெலிவரி முகவரி',
+  'checkout.notes': 'விவசாயிகளுக்கான குறிப்புகள்',
+  'checkout.summary': 'ஆர்டர் சுருக்கம்',
+  'checkout.place': 'ஆர்டர் செய்',
+  'checkout.confirmed': 'ஆர்டர்கள் வெற்றிகரமாகச் செய்யப்பட்டன',
+  'checkout.invalidPincode': 'சரியான 6 இலக்க பின் குறியீட்டை உள்ளிடவும்',
+  'checkout.insufficientStock': 'சில பொருட்களுக்குப் போதுமான இருப்பு இல்லை. கிடைப்பதற்கு ஏற்ப உங்கள் கூடை புதுப்பிக்கப்பட்டது.',
+  'checkout.buyersOnly': 'வாங்குபவர் கணக்குகள் மட்டுமே ஆர்டர் செய்ய முடியும்.',
+  'checkout.oversoldLine': '{name}: {requested} கேட்கப்பட்டது, {available} மட்டுமே உள்ளது',
+  'checkout.addressLine': 'முகவரி',
+  'checkout.addressPlaceholder': 'வீடு / தெரு / கிராமம்',
+  'checkout.pincode': 'பின் குறியீடு',
+  'checkout.splitNotice_one': 'உங்கள் கூடை {count} ஆர்டராகச் செய்யப்படும்.',
+  'checkout.splitNotice_other': 'உங்கள் கூடை {count} தனித்தனி ஆர்டர்களாகச் செய்யப்படும், ஒவ்வொரு விவசாயிக்கும் ஒன்று.',
+  'checkout.sent_one': '{count} ஆர்டர் விவசாயிகளுக்கு அனுப்பப்பட்டது.',
+  'checkout.sent_other': '{count} ஆர்டர்கள் விவசாயிகளுக்கு அனுப்பப்பட்டன.',
+  'checkout.shipSeparately': 'ஒவ்வொரு விவசாயியும் உங்கள் வாங்குதலில் தங்கள் பங்கைத் தனியாக உறுதிசெய்து அனுப்புவார்.',
+  'checkout.keepCash': 'டெலிவரியின்போது பணம் செலுத்தும் ஆர்டர்களுக்குப் பணத்தைத் தயாராக வைத்திருங்கள்.',
+  'checkout.completePayment_one': 'உங்கள் பொருட்கள் ஒதுக்கப்பட்டுள்ளன. ஆர்டரை விவசாயிகளுக்கு அனுப்ப ஆன்லைன் கட்டணத்தை முடிக்கவும்.',
+  'checkout.completePayment_other': 'உங்கள் பொருட்கள் ஒதுக்கப்பட்டுள்ளன. ஆர்டர்களை விவசாயிகளுக்கு அனுப்ப ஆன்லைன் கட்டணத்தை முடிக்கவும்.',
+  'payment.title': 'கட்டணம்',
+  'payment.card': 'அட்டை',
+  'payment.pay': 'இப்போது செலுத்து',
+  'payment.pending': 'கட்டணம் நிலுவையில்',
+  'payment.online': 'ஆன்லைனில் செலுத்து',
+  'payment.cod': 'டெலிவரியின்போது பணம்',
+  'payment.collected': 'வசூலானது',
+  'payment.outstanding': 'நிலுவை',
+  'payment.markPaid': 'பணம் பெறப்பட்டதாகக் குறி',
+  'payment.options': 'கட்டண விருப்பங்கள்',
+  'payment.keepOne': 'குறைந்தது ஒரு கட்டண விருப்பத்தையாவது இயக்கத்தில் வைத்திருங்கள்.',
+  'payment.optionsHint': 'வாங்குபவர்கள் உங்கள் ஆர்டர்களுக்கு எப்படிச் செலுத்தலாம் என்பதைத் தேர்ந்தெடுக்கவும்.',
+  'payment.invalidUpi': 'சரியான UPI ஐடியை உள்ளிடவும், எ.கா. name@bank',
+  'payment.invalidCard': 'சரியான 16 இலக்க அட்டை எண்ணை உள்ளிடவும்',
+  'payment.declined': 'கட்டணம் நிராகரிக்கப்பட்டது. மீண்டும் முயற்சிக்கவும் அல்லது வேறு முறையைப் பயன்படுத்தவும்.',
+  'payment.processing': 'கட்டணம் இன்னும் செயல்பாட்டில் உள்ளது. சில நிமிடங்களில் உங்கள் ஆர்டர் பக்கத்தைப் பாருங்கள்.',
+  'messages.conversations': 'உரையாடல்கள்',
+  'messages.select': 'படிக்கவும் பதிலளிக்கவும் ஒரு உரையாடலைத் தேர்ந்தெடுக்கவும்.',
+  'messages.placeholder': 'செய்தியைத் தட்டச்சு செய்யவும்...',
+  'messages.send': 'அனுப்பு',
+  'messages.allConversations': 'அனைத்து உரையாடல்கள்',
+  'messages.askFarmer': 'விவசாயியிடம் கேளுங்கள்',
+  'messages.contactBuyer': 'வாங்குபவரைத் தொடர்புகொள்',
+  'messages.unread_one': '{count} படிக்காத செய்தி',
+  'messages.unread_other': '{count} படிக்காத செய்திகள்',
+  'messages.voiceNote': '🎤 குரல் குறிப்பு',
+  'messages.photo': '📷 புகைப்படம்',
+  'messages.unknownUser': 'பயனர்',
+  'messages.youHaveUnread_one': 'உங்களுக்கு {count} படிக்காத செய்தி உள்ளது',
+  'messages.youHaveUnread_other': 'உங்களுக்கு {count} படிக்காத செய்திகள் உள்ளன',
+  'messages.none': 'இன்னும் உரையாடல்கள் இல்லை.',
+  'messages.you': 'நீங்கள்: ',
+  'messages.imageOnly': 'ஒரு படக் கோப்பைத் தேர்ந்தெடுக்கவும்',
+  'messages.sendPhoto': 'புகைப்படம் அனுப்பு',
+  'messages.sayHello': 'உரையாடலைத் தொடங்க வணக்கம் சொல்லுங்கள்.',
+  'messages.seen': 'பார்க்கப்பட்டது',
+  'messages.photoAlt': 'புகைப்படம்',
+  'dashboard.welcome': 'உங்கள் டாஷ்போர்டுக்கு வரவேற்கிறோம்',
+  'dashboard.loading': 'டாஷ்போர்டு ஏற்றுகிறது...',
+  'errors.unexpected': 'எதிர்பாராத பிழை ஏற்பட்டது',
+  'home.intro': 'மதிப்புக் கூட்டப்பட்ட வேளாண் பொருட்களைத் தயாரிக்கும் விவசாயிகளுடன் நேரடியாக இணையுங்கள். கிராமப்புறத் தொழில்முனைவை ஆதரித்து, புதிய, தரமான பொருட்களை உங்கள் வீட்டிற்கே பெறுங்கள்.',
+  'home.getStarted': 'தொடங்குங்கள்',
+  'home.browse': 'பொருட்களைப் பாருங்கள்',
+  'home.howItWorks': 'ஃபார்ம்கனெக்ட் எப்படிச் செயல்படுகிறது',
+  'home.farmers.title': 'விவசாயிகளுக்கு',
+  'home.farmers.body': 'உங்கள் மதிப்புக் கூட்டப்பட்ட பொருட்களைப் பட்டியலிடுங்கள், இருப்பை நிர்வகியுங்கள், இந்தியா முழுவதும் வாடிக்கையாளர்களைச் சென்றடையுங்கள். உங்கள் தொழிலை வளர்க்கக் கல்வி வளங்களைப் பயன்படுத்துங்கள்.',
+  'home.buyers.title': 'வாங்குபவர்களுக்கு',
+  'home.buyers.body': 'விவசாயிகளிடமிருந்து நேரடியாகத் தரமான வேளாண் பொருட்களைக் கண்டறியுங்கள். இயற்கை, பாரம்பரிய முறைகளின்படி வடிகட்டி, உள்ளூர் சமூகங்களை ஆதரியுங்கள்.',
+  'home.impact.title': 'தாக்கத்தைக் கண்காணியுங்கள்',
+  'home.impact.body': 'விற்பனைப் போக்குகள், வாடிக்கையாளர் ஈடுபாட்டைக் கண்காணித்து, கிராமப்புறத் தொழில்முனைவில் ஏற்படும் பொருளாதாரத் தாக்கத்தை அளவிடுங்கள்.',
+  'home.categories': 'பொருள் வகைகள்',
+  'home.category.processed': 'பதப்படுத்திய உணவுகள்',
+  'home.category.dairy': 'பால் பொருட்கள்',
+  'home.category.beverages': 'பானங்கள்',
+  'home.category.grains': 'தானியங்கள் & மாவு',
+  'home.category.crafts': 'கைவினைப் பொருட்கள்',
+  'home.category.organic': 'இயற்கை விளைபொருட்கள்',
+  'home.join.title': 'ஃபார்ம்கனெக்ட் சமூகத்தில் இணையுங்கள்',
+  'home.join.body': 'உங்கள் சந்தையை விரிவாக்க விரும்பும் விவசாயியாக இருந்தாலும், தரமான பொருட்களைத் தேடும் வாங்குபவராக இருந்தாலும், கிராமப்புறத் தொழில்முனைவுக்கான உங்கள் தளம் ஃபார்ம்கனெக்ட்.',
+  'home.signUpNow': 'இப்போதே பதிவு செய்யுங்கள்',
+  'admin.totalUsers': 'மொத்தப் பயனர்கள்',
+  'admin.totalFarmers': 'மொத்த விவசாயிகள்',
+  'admin.totalBuyers': 'மொத்த வாங்குபவர்கள்',
+  'admin.totalProducts': 'மொத்தப் பொருட்கள்',
+  'admin.totalOrders': 'மொத்த ஆர்டர்கள்',
+  'admin.totalRevenue': 'மொத்த வருவாய்',
+  'admin.analytics': 'தளப் பகுப்பாய்வு',
+  'admin.analyticsSummary': 'இந்தத் தளம் {farmers} விவசாயிகளை {buyers} வாங்குபவர்களுடன் இணைத்து, {products} மதிப்புக் கூட்டப்பட்ட பொருட்கள் மூலம் கிராமப்புறத் தொழில்முனைவை ஊக்குவிக்கிறது.',
+  'admin.impact': 'தாக்க அளவீடு',
+  'admin.engagement': 'விவசாயி ஈடுபாட்டு விகிதம்',
+  'admin.productsPerFarmer': 'பொருட்கள்/விவசாயி',
+  'admin.averageOrder': 'சராசரி ஆர்டர் மதிப்பு',
+  'admin.growth': 'தள வளர்ச்சி',
+  'admin.registeredUsers': 'பதிவுசெய்த பயனர்கள்',
+  'admin.failedRefunds': 'கவனம் தேவைப்படும் பணத்திருப்பங்கள்',
+  'admin.failedRefundsHint': 'கட்டண நுழைவாயில் இந்தப் பணத்திருப்பங்களைத் தொடர்ந்து நிராகரித்தது. வாங்குபவருக்கு நேரடியாகப் பணம் திருப்பி, நுழைவாயிலின் டாஷ்போர்டைச் சரிபார்க்கவும்.',
+  'admin.refundAttempts_one': '{count} முயற்சி, கடைசியாக {date}',
+  'admin.refundAttempts_other': '{count} முயற்சிகள், கடைசியாக {date}',
+  'farmer.activeProducts': 'செயலில் உள்ள பொருட்கள்',
+  'farmer.totalOrders': 'மொத்த ஆர்டர்கள்',
+  'farmer.lowStock.title': 'குறைந்த இருப்பு எச்சரிக்கை',
+  'farmer.lowStock.body': 'இந்தப் பொருட்களின் இருப்பு குறைந்து வருகிறது:',
+  'farmer.lowStock.available_one': '{name} - {count} அலகு உள்ளது',
+  'farmer.lowStock.available_other': '{name} - {count} அலகுகள் உள்ளன',
+  'farmer.lowStock.reserved': ' (திறந்த ஆர்டர்களில் மேலும் {count} ஒதுக்கப்பட்டுள்ளது)',
+  'farmer.yourProducts': 'உங்கள் பொருட்கள்',
+  'farmer.noProducts': 'இன்னும் பொருட்கள் இல்லை. உங்கள் முதல் பொருளைச் சேர்த்துத் தொடங்குங்கள்!',
+  'farmer.product': 'பொருள்',
+  'farmer.recentOrders': 'சமீபத்திய ஆர்டர்கள்',
+  'status.pending': 'நிலுவையில்',
+  'status.confirmed': 'உறுதிசெய்யப்பட்டது',
+  'status.shipped': 'அனுப்பப்பட்டது',
+  'status.delivered': 'வழங்கப்பட்டது',
+  'status.cancelled': 'ரத்து செய்யப்பட்டது',
+  'buyer.totalOrders': 'மொத்த ஆர்டர்கள்',
+  'buyer.pendingOrders': 'நிலுவையிலுள்ள ஆர்டர்கள்',
+  'buyer.totalSpent': 'மொத்தச் செலவு',
+  'buyer.stillToPay': '₹{amount} இன்னும் செலுத்த வேண்டும்',
+  'buyer.explore.title': 'பொருட்களை ஆராயுங்கள்',
+  'buyer.explore.body': 'இந்தியா முழுவதும் உள்ள விவசாயிகளின் மதிப்புக் கூட்டப்பட்ட பொருட்களைப் பாருங்கள்',
+  'buyer.stories.title': 'வெற்றிக் கதைகள்',
+  'buyer.stories.body': 'விவசாயத் தொழில்முனைவோர் மற்றும் அவர்களின் பயணங்களைப் பற்றிப் படியுங்கள்',
+  'buyer.yourOrders': 'உங்கள் ஆர்டர்கள்',
+  'buyer.noOrders': 'நீங்கள் இன்னும் எந்த ஆர்டரும் செய்யவில்லை.',
+  'buyer.startShopping': 'வாங்கத் தொடங்குங்கள்',
+  'buyer.support.title': 'உள்ளூர் சமூகங்களை ஆதரியுங்கள்',
+  'buyer.support.body': 'நீங்கள் செய்யும் ஒவ்வொரு வாங்குதலும் விவசாயத் தொழில்முனைவோரையும் அவர்களின் குடும்பங்களையும் நேரடியாக ஆதரித்து, இந்தியா முழுவதும் கிராமப்புறப் பொருளாதார வளர்ச்சிக்குப் பங்களிக்கிறது.',
+  'reviews.edit': 'மதிப்புரையைத் திருத்து',
+  'reviews.write': 'மதிப்புரை எழுது',
+  'reviews.ratingRequired': '1 முதல் 5 நட்சத்திரங்களுக்குள் மதிப்பீட்டைத் தேர்ந்தெடுக்கவும்',
+  'reviews.rating': 'மதிப்பீடு',
+  'reviews.placeholder': 'இந்தப் பொருள் உங்களுக்கு எப்படி இருந்தது?',
+  'reviews.none': 'இன்னும் மதிப்புரைகள் இல்லை.',
+  'reviews.outOfFive': '5க்கு {rating}',
+  'reviews.title': 'மதிப்புரைகள்',
+  'reviews.verified': '✓ சரிபார்க்கப்பட்ட வாங்குதல்',
+  'reviews.newer': '← புதியவை',
+  'reviews.older': 'பழையவை →',
+  'reviews.page': 'பக்கம் {page} / {pages}',
+  'reviews.farmerReply': 'விவசாயியின் பதில்',
+  'reviews.editReply': 'பதிலைத் திருத்து',
+  'reviews.reply': 'பதிலளி',
+  'photos.limit': 'ஒரு பொருளுக்கு அதிகபட்சம் {count} புகைப்படங்களைச் சேர்க்கலாம்',
+  'photos.uploadFailed': 'படத்தைப் பதிவேற்ற முடியவில்லை',
+  'photos.alt': 'பொருள் புகைப்படம் {number}',
+  'photos.cover': 'முகப்புப் படம்',
+  'photos.setCover': 'முகப்பாக அமை',
+  'photos.uploading': 'பதிவேற்றுகிறது...',
+  'photos.add': '+ புகைப்படங்களைச் சேர்',
+  'voice.unsupported': 'இந்த உலாவியில் குரல் குறிப்புகள் ஆதரிக்கப்படவில்லை',
+  'voice.noMicrophone': 'மைக்ரோஃபோனை அணுக முடியவில்லை',
+  'voice.record': 'குரல் குறிப்பைப் பதிவுசெய்',
+  'paymentStatus.pending': 'நிலுவையில்',
+  'paymentStatus.completed': 'செலுத்தப்பட்டது',
+  'paymentStatus.failed': 'தோல்வி',
+  'paymentStatus.refunded': 'திருப்பியளிக்கப்பட்டது',
+  'productForm.nameRequired': 'பொருளின் பெயர் தேவை',
+  'productForm.descriptionRequired': 'விளக்கம் தேவை',
+  'productForm.unitRequired': 'அலகு தேவை',
+  'productForm.priceInvalid': 'விலை 0 அல்லது அதற்கு மேற்பட்ட எண்ணாக இருக்க வேண்டும்',
+  'productForm.priceTooLarge': 'விலை மிக அதிகம்',
+  'productForm.priceDecimals': 'விலையில் அதிகபட்சம் 2 தசம இடங்கள் இருக்கலாம்',
+  'productForm.stockInvalid': 'இருப்பு 0 அல்லது அதற்கு மேற்பட்ட முழு எண்ணாக இருக்க வேண்டும்',
+  'productForm.lowStockInvalid': 'குறைந்த இருப்பு வரம்பு 0 அல்லது அதற்கு மேற்பட்ட முழு எண்ணாக இருக்க வேண்டும்',
+  'productForm.shelfLifeInvalid': 'சேமிப்புக் காலம் நாட்களில் முழு எண்ணாக இருக்க வேண்டும்',
+  'productForm.notFound': 'பொருள் கிடைக்கவில்லை',
+  'productForm.farmersOnly': 'விவசாயி கணக்குகள் மட்டுமே பொருட்களைப் பட்டியலிட முடியும்.',
+  'productForm.selectCategory': 'வகையைத் தேர்ந்தெடுக்கவும்',
+  'productForm.processingPlaceholder': 'எ.கா. வெயிலில் உலர்த்தியது, குளிர் அழுத்தியது',
+  'productForm.tagsPlaceholder': 'ஊறுகாய், மாம்பழம், வீட்டில் செய்தது',
+  'productForm.tagsHint': 'குறிச்சொற்களைக் காற்புள்ளியால் பிரிக்கவும்',
+  'productForm.stockChanged': 'நீங்கள் திருத்தும்போது இருப்பு {count} ஆக மாறியது, புதிய ஆர்டர்களால் இருக்கலாம். இருப்பைச் சரிபார்த்து மீண்டும் சேமிக்கவும்.',
+  'translations.title': 'பிற மொழிகள்',
+  'translations.hint': 'ஆங்கிலமே மூல உரை. தங்கள் மொழியில் பதிப்பு இல்லாத வாசகர்களுக்கு ஆங்கில உரை காட்டப்படும்.',
+  'translations.none': 'இன்னும் பிற மொழிப் பதிப்புகள் இல்லை.',
+  'translations.add': '+ மொழியைச் சேர்',
+  'translations.required': 'இந்த மொழிக்கான எல்லாப் புலங்களையும் நிரப்பவும்',
+  'translations.confirmRemove': '{language} பதிப்பை நீக்கவா?',
+  'translations.saveFirst': 'முதலில் பொருளைச் சேமித்து, பிறகு இங்கே பிற மொழிப் பதிப்புகளைச் சேர்க்கவும்.',
+  'translations.contentTitle': 'உள்ளடக்க மொழிபெயர்ப்புகள்',
+  'translations.contentHint': 'வகைப் பெயர்களையும் கற்றல் வளங்களையும் மேலும் மொழிகளில் சேர்க்கவும்.',
+  'translations.manage': 'மொழிபெயர்ப்புகளை நிர்வகி',
+  'translations.adminsOnly': 'நிர்வாகிகள் மட்டுமே உள்ளடக்க மொழிபெயர்ப்புகளை நிர்வகிக்க முடியும்.',
+  'translations.categories': 'பொருள் வகைகள்',
+  'translations.resources': 'கற்றல் வளங்கள்',
+  'translations.selectItem': 'மொழிப் பதிப்புகளைப் பார்க்கவும் திருத்தவும் ஒரு உருப்படியைத் தேர்ந்தெடுக்கவும்.',
+  'translations.name': 'பெயர்',
+  'translations.resourceTitle': 'தலைப்பு',
+  'translations.resourceContent': 'உள்ளடக்கம்',
+  'adminUsers.title': 'பயனர்கள்',
+  'adminUsers.hint': 'பயனர்களைத் தேடவும், பங்குகளை மாற்றவும், கணக்குகளைச் செயலிழக்கச் செய்யவும்.',
+  'adminUsers.manage': 'பயனர்களை நிர்வகிக்கவும்',
+  'adminUsers.adminsOnly': 'நிர்வாகக் கணக்குகள் மட்டுமே பயனர்களை நிர்வகிக்க முடியும்.',
+  'adminUsers.searchHint': 'பெயர் அல்லது தொலைபேசி எண் மூலம் தேடவும்',
+  'adminUsers.role': 'பங்கு',
+  'adminUsers.allRoles': 'அனைத்து பங்குகளும்',
+  'adminUsers.status': 'கணக்கு',
+  'adminUsers.allStatuses': 'அனைத்து கணக்குகளும்',
+  'adminUsers.active': 'செயலில்',
+  'adminUsers.inactive': 'செயலிழந்தது',
+  'adminUsers.noMatches': 'இந்த வடிகட்டிகளுக்குப் பொருந்தும் பயனர்கள் இல்லை.',
+  'adminUsers.count_one': '{count} பயனர்',
+  'adminUsers.count_other': '{count} பயனர்கள்',
+  'adminUsers.showingOf': '{total} இல் {shown} பயனர்கள் காட்டப்படுகின்றனர். மீதமுள்ளவர்களைக் காண வடிகட்டிகளைக் குறைக்கவும்.',
+  'adminUsers.location': 'இடம்',
+  'adminUsers.joined': 'சேர்ந்த தேதி',
+  'adminUsers.joinedOn': '{date} அன்று சேர்ந்தார்',
+  'adminUsers.notFound': 'இந்தப் பயனரைக் கண்டுபிடிக்க முடியவில்லை.',
+  'adminUsers.selfNotice': 'உங்கள் சொந்தக் கணக்கின் பங்கு அல்லது நிலையை மாற்ற முடியாது.',
+  'adminUsers.changeRole': 'பங்கை மாற்றவும்',
+  'adminUsers.deactivate': 'கணக்கைச் செயலிழக்கச் செய்யவும்',
+  'adminUsers.reactivate': 'கணக்கை மீண்டும் செயல்படுத்தவும்',
+  'adminUsers.confirmDeactivate': '{name} ஐச் செயலிழக்கச் செய்யவா? அவர் வெளியேற்றப்படுவார், அவருடைய பொருட்கள் வாங்குபவர்களிடமிருந்து மறைக்கப்படும்.',
+  'adminUsers.confirmReactivate': '{name} ஐ மீண்டும் செயல்படுத்தவா? அவர் மீண்டும் உள்நுழைய முடியும்.',
+  'adminUsers.products': 'பொருட்கள்',
+  'adminUsers.orders': 'சமீபத்திய ஆர்டர்கள்',
+  'adminUsers.boughtFrom': '{name} இடமிருந்து வாங்கியது',
+  'adminUsers.soldTo': '{name} க்கு விற்றது',
+  'resourceAdmin.title': 'கற்றல் வளங்கள்',
+  'resourceAdmin.hint': 'விவசாயிகளுக்கான வழிகாட்டிகளை எழுதவும், திட்டமிடவும், வெளியிடவும்.',
+  'resourceAdmin.manage': 'வளங்களை நிர்வகிக்கவும்',
+  'resourceAdmin.new': 'புதிய வளம்',
+  'resourceAdmin.adminsOnly': 'நிர்வாகக் கணக்குகள் மட்டுமே கற்றல் வளங்களை நிர்வகிக்க முடியும்.',
+  'resourceAdmin.none': 'இங்கு இன்னும் வளங்கள் இல்லை.',
+  'resourceAdmin.updated': 'கடைசியாகப் புதுப்பிக்கப்பட்டது',
+  'resourceAdmin.confirmDelete': '"{title}" ஐ நீக்கவா? இதைத் திரும்பப் பெற முடியாது.',
+  'resourceForm.newTitle': 'புதிய வளம்',
+  'resourceForm.editTitle': 'வளத்தைத் திருத்தவும்',
+  'resourceForm.notFound': 'இந்த வளத்தைக் கண்டுபிடிக்க முடியவில்லை.',
+  'resourceForm.untitled': 'தலைப்பில்லா வளம்',
+  'resourceForm.category': 'வகை',
+  'resourceForm.markdownHint': 'வடிவமைப்பு: # தலைப்பு, **தடித்த**, *சாய்வு*, - பட்டியல், 1. எண் பட்டியல், > மேற்கோள், [இணைப்பு](https://...).',
+  'resourceForm.tagsHint': 'குறிச்சொல்லைச் சேர்க்க Enter அல்லது காற்புள்ளியை அழுத்தவும்.',
+  'resourceForm.removeTag': 'குறிச்சொல் {tag} ஐ நீக்கவும்',
+  'resourceForm.image': 'முதன்மைப் படம்',
+  'resourceForm.removeImage': 'படத்தை நீக்கவும்',
+  'resourceForm.uploading': 'பதிவேற்றப்படுகிறது...',
+  'resourceForm.visibility': 'தெரிவுநிலை',
+  'resourceForm.status.draft': 'வரைவு',
+  'resourceForm.status.published': 'வெளியிடப்பட்டது',
+  'resourceForm.status.scheduled': 'திட்டமிடப்பட்டது',
+  'resourceForm.preview': 'முன்னோட்டம்',
+  'resourceForm.otherLanguages': 'பிற மொழிகளுக்கான மொழிபெயர்ப்புகள் தனியாக நிர்வகிக்கப்படுகின்றன.',
+  'resourceForm.titleRequired': 'ஆங்கிலத் தலைப்பை உள்ளிடவும்.',
+  'resourceForm.contentRequired': 'ஆங்கில உள்ளடக்கத்தை உள்ளிடவும்.',
+  'resourceForm.categoryRequired': 'வகையைத் தேர்ந்தெடுக்கவும்.',
+  'resourceForm.hindiIncomplete': 'இந்தித் தலைப்பு, உள்ளடக்கம் இரண்டையும் நிரப்பவும், அல்லது இரண்டையும் காலியாக விடவும்.',
+  'resourceForm.scheduleRequired': 'வளம் எப்போது வெளியிடப்பட வேண்டும் என்பதைத் தேர்ந்தெடுக்கவும்.',
+  'resourceForm.scheduleInPast': 'திட்டமிட்ட நேரம் எதிர்காலத்தில் இருக்க வேண்டும்.',
+  'learning.title': 'தொடர்ந்து கற்றுக்கொள்ளுங்கள்',
+  'learning.browse': 'அனைத்து வழிகாட்டிகளும்',
+  'learning.empty': 'கற்றல் வளங்களில் ஒரு வழிகாட்டியைச் சேமிக்கவும் அல்லது திறக்கவும், அது இங்கே தோன்றும்.',
+  'learning.completedCount_one': '{count} வழிகாட்டி முடிந்தது',
+  'learning.completedCount_other': '{count} வழிகாட்டிகள் முடிந்தன',
+  'learning.lastViewed': '{date} அன்று திறந்தது',
+  'learning.inProgress': 'நடப்பில்',
+  'learning.notStarted': 'தொடங்கவில்லை',
+  'resourceAnalytics.title': 'வளப் பகுப்பாய்வு',
+  'resourceAnalytics.lastDays_one': 'கடந்த {count} நாள்',
+  'resourceAnalytics.lastDays_other': 'கடந்த {count} நாட்கள்',
+  'resourceAnalytics.views': 'பார்வைகள்',
+  'resourceAnalytics.readers': 'தனித்த வாசகர்கள்',
+  'resourceAnalytics.readersCount_one': '{count} வாசகர்',
+  'resourceAnalytics.readersCount_other': '{count} வாசகர்கள்',
+  'resourceAnalytics.bookmarks': 'சேமிப்புகள்',
+  'resourceAnalytics.completions': 'முடித்தவை',
+  'resourceAnalytics.languages': 'மொழிகள்',
+  'resourceAnalytics.allResources': 'அனைத்து வளங்களும்',
+  'resourceAnalytics.showAll': 'அனைத்து வளங்களையும் காட்டு',
+  'resourceAnalytics.dailyViews': 'நாள்தோறும் பார்வைகள்',
+  'offline.banner': 'நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். சேமித்த தரவைப் பார்க்கிறீர்கள்; மீண்டும் இணைந்ததும் உங்கள் மாற்றங்கள் அனுப்பப்படும்.',
+  'offline.pending_one': '{count} மாற்றம் அனுப்பக் காத்திருக்கிறது.',
+  'offline.pending_other': '{count} மாற்றங்கள் அனுப்பக் காத்திருக்கின்றன.',
+  'offline.syncing': 'ஆஃப்லைனில் செய்த மாற்றங்கள் அனுப்பப்படுகின்றன...',
+  'offline.conflicts': 'ஆஃப்லைனில் செய்த சில மாற்றங்களுக்கு உங்கள் கவனம் தேவை',
+  'offline.stockConflict': '{name}: நீங்கள் இருப்பை {mine} ஆக அமைத்தீர்கள், ஆனால் இடையில் அது {current} ஆக மாறியுள்ளது.',
+  'offline.stockFailed': '{name} இருப்பைச் சேமிக்க முடியவில்லை: {reason}',
+  'offline.messageFailed': '{name} க்குச் செய்தியை அனுப்ப முடியவில்லை: {reason}',
+  'offline.productMissing': 'பொருள் இப்போது இல்லை',
+  'offline.keepMine': '{stock} பயன்படுத்து',
+  'offline.keepServer': '{stock} ஆகவே வை',
+  'offline.retry': 'மீண்டும் முயற்சி செய்',
+  'offline.discard': 'கைவிடு',
+  'offline.queued': 'இணைப்புக்காகக் காத்திருக்கிறது',
+  'offline.notSent': 'அனுப்பப்படவில்லை',
+  'offline.attachmentsNeedNetwork': 'புகைப்படங்களுக்கும் குரல் குறிப்புகளுக்கும் இணைப்பு தேவை. உரைச் செய்திகள் சேமிக்கப்பட்டு மீண்டும் இணைந்ததும் அனுப்பப்படும்.',
+};
+
+export default ta;
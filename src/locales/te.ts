@@ -0,0 +1,442 @@
+const te: Record<string, string> = {
+  'app.name': 'ఫార్మ్‌కనెక్ట్',
+  'app.tagline': 'భారతీయ రైతులకు సాధికారత',
+  'nav.home': 'హోమ్',
+  'nav.products': 'ఉత్పత్తులు',
+  'nav.resources': 'వనరులు',
+  'nav.dashboard': 'డాష్‌బోర్డ్',
+  'nav.messages': 'సందేశాలు',
+  'nav.cart': 'బుట్ట',
+  'nav.language': 'భాష',
+  'auth.signin': 'సైన్ ఇన్',
+  'auth.signup': 'సైన్ అప్',
+  'auth.signout': 'సైన్ అవుట్',
+  'auth.email': 'ఈమెయిల్',
+  'auth.password': 'పాస్‌వర్డ్',
+  'auth.fullname': 'పూర్తి పేరు',
+  'auth.phone': 'ఫోన్ నంబర్',
+  'auth.role': 'నేను ఒక',
+  'auth.role.farmer': 'రైతు',
+  'auth.role.buyer': 'కొనుగోలుదారు',
+  'auth.state': 'రాష్ట్రం',
+  'auth.district': 'జిల్లా',
+  'auth.language': 'భాష',
+  'auth.selectState': 'రాష్ట్రాన్ని ఎంచుకోండి',
+  'auth.haveAccount': 'ఇప్పటికే ఖాతా ఉందా?',
+  'auth.noAccount': 'ఖాతా లేదా?',
+  'auth.role.admin': 'నిర్వాహకుడు',
+  'auth.deactivated': 'ఈ ఖాతా నిష్క్రియం చేయబడింది. దయచేసి సహాయ బృందాన్ని సంప్రదించండి.',
+  'role.admin': 'నిర్వాహకుడు',
+  'role.farmer': 'రైతు',
+  'role.buyer': 'కొనుగోలుదారు',
+  'welcome': 'స్వాగతం',
+  'loading': 'లోడ్ అవుతోంది...',
+  'save': 'సేవ్ చేయండి',
+  'cancel': 'రద్దు చేయండి',
+  'delete': 'తొలగించండి',
+  'edit': 'సవరించండి',
+  'view': 'చూడండి',
+  'search': 'వెతకండి',
+  'filter': 'ఫిల్టర్',
+  'products.title': 'ఉత్పత్తులు',
+  'products.add': 'ఉత్పత్తిని జోడించండి',
+  'products.name': 'ఉత్పత్తి పేరు',
+  'products.price': 'ధర',
+  'products.stock': 'నిల్వ',
+  'products.organic': 'సేంద్రీయ',
+  'products.traditional': 'సాంప్రదాయ',
+  'products.edit': 'ఉత్పత్తిని సవరించండి',
+  'products.description': 'వివరణ',
+  'products.category': 'వర్గం',
+  'products.unit': 'యూనిట్',
+  'products.lowStock': 'తక్కువ నిల్వ పరిమితి',
+  'products.processing': 'ప్రాసెసింగ్ విధానం',
+  'products.shelfLife': 'నిల్వ కాలం (రోజులు)',
+  'products.tags': 'ట్యాగ్‌లు',
+  'products.active': 'కొనుగోలుదారులకు కనిపిస్తుంది',
+  'products.photos': 'ఫోటోలు',
+  'products.searchHint': 'ఇంగ్లీష్ లేదా హిందీలో వెతకండి, ఉదా. pickle, achaar, अचार',
+  'products.allCategories': 'అన్ని వర్గాలు',
+  'products.allStates': 'అన్ని రాష్ట్రాలు',
+  'products.sort.relevance': 'ఉత్తమ సరిపోలిక',
+  'products.sort.newest': 'కొత్తవి',
+  'products.sort.priceAsc': 'ధర: తక్కువ నుండి ఎక్కువ',
+  'products.sort.priceDesc': 'ధర: ఎక్కువ నుండి తక్కువ',
+  'products.sort.rating': 'అత్యధిక రేటింగ్',
+  'products.clearFilters': 'ఫిల్టర్‌లు తొలగించండి',
+  'products.loadMore': 'మరిన్ని చూపించు',
+  'products.status.active': 'సక్రియం',
+  'products.status.inactive': 'నిష్క్రియం',
+  'products.perUnit': '{unit}కు ₹{price}',
+  'products.unavailable': 'ఈ ఉత్పత్తి అందుబాటులో లేదు.',
+  'products.linkCopied': 'లింక్ కాపీ అయింది!',
+  'products.share': '🔗 షేర్ చేయండి',
+  'products.reviewCount_one': '({count} సమీక్ష)',
+  'products.reviewCount_other': '({count} సమీక్షలు)',
+  'products.perUnitStock': '{unit}కు · నిల్వ: {stock}',
+  'products.india': 'భారతదేశం',
+  'products.moreFrom': '{name} నుండి మరిన్ని',
+  'products.moreFromFarmer': 'ఈ రైతు నుండి మరిన్ని',
+  'products.moreIn': '{category}లో మరిన్ని',
+  'products.minPrice': 'కనిష్ఠ ₹',
+  'products.maxPrice': 'గరిష్ఠ ₹',
+  'products.noResults': 'మీ ప్రమాణాలకు సరిపోయే ఉత్పత్తులు ఏవీ లేవు.',
+  'products.per': '{unit}కు',
+  'products.stockCount': 'నిల్వ: {count}',
+  'orders.title': 'ఆర్డర్లు',
+  'orders.status': 'స్థితి',
+  'orders.total': 'మొత్తం',
+  'orders.manage': 'ఆర్డర్లను నిర్వహించండి',
+  'orders.allStatuses': 'అన్ని స్థితులు',
+  'orders.from': 'నుండి',
+  'orders.to': 'వరకు',
+  'orders.items': 'వస్తువులు',
+  'orders.history': 'స్థితి చరిత్ర',
+  'orders.payment': 'చెల్లింపు',
+  'orders.cancel': 'ఆర్డర్ రద్దు చేయండి',
+  'orders.messageFarmer': 'ఈ ఆర్డర్ గురించి రైతుకు సందేశం పంపండి',
+  'orders.none': 'ఇంకా ఆర్డర్లు లేవు.',
+  'orders.number': 'ఆర్డర్ #{number}',
+  'orders.fromFarmer': 'విక్రేత: {name}',
+  'orders.action.pending': 'పెండింగ్',
+  'orders.action.confirmed': 'నిర్ధారించండి',
+  'orders.action.shipped': 'పంపినట్లు గుర్తించండి',
+  'orders.action.delivered': 'అందజేసినట్లు గుర్తించండి',
+  'orders.action.cancelled': 'రద్దు చేయండి',
+  'orders.farmersOnly': 'రైతు ఖాతాలు మాత్రమే ఆర్డర్లను నిర్వహించగలవు.',
+  'orders.noMatches': 'ఈ ఫిల్టర్‌లకు సరిపోయే ఆర్డర్లు లేవు.',
+  'orders.confirmCancel': 'ఈ ఆర్డర్‌ను రద్దు చేయాలా? దాని నిల్వ తిరిగి అందుబాటులోకి వస్తుంది.',
+  'orders.step.pending': 'ఆర్డర్ చేయబడింది',
+  'orders.step.confirmed': 'రైతు నిర్ధారించారు',
+  'orders.step.shipped': 'పంపబడింది',
+  'orders.step.delivered': 'అందజేయబడింది',
+  'orders.step.cancelled': 'రద్దు చేయబడింది',
+  'orders.confirmBuyerCancel': 'ఈ ఆర్డర్‌ను రద్దు చేయాలా?',
+  'orders.notFound': 'ఈ ఆర్డర్ కనుగొనబడలేదు.',
+  'orders.refundProcessing': 'మీ రీఫండ్ ప్రాసెస్ అవుతోంది.',
+  'resources.title': 'విద్యా వనరులు',
+  'resources.subtitle': 'విలువ జోడింపు, మార్కెటింగ్ వ్యూహాలు మరియు వ్యవస్థాపకత గురించి తెలుసుకోండి',
+  'resources.categories': 'వర్గాలు',
+  'resources.all': 'అన్నీ',
+  'resources.none': 'ఈ వర్గంలో వనరులు ఏవీ లేవు.',
+  'resources.views_one': '{count} వీక్షణ',
+  'resources.views_other': '{count} వీక్షణలు',
+  'resources.showLess': 'తక్కువ చూపించు',
+  'resources.readMore': 'మరింత చదవండి →',
+  'resources.saved': 'సేవ్ చేయబడింది',
+  'resources.savedFilter': 'సేవ్ చేసినవి ({count})',
+  'resources.save': 'తర్వాత కోసం సేవ్ చేయండి',
+  'resources.unsave': 'సేవ్ చేసినవాటి నుండి తొలగించండి',
+  'resources.noneSaved': 'మీరు ఇంకా ఏ మార్గదర్శకాన్నీ సేవ్ చేయలేదు. ఇక్కడ ఉంచడానికి మార్గదర్శకంపై 🔖 నొక్కండి.',
+  'resources.completed': 'పూర్తయింది',
+  'resources.markComplete': 'పూర్తయినట్లు గుర్తించండి',
+  'resources.markIncomplete': 'పూర్తి కాలేదని గుర్తించండి',
+  'resources.progress': 'మీరు {total}లో {completed} మార్గదర్శకాలను పూర్తి చేశారు',
+  'resources.searchHint': 'గైడ్‌లను వెతకండి, ఉదా. ప్యాకేజింగ్, నిల్వ, అచార్',
+  'resources.readIn': 'చదివే భాష',
+  'resources.tags': 'ట్యాగ్‌లు',
+  'resources.removeTag': '#{tag} ఫిల్టర్‌ను తీసివేయండి',
+  'resources.clearFilters': 'ఫిల్టర్‌లను తొలగించండి',
+  'resources.noMatches': 'మీ శోధనకు సరిపోయే గైడ్‌లు లేవు.',
+  'resources.share': '🔗 ఈ జాబితాను పంచుకోండి',
+  'resources.linkCopied': 'లింక్ కాపీ అయింది!',
+  'cart.title': 'మీ బుట్ట',
+  'cart.empty': 'మీ బుట్ట ఖాళీగా ఉంది.',
+  'cart.subtotal': 'ఉప మొత్తం',
+  'cart.remove': 'తీసివేయండి',
+  'cart.clear': 'బుట్టను ఖాళీ చేయండి',
+  'cart.checkout': 'చెక్అవుట్‌కు వెళ్లండి',
+  'cart.add': 'బుట్టలో వేయండి',
+  'cart.addMore': 'బుట్టలో వేయండి (బుట్టలో {count})',
+  'cart.itemCount_one': '{count} వస్తువు',
+  'cart.itemCount_other': '{count} వస్తువులు',
+  'checkout.title': 'చెక్అవుట్',
+  'checkout.address': 'డెలివరీ చిరునామా',
+  'checkout.notes': 'రైతుల కోసం గమనికలు',
+  'checkout.summary': 'ఆర్డర్ సారాంశం',
+  'checkout.place': 'ఆర్డర్లు చేయండి',
+  'checkout.confirmed': 'ఆర్డర్లు విజయవంతంగా చేయబడ్డాయి',
+  'checkout.invalidPincode': 'దయచేసి సరైన 6 అంకెల పిన్ కోడ్ నమోదు చేయండి',
+  'checkout.insufficientStock': 'కొన్ని వస్తువులకు తగినంత నిల్వ లేదు. అందుబాటులో ఉన్నదానికి అనుగుణంగా మీ బుట్ట నవీకరించబడింది.',
+  'checkout.buyersOnly': 'కొనుగోలుదారు ఖాతాలు మాత్రమే ఆర్డర్లు చేయగలవు.',
+  'checkout.oversoldLine': '{name}: {requested} అడిగారు, {available} మాత్రమే అందుబాటులో ఉన్నాయి',
+  'checkout.addressLine': 'చిరునామా',
+  'checkout.addressPlaceholder': 'ఇల్లు / వీధి / గ్రామం',
+  'checkout.pincode': 'పిన్ కోడ్',
+  'checkout.splitNotice_one': 'మీ బుట్ట {count} ఆర్డర్‌గా చేయబడుతుంది.',
+  'checkout.splitNotice_other': 'మీ బుట్ట {count} వేర్వేరు ఆర్డర్లుగా చేయబడుతుంది, ఒక్కో రైతుకు ఒకటి.',
+  'checkout.sent_one': '{count} ఆర్డర్ రైతులకు పంపబడింది.',
+  'checkout.sent_other': '{count} ఆర్డర్లు రైతులకు పంపబడ్డాయి.',
+  'checkout.shipSeparately': 'ప్రతి రైతు మీ కొనుగోలులో తమ భాగాన్ని విడిగా నిర్ధారించి పంపుతారు.',
+  'checkout.keepCash': 'డెలివరీపై నగదు ఆర్డర్ల కోసం నగదు సిద్ధంగా ఉంచండి.',
+  'checkout.completePayment_one': 'మీ వస్తువులు రిజర్వ్ చేయబడ్డాయి. ఆర్డర్‌ను రైతులకు పంపడానికి ఆన్‌లైన్ చెల్లింపును పూర్తి చేయండి.',
+  'checkout.completePayment_other': 'మీ వస్తువులు రిజర్వ్ చేయబడ్డాయి. ఆర్డర్లను రైతులకు పంపడానికి ఆన్‌లైన్ చెల్లింపును పూర్తి చేయండి.',
+  'payment.title': 'చెల్లింపు',
+  'payment.card': 'కార్డ్',
+  'payment.pay': 'ఇప్పుడే చెల్లించండి',
+  'payment.pending': 'చెల్లింపు పెండింగ్‌లో ఉంది',
+  'payment.online': 'ఆన్‌లైన్ చెల్లింపు',
+  'payment.cod': 'డెలివరీపై నగదు',
+  'payment.collected': 'వసూలైంది',
+  'payment.outstanding': 'బాకీ',
+  'payment.markPaid': 'నగదు అందినట్లు గుర్తించండి',
+  'payment.options': 'చెల్లింపు ఎంపికలు',
+  'payment.keepOne': 'కనీసం ఒక చెల్లింపు ఎంపికను ఆన్‌లో ఉంచండి.',
+  'payment.optionsHint': 'కొనుగోలుదారులు మీ ఆర్డర్లకు ఎలా చెల్లించవచ్చో ఎంచుకోండి.',
+  'payment.invalidUpi': 'దయచేసి సరైన UPI ఐడీని నమోదు చేయండి, ఉదా. name@bank',
+  'payment.invalidCard': 'దయచేసి సరైన 16 అంకెల కార్డ్ నంబర్ నమోదు చేయండి',
+  'payment.declined': 'చెల్లింపు తిరస్కరించబడింది. దయచేసి మళ్లీ ప్రయత్నించండి లేదా వేరే విధానాన్ని ఉపయోగించండి.',
+  'payment.processing': 'చెల్లింపు ఇంకా ప్రాసెస్ అవుతోంది. కొన్ని నిమిషాల తర్వాత మీ ఆర్డర్ పేజీని చూడండి.',
+  'messages.conversations': 'సంభాషణలు',
+  'messages.select': 'చదవడానికి మరియు జవాబు ఇవ్వడానికి ఒక సంభాషణను ఎంచుకోండి.',
+  'messages.placeholder': 'సందేశాన్ని టైప్ చేయండి...',
+  'messages.send': 'పంపండి',
+  'messages.allConversations': 'అన్ని సంభాషణలు',
+  'messages.askFarmer': 'రైతును అడగండి',
+  'messages.contactBuyer': 'కొనుగోలుదారును సంప్రదించండి',
+  'messages.unread_one': '{count} చదవని సందేశం',
+  'messages.unread_other': '{count} చదవని సందేశాలు',
+  'messages.voiceNote': '🎤 వాయిస్ నోట్',
+  'messages.photo': '📷 ఫోటో',
+  'messages.unknownUser': 'వినియోగదారు',
+  'messages.youHaveUnread_one': 'మీకు {count} చదవని సందేశం ఉంది',
+  'messages.youHaveUnread_other': 'మీకు {count} చదవని సందేశాలు ఉన్నాయి',
+  'messages.none': 'ఇంకా సంభాషణలు లేవు.',
+  'messages.you': 'మీరు: ',
+  'messages.imageOnly': 'దయచేసి ఒక చిత్ర ఫైల్‌ను ఎంచుకోండి',
+  'messages.sendPhoto': 'ఫోటో పంపండి',
+  'messages.sayHello': 'సంభాషణ ప్రారంభించడానికి నమస్కారం చెప్పండి.',
+  'messages.seen': 'చూశారు',
+  'messages.photoAlt': 'ఫోటో',
+  'dashboard.welcome': 'మీ డాష్‌బోర్డ్‌కు స్వాగతం',
+  'dashboard.loading': 'డాష్‌బోర్డ్ లోడ్ అవుతోంది...',
+  'errors.unexpected': 'ఊహించని లోపం జరిగింది',
+  'home.intro': 'విలువ జోడించిన వ్యవసాయ ఉత్పత్తులను తయారు చేసే రైతులతో నేరుగా కనెక్ట్ అవ్వండి. గ్రామీణ వ్యవస్థాపకతకు తోడ్పడండి, తాజా మరియు నాణ్యమైన ఉత్పత్తులను మీ ఇంటికే పొందండి.',
+  'home.getStarted': 'ప్రారంభించండి',
+  'home.browse': 'ఉత్పత్తులను చూడండి',
+  'home.howItWorks': 'ఫార్మ్‌కనెక్ట్ ఎలా పనిచేస్తుంది',
+  'home.farmers.title': 'రైతుల కోసం',
+  'home.farmers.body': 'మీ విలువ జోడించిన ఉత్పత్తులను జాబితా చేయండి, నిల్వను నిర్వహించండి మరియు భారతదేశం అంతటా వినియోగదారులను చేరుకోండి. మీ వ్యాపారాన్ని పెంచుకోవడానికి విద్యా వనరులను ఉపయోగించుకోండి.',
+  'home.buyers.title': 'కొనుగోలుదారుల కోసం',
+  'home.buyers.body': 'రైతుల నుండి నేరుగా నాణ్యమైన వ్యవసాయ ఉత్పత్తులను కనుగొనండి. సేంద్రీయ, సాంప్రదాయ పద్ధతుల ఆధారంగా ఫిల్టర్ చేయండి మరియు స్థానిక సమాజాలకు తోడ్పడండి.',
+  'home.impact.title': 'ప్రభావాన్ని గమనించండి',
+  'home.impact.body': 'అమ్మకాల ధోరణులు, వినియోగదారుల భాగస్వామ్యాన్ని గమనించండి మరియు గ్రామీణ వ్యవస్థాపకతపై ఆర్థిక ప్రభావాన్ని కొలవండి.',
+  'home.categories': 'ఉత్పత్తి వర్గాలు',
+  'home.category.processed': 'ప్రాసెస్ చేసిన ఆహారాలు',
+  'home.category.dairy': 'పాల ఉత్పత్తులు',
+  'home.category.beverages': 'పానీయాలు',
+  'home.category.grains': 'ధాన్యాలు & పిండి',
+  'home.category.crafts': 'చేతివృత్తులు',
+  'home.category.organic': 'సేంద్రీయ పంటలు',
+  'home.join.title': 'ఫార్మ్‌కనెక్ట్ సమాజంలో చేరండి',
+  'home.join.body': 'మీరు మీ మార్కెట్‌ను విస్తరించాలనుకునే రైతు అయినా లేదా నాణ్యమైన ఉత్పత్తులను వెతుకుతున్న కొనుగోలుదారు అయినా, గ్రామీణ వ్యవస్థాపకతకు ఫార్మ్‌కనెక్ట్ మీ వేదిక.',
+  'home.signUpNow': 'ఇప్పుడే సైన్ అప్ చేయండి',
+  'admin.totalUsers': 'మొత్తం వినియోగదారులు',
+  'admin.totalFarmers': 'మొత్తం రైతులు',
+  'admin.totalBuyers': 'మొత్తం కొనుగోలుదారులు',
+  'admin.totalProducts': 'మొత్తం ఉత్పత్తులు',
+  'admin.totalOrders': 'మొత్తం ఆర్డర్లు',
+  'admin.totalRevenue': 'మొత్తం ఆదాయం',
+  'admin.analytics': 'ప్లాట్‌ఫారమ్ విశ్లేషణ',
+  'admin.analyticsSummary': 'ప్లాట్‌ఫారమ్ {farmers} రైతులను {buyers} కొనుగోలుదారులతో కలుపుతోంది, {products} విలువ జోడించిన ఉత్పత్తుల ద్వారా గ్రామీణ వ్యవస్థాపకతను ప్రోత్సహిస్తోంది.',
+  'admin.impact': 'ప్రభావ కొలమానం',
+  'admin.engagement': 'రైతుల భాగస్వామ్య రేటు',
+  'admin.productsPerFarmer': 'ఉత్పత్తులు/రైతు',
+  'admin.averageOrder': 'సగటు ఆర్డర్ విలువ',
+  'admin.growth': 'ప్లాట్‌ఫారమ్ వృద్ధి',
+  'admin.registeredUsers': 'నమోదిత వినియోగదారులు',
+  'admin.failedRefunds': 'శ్రద్ధ అవసరమైన రీఫండ్‌లు',
+  'admin.failedRefundsHint': 'చెల్లింపు గేట్‌వే ఈ రీఫండ్‌లను పదే పదే తిరస్కరించింది. కొనుగోలుదారుకు స్వయంగా రీఫండ్ చేసి, గేట్‌వే డాష్‌బోర్డ్‌ను తనిఖీ చేయండి.',
+  'admin.refundAttempts_one': '{count} ప్రయత్నం, చివరిది {date}న',
+  'admin.refundAttempts_other': '{count} ప్రయత్నాలు, చివరిది {date}న',
+  'farmer.activeProducts': 'సక్రియ ఉత్పత్తులు',
+  'farmer.totalOrders': 'మొత్తం ఆర్డర్లు',
+  'farmer.lowStock.title': 'తక్కువ నిల్వ హెచ్చరిక',
+  'farmer.lowStock.body': 'ఈ ఉత్పత్తుల నిల్వ తగ్గుతోంది:',
+  'farmer.lowStock.available_one': '{name} - {count} యూనిట్ అందుబాటులో ఉంది',
+  'farmer.lowStock.available_other': '{name} - {count} యూనిట్లు అందుబాటులో ఉన్నాయి',
+  'farmer.lowStock.reserved': ' (తెరిచిన ఆర్డర్లలో మరో {count} రిజర్వ్ చేయబడ్డాయి)',
+  'farmer.yourProducts': 'మీ ఉత్పత్తులు',
+  'farmer.noProducts': 'ఇంకా ఉత్పత్తులు లేవు. మీ మొదటి ఉత్పత్తిని జోడించి ప్రారంభించండి!',
+  'farmer.product': 'ఉత్పత్తి',
+  'farmer.recentOrders': 'ఇటీవలి ఆర్డర్లు',
+  'status.pending': 'పెండింగ్',
+  'status.confirmed': 'నిర్ధారించబడింది',
+  'status.shipped': 'పంపబడింది',
+  'status.delivered': 'అందజేయబడింది',
+  'status.cancelled': 'రద్దు చేయబడింది',
+  'buyer.totalOrders': 'మొత్తం ఆర్డర్లు',
+  'buyer.pendingOrders': 'పెండింగ్ ఆర్డర్లు',
+  'buyer.totalSpent': 'మొత్తం ఖర్చు',
+  'buyer.stillToPay': '₹{amount} ఇంకా చెల్లించాలి',
+  'buyer.explore.title': 'ఉత్పత్తులను అన్వేషించండి',
+  'buyer.explore.body': 'భారతదేశం అంతటా రైతుల విలువ జోడించిన ఉత్పత్తులను చూడండి',
+  'buyer.stories.title': 'విజయ గాథలు',
+  'buyer.stories.body': 'రైతు వ్యవస్థాపకులు మరియు వారి ప్రయాణాల గురించి చదవండి',
+  'buyer.yourOrders': 'మీ ఆర్డర్లు',
+  'buyer.noOrders': 'మీరు ఇంకా ఏ ఆర్డర్ చేయలేదు.',
+  'buyer.startShopping': 'షాపింగ్ ప్రారంభించండి',
+  'buyer.support.title': 'స్థానిక సమాజాలకు తోడ్పడండి',
+  'buyer.support.body': 'మీరు చేసే ప్రతి కొనుగోలు రైతు వ్యవస్థాపకులకు మరియు వారి కుటుంబాలకు నేరుగా తోడ్పడుతుంది, భారతదేశం అంతటా గ్రామీణ ఆర్థికాభివృద్ధికి దోహదపడుతుంది.',
+  'reviews.edit': 'సమీక్షను సవరించండి',
+  'reviews.write': 'సమీక్ష రాయండి',
+  'reviews.ratingRequired': 'దయచేసి 1 నుండి 5 నక్షత్రాల మధ్య రేటింగ్ ఎంచుకోండి',
+  'reviews.rating': 'రేటింగ్',
+  'reviews.placeholder': 'ఈ ఉత్పత్తి మీకు ఎలా అనిపించింది?',
+  'reviews.none': 'ఇంకా సమీక్షలు లేవు.',
+  'reviews.outOfFive': '5కి {rating}',
+  'reviews.title': 'సమీక్షలు',
+  'reviews.verified': '✓ ధృవీకరించిన కొనుగోలు',
+  'reviews.newer': '← కొత్తవి',
+  'reviews.older': 'పాతవి →',
+  'reviews.page': 'పేజీ {page} / {pages}',
+  'reviews.farmerReply': 'రైతు జవాబు',
+  'reviews.editReply': 'జవాబును సవరించండి',
+  'reviews.reply': 'జవాబు ఇవ్వండి',
+  'photos.limit': 'ఒక్కో ఉత్పత్తికి గరిష్ఠంగా {count} ఫోటోలు జోడించవచ్చు',
+  'photos.uploadFailed': 'చిత్రాన్ని అప్‌లోడ్ చేయలేకపోయాం',
+  'photos.alt': 'ఉత్పత్తి ఫోటో {number}',
+  'photos.cover': 'ముఖచిత్రం',
+  'photos.setCover': 'ముఖచిత్రంగా పెట్టండి',
+  'photos.uploading': 'అప్‌లోడ్ అవుతోంది...',
+  'photos.add': '+ ఫోటోలు జోడించండి',
+  'voice.unsupported': 'ఈ బ్రౌజర్‌లో వాయిస్ నోట్‌లకు మద్దతు లేదు',
+  'voice.noMicrophone': 'మైక్రోఫోన్‌ను యాక్సెస్ చేయలేకపోయాం',
+  'voice.record': 'వాయిస్ నోట్ రికార్డ్ చేయండి',
+  'paymentStatus.pending': 'బాకీ',
+  'paymentStatus.completed': 'చెల్లించబడింది',
+  'paymentStatus.failed': 'విఫలమైంది',
+  'paymentStatus.refunded': 'తిరిగి చెల్లించబడింది',
+  'productForm.nameRequired': 'ఉత్పత్తి పేరు అవసరం',
+  'productForm.descriptionRequired': 'వివరణ అవసరం',
+  'productForm.unitRequired': 'యూనిట్ అవసరం',
+  'productForm.priceInvalid': 'ధర 0 లేదా అంతకంటే ఎక్కువ సంఖ్య అయి ఉండాలి',
+  'productForm.priceTooLarge': 'ధర చాలా ఎక్కువగా ఉంది',
+  'productForm.priceDecimals': 'ధరలో గరిష్ఠంగా 2 దశాంశ స్థానాలు ఉండవచ్చు',
+  'productForm.stockInvalid': 'నిల్వ 0 లేదా అంతకంటే ఎక్కువ పూర్ణ సంఖ్య అయి ఉండాలి',
+  'productForm.lowStockInvalid': 'తక్కువ నిల్వ పరిమితి 0 లేదా అంతకంటే ఎక్కువ పూర్ణ సంఖ్య అయి ఉండాలి',
+  'productForm.shelfLifeInvalid': 'నిల్వ కాలం రోజుల్లో పూర్ణ సంఖ్య అయి ఉండాలి',
+  'productForm.notFound': 'ఉత్పత్తి కనుగొనబడలేదు',
+  'productForm.farmersOnly': 'రైతు ఖాతాలు మాత్రమే ఉత్పత్తులను జాబితా చేయగలవు.',
+  'productForm.selectCategory': 'వర్గాన్ని ఎంచుకోండి',
+  'productForm.processingPlaceholder': 'ఉదా. ఎండబెట్టినది, కోల్డ్-ప్రెస్డ్',
+  'productForm.tagsPlaceholder': 'ఊరగాయ, మామిడి, ఇంట్లో తయారు',
+  'productForm.tagsHint': 'ట్యాగ్‌లను కామాలతో వేరు చేయండి',
+  'productForm.stockChanged': 'మీరు సవరిస్తున్నప్పుడు స్టాక్ {count}కి మారింది, బహుశా కొత్త ఆర్డర్ల వల్ల. స్టాక్ చూసి మళ్లీ సేవ్ చేయండి.',
+  'translations.title': 'ఇతర భాషలు',
+  'translations.hint': 'ఇంగ్లీష్ మూల పాఠం. తమ భాషలో వెర్షన్ లేని పాఠకులకు ఇంగ్లీష్ పాఠం కనిపిస్తుంది.',
+  'translations.none': 'ఇంకా ఇతర భాషా వెర్షన్లు లేవు.',
+  'translations.add': '+ భాషను జోడించండి',
+  'translations.required': 'ఈ భాష కోసం అన్ని ఫీల్డ్‌లను నింపండి',
+  'translations.confirmRemove': '{language} వెర్షన్‌ను తీసివేయాలా?',
+  'translations.saveFirst': 'ముందుగా ఉత్పత్తిని సేవ్ చేసి, తర్వాత ఇక్కడ ఇతర భాషల వెర్షన్లను జోడించండి.',
+  'translations.contentTitle': 'కంటెంట్ అనువాదాలు',
+  'translations.contentHint': 'వర్గాల పేర్లు మరియు అభ్యాస వనరులను మరిన్ని భాషల్లో జోడించండి.',
+  'translations.manage': 'అనువాదాలను నిర్వహించండి',
+  'translations.adminsOnly': 'నిర్వాహకులు మాత్రమే కంటెంట్ అనువాదాలను నిర్వహించగలరు.',
+  'translations.categories': 'ఉత్పత్తి వర్గాలు',
+  'translations.resources': 'అభ్యాస వనరులు',
+  'translations.selectItem': 'భాషా వెర్షన్లను చూడటానికి మరియు సవరించడానికి ఒక అంశాన్ని ఎంచుకోండి.',
+  'translations.name': 'పేరు',
+  'translations.resourceTitle': 'శీర్షిక',
+  'translations.resourceContent': 'విషయం',
+  'adminUsers.title': 'వినియోగదారులు',
+  'adminUsers.hint': 'వినియోగదారులను కనుగొనండి, పాత్రలు మార్చండి మరియు ఖాతాలను నిష్క్రియం చేయండి.',
+  'adminUsers.manage': 'వినియోగదారులను నిర్వహించండి',
+  'adminUsers.adminsOnly': 'నిర్వాహక ఖాతాలు మాత్రమే వినియోగదారులను నిర్వహించగలవు.',
+  'adminUsers.searchHint': 'పేరు లేదా ఫోన్ నంబర్‌తో వెతకండి',
+  'adminUsers.role': 'పాత్ర',
+  'adminUsers.allRoles': 'అన్ని పాత్రలు',
+  'adminUsers.status': 'ఖాతా',
+  'adminUsers.allStatuses': 'అన్ని ఖాతాలు',
+  'adminUsers.active': 'సక్రియం',
+  'adminUsers.inactive': 'నిష్క్రియం',
+  'adminUsers.noMatches': 'ఈ ఫిల్టర్‌లకు సరిపోయే వినియోగదారులు లేరు.',
+  'adminUsers.count_one': '{count} వినియోగదారు',
+  'adminUsers.count_other': '{count} వినియోగదారులు',
+  'adminUsers.showingOf': '{total}లో {shown} వినియోగదారులు చూపబడుతున్నారు. మిగతావారిని చూడటానికి ఫిల్టర్‌లను కుదించండి.',
+  'adminUsers.location': 'ప్రాంతం',
+  'adminUsers.joined': 'చేరిన తేదీ',
+  'adminUsers.joinedOn': '{date}న చేరారు',
+  'adminUsers.notFound': 'ఈ వినియోగదారు కనుగొనబడలేదు.',
+  'adminUsers.selfNotice': 'మీ స్వంత ఖాతా పాత్ర లేదా స్థితిని మీరు మార్చలేరు.',
+  'adminUsers.changeRole': 'పాత్ర మార్చండి',
+  'adminUsers.deactivate': 'ఖాతాను నిష్క్రియం చేయండి',
+  'adminUsers.reactivate': 'ఖాతాను మళ్లీ సక్రియం చేయండి',
+  'adminUsers.confirmDeactivate': '{name}ను నిష్క్రియం చేయాలా? వారు సైన్ అవుట్ అవుతారు మరియు వారి ఉత్పత్తులు కొనుగోలుదారులకు కనిపించవు.',
+  'adminUsers.confirmReactivate': '{name}ను మళ్లీ సక్రియం చేయాలా? వారు మళ్లీ సైన్ ఇన్ చేయగలరు.',
+  'adminUsers.products': 'ఉత్పత్తులు',
+  'adminUsers.orders': 'ఇటీవలి ఆర్డర్‌లు',
+  'adminUsers.boughtFrom': '{name} నుండి కొన్నారు',
+  'adminUsers.soldTo': '{name}కు అమ్మారు',
+  'resourceAdmin.title': 'అభ్యాస వనరులు',
+  'resourceAdmin.hint': 'రైతుల కోసం మార్గదర్శకాలను రాయండి, షెడ్యూల్ చేయండి మరియు ప్రచురించండి.',
+  'resourceAdmin.manage': 'వనరులను నిర్వహించండి',
+  'resourceAdmin.new': 'కొత్త వనరు',
+  'resourceAdmin.adminsOnly': 'నిర్వాహక ఖాతాలు మాత్రమే అభ్యాస వనరులను నిర్వహించగలవు.',
+  'resourceAdmin.none': 'ఇక్కడ ఇంకా వనరులు లేవు.',
+  'resourceAdmin.updated': 'చివరి నవీకరణ',
+  'resourceAdmin.confirmDelete': '"{title}"ను తొలగించాలా? దీన్ని రద్దు చేయలేరు.',
+  'resourceForm.newTitle': 'కొత్త వనరు',
+  'resourceForm.editTitle': 'వనరును సవరించండి',
+  'resourceForm.notFound': 'ఈ వనరు కనుగొనబడలేదు.',
+  'resourceForm.untitled': 'శీర్షిక లేని వనరు',
+  'resourceForm.category': 'వర్గం',
+  'resourceForm.markdownHint': 'ఫార్మాటింగ్: # శీర్షిక, **బోల్డ్**, *ఇటాలిక్*, - జాబితా, 1. సంఖ్యా జాబితా, > ఉల్లేఖనం, [లింక్](https://...).',
+  'resourceForm.tagsHint': 'ట్యాగ్ జోడించడానికి Enter లేదా కామా నొక్కండి.',
+  'resourceForm.removeTag': 'ట్యాగ్ {tag} తొలగించండి',
+  'resourceForm.image': 'ప్రధాన చిత్రం',
+  'resourceForm.removeImage': 'చిత్రాన్ని తొలగించండి',
+  'resourceForm.uploading': 'అప్‌లోడ్ అవుతోంది...',
+  'resourceForm.visibility': 'దృశ్యమానత',
+  'resourceForm.status.draft': 'డ్రాఫ్ట్',
+  'resourceForm.status.published': 'ప్రచురించబడింది',
+  'resourceForm.status.scheduled': 'షెడ్యూల్ చేయబడింది',
+  'resourceForm.preview': 'ముందస్తు వీక్షణ',
+  'resourceForm.otherLanguages': 'ఇతర భాషల అనువాదాలు విడిగా నిర్వహించబడతాయి.',
+  'resourceForm.titleRequired': 'దయచేసి ఆంగ్ల శీర్షికను నమోదు చేయండి.',
+  'resourceForm.contentRequired': 'దయచేసి ఆంగ్ల విషయాన్ని నమోదు చేయండి.',
+  'resourceForm.categoryRequired': 'దయచేసి వర్గాన్ని ఎంచుకోండి.',
+  'resourceForm.hindiIncomplete': 'హిందీ శీర్షిక మరియు విషయం రెండింటినీ నింపండి, లేదా రెండూ ఖాళీగా ఉంచండి.',
+  'resourceForm.scheduleRequired': 'వనరు ఎప్పుడు ప్రచురించబడాలో ఎంచుకోండి.',
+  'resourceForm.scheduleInPast': 'షెడ్యూల్ సమయం భవిష్యత్తులో ఉండాలి.',
+  'learning.title': 'నేర్చుకోవడం కొనసాగించండి',
+  'learning.browse': 'అన్ని మార్గదర్శకాలు',
+  'learning.empty': 'అభ్యాస వనరులలో ఒక మార్గదర్శకాన్ని సేవ్ చేయండి లేదా తెరవండి, అది ఇక్కడ కనిపిస్తుంది.',
+  'learning.completedCount_one': '{count} మార్గదర్శకం పూర్తయింది',
+  'learning.completedCount_other': '{count} మార్గదర్శకాలు పూర్తయ్యాయి',
+  'learning.lastViewed': '{date}న తెరిచారు',
+  'learning.inProgress': 'కొనసాగుతోంది',
+  'learning.notStarted': 'ప్రారంభించలేదు',
+  'resourceAnalytics.title': 'వనరుల విశ్లేషణ',
+  'resourceAnalytics.lastDays_one': 'గత {count} రోజు',
+  'resourceAnalytics.lastDays_other': 'గత {count} రోజులు',
+  'resourceAnalytics.views': 'వీక్షణలు',
+  'resourceAnalytics.readers': 'ప్రత్యేక పాఠకులు',
+  'resourceAnalytics.readersCount_one': '{count} పాఠకుడు',
+  'resourceAnalytics.readersCount_other': '{count} పాఠకులు',
+  'resourceAnalytics.bookmarks': 'సేవ్‌లు',
+  'resourceAnalytics.completions': 'పూర్తి చేసినవి',
+  'resourceAnalytics.languages': 'భాషలు',
+  'resourceAnalytics.allResources': 'అన్ని వనరులు',
+  'resourceAnalytics.showAll': 'అన్ని వనరులను చూపండి',
+  'resourceAnalytics.dailyViews': 'రోజువారీ వీక్షణలు',
+  'offline.banner': 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. మీరు సేవ్ చేసిన డేటాను చూస్తున్నారు, మళ్లీ కనెక్ట్ అయినప్పుడు మీ మార్పులు పంపబడతాయి.',
+  'offline.pending_one': '{count} మార్పు పంపడానికి వేచి ఉంది.',
+  'offline.pending_other': '{count} మార్పులు పంపడానికి వేచి ఉన్నాయి.',
+  'offline.syncing': 'ఆఫ్‌లైన్‌లో చేసిన మార్పులు పంపబడుతున్నాయి...',
+  'offline.conflicts': 'ఆఫ్‌లైన్‌లో చేసిన కొన్ని మార్పులకు మీ శ్రద్ధ అవసరం',
+  'offline.stockConflict': '{name}: మీరు స్టాక్‌ను {mine}గా పెట్టారు, కానీ ఈలోగా అది {current}గా మారింది.',
+  'offline.stockFailed': '{name} స్టాక్‌ను సేవ్ చేయలేకపోయాం: {reason}',
+  'offline.messageFailed': '{name}కి సందేశం పంపలేకపోయాం: {reason}',
+  'offline.productMissing': 'ఉత్పత్తి ఇక లేదు',
+  'offline.keepMine': '{stock} ఉంచండి',
+  'offline.keepServer': '{stock}నే ఉంచండి',
+  'offline.retry': 'మళ్లీ ప్రయత్నించండి',
+  'offline.discard': 'వదిలేయండి',
+  'offline.queued': 'నెట్‌వర్క్ కోసం వేచి ఉంది',
+  'offline.notSent': 'పంపబడలేదు',
+  'offline.attachmentsNeedNetwork': 'ఫోటోలు, వాయిస్ నోట్‌లకు కనెక్షన్ అవసరం. టెక్స్ట్ సందేశాలు సేవ్ అయి, మళ్లీ కనెక్ట్ అయినప్పుడు పంపబడతాయి.',
+};
+
+export default te;
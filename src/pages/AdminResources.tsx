@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ResourceStatus, resourceStatus, resourceStatuses, deleteResourceImage } from '../lib/resources';
+
+interface ResourceRow {
+  id: string;
+  title_en: string;
+  category: string;
+  image_url: string | null;
+  is_published: boolean;
+  published_at: string | null;
+  view_count: number;
+  updated_at: string;
+}
+
+const statusColors: Record<ResourceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+};
+
+export default function AdminResources() {
+  const { profile } = useAuth();
+  const { t, formatDate, formatDateTime } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [resources, setResources] = useState<ResourceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const status = searchParams.get('status') || '';
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      loadResources();
+    }
+  }, [profile?.role]);
+
+  const loadResources = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('educational_resources')
+        .select('id, title_en, category, image_url, is_published, published_at, view_count, updated_at')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setResources(data || []);
+    } catch (error) {
+      console.error('Error loading resources:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (resource: ResourceRow) => {
+    if (!confirm(t('resourceAdmin.confirmDelete', { title: resource.title_en }))) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('educational_resources')
+        .delete()
+        .eq('id', resource.id);
+
+      if (error) throw error;
+      if (resource.image_url) {
+        await deleteResourceImage(resource.image_url).catch(err => {
+          console.error('Error deleting image:', err);
+        });
+      }
+      setResources(current => current.filter(r => r.id !== resource.id));
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    }
+  };
+
+  const updateStatus = (value: string) => {
+    setSearchParams(value ? { status: value } : {});
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('resourceAdmin.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  const filtered = status
+    ? resources.filter(resource => resourceStatus(resource) === status)
+    : resources;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('resourceAdmin.title')}</h1>
+        <div className="flex items-center gap-4">
+          <Link
+            to="/admin/resources/analytics"
+            className="text-green-600 hover:text-green-700 font-medium text-sm"
+          >
+            {t('resourceAnalytics.title')} →
+          </Link>
+          <Link
+            to="/admin/resources/new"
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm"
+          >
+            {t('resourceAdmin.new')}
+          </Link>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {['', ...resourceStatuses].map(option => (
+          <button
+            key={option || 'all'}
+            onClick={() => updateStatus(option)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              status === option
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option ? t(`resourceForm.status.${option}`) : t('resources.all')}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 text-lg">{t('resourceAdmin.none')}</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-medium">{t('translations.resourceTitle')}</th>
+                <th className="px-4 py-3 font-medium">{t('resourceForm.category')}</th>
+                <th className="px-4 py-3 font-medium">{t('orders.status')}</th>
+                <th className="px-4 py-3 font-medium">{t('resourceAdmin.updated')}</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filtered.map(resource => {
+                const current = resourceStatus(resource);
+                return (
+                  <tr key={resource.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{resource.title_en}</p>
+                      <p className="text-xs text-gray-500">{t('resources.views', { count: resource.view_count })}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{resource.category}</td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs px-2 py-1 rounded-full ${statusColors[current]}`}>
+                        {t(`resourceForm.status.${current}`)}
+                      </span>
+                      {current === 'scheduled' && resource.published_at && (
+                        <p className="text-xs text-gray-500 mt-1">{formatDateTime(resource.published_at)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDate(resource.updated_at)}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <Link
+                        to={`/admin/resources/${resource.id}/edit`}
+                        className="text-green-600 hover:text-green-700 font-medium mr-4"
+                      >
+                        {t('edit')}
+                      </Link>
+                      <button
+                        onClick={() => handleDelete(resource)}
+                        className="text-red-600 hover:text-red-700 font-medium"
+                      >
+                        {t('delete')}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase, UserProfile, UserRole } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import StatusBadge from '../components/StatusBadge';
+import AccountStatusBadge from '../components/AccountStatusBadge';
+
+interface UserProduct {
+  id: string;
+  name: string;
+  price: number;
+  unit: string;
+  stock_quantity: number;
+  is_active: boolean;
+}
+
+interface UserOrder {
+  id: string;
+  buyer_id: string;
+  status: string;
+  total_amount: number;
+  created_at: string;
+  buyer: { full_name: string } | null;
+  farmer: { full_name: string } | null;
+}
+
+const roles: UserRole[] = ['farmer', 'buyer', 'admin'];
+
+export default function AdminUserDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const { t, formatNumber, formatDate } = useLanguage();
+  const [user, setUser] = useState<UserProfile | null>(null);
+  const [products, setProducts] = useState<UserProduct[]>([]);
+  const [orders, setOrders] = useState<UserOrder[]>([]);
+  const [role, setRole] = useState<UserRole>('buyer');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (profile?.role === 'admin' && id) {
+      setLoading(true);
+      loadUser();
+    }
+  }, [profile?.role, id]);
+
+  const loadUser = async () => {
+    try {
+      const [userRes, productsRes, ordersRes] = await Promise.all([
+        supabase.from('private_user_profiles').select('*').eq('id', id!).maybeSingle(),
+        supabase
+          .from('products')
+          .select('id, name, price, unit, stock_quantity, is_active')
+          .eq('farmer_id', id!)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('orders')
+          .select(`
+            id,
+            buyer_id,
+            status,
+            total_amount,
+            created_at,
+            buyer:buyer_id (full_name),
+            farmer:farmer_id (full_name)
+          `)
+          .or(`buyer_id.eq.${id},farmer_id.eq.${id}`)
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (userRes.error) throw userRes.error;
+      if (productsRes.error) throw productsRes.error;
+      if (ordersRes.error) throw ordersRes.error;
+
+      setUser(userRes.data);
+      if (userRes.data) setRole(userRes.data.role);
+      setProducts(productsRes.data || []);
+      setOrders(ordersRes.data as any || []);
+    } catch (error) {
+      console.error('Error loading user:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUser = async (changes: Partial<Pick<UserProfile, 'role' | 'is_active'>>) => {
+    setSaving(true);
+    setError('');
+
+    try {
+      const { error: updateError } = await supabase
+        .from('user_profiles')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id!);
+
+      if (updateError) throw updateError;
+
+      const { data, error } = await supabase
+        .from('private_user_profiles')
+        .select('*')
+        .eq('id', id!)
+        .single();
+
+      if (error) throw error;
+      setUser(data);
+      setRole(data.role);
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = () => {
+    if (!user) return;
+    const message = user.is_active
+      ? t('adminUsers.confirmDeactivate', { name: user.full_name })
+      : t('adminUsers.confirmReactivate', { name: user.full_name });
+    if (!confirm(message)) return;
+    updateUser({ is_active: !user.is_active });
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('adminUsers.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+
+  if (!user) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-gray-600 mb-4">{t('adminUsers.notFound')}</p>
+        <Link to="/admin/users" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('adminUsers.title')}
+        </Link>
+      </div>
+    );
+  }
+
+  const isSelf = user.id === profile?.id;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <Link to="/admin/users" className="text-green-600 hover:text-green-700 font-medium">
+        ← {t('adminUsers.title')}
+      </Link>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">{user.full_name}</h1>
+            <p className="text-sm text-gray-600">
+              {t(`auth.role.${user.role}`)} · {t('adminUsers.joinedOn', { date: formatDate(user.created_at) })}
+            </p>
+          </div>
+          <AccountStatusBadge active={user.is_active} />
+        </div>
+
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm mb-6">
+          <div>
+            <dt className="text-gray-500">{t('auth.phone')}</dt>
+            <dd className="text-gray-900">{user.phone || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{t('adminUsers.location')}</dt>
+            <dd className="text-gray-900">{[user.district, user.state].filter(Boolean).join(', ') || '—'}</dd>
+          </div>
+        </dl>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {isSelf ? (
+          <p className="text-sm text-gray-600">{t('adminUsers.selfNotice')}</p>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4 border-t pt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('adminUsers.role')}</label>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as UserRole)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {roles.map(r => (
+                  <option key={r} value={r}>{t(`auth.role.${r}`)}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => updateUser({ role })}
+              disabled={saving || role === user.role}
+              className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {t('adminUsers.changeRole')}
+            </button>
+            <button
+              onClick={toggleActive}
+              disabled={saving}
+              className={`py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm ml-auto ${
+                user.is_active
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {user.is_active ? t('adminUsers.deactivate') : t('adminUsers.reactivate')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {(user.role === 'farmer' || products.length > 0) && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('adminUsers.products')}</h2>
+          {products.length === 0 ? (
+            <p className="text-gray-600">{t('farmer.noProducts')}</p>
+          ) : (
+            <ul className="divide-y">
+              {products.map(product => (
+                <li key={product.id} className="flex justify-between items-center py-2 text-sm">
+                  <Link to={`/products/${product.id}`} className="text-gray-900 hover:text-green-700">
+                    {product.name}
+                  </Link>
+                  <div className="flex items-center gap-4">
+                    <span className="text-gray-600">
+                      ₹{formatNumber(product.price)} · {t('products.stockCount', { count: product.stock_quantity })}
+                    </span>
+                    <span className={`px-2 py-1 rounded-full text-xs ${
+                      product.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {product.is_active ? t('products.status.active') : t('products.status.inactive')}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('adminUsers.orders')}</h2>
+        {orders.length === 0 ? (
+          <p className="text-gray-600">{t('orders.none')}</p>
+        ) : (
+          <ul className="divide-y">
+            {orders.map(order => {
+              const asBuyer = order.buyer_id === user.id;
+              return (
+                <li key={order.id} className="flex justify-between items-center py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">{t('orders.number', { number: order.id.slice(0, 8) })}</p>
+                    <p className="text-xs text-gray-600">
+                      {asBuyer
+                        ? t('adminUsers.boughtFrom', { name: order.farmer?.full_name || '—' })
+                        : t('adminUsers.soldTo', { name: order.buyer?.full_name || '—' })}
+                      {' · '}{formatDate(order.created_at)}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">₹{formatNumber(order.total_amount)}</p>
+                    <StatusBadge status={order.status} />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase, UserProfile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { indianStates } from '../lib/indianStates';
+import AccountStatusBadge from '../components/AccountStatusBadge';
+
+const PAGE_SIZE = 50;
+
+export default function AdminUsers() {
+  const { profile } = useAuth();
+  const { t, formatDate } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') || '');
+  const [districtInput, setDistrictInput] = useState(searchParams.get('district') || '');
+
+  const query = searchParams.get('q') || '';
+  const role = searchParams.get('role') || '';
+  const state = searchParams.get('state') || '';
+  const district = searchParams.get('district') || '';
+  const status = searchParams.get('status') || '';
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      if (searchInput.trim() !== query) setSearchInput(query);
+      if (districtInput.trim() !== district) setDistrictInput(district);
+      setLoading(true);
+      loadUsers();
+    }
+  }, [profile?.role, searchParams]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== query) updateFilter('q', searchInput.trim());
+      if (districtInput.trim() !== district) updateFilter('district', districtInput.trim());
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput, districtInput]);
+
+  const loadUsers = async () => {
+    try {
+      let request = supabase
+        .from('private_user_profiles')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      // Characters that would break out of the PostgREST or() filter syntax.
+      const term = query.replace(/[%,()*\\]/g, ' ').trim();
+      if (term) request = request.or(`full_name.ilike.%${term}%,phone.ilike.%${term}%`);
+      if (role) request = request.eq('role', role);
+      if (state) request = request.eq('state', state);
+      if (district) request = request.ilike('district', `%${district}%`);
+      if (status) request = request.eq('is_active', status === 'active');
+
+      const { data, count, error } = await request;
+
+      if (error) throw error;
+      setUsers(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error loading users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: string, value: string) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, { replace: key === 'q' || key === 'district' });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setDistrictInput('');
+    setSearchParams(new URLSearchParams());
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('adminUsers.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('adminUsers.title')}</h1>
+        <Link to="/dashboard" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('nav.dashboard')}
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-8 space-y-4">
+        <input
+          type="search"
+          placeholder={t('adminUsers.searchHint')}
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className={inputClass}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('adminUsers.role')}</label>
+            <select value={role} onChange={(e) => updateFilter('role', e.target.value)} className={inputClass}>
+              <option value="">{t('adminUsers.allRoles')}</option>
+              <option value="farmer">{t('auth.role.farmer')}</option>
+              <option value="buyer">{t('auth.role.buyer')}</option>
+              <option value="admin">{t('auth.role.admin')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.state')}</label>
+            <select value={state} onChange={(e) => updateFilter('state', e.target.value)} className={inputClass}>
+              <option value="">{t('products.allStates')}</option>
+              {indianStates.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.district')}</label>
+            <input
+              type="text"
+              value={districtInput}
+              onChange={(e) => setDistrictInput(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('adminUsers.status')}</label>
+            <select value={status} onChange={(e) => updateFilter('status', e.target.value)} className={inputClass}>
+              <option value="">{t('adminUsers.allStatuses')}</option>
+              <option value="active">{t('adminUsers.active')}</option>
+              <option value="inactive">{t('adminUsers.inactive')}</option>
+            </select>
+          </div>
+          <button
+            onClick={clearFilters}
+            className="text-sm text-gray-600 hover:text-green-600 font-medium py-2"
+          >
+            {t('products.clearFilters')}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : users.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 text-lg">{t('adminUsers.noMatches')}</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-3">
+            {total > users.length
+              ? t('adminUsers.showingOf', { shown: users.length, total })
+              : t('adminUsers.count', { count: total })}
+          </p>
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{t('auth.fullname')}</th>
+                  <th className="px-4 py-3 font-medium">{t('adminUsers.role')}</th>
+                  <th className="px-4 py-3 font-medium">{t('adminUsers.location')}</th>
+                  <th className="px-4 py-3 font-medium">{t('adminUsers.joined')}</th>
+                  <th className="px-4 py-3 font-medium">{t('adminUsers.status')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {users.map(u => (
+                  <tr key={u.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <Link to={`/admin/users/${u.id}`} className="font-medium text-green-700 hover:text-green-800">
+                        {u.full_name}
+                      </Link>
+                      {u.phone && <p className="text-xs text-gray-500">{u.phone}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{t(`auth.role.${u.role}`)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {[u.district, u.state].filter(Boolean).join(', ') || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDate(u.created_at)}</td>
+                    <td className="px-4 py-3">
+                      <AccountStatusBadge active={u.is_active} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Link } from 'react-router-dom';
+import { useCart, CartItem } from '../contexts/CartContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export default function Cart() {
+  const { t, formatNumber } = useLanguage();
+  const { itemCount, total, groupByFarmer, clearCart } = useCart();
+  const groups = groupByFarmer();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('cart.title')}</h1>
+        {itemCount > 0 && (
+          <button
+            onClick={clearCart}
+            className="text-sm text-red-600 hover:text-red-700 font-medium"
+          >
+            {t('cart.clear')}
+          </button>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600 mb-4">{t('cart.empty')}</p>
+          <Link
+            to="/products"
+            className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors inline-block"
+          >
+            {t('buyer.startShopping')}
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.farmer_id} className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                {t('orders.fromFarmer', { name: group.farmer_name })}
+              </h2>
+              <div className="divide-y divide-gray-200">
+                {group.items.map(item => (
+                  <CartLine key={item.product.id} item={item} />
+                ))}
+              </div>
+              <div className="flex justify-between items-center border-t pt-4 mt-2">
+                <span className="text-sm text-gray-600">{t('cart.subtotal')}</span>
+                <span className="text-lg font-semibold text-gray-900">
+                  ₹{formatNumber(group.subtotal)}
+                </span>
+              </div>
+            </div>
+          ))}
+
+          <div className="bg-green-50 border border-green-200 rounded-lg p-6 flex justify-between items-center">
+            <div>
+              <p className="text-sm text-green-700">{t('cart.itemCount', { count: itemCount })}</p>
+              <p className="text-2xl font-bold text-green-800">
+                {t('orders.total')}: ₹{formatNumber(total)}
+              </p>
+            </div>
+            <Link
+              to="/checkout"
+              className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors font-semibold"
+            >
+              {t('cart.checkout')}
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CartLine({ item }: { item: CartItem }) {
+  const { updateQuantity, removeItem } = useCart();
+  const { t, formatNumber } = useLanguage();
+  const { product, quantity } = item;
+
+  return (
+    <div className="flex items-center justify-between py-3">
+      <div className="flex-1">
+        <p className="font-medium text-gray-900">{product.name}</p>
+        <p className="text-xs text-gray-600">
+          {t('products.perUnit', { price: formatNumber(product.price), unit: product.unit })}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 mx-4">
+        <button
+          onClick={() => updateQuantity(product.id, quantity - 1)}
+          className="w-8 h-8 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          −
+        </button>
+        <input
+          type="number"
+          min={1}
+          max={product.stock_quantity}
+          value={quantity}
+          onChange={(e) => updateQuantity(product.id, Math.max(1, Number(e.target.value)))}
+          className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+        <button
+          onClick={() => updateQuantity(product.id, quantity + 1)}
+          disabled={quantity >= product.stock_quantity}
+          className="w-8 h-8 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          +
+        </button>
+      </div>
+
+      <div className="w-28 text-right">
+        <p className="font-semibold text-gray-900">
+          ₹{formatNumber(Number(product.price) * quantity)}
+        </p>
+        <button
+          onClick={() => removeItem(product.id)}
+          className="text-xs text-red-600 hover:text-red-700"
+        >
+          {t('cart.remove')}
+        </button>
+      </div>
+    </div>
+  );
+}
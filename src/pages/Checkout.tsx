@@ -0,0 +1,434 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase, DeliveryAddress } from '../lib/supabase';
+import { indianStates } from '../lib/indianStates';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { OrderPaymentMethod } from '../lib/payments';
+import PaymentForm from '../components/PaymentForm';
+import StatusBadge from '../components/StatusBadge';
+
+interface OversoldLine {
+  product_id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+interface PlacedOrder {
+  id: string;
+  farmer_id: string;
+  farmer_name: string;
+  total_amount: number;
+  status: string;
+  payment_method: OrderPaymentMethod;
+}
+
+interface FarmerPaymentOptions {
+  accepts_cod: boolean;
+  accepts_online: boolean;
+}
+
+export default function Checkout() {
+  const { profile } = useAuth();
+  const { t, formatNumber } = useLanguage();
+  const { items, total, groupByFarmer, syncStock, clearCart } = useCart();
+  const [address, setAddress] = useState<DeliveryAddress>({
+    full_name: profile?.full_name || '',
+    phone: profile?.phone || '',
+    address_line: '',
+    district: profile?.district || '',
+    state: profile?.state || '',
+    pincode: '',
+  });
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [oversold, setOversold] = useState<OversoldLine[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [placedOrders, setPlacedOrders] = useState<PlacedOrder[] | null>(null);
+  const [paymentOptions, setPaymentOptions] = useState<Record<string, FarmerPaymentOptions>>({});
+  const [paymentMethods, setPaymentMethods] = useState<Record<string, OrderPaymentMethod>>({});
+
+  const groups = groupByFarmer();
+  const farmerIds = groups.map(group => group.farmer_id).join(',');
+
+  useEffect(() => {
+    if (farmerIds) loadPaymentOptions();
+  }, [farmerIds]);
+
+  const loadPaymentOptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, accepts_cod, accepts_online')
+        .in('id', farmerIds.split(','));
+
+      if (error) throw error;
+      const options: Record<string, FarmerPaymentOptions> = {};
+      const methods: Record<string, OrderPaymentMethod> = {};
+      (data || []).forEach(farmer => {
+        options[farmer.id] = farmer;
+        methods[farmer.id] = farmer.accepts_online ? 'online' : 'cod';
+      });
+      setPaymentOptions(options);
+      setPaymentMethods(current => ({ ...methods, ...current }));
+    } catch (error) {
+      console.error('Error loading payment options:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setOversold([]);
+
+    if (!/^\d{6}$/.test(address.pincode)) {
+      setError(t('checkout.invalidPincode'));
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('place_orders', {
+        p_items: Object.values(items).map(item => ({
+          product_id: item.product.id,
+          quantity: item.quantity,
+        })),
+        p_delivery_address: address,
+        p_notes: notes.trim() || null,
+        p_payment_methods: paymentMethods,
+      });
+
+      if (error) {
+        if (error.message === 'Insufficient stock' && error.details) {
+          const lines: OversoldLine[] = JSON.parse(error.details);
+          lines.forEach(line => syncStock(line.product_id, line.available));
+          setOversold(lines);
+          setError(t('checkout.insufficientStock'));
+          return;
+        }
+        throw error;
+      }
+
+      const farmerNames = Object.fromEntries(groups.map(g => [g.farmer_id, g.farmer_name]));
+      setPlacedOrders((data || []).map((order: any) => ({
+        id: order.id,
+        farmer_id: order.farmer_id,
+        farmer_name: farmerNames[order.farmer_id] || t('role.farmer'),
+        total_amount: Number(order.total_amount),
+        status: order.status,
+        payment_method: order.payment_method,
+      })));
+      clearCart();
+    } catch (err: any) {
+      console.error('Error placing orders:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (placedOrders) {
+    return <OrderConfirmation orders={placedOrders} />;
+  }
+
+  if (profile && profile.role !== 'buyer') {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('checkout.buyersOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <p className="text-gray-600 mb-4">{t('cart.empty')}</p>
+        <Link
+          to="/products"
+          className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors inline-block"
+        >
+          {t('buyer.startShopping')}
+        </Link>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('checkout.title')}</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          <p>{error}</p>
+          {oversold.length > 0 && (
+            <ul className="list-disc list-inside text-sm mt-2">
+              {oversold.map(line => (
+                <li key={line.product_id}>
+                  {t('checkout.oversoldLine', {
+                    name: line.name,
+                    requested: line.requested,
+                    available: line.available,
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('checkout.address')}</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.fullname')}</label>
+              <input
+                type="text"
+                value={address.full_name}
+                onChange={(e) => setAddress({ ...address, full_name: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.phone')}</label>
+              <input
+                type="tel"
+                value={address.phone}
+                onChange={(e) => setAddress({ ...address, phone: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('checkout.addressLine')}</label>
+              <input
+                type="text"
+                value={address.address_line}
+                onChange={(e) => setAddress({ ...address, address_line: e.target.value })}
+                required
+                placeholder={t('checkout.addressPlaceholder')}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.district')}</label>
+              <input
+                type="text"
+                value={address.district}
+                onChange={(e) => setAddress({ ...address, district: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('auth.state')}</label>
+              <select
+                value={address.state}
+                onChange={(e) => setAddress({ ...address, state: e.target.value })}
+                required
+                className={inputClass}
+              >
+                <option value="">{t('auth.selectState')}</option>
+                {indianStates.map(state => (
+                  <option key={state} value={state}>{state}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('checkout.pincode')}</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={address.pincode}
+                onChange={(e) => setAddress({ ...address, pincode: e.target.value })}
+                required
+                maxLength={6}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('checkout.notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 h-fit">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('checkout.summary')}</h2>
+          <p className="text-xs text-gray-600 mb-4">
+            {t('checkout.splitNotice', { count: groups.length })}
+          </p>
+
+          <div className="space-y-4">
+            {groups.map(group => (
+              <div key={group.farmer_id} className="border-b border-gray-100 pb-3">
+                <p className="text-sm font-medium text-gray-900 mb-1">{t('orders.fromFarmer', { name: group.farmer_name })}</p>
+                {group.items.map(item => (
+                  <div key={item.product.id} className="flex justify-between text-xs text-gray-600">
+                    <span>{item.product.name} × {item.quantity} {item.product.unit}</span>
+                    <span>₹{formatNumber(Number(item.product.price) * item.quantity)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-sm font-semibold text-gray-900 mt-1">
+                  <span>{t('cart.subtotal')}</span>
+                  <span>₹{formatNumber(group.subtotal)}</span>
+                </div>
+                <PaymentMethodPicker
+                  farmerId={group.farmer_id}
+                  options={paymentOptions[group.farmer_id]}
+                  value={paymentMethods[group.farmer_id] || 'online'}
+                  onChange={(method) => setPaymentMethods({ ...paymentMethods, [group.farmer_id]: method })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between text-lg font-bold text-green-700 mt-4">
+            <span>{t('orders.total')}</span>
+            <span>₹{formatNumber(total)}</span>
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full mt-6 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? t('loading') : t('checkout.place')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+interface PaymentMethodPickerProps {
+  farmerId: string;
+  options: FarmerPaymentOptions | undefined;
+  value: OrderPaymentMethod;
+  onChange: (method: OrderPaymentMethod) => void;
+}
+
+function PaymentMethodPicker({ farmerId, options, value, onChange }: PaymentMethodPickerProps) {
+  const { t } = useLanguage();
+  const choices: { method: OrderPaymentMethod; label: string; enabled: boolean }[] = [
+    { method: 'online', label: t('payment.online'), enabled: options?.accepts_online ?? true },
+    { method: 'cod', label: t('payment.cod'), enabled: options?.accepts_cod ?? true },
+  ];
+
+  return (
+    <div className="flex gap-4 mt-2">
+      {choices.map(choice => (
+        <label
+          key={choice.method}
+          className={`flex items-center text-xs ${choice.enabled ? 'text-gray-700' : 'text-gray-400'}`}
+        >
+          <input
+            type="radio"
+            name={`payment-${farmerId}`}
+            checked={value === choice.method}
+            disabled={!choice.enabled}
+            onChange={() => onChange(choice.method)}
+            className="h-3 w-3 text-green-600 focus:ring-green-500 mr-1"
+          />
+          {choice.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function OrderConfirmation({ orders }: { orders: PlacedOrder[] }) {
+  const { t, formatNumber } = useLanguage();
+  const onlineOrders = orders.filter(order => order.payment_method === 'online');
+  const [paid, setPaid] = useState(onlineOrders.length === 0);
+  const grandTotal = orders.reduce((sum, order) => sum + order.total_amount, 0);
+  const onlineTotal = onlineOrders.reduce((sum, order) => sum + order.total_amount, 0);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {paid ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
+          <h1 className="text-2xl font-bold text-green-800 mb-2">{t('checkout.confirmed')}</h1>
+          <p className="text-green-700 text-sm">
+            {t('checkout.sent', { count: orders.length })} {t('checkout.shipSeparately')}
+            {onlineOrders.length < orders.length && ` ${t('checkout.keepCash')}`}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6 mb-6">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+            <h1 className="text-2xl font-bold text-yellow-800 mb-2">{t('payment.pending')}</h1>
+            <p className="text-yellow-700 text-sm">
+              {t('checkout.completePayment', { count: onlineOrders.length })}
+            </p>
+          </div>
+          <PaymentForm
+            orderIds={onlineOrders.map(order => order.id)}
+            amount={onlineTotal}
+            onPaid={() => setPaid(true)}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-3">
+        {orders.map(order => (
+          <div key={order.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{t('orders.number', { number: order.id.slice(0, 8) })}</p>
+              <p className="text-xs text-gray-600">{t('orders.fromFarmer', { name: order.farmer_name })}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm font-semibold text-gray-900">
+                ₹{formatNumber(order.total_amount)}
+              </p>
+              <StatusBadge status={order.status} />
+              <p className="text-xs text-gray-600 mt-1">
+                {order.payment_method === 'cod' ? t('payment.cod') : t('payment.online')}
+              </p>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex justify-between border-t pt-3 text-lg font-bold text-gray-900">
+          <span>{t('orders.total')}</span>
+          <span>₹{formatNumber(grandTotal)}</span>
+        </div>
+      </div>
+
+      <div className="mt-6 flex gap-4">
+        <Link
+          to="/dashboard"
+          className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors"
+        >
+          {t('nav.dashboard')}
+        </Link>
+        <Link
+          to="/products"
+          className="bg-gray-100 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          {t('nav.products')}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import TranslationEditor from '../components/TranslationEditor';
+import { markdownToText } from '../lib/markdown';
+
+type ContentType = 'categories' | 'resources';
+
+interface ContentItem {
+  id: string;
+  title: string;
+  body: string | null;
+}
+
+export default function ContentTranslations() {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [items, setItems] = useState<ContentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const type: ContentType = searchParams.get('type') === 'resources' ? 'resources' : 'categories';
+  const selectedId = searchParams.get('id');
+  const selected = items.find(item => item.id === selectedId) || null;
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      setLoading(true);
+      loadItems();
+    }
+  }, [profile?.role, type]);
+
+  const loadItems = async () => {
+    try {
+      if (type === 'categories') {
+        const { data, error } = await supabase
+          .from('product_categories')
+          .select('id, name_en, description')
+          .order('name_en');
+
+        if (error) throw error;
+        setItems((data || []).map(c => ({ id: c.id, title: c.name_en, body: c.description })));
+      } else {
+        const { data, error } = await supabase
+          .from('educational_resources')
+          .select('id, title_en, content_en')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setItems((data || []).map(r => ({ id: r.id, title: r.title_en, body: markdownToText(r.content_en) })));
+      }
+    } catch (error) {
+      console.error('Error loading content:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const select = (next: { type?: ContentType; id?: string }) => {
+    const params = new URLSearchParams();
+    params.set('type', next.type || type);
+    if (next.id) params.set('id', next.id);
+    setSearchParams(params);
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('translations.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('translations.contentTitle')}</h1>
+
+      <div className="flex gap-2 mb-6">
+        {(['categories', 'resources'] as ContentType[]).map(option => (
+          <button
+            key={option}
+            onClick={() => select({ type: option })}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              type === option
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {t(`translations.${option}`)}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-center text-gray-600">{t('loading')}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow divide-y">
+            {items.map(item => (
+              <button
+                key={item.id}
+                onClick={() => select({ id: item.id })}
+                className={`block w-full text-left px-4 py-3 text-sm hover:bg-gray-50 ${
+                  item.id === selectedId ? 'bg-green-50 text-green-700 font-medium' : 'text-gray-800'
+                }`}
+              >
+                {item.title}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 bg-white rounded-lg shadow p-6">
+            {selected ? (
+              <>
+                <p className="text-xs font-medium text-gray-500 uppercase mb-1">English</p>
+                <h2 className="text-xl font-semibold text-gray-800 mb-1">{selected.title}</h2>
+                {selected.body && (
+                  <p className="text-sm text-gray-600 line-clamp-3 mb-4">{selected.body}</p>
+                )}
+
+                <h3 className="text-lg font-semibold text-gray-800 mt-4 mb-2">{t('translations.title')}</h3>
+                {type === 'categories' ? (
+                  <TranslationEditor
+                    table="product_category_translations"
+                    parentColumn="category_id"
+                    parentId={selected.id}
+                    fields={[{ name: 'name', label: t('translations.name') }]}
+                  />
+                ) : (
+                  <TranslationEditor
+                    table="resource_translations"
+                    parentColumn="resource_id"
+                    parentId={selected.id}
+                    fields={[
+                      { name: 'title', label: t('translations.resourceTitle') },
+                      { name: 'content', label: t('translations.resourceContent'), multiline: true },
+                    ]}
+                  />
+                )}
+              </>
+            ) : (
+              <p className="text-gray-600">{t('translations.selectItem')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase, DeliveryAddress } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { OrderStatus, orderStatuses, nextStatuses } from '../lib/orderStatus';
+import { OrderPaymentMethod, processRefund } from '../lib/payments';
+import StatusBadge from '../components/StatusBadge';
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  created_at: string;
+}
+
+interface FarmerOrder {
+  id: string;
+  buyer_id: string;
+  status: OrderStatus;
+  payment_status: string;
+  payment_method: OrderPaymentMethod;
+  total_amount: number;
+  delivery_address: DeliveryAddress;
+  notes: string | null;
+  created_at: string;
+  order_items: {
+    id: string;
+    quantity: number;
+    unit_price: number;
+    subtotal: number;
+    product: {
+      name: string;
+      unit: string;
+    } | null;
+  }[];
+  order_status_history: StatusChange[];
+}
+
+export default function FarmerOrders() {
+  const { user, profile } = useAuth();
+  const { t } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [orders, setOrders] = useState<FarmerOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const status = searchParams.get('status') || '';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+
+  useEffect(() => {
+    if (user) {
+      setLoading(true);
+      loadOrders();
+    }
+  }, [user, searchParams]);
+
+  const loadOrders = async () => {
+    try {
+      let query = supabase
+        .from('orders')
+        .select(`
+          id,
+          buyer_id,
+          status,
+          payment_status,
+          payment_method,
+          total_amount,
+          delivery_address,
+          notes,
+          created_at,
+          order_items (id, quantity, unit_price, subtotal, product:product_id (name, unit)),
+          order_status_history (id, from_status, to_status, created_at)
+        `)
+        .eq('farmer_id', user!.id)
+        .order('created_at', { ascending: false })
+        .order('created_at', { ascending: true, referencedTable: 'order_status_history' });
+
+      if (status) query = query.eq('status', status);
+      if (from) query = query.gte('created_at', new Date(`${from}T00:00:00`).toISOString());
+      if (to) query = query.lte('created_at', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setOrders(data as any || []);
+    } catch (error) {
+      console.error('Error loading orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  if (profile && profile.role !== 'farmer') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('orders.farmersOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('orders.manage')}</h1>
+        <Link to="/dashboard" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('nav.dashboard')}
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-8 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('orders.status')}</label>
+          <select
+            value={status}
+            onChange={(e) => updateFilter('status', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">{t('orders.allStatuses')}</option>
+            {orderStatuses.map(s => (
+              <option key={s} value={s}>{t(`status.${s}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('orders.from')}</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('orders.to')}</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <button
+          onClick={() => setSearchParams(new URLSearchParams())}
+          className="text-sm text-gray-600 hover:text-green-600 font-medium py-2"
+        >
+          {t('products.clearFilters')}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 text-lg">{t('orders.noMatches')}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {orders.map(order => (
+            <OrderCard
+              key={order.id}
+              order={order}
+              onUpdated={loadOrders}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OrderCard({ order, onUpdated }: { order: FarmerOrder; onUpdated: () => void }) {
+  const { t, formatNumber, formatDateTime } = useLanguage();
+  const [error, setError] = useState('');
+  const [updating, setUpdating] = useState(false);
+
+  const changeStatus = async (status: OrderStatus) => {
+    if (status === 'cancelled' && !confirm(t('orders.confirmCancel'))) {
+      return;
+    }
+
+    setError('');
+    setUpdating(true);
+
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status })
+        .eq('id', order.id);
+
+      if (error) throw error;
+      if (status === 'cancelled' && order.payment_status === 'completed') {
+        await processRefund(order.id).catch(error => console.error('Error processing refund:', error));
+      }
+      onUpdated();
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const markPaid = async () => {
+    setError('');
+    setUpdating(true);
+
+    try {
+      const { error } = await supabase.rpc('mark_cod_paid', { p_order_id: order.id });
+      if (error) throw error;
+      onUpdated();
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const canMarkPaid = order.payment_method === 'cod'
+    && order.payment_status !== 'completed'
+    && (order.status === 'shipped' || order.status === 'delivered');
+  const address = order.delivery_address;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <p className="font-semibold text-gray-900">{t('orders.number', { number: order.id.slice(0, 8) })}</p>
+          <p className="text-xs text-gray-600">{formatDateTime(order.created_at)}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold text-gray-900">₹{formatNumber(order.total_amount)}</p>
+          <StatusBadge status={order.status} />
+          <p className="text-xs text-gray-600 mt-1">
+            {order.payment_method === 'cod' ? t('payment.cod') : t('payment.online')}:{' '}
+            {t(`paymentStatus.${order.payment_status}`)}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('orders.items')}</h3>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {order.order_items.map(item => (
+              <li key={item.id} className="flex justify-between">
+                <span>
+                  {item.product?.name || t('farmer.product')} × {item.quantity} {item.product?.unit}
+                  <span className="text-gray-500"> @ ₹{formatNumber(item.unit_price)}</span>
+                </span>
+                <span>₹{formatNumber(item.subtotal)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('checkout.address')}</h3>
+          <div className="text-sm text-gray-700">
+            <p className="font-medium">{address?.full_name}</p>
+            {address?.phone && <p>📞 {address.phone}</p>}
+            <p>{address?.address_line}</p>
+            <p>{address?.district}, {address?.state} - {address?.pincode}</p>
+          </div>
+          {order.notes && (
+            <p className="text-sm text-gray-600 mt-2 italic">“{order.notes}”</p>
+          )}
+          <Link
+            to={`/messages?to=${order.buyer_id}&order=${order.id}`}
+            className="inline-block mt-2 text-sm text-green-600 hover:text-green-700 font-medium"
+          >
+            💬 {t('messages.contactBuyer')}
+          </Link>
+        </div>
+      </div>
+
+      <div className="border-t pt-4 flex flex-col md:flex-row md:justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('orders.history')}</h3>
+          <ol className="text-xs text-gray-600 space-y-1">
+            {order.order_status_history.map(change => (
+              <li key={change.id}>
+                {formatDateTime(change.created_at)} —{' '}
+                {change.from_status
+                  ? `${t(`status.${change.from_status}`)} → ${t(`status.${change.to_status}`)}`
+                  : t(`status.${change.to_status}`)}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {(nextStatuses[order.status].length > 0 || canMarkPaid) && (
+          <div className="flex gap-2 items-start">
+            {canMarkPaid && (
+              <button
+                onClick={markPaid}
+                disabled={updating}
+                className="border border-green-600 text-green-600 px-4 py-2 rounded-lg hover:bg-green-50 transition-colors text-sm disabled:opacity-50"
+              >
+                💵 {t('payment.markPaid')}
+              </button>
+            )}
+            {nextStatuses[order.status].map(next => (
+              <button
+                key={next}
+                onClick={() => changeStatus(next)}
+                disabled={updating}
+                className={next === 'cancelled'
+                  ? 'border border-red-300 text-red-600 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors text-sm disabled:opacity-50'
+                  : 'bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50'}
+              >
+                {t(`orders.action.${next}`)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
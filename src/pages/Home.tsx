@@ -13,8 +13,7 @@ export default function Home() {
           <h1 className="text-5xl font-bold mb-6">{t('app.name')}</h1>
           <p className="text-2xl mb-8">{t('app.tagline')}</p>
           <p className="text-xl max-w-3xl mx-auto mb-10">
-            Connect directly with farmers producing value-added agricultural products.
-            Support rural entrepreneurship and get fresh, authentic products delivered to your door.
+            {t('home.intro')}
           </p>
           {!profile && (
             <div className="space-x-4">
@@ -22,13 +21,13 @@ export default function Home() {
                 to="/signup"
                 className="bg-white text-green-600 px-8 py-3 rounded-lg font-semibold hover:bg-gray-100 transition-colors inline-block"
               >
-                Get Started
+                {t('home.getStarted')}
               </Link>
               <Link
                 to="/products"
                 className="bg-green-700 text-white px-8 py-3 rounded-lg font-semibold hover:bg-green-800 transition-colors inline-block"
               >
-                Browse Products
+                {t('home.browse')}
               </Link>
             </div>
           )}
@@ -38,17 +37,16 @@ export default function Home() {
       <section className="py-16 bg-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <h2 className="text-3xl font-bold text-center text-gray-800 mb-12">
-            How FarmConnect Works
+            {t('home.howItWorks')}
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div className="text-center p-6">
               <div className="bg-green-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <span className="text-3xl">🌾</span>
               </div>
-              <h3 className="text-xl font-semibold mb-2">For Farmers</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.farmers.title')}</h3>
               <p className="text-gray-600">
-                List your value-added products, manage inventory, and reach customers across India.
-                Access educational resources to grow your business.
+                {t('home.farmers.body')}
               </p>
             </div>
 
@@ -56,10 +54,9 @@ export default function Home() {
               <div className="bg-blue-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <span className="text-3xl">🛒</span>
               </div>
-              <h3 className="text-xl font-semibold mb-2">For Buyers</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.buyers.title')}</h3>
               <p className="text-gray-600">
-                Discover authentic agricultural products directly from farmers.
-                Filter by organic, traditional methods, and support local communities.
+                {t('home.buyers.body')}
               </p>
             </div>
 
@@ -67,10 +64,9 @@ export default function Home() {
               <div className="bg-yellow-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <span className="text-3xl">📊</span>
               </div>
-              <h3 className="text-xl font-semibold mb-2">Track Impact</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.impact.title')}</h3>
               <p className="text-gray-600">
-                Monitor sales trends, customer engagement, and measure the economic impact
-                on rural entrepreneurship.
+                {t('home.impact.body')}
               </p>
             </div>
           </div>
@@ -80,23 +76,23 @@ export default function Home() {
       <section className="py-16 bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <h2 className="text-3xl font-bold text-center text-gray-800 mb-12">
-            Product Categories
+            {t('home.categories')}
           </h2>
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
             {[
-              { name: 'Processed Foods', icon: '🍯' },
-              { name: 'Dairy Products', icon: '🧀' },
-              { name: 'Beverages', icon: '🍵' },
-              { name: 'Grains & Flours', icon: '🌾' },
-              { name: 'Handmade Crafts', icon: '🧺' },
-              { name: 'Organic Produce', icon: '🥬' },
+              { key: 'processed', icon: '🍯' },
+              { key: 'dairy', icon: '🧀' },
+              { key: 'beverages', icon: '🍵' },
+              { key: 'grains', icon: '🌾' },
+              { key: 'crafts', icon: '🧺' },
+              { key: 'organic', icon: '🥬' },
             ].map((category) => (
               <div
-                key={category.name}
+                key={category.key}
                 className="bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow text-center"
               >
                 <div className="text-4xl mb-2">{category.icon}</div>
-                <div className="text-sm font-medium text-gray-800">{category.name}</div>
+                <div className="text-sm font-medium text-gray-800">{t(`home.category.${category.key}`)}</div>
               </div>
             ))}
           </div>
@@ -105,17 +101,16 @@ export default function Home() {
 
       <section className="py-16 bg-green-600 text-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
-          <h2 className="text-3xl font-bold mb-6">Join the FarmConnect Community</h2>
+          <h2 className="text-3xl font-bold mb-6">{t('home.join.title')}</h2>
           <p className="text-xl mb-8 max-w-2xl mx-auto">
-            Whether you're a farmer looking to expand your market or a buyer seeking authentic products,
-            FarmConnect is your platform for rural entrepreneurship.
+            {t('home.join.body')}
           </p>
           {!profile && (
             <Link
               to="/signup"
               className="bg-white text-green-600 px-8 py-3 rounded-lg font-semibold hover:bg-gray-100 transition-colors inline-block"
             >
-              Sign Up Now
+              {t('home.signUpNow')}
             </Link>
           )}
         </div>
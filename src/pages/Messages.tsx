@@ -1,35 +1,150 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useUnreadMessages } from '../contexts/UnreadMessagesContext';
+import { useOffline } from '../contexts/OfflineContext';
+import { getProductImages } from '../lib/productImages';
+import {
+  getAttachmentUrls,
+  MessageAttachment,
+  uploadMessageImage,
+  uploadVoiceNote,
+} from '../lib/messageAttachments';
+import { isNetworkError } from '../lib/offline';
+import { MessageWrite, messageWrite } from '../lib/offlineQueue';
+import ProductImage from '../components/ProductImage';
+import StatusBadge from '../components/StatusBadge';
+import VoiceRecorder from '../components/VoiceRecorder';
+
+interface Participant {
+  id: string;
+  full_name: string;
+  role: string;
+}
 
 interface Message {
   id: string;
+  sender_id: string;
+  receiver_id: string;
+  product_id: string | null;
+  order_id: string | null;
   content: string;
   is_read: boolean;
   created_at: string;
-  sender: {
-    id: string;
-    full_name: string;
-    role: string;
-  };
-  receiver: {
-    id: string;
-    full_name: string;
-    role: string;
-  };
+  attachment_type: MessageAttachment['attachment_type'] | null;
+  attachment_path: string | null;
+  attachment_thumbnail_path: string | null;
+  attachment_duration: number | null;
+  sender: Participant | null;
+  receiver: Participant | null;
+  product: { name: string } | null;
+}
+
+// A conversation with one person, optionally about one product or order.
+interface ThreadScope {
+  counterpartId: string;
+  productId: string | null;
+  orderId: string | null;
+}
+
+interface Thread extends ThreadScope {
+  key: string;
+  counterpart: Participant;
+  productName: string | null;
+  messages: Message[];
+  unread: number;
+  lastMessage: Message;
+}
+
+function messagePreview(message: Message, t: (key: string) => string) {
+  if (message.content) return message.content;
+  return message.attachment_type === 'audio' ? t('messages.voiceNote') : t('messages.photo');
+}
+
+function threadKey({ counterpartId, productId, orderId }: ThreadScope) {
+  return [counterpartId, productId || '', orderId || ''].join(':');
+}
+
+function groupThreads(messages: Message[], userId: string): Thread[] {
+  const threads: Record<string, Thread> = {};
+
+  messages.forEach(message => {
+    const incoming = message.receiver_id === userId;
+    const counterpart = incoming ? message.sender : message.receiver;
+    const scope = {
+      counterpartId: incoming ? message.sender_id : message.receiver_id,
+      productId: message.product_id,
+      orderId: message.order_id,
+    };
+    const key = threadKey(scope);
+
+    if (!threads[key]) {
+      threads[key] = {
+        ...scope,
+        key,
+        counterpart: counterpart || { id: scope.counterpartId, full_name: '', role: '' },
+        productName: message.product?.name || null,
+        messages: [],
+        unread: 0,
+        lastMessage: message,
+      };
+    }
+
+    const thread = threads[key];
+    thread.messages.push(message);
+    if (incoming && !message.is_read) thread.unread += 1;
+    if (message.created_at > thread.lastMessage.created_at) thread.lastMessage = message;
+  });
+
+  return Object.values(threads).sort((a, b) =>
+    b.lastMessage.created_at.localeCompare(a.lastMessage.created_at)
+  );
 }
 
 export default function Messages() {
   const { user } = useAuth();
   const { t } = useLanguage();
+  const { unreadCount, refreshUnread } = useUnreadMessages();
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [newCounterpart, setNewCounterpart] = useState<Participant | null>(null);
+  const [filter, setFilter] = useState('');
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+
+  const selectedId = searchParams.get('to');
+  const selectedScope: ThreadScope | null = selectedId
+    ? {
+        counterpartId: selectedId,
+        productId: searchParams.get('product'),
+        orderId: searchParams.get('order'),
+      }
+    : null;
 
   useEffect(() => {
-    if (user) {
-      loadMessages();
-    }
+    if (!user) return;
+    loadMessages();
+
+    const reload = () => loadMessages();
+    const channel = supabase
+      .channel(`messages-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${user.id}` },
+        reload
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages', filter: `sender_id=eq.${user.id}` },
+        reload
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [user]);
 
   const loadMessages = async () => {
@@ -38,17 +153,27 @@ export default function Messages() {
         .from('messages')
         .select(`
           id,
+          sender_id,
+          receiver_id,
+          product_id,
+          order_id,
           content,
           is_read,
           created_at,
+          attachment_type,
+          attachment_path,
+          attachment_thumbnail_path,
+          attachment_duration,
           sender:sender_id (id, full_name, role),
-          receiver:receiver_id (id, full_name, role)
+          receiver:receiver_id (id, full_name, role),
+          product:product_id (name)
         `)
         .or(`sender_id.eq.${user!.id},receiver_id.eq.${user!.id}`)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
       setMessages(data as any || []);
+      loadAttachmentUrls(data as any || []);
     } catch (error) {
       console.error('Error loading messages:', error);
     } finally {
@@ -56,46 +181,184 @@ export default function Messages() {
     }
   };
 
+  const loadAttachmentUrls = async (loaded: Message[]) => {
+    const missing = loaded
+      .flatMap(message => [message.attachment_path, message.attachment_thumbnail_path])
+      .filter((path): path is string => Boolean(path) && !attachmentUrls[path!]);
+
+    try {
+      const urls = await getAttachmentUrls(missing);
+      setAttachmentUrls(current => ({ ...current, ...urls }));
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  };
+
+  const threads = groupThreads(messages, user?.id || '');
+  const selectedThread = selectedScope
+    ? threads.find(thread => thread.key === threadKey(selectedScope))
+    : undefined;
+
+  useEffect(() => {
+    if (!selectedId || selectedThread) {
+      setNewCounterpart(null);
+      return;
+    }
+
+    supabase
+      .from('user_profiles')
+      .select('id, full_name, role')
+      .eq('id', selectedId)
+      .maybeSingle()
+      .then(({ data }) => setNewCounterpart(data));
+  }, [selectedId, Boolean(selectedThread)]);
+
+  useEffect(() => {
+    if (selectedThread && selectedThread.unread > 0) {
+      markThreadRead(selectedThread);
+    }
+  }, [selectedThread?.key, selectedThread?.unread]);
+
+  const markThreadRead = async (thread: Thread) => {
+    let query = supabase
+      .from('messages')
+      .update({ is_read: true })
+      .eq('sender_id', thread.counterpartId)
+      .eq('receiver_id', user!.id)
+      .eq('is_read', false);
+
+    query = thread.productId ? query.eq('product_id', thread.productId) : query.is('product_id', null);
+    query = thread.orderId ? query.eq('order_id', thread.orderId) : query.is('order_id', null);
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error marking messages as read:', error);
+      return;
+    }
+
+    setMessages(current => current.map(message =>
+      thread.messages.some(m => m.id === message.id) && message.receiver_id === user!.id
+        ? { ...message, is_read: true }
+        : message
+    ));
+    refreshUnread();
+  };
+
+  const selectThread = (thread: Thread) => {
+    const next = new URLSearchParams({ to: thread.counterpartId });
+    if (thread.productId) next.set('product', thread.productId);
+    if (thread.orderId) next.set('order', thread.orderId);
+    setSearchParams(next);
+  };
+
+  const productFilters = new Map<string, string>();
+  const orderFilters = new Set<string>();
+  threads.forEach(thread => {
+    if (thread.productId) productFilters.set(thread.productId, thread.productName || t('farmer.product'));
+    if (thread.orderId) orderFilters.add(thread.orderId);
+  });
+
+  const visibleThreads = threads.filter(thread => {
+    if (!filter) return true;
+    const [kind, id] = filter.split(':');
+    return kind === 'product' ? thread.productId === id : thread.orderId === id;
+  });
+
   if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
 
-  const sentMessages = messages.filter(m => (m.sender as any)?.id === user?.id);
-  const receivedMessages = messages.filter(m => (m.receiver as any)?.id === user?.id);
-  const unreadCount = receivedMessages.filter(m => !m.is_read).length;
+  const counterpart = selectedThread?.counterpart || newCounterpart;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-800 mb-2">{t('nav.messages')}</h1>
         {unreadCount > 0 && (
-          <p className="text-gray-600">
-            You have <span className="font-semibold text-green-600">{unreadCount}</span> unread message{unreadCount !== 1 ? 's' : ''}
-          </p>
+          <p className="text-gray-600">{t('messages.youHaveUnread', { count: unreadCount })}</p>
         )}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Received Messages</h2>
-          {receivedMessages.length === 0 ? (
-            <p className="text-gray-600 text-sm">No messages received yet.</p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white rounded-lg shadow p-4 h-fit">
+          <h2 className="text-lg font-semibold text-gray-800 mb-3 px-2">{t('messages.conversations')}</h2>
+          {(productFilters.size > 0 || orderFilters.size > 0) && (
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full px-3 py-2 mb-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">{t('messages.allConversations')}</option>
+              {productFilters.size > 0 && (
+                <optgroup label={t('nav.products')}>
+                  {[...productFilters].map(([id, name]) => (
+                    <option key={id} value={`product:${id}`}>{name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {orderFilters.size > 0 && (
+                <optgroup label={t('orders.title')}>
+                  {[...orderFilters].map(id => (
+                    <option key={id} value={`order:${id}`}>{t('orders.number', { number: id.slice(0, 8) })}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          )}
+          {visibleThreads.length === 0 ? (
+            <p className="text-gray-600 text-sm px-2">{t('messages.none')}</p>
           ) : (
-            <div className="space-y-3">
-              {receivedMessages.map(message => (
-                <MessageCard key={message.id} message={message} type="received" />
+            <ul className="space-y-1">
+              {visibleThreads.map(thread => (
+                <li key={thread.key}>
+                  <button
+                    onClick={() => selectThread(thread)}
+                    className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                      thread.key === selectedThread?.key ? 'bg-green-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <p className="font-medium text-gray-900 text-sm">
+                        {thread.counterpart.full_name || t('messages.unknownUser')}
+                        {thread.counterpart.role && (
+                          <span className="text-xs text-gray-500"> ({t(`role.${thread.counterpart.role}`)})</span>
+                        )}
+                      </p>
+                      {thread.unread > 0 && (
+                        <span className="bg-green-600 text-white text-xs px-2 py-0.5 rounded-full">
+                          {thread.unread}
+                        </span>
+                      )}
+                    </div>
+                    {(thread.productId || thread.orderId) && (
+                      <p className="text-xs text-green-700 truncate">
+                        {thread.productId
+                          ? `📦 ${thread.productName || t('farmer.product')}`
+                          : `🧾 ${t('orders.number', { number: thread.orderId!.slice(0, 8) })}`}
+                      </p>
+                    )}
+                    <p className={`text-xs truncate ${thread.unread > 0 ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                      {thread.lastMessage.sender_id === user?.id && t('messages.you')}
+                      {messagePreview(thread.lastMessage, t)}
+                    </p>
+                  </button>
+                </li>
               ))}
-            </div>
+            </ul>
           )}
         </div>
 
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Sent Messages</h2>
-          {sentMessages.length === 0 ? (
-            <p className="text-gray-600 text-sm">No messages sent yet.</p>
+        <div className="lg:col-span-2 bg-white rounded-lg shadow flex flex-col min-h-[28rem]">
+          {counterpart && selectedScope ? (
+            <ConversationView
+              counterpart={counterpart}
+              scope={selectedScope}
+              messages={selectedThread?.messages || []}
+              attachmentUrls={attachmentUrls}
+              onSent={loadMessages}
+            />
           ) : (
-            <div className="space-y-3">
-              {sentMessages.map(message => (
-                <MessageCard key={message.id} message={message} type="sent" />
-              ))}
+            <div className="flex-1 flex items-center justify-center text-gray-600 text-sm p-8">
+              {t('messages.select')}
             </div>
           )}
         </div>
@@ -104,35 +367,325 @@ export default function Messages() {
   );
 }
 
-function MessageCard({ message, type }: { message: Message; type: 'sent' | 'received' }) {
-  const otherUser = type === 'received' ? message.sender : message.receiver;
+interface ConversationViewProps {
+  counterpart: Participant;
+  scope: ThreadScope;
+  messages: Message[];
+  attachmentUrls: Record<string, string>;
+  onSent: () => void;
+}
+
+function ConversationView({ counterpart, scope, messages, attachmentUrls, onSent }: ConversationViewProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { online, writes, queueWrite } = useOffline();
+  const [content, setContent] = useState('');
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const queued = writes.filter((write): write is MessageWrite =>
+    write.kind === 'message' &&
+    write.receiverId === counterpart.id &&
+    write.productId === scope.productId &&
+    write.orderId === scope.orderId
+  );
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, queued.length, counterpart.id]);
+
+  const queueText = () => {
+    queueWrite(messageWrite(user!.id, counterpart, scope, content.trim()));
+    setContent('');
+  };
+
+  // Attachments are sent straight away, with whatever is typed as the caption.
+  // Text waits in the offline queue when there is no connection; attachments
+  // have to be uploaded first, so they need one.
+  const send = async (attachment?: () => Promise<MessageAttachment>) => {
+    setError('');
+    if (!online) {
+      if (attachment) {
+        setError(t('offline.attachmentsNeedNetwork'));
+      } else {
+        queueText();
+      }
+      return;
+    }
+
+    setSending(true);
+
+    try {
+      const { error } = await supabase.from('messages').insert({
+        sender_id: user!.id,
+        receiver_id: counterpart.id,
+        product_id: scope.productId,
+        order_id: scope.orderId,
+        content: content.trim(),
+        ...(attachment ? await attachment() : {}),
+      });
+
+      if (error && !attachment && isNetworkError(error)) {
+        queueText();
+        return;
+      }
+      if (error) throw error;
+      setContent('');
+      onSent();
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send();
+  };
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError(t('messages.imageOnly'));
+      return;
+    }
+    send(() => uploadMessageImage(user!.id, counterpart.id, file));
+  };
 
   return (
-    <div className={`border rounded-lg p-4 ${!message.is_read && type === 'received' ? 'bg-green-50 border-green-200' : 'border-gray-200'}`}>
-      <div className="flex justify-between items-start mb-2">
-        <div>
-          <p className="font-medium text-gray-900">
-            {type === 'received' ? 'From' : 'To'}: {(otherUser as any)?.full_name || 'User'}
-          </p>
-          <p className="text-xs text-gray-600">
-            {(otherUser as any)?.role && `(${(otherUser as any).role})`}
-          </p>
+    <>
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="text-lg font-semibold text-gray-800">{counterpart.full_name || t('messages.unknownUser')}</h2>
+        {(scope.productId || scope.orderId) && (
+          <ThreadContextCard productId={scope.productId} orderId={scope.orderId} />
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3 max-h-[32rem]">
+        {messages.length === 0 && queued.length === 0 ? (
+          <p className="text-gray-600 text-sm text-center">{t('messages.sayHello')}</p>
+        ) : (
+          messages.map(message => (
+            <MessageCard
+              key={message.id}
+              message={message}
+              own={message.sender_id === user?.id}
+              attachmentUrls={attachmentUrls}
+            />
+          ))
+        )}
+        {queued.map(write => (
+          <div key={write.id} className="flex justify-end">
+            <div className="max-w-[75%] rounded-lg px-4 py-2 bg-green-600 text-white opacity-75">
+              <p className="text-sm whitespace-pre-wrap break-words">{write.content}</p>
+              <p className="text-xs mt-1 text-green-100">
+                {write.conflict ? `⚠️ ${t('offline.notSent')}` : `⏳ ${t('offline.queued')}`}
+              </p>
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="border-t border-gray-200 p-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+        <div className="flex gap-3">
+          <div className="flex flex-col gap-2">
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handlePhoto}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => photoInputRef.current?.click()}
+              disabled={sending}
+              title={t('messages.sendPhoto')}
+              className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              📷
+            </button>
+            <VoiceRecorder
+              disabled={sending}
+              onRecorded={(recording, duration) =>
+                send(() => uploadVoiceNote(user!.id, counterpart.id, recording, duration))
+              }
+              onError={setError}
+            />
+          </div>
+          <textarea
+            rows={2}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            placeholder={t('messages.placeholder')}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={sending || !content.trim()}
+            className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 h-fit self-end"
+          >
+            {sending ? t('loading') : t('messages.send')}
+          </button>
         </div>
-        <span className="text-xs text-gray-500">
-          {new Date(message.created_at).toLocaleDateString('en-IN', {
+      </form>
+    </>
+  );
+}
+
+interface ProductContext {
+  id: string;
+  name: string;
+  price: number;
+  unit: string;
+  images: any;
+}
+
+interface OrderContext {
+  id: string;
+  buyer_id: string;
+  status: string;
+  total_amount: number;
+  created_at: string;
+}
+
+function ThreadContextCard({ productId, orderId }: { productId: string | null; orderId: string | null }) {
+  const { t, formatNumber, formatDate } = useLanguage();
+  const { user } = useAuth();
+  const [product, setProduct] = useState<ProductContext | null>(null);
+  const [order, setOrder] = useState<OrderContext | null>(null);
+
+  useEffect(() => {
+    setProduct(null);
+    if (!productId) return;
+
+    supabase
+      .from('products')
+      .select('id, name, price, unit, images')
+      .eq('id', productId)
+      .maybeSingle()
+      .then(({ data }) => setProduct(data));
+  }, [productId]);
+
+  useEffect(() => {
+    setOrder(null);
+    if (!orderId) return;
+
+    supabase
+      .from('orders')
+      .select('id, buyer_id, status, total_amount, created_at')
+      .eq('id', orderId)
+      .maybeSingle()
+      .then(({ data }) => setOrder(data));
+  }, [orderId]);
+
+  return (
+    <div className="mt-3 space-y-2">
+      {product && (
+        <Link
+          to={`/products/${product.id}`}
+          className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <ProductImage
+            src={getProductImages(product.images)[0]}
+            alt={product.name}
+            className="w-12 h-12 rounded"
+          />
+          <div>
+            <p className="text-sm font-medium text-gray-900">{product.name}</p>
+            <p className="text-xs text-green-700 font-semibold">
+              ₹{formatNumber(product.price)} / {product.unit}
+            </p>
+          </div>
+        </Link>
+      )}
+      {order && (
+        <Link
+          to={order.buyer_id === user?.id ? `/orders/${order.id}` : '/farmer/orders'}
+          className="flex items-center justify-between p-2 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <div>
+            <p className="text-sm font-medium text-gray-900">{t('orders.number', { number: order.id.slice(0, 8) })}</p>
+            <p className="text-xs text-gray-600">
+              {formatDate(order.created_at)} · ₹{formatNumber(order.total_amount)}
+            </p>
+          </div>
+          <StatusBadge status={order.status} />
+        </Link>
+      )}
+    </div>
+  );
+}
+
+interface MessageCardProps {
+  message: Message;
+  own: boolean;
+  attachmentUrls: Record<string, string>;
+}
+
+function MessageCard({ message, own, attachmentUrls }: MessageCardProps) {
+  const { t, formatDate } = useLanguage();
+  const fullUrl = message.attachment_path ? attachmentUrls[message.attachment_path] : undefined;
+  const thumbnailUrl = message.attachment_thumbnail_path
+    ? attachmentUrls[message.attachment_thumbnail_path]
+    : fullUrl;
+
+  return (
+    <div className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[75%] rounded-lg px-4 py-2 ${own ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+        {message.attachment_type === 'image' && (
+          thumbnailUrl ? (
+            <a href={fullUrl} target="_blank" rel="noreferrer" className="block mb-1">
+              <img src={thumbnailUrl} alt={t('messages.photoAlt')} loading="lazy" className="rounded max-w-full max-h-60" />
+            </a>
+          ) : (
+            <div className="w-40 h-28 rounded bg-black/10 mb-1" />
+          )
+        )}
+        {message.attachment_type === 'audio' && (
+          <div className="mb-1">
+            {fullUrl ? (
+              <audio controls preload="metadata" src={fullUrl} className="max-w-full" />
+            ) : (
+              <p className="text-sm">{t('messages.voiceNote')}</p>
+            )}
+            {message.attachment_duration && (
+              <p className={`text-xs ${own ? 'text-green-100' : 'text-gray-500'}`}>
+                {Math.floor(message.attachment_duration / 60)}:{String(message.attachment_duration % 60).padStart(2, '0')}
+              </p>
+            )}
+          </div>
+        )}
+        {message.content && (
+          <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+        )}
+        <p className={`text-xs mt-1 ${own ? 'text-green-100' : 'text-gray-500'}`}>
+          {formatDate(message.created_at, {
             month: 'short',
             day: 'numeric',
             hour: '2-digit',
             minute: '2-digit'
           })}
-        </span>
+          {own && message.is_read && ` · ${t('messages.seen')}`}
+        </p>
       </div>
-      <p className="text-sm text-gray-700">{message.content}</p>
-      {!message.is_read && type === 'received' && (
-        <span className="inline-block mt-2 text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-          Unread
-        </span>
-      )}
     </div>
   );
 }
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase, DeliveryAddress } from '../lib/supabase';
+import { useLanguage } from '../contexts/LanguageContext';
+import { OrderStatus } from '../lib/orderStatus';
+import { OrderPaymentMethod, processRefund } from '../lib/payments';
+import StatusBadge from '../components/StatusBadge';
+import PaymentForm from '../components/PaymentForm';
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: OrderStatus;
+  created_at: string;
+}
+
+interface OrderDetails {
+  id: string;
+  farmer_id: string;
+  status: OrderStatus;
+  payment_status: string;
+  payment_method: OrderPaymentMethod;
+  total_amount: number;
+  delivery_address: DeliveryAddress;
+  notes: string | null;
+  created_at: string;
+  farmer: {
+    full_name: string;
+    district: string | null;
+    state: string | null;
+  } | null;
+  order_items: {
+    id: string;
+    product_id: string;
+    quantity: number;
+    unit_price: number;
+    subtotal: number;
+    product: {
+      name: string;
+      unit: string;
+    } | null;
+  }[];
+  order_status_history: StatusChange[];
+}
+
+const fulfilmentSteps: OrderStatus[] = ['pending', 'confirmed', 'shipped', 'delivered'];
+
+export default function OrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { t, formatNumber } = useLanguage();
+  const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadOrder();
+  }, [id]);
+
+  const loadOrder = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          id,
+          farmer_id,
+          status,
+          payment_status,
+          payment_method,
+          total_amount,
+          delivery_address,
+          notes,
+          created_at,
+          farmer:farmer_id (full_name, district, state),
+          order_items (id, product_id, quantity, unit_price, subtotal, product:product_id (name, unit)),
+          order_status_history (id, from_status, to_status, created_at)
+        `)
+        .eq('id', id!)
+        .order('created_at', { ascending: true, referencedTable: 'order_status_history' })
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrder(data as any);
+    } catch (error) {
+      console.error('Error loading order:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(t('orders.confirmBuyerCancel'))) return;
+
+    setError('');
+    setCancelling(true);
+
+    try {
+      const { error } = await supabase.rpc('cancel_order', { p_order_id: order!.id });
+      if (error) throw error;
+      if (order!.payment_status === 'completed') {
+        await processRefund(order!.id).catch(error => console.error('Error processing refund:', error));
+      }
+      await loadOrder();
+    } catch (err: any) {
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+
+  if (!order) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <p className="text-gray-600 text-lg mb-4">{t('orders.notFound')}</p>
+        <Link to="/dashboard" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('nav.dashboard')}
+        </Link>
+      </div>
+    );
+  }
+
+  const address = order.delivery_address;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link to="/dashboard" className="text-sm text-green-600 hover:text-green-700 font-medium">
+        ← {t('nav.dashboard')}
+      </Link>
+
+      <div className="flex justify-between items-start mt-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">{t('orders.number', { number: order.id.slice(0, 8) })}</h1>
+          <p className="text-sm text-gray-600">
+            {t('orders.fromFarmer', { name: order.farmer?.full_name || t('role.farmer') })}
+            {order.farmer?.state && ` · ${order.farmer.district ? `${order.farmer.district}, ` : ''}${order.farmer.state}`}
+          </p>
+        </div>
+        <StatusBadge status={order.status} />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('orders.items')}</h2>
+            <ul className="divide-y divide-gray-200">
+              {order.order_items.map(item => (
+                <li key={item.id} className="py-3 flex justify-between text-sm">
+                  <div>
+                    <Link to={`/products/${item.product_id}`} className="font-medium text-gray-900 hover:text-green-600">
+                      {item.product?.name || t('farmer.product')}
+                    </Link>
+                    <p className="text-gray-600">
+                      {item.quantity} {item.product?.unit} × ₹{formatNumber(item.unit_price)}
+                    </p>
+                  </div>
+                  <p className="font-medium text-gray-900">₹{formatNumber(item.subtotal)}</p>
+                </li>
+              ))}
+            </ul>
+            <div className="border-t pt-3 flex justify-between font-semibold text-gray-900">
+              <span>{t('orders.total')}</span>
+              <span>₹{formatNumber(order.total_amount)}</span>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('orders.history')}</h2>
+            <StatusTimeline status={order.status} history={order.order_status_history} />
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-700">
+            <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('checkout.address')}</h2>
+            <p className="font-medium">{address?.full_name}</p>
+            {address?.phone && <p>📞 {address.phone}</p>}
+            <p>{address?.address_line}</p>
+            <p>{address?.district}, {address?.state} - {address?.pincode}</p>
+            {order.notes && <p className="text-gray-600 mt-2 italic">“{order.notes}”</p>}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-700">
+            <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('orders.payment')}</h2>
+            <p>{order.payment_method === 'cod' ? t('payment.cod') : t('payment.online')}</p>
+            <p>{t(`paymentStatus.${order.payment_status}`)}</p>
+            {order.status === 'cancelled' && order.payment_status === 'completed' && (
+              <p className="text-gray-600 mt-1">{t('orders.refundProcessing')}</p>
+            )}
+          </div>
+
+          {order.payment_method === 'online' && order.status !== 'cancelled' &&
+            ['pending', 'failed'].includes(order.payment_status) && (
+            <PaymentForm
+              orderIds={[order.id]}
+              amount={Number(order.total_amount)}
+              onPaid={loadOrder}
+            />
+          )}
+
+          <div className="space-y-3">
+            <Link
+              to={`/messages?to=${order.farmer_id}&order=${order.id}`}
+              className="block text-center bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+            >
+              💬 {t('orders.messageFarmer')}
+            </Link>
+            {order.status === 'pending' && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="w-full border border-red-300 text-red-600 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                {cancelling ? t('loading') : t('orders.cancel')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatusTimeline({ status, history }: { status: OrderStatus; history: StatusChange[] }) {
+  const { t, formatDateTime } = useLanguage();
+  const reachedAt = (step: OrderStatus) =>
+    history.find(change => change.to_status === step)?.created_at;
+
+  const steps = status === 'cancelled'
+    ? [...fulfilmentSteps.filter(step => reachedAt(step)), 'cancelled' as OrderStatus]
+    : fulfilmentSteps;
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {steps.map(step => {
+        const timestamp = reachedAt(step);
+        const done = Boolean(timestamp);
+        const dotColor = !done
+          ? 'bg-gray-200'
+          : step === 'cancelled' ? 'bg-red-500' : 'bg-green-500';
+
+        return (
+          <li key={step} className="mb-6 ml-4 last:mb-0">
+            <span className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full ${dotColor}`} />
+            <p className={`text-sm font-medium ${done ? 'text-gray-900' : 'text-gray-400'}`}>
+              {t(`orders.step.${step}`)}
+            </p>
+            {timestamp && (
+              <p className="text-xs text-gray-600">
+                {formatDateTime(timestamp, {
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,520 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { getProductImages } from '../lib/productImages';
+import {
+  CategoryTranslation,
+  ProductTranslation,
+  categoryName as localizedCategoryName,
+  categoryTranslationsSelect,
+  findTranslation,
+  productTranslationsSelect,
+} from '../lib/translations';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import ProductGallery from '../components/ProductGallery';
+import ProductImage from '../components/ProductImage';
+import AddToCartButton from '../components/AddToCartButton';
+
+const REVIEWS_PER_PAGE = 5;
+
+interface ProductDetails {
+  id: string;
+  farmer_id: string;
+  category_id: string | null;
+  name: string;
+  description: string;
+  price: number;
+  unit: string;
+  stock_quantity: number;
+  images: any;
+  is_organic: boolean;
+  is_traditional: boolean;
+  processing_method: string | null;
+  shelf_life_days: number | null;
+  tags: string[];
+  average_rating: number;
+  review_count: number;
+  farmer: {
+    full_name: string;
+    state: string | null;
+    district: string | null;
+  } | null;
+  category: {
+    name_en: string;
+    translations: CategoryTranslation[];
+  } | null;
+  translations: ProductTranslation[];
+}
+
+interface RelatedProduct {
+  id: string;
+  name: string;
+  price: number;
+  unit: string;
+  images: any;
+  translations: Pick<ProductTranslation, 'language' | 'name'>[];
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  is_verified_purchase: boolean;
+  farmer_reply: string | null;
+  farmer_replied_at: string | null;
+  created_at: string;
+}
+
+export default function ProductDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { t, language, formatNumber } = useLanguage();
+  const { user } = useAuth();
+  const [product, setProduct] = useState<ProductDetails | null>(null);
+  const [fromFarmer, setFromFarmer] = useState<RelatedProduct[]>([]);
+  const [sameCategory, setSameCategory] = useState<RelatedProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    loadProduct();
+  }, [id]);
+
+  const loadProduct = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select(`
+          id,
+          farmer_id,
+          category_id,
+          name,
+          description,
+          price,
+          unit,
+          stock_quantity,
+          images,
+          is_organic,
+          is_traditional,
+          processing_method,
+          shelf_life_days,
+          tags,
+          average_rating,
+          review_count,
+          farmer:farmer_id (full_name, state, district),
+          category:category_id (name_en, ${categoryTranslationsSelect}),
+          ${productTranslationsSelect}
+        `)
+        .eq('id', id!)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      setProduct(data as any);
+      if (!data) return;
+
+      const relatedFields = 'id, name, price, unit, images, translations:product_translations(language, name)';
+      const [farmerRes, categoryRes] = await Promise.all([
+        supabase
+          .from('products')
+          .select(relatedFields)
+          .eq('farmer_id', data.farmer_id)
+          .eq('is_active', true)
+          .neq('id', data.id)
+          .limit(4),
+        data.category_id
+          ? supabase
+              .from('products')
+              .select(relatedFields)
+              .eq('category_id', data.category_id)
+              .eq('is_active', true)
+              .neq('farmer_id', data.farmer_id)
+              .gt('stock_quantity', 0)
+              .limit(4)
+          : Promise.resolve({ data: [] as RelatedProduct[] }),
+      ]);
+
+      setFromFarmer(farmerRes.data || []);
+      setSameCategory(categoryRes.data || []);
+    } catch (error) {
+      console.error('Error loading product:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: product?.name, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+    } catch (error) {
+      console.error('Error sharing product:', error);
+    }
+  };
+
+  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+
+  if (!product) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <p className="text-gray-600 text-lg mb-4">{t('products.unavailable')}</p>
+        <Link to="/products" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('nav.products')}
+        </Link>
+      </div>
+    );
+  }
+
+  const categoryName = product.category
+    ? localizedCategoryName(product.category, language)
+    : t('farmer.product');
+  const translation = findTranslation(product.translations, language);
+  const name = translation?.name || product.name;
+  const description = translation?.description || product.description;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center">
+        <Link to="/products" className="text-sm text-green-600 hover:text-green-700 font-medium">
+          ← {t('nav.products')}
+        </Link>
+        <button onClick={handleShare} className="text-sm text-gray-600 hover:text-green-600 font-medium">
+          {copied ? t('products.linkCopied') : t('products.share')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mt-4">
+        <ProductGallery images={getProductImages(product.images)} alt={name} />
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600 mb-1">{categoryName}</p>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{name}</h1>
+
+          {product.review_count > 0 ? (
+            <p className="text-sm text-gray-700 mb-3">
+              <Stars rating={Number(product.average_rating)} /> {Number(product.average_rating).toFixed(1)}{' '}
+              {t('products.reviewCount', { count: product.review_count })}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500 mb-3">{t('reviews.none')}</p>
+          )}
+
+          <div className="flex gap-2 mb-4">
+            {product.is_organic && (
+              <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
+                {t('products.organic')}
+              </span>
+            )}
+            {product.is_traditional && (
+              <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded">
+                {t('products.traditional')}
+              </span>
+            )}
+          </div>
+
+          <p className="text-3xl font-bold text-green-600">
+            ₹{formatNumber(product.price)}
+          </p>
+          <p className="text-sm text-gray-600 mb-4">
+            {t('products.perUnitStock', { unit: product.unit, stock: product.stock_quantity })}
+          </p>
+
+          <p className="text-gray-700 whitespace-pre-line mb-4">{description}</p>
+
+          <dl className="grid grid-cols-2 gap-2 text-sm mb-4">
+            {product.processing_method && (
+              <>
+                <dt className="text-gray-600">{t('products.processing')}</dt>
+                <dd className="text-gray-900">{product.processing_method}</dd>
+              </>
+            )}
+            {product.shelf_life_days != null && (
+              <>
+                <dt className="text-gray-600">{t('products.shelfLife')}</dt>
+                <dd className="text-gray-900">{product.shelf_life_days}</dd>
+              </>
+            )}
+          </dl>
+
+          {product.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {product.tags.map(tag => (
+                <span key={tag} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-3">
+            <p className="text-sm text-gray-700">
+              {t('orders.fromFarmer', { name: product.farmer?.full_name || t('role.farmer') })}
+            </p>
+            <p className="text-xs text-gray-500">
+              {[product.farmer?.district, product.farmer?.state || t('products.india')].filter(Boolean).join(', ')}
+            </p>
+          </div>
+
+          <AddToCartButton
+            product={{
+              id: product.id,
+              name: product.name,
+              price: Number(product.price),
+              unit: product.unit,
+              stock_quantity: product.stock_quantity,
+              farmer_id: product.farmer_id,
+              farmer_name: product.farmer?.full_name || t('role.farmer'),
+            }}
+          />
+
+          {user?.id !== product.farmer_id && (
+            <Link
+              to={`/messages?to=${product.farmer_id}&product=${product.id}`}
+              className="block w-full mt-3 text-center border border-green-600 text-green-600 py-2 rounded-lg hover:bg-green-50 transition-colors text-sm"
+            >
+              💬 {t('messages.askFarmer')}
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <ProductReviews productId={product.id} farmerId={product.farmer_id} />
+
+      {fromFarmer.length > 0 && (
+        <RelatedProducts
+          title={product.farmer?.full_name
+            ? t('products.moreFrom', { name: product.farmer.full_name })
+            : t('products.moreFromFarmer')}
+          products={fromFarmer}
+        />
+      )}
+      {sameCategory.length > 0 && (
+        <RelatedProducts title={t('products.moreIn', { category: categoryName })} products={sameCategory} />
+      )}
+    </div>
+  );
+}
+
+function Stars({ rating }: { rating: number }) {
+  const { t } = useLanguage();
+  const rounded = Math.round(rating);
+  return (
+    <span className="text-yellow-500" aria-label={t('reviews.outOfFive', { rating: rating.toFixed(1) })}>
+      {'★'.repeat(rounded)}
+      <span className="text-gray-300">{'★'.repeat(5 - rounded)}</span>
+    </span>
+  );
+}
+
+function ProductReviews({ productId, farmerId }: { productId: string; farmerId: string }) {
+  const { t, formatDate } = useLanguage();
+  const { user } = useAuth();
+  const isOwner = user?.id === farmerId;
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    loadReviews();
+  }, [productId, page]);
+
+  const loadReviews = async () => {
+    try {
+      const from = page * REVIEWS_PER_PAGE;
+      const { data, count, error } = await supabase
+        .from('reviews')
+        .select('id, rating, comment, is_verified_purchase, farmer_reply, farmer_replied_at, created_at', { count: 'exact' })
+        .eq('product_id', productId)
+        .order('created_at', { ascending: false })
+        .range(from, from + REVIEWS_PER_PAGE - 1);
+
+      if (error) throw error;
+      setReviews(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  };
+
+  const pageCount = Math.ceil(total / REVIEWS_PER_PAGE);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-8">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('reviews.title')}</h2>
+
+      {reviews.length === 0 ? (
+        <p className="text-gray-600 text-sm">{t('reviews.none')}</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="border-b border-gray-100 pb-4 last:border-0">
+              <div className="flex items-center gap-3 mb-1">
+                <Stars rating={review.rating} />
+                {review.is_verified_purchase && (
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
+                    {t('reviews.verified')}
+                  </span>
+                )}
+                <span className="text-xs text-gray-500">
+                  {formatDate(review.created_at, {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric'
+                  })}
+                </span>
+              </div>
+              {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+              <FarmerReply review={review} canReply={isOwner} onSaved={loadReviews} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex justify-between items-center mt-4 text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="text-green-600 hover:text-green-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('reviews.newer')}
+          </button>
+          <span className="text-gray-600">{t('reviews.page', { page: page + 1, pages: pageCount })}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="text-green-600 hover:text-green-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('reviews.older')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FarmerReplyProps {
+  review: Review;
+  canReply: boolean;
+  onSaved: () => void;
+}
+
+function FarmerReply({ review, canReply, onSaved }: FarmerReplyProps) {
+  const { t } = useLanguage();
+  const [editing, setEditing] = useState(false);
+  const [reply, setReply] = useState(review.farmer_reply || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc('reply_to_review', {
+        p_review_id: review.id,
+        p_reply: reply,
+      });
+
+      if (error) throw error;
+      setEditing(false);
+      onSaved();
+    } catch (err: any) {
+      console.error('Error saving reply:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSubmit} className="mt-2 ml-4 space-y-2">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-green-600 text-white px-4 py-1 rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? t('loading') : t('save')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="bg-gray-100 text-gray-700 px-4 py-1 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+          >
+            {t('cancel')}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <>
+      {review.farmer_reply && (
+        <div className="mt-2 ml-4 pl-3 border-l-2 border-green-200">
+          <p className="text-xs font-medium text-green-700">{t('reviews.farmerReply')}</p>
+          <p className="text-sm text-gray-700">{review.farmer_reply}</p>
+        </div>
+      )}
+      {canReply && (
+        <button
+          onClick={() => setEditing(true)}
+          className="mt-1 ml-4 text-xs text-green-600 hover:text-green-700 font-medium"
+        >
+          {review.farmer_reply ? t('reviews.editReply') : t('reviews.reply')}
+        </button>
+      )}
+    </>
+  );
+}
+
+function RelatedProducts({ title, products }: { title: string; products: RelatedProduct[] }) {
+  const { language, formatNumber } = useLanguage();
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">{title}</h2>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {products.map(related => {
+          const name = findTranslation(related.translations, language)?.name || related.name;
+          return (
+            <Link
+              key={related.id}
+              to={`/products/${related.id}`}
+              className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow"
+            >
+              <ProductImage
+                src={getProductImages(related.images)[0]}
+                alt={name}
+                className="w-full h-32"
+              />
+              <div className="p-3">
+                <p className="text-sm font-medium text-gray-800 line-clamp-2">{name}</p>
+                <p className="text-sm font-bold text-green-600">
+                  ₹{formatNumber(related.price)}
+                  <span className="text-xs text-gray-600 font-normal"> / {related.unit}</span>
+                </p>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
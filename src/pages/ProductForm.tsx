@@ -0,0 +1,477 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getProductImages, deleteProductImages } from '../lib/productImages';
+import { CategoryTranslation, categoryName, categoryTranslationsSelect } from '../lib/translations';
+import ProductImageManager from '../components/ProductImageManager';
+import TranslationEditor from '../components/TranslationEditor';
+
+interface Category {
+  id: string;
+  name_en: string;
+  translations: CategoryTranslation[];
+}
+
+interface ProductFormData {
+  category_id: string;
+  name: string;
+  description: string;
+  price: string;
+  unit: string;
+  stock_quantity: string;
+  low_stock_threshold: string;
+  is_organic: boolean;
+  is_traditional: boolean;
+  processing_method: string;
+  shelf_life_days: string;
+  tags: string;
+  is_active: boolean;
+}
+
+const commonUnits = ['kg', 'g', 'litre', 'ml', 'piece', 'dozen', 'jar', 'bottle', 'pack'];
+
+const emptyForm: ProductFormData = {
+  category_id: '',
+  name: '',
+  description: '',
+  price: '',
+  unit: 'kg',
+  stock_quantity: '0',
+  low_stock_threshold: '10',
+  is_organic: false,
+  is_traditional: false,
+  processing_method: '',
+  shelf_life_days: '',
+  tags: '',
+  is_active: true,
+};
+
+function isWholeNumber(value: string) {
+  return /^\d+$/.test(value.trim());
+}
+
+// Returns the translation key of the first problem found.
+function validate(form: ProductFormData): string | null {
+  if (!form.name.trim()) return 'productForm.nameRequired';
+  if (!form.description.trim()) return 'productForm.descriptionRequired';
+  if (!form.unit.trim()) return 'productForm.unitRequired';
+
+  const price = Number(form.price);
+  if (form.price.trim() === '' || Number.isNaN(price) || price < 0) {
+    return 'productForm.priceInvalid';
+  }
+  if (price >= 100000000) return 'productForm.priceTooLarge';
+  if (!/^\d+(\.\d{1,2})?$/.test(form.price.trim())) {
+    return 'productForm.priceDecimals';
+  }
+
+  if (!isWholeNumber(form.stock_quantity)) return 'productForm.stockInvalid';
+  if (!isWholeNumber(form.low_stock_threshold)) {
+    return 'productForm.lowStockInvalid';
+  }
+  if (form.shelf_life_days.trim() && !isWholeNumber(form.shelf_life_days)) {
+    return 'productForm.shelfLifeInvalid';
+  }
+
+  return null;
+}
+
+function parseTags(tags: string) {
+  return Array.from(new Set(
+    tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+  ));
+}
+
+export default function ProductForm() {
+  const { id } = useParams<{ id: string }>();
+  const isEdit = Boolean(id);
+  const { user, profile } = useAuth();
+  const { t, language } = useLanguage();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<ProductFormData>(emptyForm);
+  const [productId] = useState(() => id || crypto.randomUUID());
+  const [images, setImages] = useState<string[]>([]);
+  const [savedImages, setSavedImages] = useState<string[]>([]);
+  const [loadedStock, setLoadedStock] = useState<number | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user, id]);
+
+  const loadData = async () => {
+    try {
+      const { data: categoryData, error: categoryError } = await supabase
+        .from('product_categories')
+        .select(`id, name_en, ${categoryTranslationsSelect}`)
+        .order('name_en');
+
+      if (categoryError) throw categoryError;
+      setCategories(categoryData || []);
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('products')
+          .select('*')
+          .eq('id', id)
+          .eq('farmer_id', user!.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          setError(t('productForm.notFound'));
+          return;
+        }
+
+        setForm({
+          category_id: data.category_id || '',
+          name: data.name,
+          description: data.description,
+          price: String(data.price),
+          unit: data.unit,
+          stock_quantity: String(data.stock_quantity),
+          low_stock_threshold: String(data.low_stock_threshold ?? 10),
+          is_organic: data.is_organic,
+          is_traditional: data.is_traditional,
+          processing_method: data.processing_method || '',
+          shelf_life_days: data.shelf_life_days != null ? String(data.shelf_life_days) : '',
+          tags: (data.tags || []).join(', '),
+          is_active: data.is_active,
+        });
+        setLoadedStock(data.stock_quantity);
+        setImages(getProductImages(data.images));
+        setSavedImages(getProductImages(data.images));
+      }
+    } catch (error) {
+      console.error('Error loading product:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const validationError = validate(form);
+    if (validationError) {
+      setError(t(validationError));
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      category_id: form.category_id || null,
+      name: form.name.trim(),
+      description: form.description.trim(),
+      price: Number(form.price),
+      unit: form.unit.trim(),
+      stock_quantity: Number(form.stock_quantity),
+      low_stock_threshold: Number(form.low_stock_threshold),
+      is_organic: form.is_organic,
+      is_traditional: form.is_traditional,
+      processing_method: form.processing_method.trim() || null,
+      shelf_life_days: form.shelf_life_days.trim() ? Number(form.shelf_life_days) : null,
+      tags: parseTags(form.tags),
+      images,
+      is_active: form.is_active,
+    };
+
+    try {
+      if (isEdit) {
+        // Orders decrement stock while the form is open, so stock is only
+        // written when the farmer changed it, and only over the value they saw.
+        const { stock_quantity, ...details } = payload;
+        const stockChanged = stock_quantity !== loadedStock;
+
+        let query = supabase
+          .from('products')
+          .update({ ...(stockChanged ? payload : details), updated_at: new Date().toISOString() })
+          .eq('id', productId)
+          .eq('farmer_id', user!.id);
+        if (stockChanged) query = query.eq('stock_quantity', loadedStock!);
+
+        const { data, error } = await query.select('id');
+        if (error) throw error;
+
+        if (data.length === 0) {
+          const { data: current, error: readError } = await supabase
+            .from('products')
+            .select('stock_quantity')
+            .eq('id', productId)
+            .setHeader('Cache-Control', 'no-store')
+            .maybeSingle();
+
+          if (readError) throw readError;
+          if (!current) {
+            setError(t('productForm.notFound'));
+            return;
+          }
+          setLoadedStock(current.stock_quantity);
+          setError(t('productForm.stockChanged', { count: current.stock_quantity }));
+          return;
+        }
+      } else {
+        const { error } = await supabase
+          .from('products')
+          .insert({ ...payload, id: productId, farmer_id: user!.id });
+
+        if (error) throw error;
+      }
+
+      const removed = savedImages.filter(url => !images.includes(url));
+      await deleteProductImages(removed).catch(err => {
+        console.error('Error deleting removed images:', err);
+      });
+
+      navigate('/dashboard');
+    } catch (err: any) {
+      console.error('Error saving product:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (profile && profile.role !== 'farmer') {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('productForm.farmersOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">
+        {isEdit ? t('products.edit') : t('products.add')}
+      </h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.name')}</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.description')}</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              required
+              rows={4}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.category')}</label>
+            <select
+              value={form.category_id}
+              onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">{t('productForm.selectCategory')}</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {categoryName(category, language)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.processing')}</label>
+            <input
+              type="text"
+              value={form.processing_method}
+              onChange={(e) => setForm({ ...form, processing_method: e.target.value })}
+              placeholder={t('productForm.processingPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.price')} (₹)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.price}
+              onChange={(e) => setForm({ ...form, price: e.target.value })}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.unit')}</label>
+            <input
+              type="text"
+              list="product-units"
+              value={form.unit}
+              onChange={(e) => setForm({ ...form, unit: e.target.value })}
+              required
+              className={inputClass}
+            />
+            <datalist id="product-units">
+              {commonUnits.map(unit => (
+                <option key={unit} value={unit} />
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.stock')}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.stock_quantity}
+              onChange={(e) => setForm({ ...form, stock_quantity: e.target.value })}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.lowStock')}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.low_stock_threshold}
+              onChange={(e) => setForm({ ...form, low_stock_threshold: e.target.value })}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.shelfLife')}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.shelf_life_days}
+              onChange={(e) => setForm({ ...form, shelf_life_days: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.tags')}</label>
+            <input
+              type="text"
+              value={form.tags}
+              onChange={(e) => setForm({ ...form, tags: e.target.value })}
+              placeholder={t('productForm.tagsPlaceholder')}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">{t('productForm.tagsHint')}</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.photos')}</label>
+          <ProductImageManager
+            farmerId={user!.id}
+            productId={productId}
+            images={images}
+            onChange={setImages}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-6 pt-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_organic}
+              onChange={(e) => setForm({ ...form, is_organic: e.target.checked })}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+            />
+            {t('products.organic')}
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_traditional}
+              onChange={(e) => setForm({ ...form, is_traditional: e.target.checked })}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+            />
+            {t('products.traditional')}
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded mr-2"
+            />
+            {t('products.active')}
+          </label>
+        </div>
+
+        <div className="flex gap-4 pt-4">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-green-600 text-white py-2 px-6 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? t('loading') : t('save')}
+          </button>
+          <Link
+            to="/dashboard"
+            className="bg-gray-100 text-gray-700 py-2 px-6 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {t('cancel')}
+          </Link>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow p-6 mt-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">{t('translations.title')}</h2>
+        {isEdit ? (
+          <TranslationEditor
+            table="product_translations"
+            parentColumn="product_id"
+            parentId={productId}
+            fields={[
+              { name: 'name', label: t('products.name') },
+              { name: 'description', label: t('products.description'), multiline: true },
+            ]}
+          />
+        ) : (
+          <p className="text-sm text-gray-600">{t('translations.saveFirst')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
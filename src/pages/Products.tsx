@@ -1,9 +1,20 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useLanguage } from '../contexts/LanguageContext';
+import { getProductImages } from '../lib/productImages';
+import { indianStates } from '../lib/indianStates';
+import { CategoryTranslation, categoryName, categoryTranslationsSelect } from '../lib/translations';
+import ProductImage from '../components/ProductImage';
+import AddToCartButton from '../components/AddToCartButton';
+
+const PAGE_SIZE = 24;
+
+type SortOption = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'rating';
 
 interface Product {
   id: string;
+  farmer_id: string;
   name: string;
   description: string;
   price: number;
@@ -12,92 +23,218 @@ interface Product {
   images: any;
   is_organic: boolean;
   is_traditional: boolean;
-  farmer: {
-    full_name: string;
-    state: string;
-  };
-  category: {
-    name_en: string;
-    name_hi: string;
-  };
+  average_rating: number;
+  review_count: number;
+  farmer_name: string | null;
+  farmer_state: string | null;
+  category_name: string | null;
+  sort_value: number;
+}
+
+interface Category {
+  id: string;
+  name_en: string;
+  translations: CategoryTranslation[];
 }
 
 export default function Products() {
   const { t, language } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterOrganic, setFilterOrganic] = useState(false);
-  const [filterTraditional, setFilterTraditional] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') || '');
+  const [minInput, setMinInput] = useState(searchParams.get('min') || '');
+  const [maxInput, setMaxInput] = useState(searchParams.get('max') || '');
+  // Only the latest request may update the list, so a slow response for an
+  // older filter (or an older page) cannot overwrite a newer one.
+  const latestRequest = useRef(0);
+
+  const query = searchParams.get('q') || '';
+  const minPrice = searchParams.get('min') || '';
+  const maxPrice = searchParams.get('max') || '';
+  const requestedSort = searchParams.get('sort') as SortOption | null;
+  const sort: SortOption = requestedSort && (query || requestedSort !== 'relevance')
+    ? requestedSort
+    : (query ? 'relevance' : 'newest');
 
   useEffect(() => {
-    loadProducts();
+    loadCategories();
   }, []);
 
-  const loadProducts = async () => {
+  useEffect(() => {
+    setLoading(true);
+    loadProducts();
+  }, [searchParams, language]);
+
+  // Copy a typed filter from the URL only when that parameter itself changed
+  // (Back, Clear), so changing another filter keeps what is being typed.
+  useEffect(() => {
+    if (searchInput.trim() !== query) setSearchInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (minInput !== minPrice) setMinInput(minPrice);
+  }, [minPrice]);
+
+  useEffect(() => {
+    if (maxInput !== maxPrice) setMaxInput(maxPrice);
+  }, [maxPrice]);
+
+  // Restarted by other filter changes too, so the pending write builds on
+  // the current URL rather than the one from when typing started.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== query || minInput !== minPrice || maxInput !== maxPrice) {
+        updateFilters({ q: searchInput.trim(), min: minInput, max: maxInput }, true);
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput, minInput, maxInput, searchParams]);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_categories')
+        .select(`id, name_en, ${categoryTranslationsSelect}`)
+        .order('name_en');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const loadProducts = async (cursor?: Product) => {
+    const request = ++latestRequest.current;
     try {
-      let query = supabase
-        .from('products')
-        .select(`
-          id,
-          name,
-          description,
-          price,
-          unit,
-          stock_quantity,
-          images,
-          is_organic,
-          is_traditional,
-          farmer:farmer_id (full_name, state),
-          category:category_id (name_en, name_hi)
-        `)
-        .eq('is_active', true)
-        .gt('stock_quantity', 0);
-
-      const { data, error } = await query;
+      const { data, error } = await supabase.rpc('search_products', {
+        p_query: query || null,
+        p_category_id: searchParams.get('category') || null,
+        p_state: searchParams.get('state') || null,
+        p_min_price: minPrice ? Number(minPrice) : null,
+        p_max_price: maxPrice ? Number(maxPrice) : null,
+        p_organic: searchParams.get('organic') === '1',
+        p_traditional: searchParams.get('traditional') === '1',
+        p_sort: sort,
+        p_cursor_value: cursor?.sort_value ?? null,
+        p_cursor_id: cursor?.id ?? null,
+        p_limit: PAGE_SIZE,
+        p_language: language,
+      });
 
+      if (request !== latestRequest.current) return;
       if (error) throw error;
-      setProducts(data as any || []);
+      const page: Product[] = data || [];
+      setProducts(current => (cursor ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
     } catch (error) {
       console.error('Error loading products:', error);
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
-  const filteredProducts = products.filter(product => {
-    const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         product.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesOrganic = !filterOrganic || product.is_organic;
-    const matchesTraditional = !filterTraditional || product.is_traditional;
+  const loadMore = () => {
+    setLoadingMore(true);
+    loadProducts(products[products.length - 1]);
+  };
+
+  // Typed filters replace the history entry so Back skips the keystrokes.
+  const updateFilters = (changes: Record<string, string>, replace = false) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace });
+  };
 
-    return matchesSearch && matchesOrganic && matchesTraditional;
-  });
+  const updateFilter = (key: string, value: string) => updateFilters({ [key]: value });
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setMinInput('');
+    setMaxInput('');
+    setSearchParams(new URLSearchParams());
+  };
 
-  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <h1 className="text-3xl font-bold text-gray-800 mb-8">{t('products.title')}</h1>
 
-      <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-8 space-y-4">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="md:col-span-2">
             <input
-              type="text"
-              placeholder={t('search')}
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              type="search"
+              placeholder={t('products.searchHint')}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className={inputClass}
             />
           </div>
 
+          <select
+            value={searchParams.get('category') || ''}
+            onChange={(e) => updateFilter('category', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">{t('products.allCategories')}</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>
+                {categoryName(category, language)}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={searchParams.get('state') || ''}
+            onChange={(e) => updateFilter('state', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">{t('products.allStates')}</option>
+            {indianStates.map(state => (
+              <option key={state} value={state}>{state}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-center">
+          <input
+            type="number"
+            min={0}
+            placeholder={t('products.minPrice')}
+            value={minInput}
+            onChange={(e) => setMinInput(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            placeholder={t('products.maxPrice')}
+            value={maxInput}
+            onChange={(e) => setMaxInput(e.target.value)}
+            className={inputClass}
+          />
+
           <div className="flex items-center">
             <input
               type="checkbox"
               id="organic"
-              checked={filterOrganic}
-              onChange={(e) => setFilterOrganic(e.target.checked)}
+              checked={searchParams.get('organic') === '1'}
+              onChange={(e) => updateFilter('organic', e.target.checked ? '1' : '')}
               className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
             />
             <label htmlFor="organic" className="ml-2 text-sm text-gray-700">
@@ -109,89 +246,143 @@ export default function Products() {
             <input
               type="checkbox"
               id="traditional"
-              checked={filterTraditional}
-              onChange={(e) => setFilterTraditional(e.target.checked)}
+              checked={searchParams.get('traditional') === '1'}
+              onChange={(e) => updateFilter('traditional', e.target.checked ? '1' : '')}
               className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
             />
             <label htmlFor="traditional" className="ml-2 text-sm text-gray-700">
               {t('products.traditional')}
             </label>
           </div>
+
+          <select
+            value={sort}
+            onChange={(e) => updateFilter('sort', e.target.value)}
+            className={inputClass}
+          >
+            {query && <option value="relevance">{t('products.sort.relevance')}</option>}
+            <option value="newest">{t('products.sort.newest')}</option>
+            <option value="price_asc">{t('products.sort.priceAsc')}</option>
+            <option value="price_desc">{t('products.sort.priceDesc')}</option>
+            <option value="rating">{t('products.sort.rating')}</option>
+          </select>
+
+          <button
+            onClick={clearFilters}
+            className="text-sm text-gray-600 hover:text-green-600 font-medium"
+          >
+            {t('products.clearFilters')}
+          </button>
         </div>
       </div>
 
-      {filteredProducts.length === 0 ? (
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : products.length === 0 ? (
         <div className="text-center py-12">
-          <p className="text-gray-600 text-lg">No products found matching your criteria.</p>
+          <p className="text-gray-600 text-lg">{t('products.noResults')}</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredProducts.map(product => (
-            <ProductCard key={product.id} product={product} language={language} />
-          ))}
-        </div>
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {products.map(product => (
+              <ProductCard key={product.id} product={product} />
+            ))}
+          </div>
+
+          {hasMore && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="bg-white border border-green-600 text-green-600 px-6 py-2 rounded-lg hover:bg-green-50 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? t('loading') : t('products.loadMore')}
+              </button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
 }
 
-function ProductCard({ product, language }: { product: Product; language: string }) {
-  const categoryName = language === 'hi' && product.category
-    ? (product.category as any).name_hi
-    : product.category
-    ? (product.category as any).name_en
-    : 'Product';
+function ProductCard({ product }: { product: Product }) {
+  const { t, formatNumber } = useLanguage();
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
-      <div className="h-48 bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center">
-        <span className="text-6xl">🌾</span>
-      </div>
+      <Link to={`/products/${product.id}`}>
+        <ProductImage
+          src={getProductImages(product.images)[0]}
+          alt={product.name}
+          className="w-full h-48"
+        />
+      </Link>
 
       <div className="p-4">
         <div className="flex items-start justify-between mb-2">
-          <h3 className="text-lg font-semibold text-gray-800 flex-1">{product.name}</h3>
+          <h3 className="text-lg font-semibold text-gray-800 flex-1">
+            <Link to={`/products/${product.id}`} className="hover:text-green-600">
+              {product.name}
+            </Link>
+          </h3>
           <div className="flex gap-1 ml-2">
             {product.is_organic && (
               <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                Organic
+                {t('products.organic')}
               </span>
             )}
             {product.is_traditional && (
               <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded">
-                Traditional
+                {t('products.traditional')}
               </span>
             )}
           </div>
         </div>
 
-        <p className="text-xs text-gray-600 mb-2">{categoryName}</p>
+        <p className="text-xs text-gray-600 mb-2">
+          {product.category_name || t('farmer.product')}
+          {product.review_count > 0 && (
+            <span className="ml-2 text-yellow-600">
+              ★ {Number(product.average_rating).toFixed(1)} ({product.review_count})
+            </span>
+          )}
+        </p>
         <p className="text-sm text-gray-700 mb-3 line-clamp-2">{product.description}</p>
 
         <div className="flex justify-between items-center mb-3">
           <div>
             <p className="text-2xl font-bold text-green-600">
-              ₹{Number(product.price).toLocaleString('en-IN')}
+              ₹{formatNumber(product.price)}
             </p>
-            <p className="text-xs text-gray-600">per {product.unit}</p>
+            <p className="text-xs text-gray-600">{t('products.per', { unit: product.unit })}</p>
           </div>
           <div className="text-right">
-            <p className="text-sm text-gray-600">Stock: {product.stock_quantity}</p>
+            <p className="text-sm text-gray-600">{t('products.stockCount', { count: product.stock_quantity })}</p>
           </div>
         </div>
 
         <div className="border-t pt-3">
           <p className="text-xs text-gray-600">
-            From: {(product.farmer as any)?.full_name || 'Farmer'}
+            {t('orders.fromFarmer', { name: product.farmer_name || t('role.farmer') })}
           </p>
           <p className="text-xs text-gray-500">
-            {(product.farmer as any)?.state || 'India'}
+            {product.farmer_state || t('products.india')}
           </p>
         </div>
 
-        <button className="w-full mt-3 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-medium">
-          Add to Cart
-        </button>
+        <AddToCartButton
+          product={{
+            id: product.id,
+            name: product.name,
+            price: Number(product.price),
+            unit: product.unit,
+            stock_quantity: product.stock_quantity,
+            farmer_id: product.farmer_id,
+            farmer_name: product.farmer_name || t('role.farmer'),
+          }}
+        />
       </div>
     </div>
   );
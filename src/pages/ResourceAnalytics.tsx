@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { languages } from '../locales';
+
+interface ResourceStats {
+  resource_id: string;
+  title_en: string;
+  category: string;
+  views: number;
+  unique_readers: number;
+  bookmarks: number;
+  completions: number;
+  languages: Record<string, number>;
+}
+
+interface DailyViews {
+  day: string;
+  views: number;
+  unique_readers: number;
+}
+
+const periods = [7, 30, 90];
+
+export default function ResourceAnalytics() {
+  const { profile } = useAuth();
+  const { t, formatNumber, formatDate } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [stats, setStats] = useState<ResourceStats[]>([]);
+  const [daily, setDaily] = useState<DailyViews[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const days = periods.includes(Number(searchParams.get('days'))) ? Number(searchParams.get('days')) : 30;
+  const selectedId = searchParams.get('resource');
+  const selected = stats.find(s => s.resource_id === selectedId) || null;
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      setLoading(true);
+      loadStats();
+    }
+  }, [profile?.role, days]);
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      loadDaily();
+    }
+  }, [profile?.role, days, selectedId]);
+
+  const period = () => {
+    const to = new Date();
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    from.setDate(from.getDate() - (days - 1));
+    return { p_from: from.toISOString(), p_to: to.toISOString() };
+  };
+
+  const loadStats = async () => {
+    try {
+      const { data, error } = await supabase.rpc('resource_analytics', period());
+
+      if (error) throw error;
+      setStats(data || []);
+    } catch (error) {
+      console.error('Error loading resource analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDaily = async () => {
+    try {
+      const { data, error } = await supabase.rpc('resource_views_daily', {
+        p_resource_id: selectedId,
+        ...period(),
+      });
+
+      if (error) throw error;
+      setDaily(data || []);
+    } catch (error) {
+      console.error('Error loading daily views:', error);
+    }
+  };
+
+  const updateFilter = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('resourceAdmin.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  const totals = stats.reduce(
+    (sum, s) => ({
+      views: sum.views + Number(s.views),
+      bookmarks: sum.bookmarks + Number(s.bookmarks),
+      completions: sum.completions + Number(s.completions),
+    }),
+    { views: 0, bookmarks: 0, completions: 0 }
+  );
+  const maxDaily = Math.max(1, ...daily.map(d => Number(d.views)));
+  const languageName = (code: string) => languages.find(l => l.code === code)?.name || code;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">{t('resourceAnalytics.title')}</h1>
+        <Link to="/admin/resources" className="text-green-600 hover:text-green-700 font-medium">
+          ← {t('resourceAdmin.title')}
+        </Link>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {periods.map(option => (
+          <button
+            key={option}
+            onClick={() => updateFilter('days', option === 30 ? null : String(option))}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              days === option
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {t('resourceAnalytics.lastDays', { count: option })}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Stat label={t('resourceAnalytics.views')} value={formatNumber(totals.views)} />
+            <Stat label={t('resourceAnalytics.bookmarks')} value={formatNumber(totals.bookmarks)} />
+            <Stat label={t('resourceAnalytics.completions')} value={formatNumber(totals.completions)} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-800">
+                {selected ? selected.title_en : t('resourceAnalytics.allResources')}
+              </h2>
+              {selected && (
+                <button
+                  onClick={() => updateFilter('resource', null)}
+                  className="text-sm text-gray-600 hover:text-green-600 font-medium"
+                >
+                  {t('resourceAnalytics.showAll')}
+                </button>
+              )}
+            </div>
+            <div className="flex items-end gap-px h-40" role="img" aria-label={t('resourceAnalytics.dailyViews')}>
+              {daily.map(d => (
+                <div
+                  key={d.day}
+                  title={`${formatDate(d.day)}: ${t('resources.views', { count: Number(d.views) })}, ${t('resourceAnalytics.readersCount', { count: Number(d.unique_readers) })}`}
+                  className="flex-1 bg-green-500 hover:bg-green-600 rounded-t"
+                  style={{ height: `${(Number(d.views) / maxDaily) * 100}%`, minHeight: Number(d.views) > 0 ? '2px' : '0' }}
+                />
+              ))}
+            </div>
+            {daily.length > 0 && (
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{formatDate(daily[0].day)}</span>
+                <span>{formatDate(daily[daily.length - 1].day)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{t('translations.resourceTitle')}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t('resourceAnalytics.views')}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t('resourceAnalytics.readers')}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t('resourceAnalytics.bookmarks')}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t('resourceAnalytics.completions')}</th>
+                  <th className="px-4 py-3 font-medium">{t('resourceAnalytics.languages')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {stats.map(s => {
+                  const views = Number(s.views);
+                  return (
+                    <tr
+                      key={s.resource_id}
+                      onClick={() => updateFilter('resource', s.resource_id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${s.resource_id === selectedId ? 'bg-green-50' : ''}`}
+                    >
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{s.title_en}</p>
+                        <p className="text-xs text-gray-500">{s.category}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900">{formatNumber(views)}</td>
+                      <td className="px-4 py-3 text-right text-gray-900">{formatNumber(Number(s.unique_readers))}</td>
+                      <td className="px-4 py-3 text-right text-gray-900">{formatNumber(Number(s.bookmarks))}</td>
+                      <td className="px-4 py-3 text-right text-gray-900">{formatNumber(Number(s.completions))}</td>
+                      <td className="px-4 py-3 text-xs text-gray-600">
+                        {views === 0
+                          ? '—'
+                          : Object.entries(s.languages)
+                              .sort(([, a], [, b]) => b - a)
+                              .map(([code, count]) => `${languageName(code)} ${Math.round((count / views) * 100)}%`)
+                              .join(' · ')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <p className="text-sm text-gray-600 mb-1">{label}</p>
+      <p className="text-2xl font-bold text-gray-800">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Resource, ResourceStatus, resourceStatus, normalizeTag, uploadResourceImage, deleteResourceImage } from '../lib/resources';
+import { ResourceTranslation, resourceTranslationsSelect, findTranslation } from '../lib/translations';
+import ResourceCard from '../components/ResourceCard';
+
+interface ResourceFormData {
+  title_en: string;
+  content_en: string;
+  title_hi: string;
+  content_hi: string;
+  category: string;
+  tags: string[];
+  status: ResourceStatus;
+  publish_at: string;
+}
+
+const emptyForm: ResourceFormData = {
+  title_en: '',
+  content_en: '',
+  title_hi: '',
+  content_hi: '',
+  category: '',
+  tags: [],
+  status: 'draft',
+  publish_at: '',
+};
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(value: string) {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// Returns the translation key of the first problem found.
+function validate(form: ResourceFormData): string | null {
+  if (!form.title_en.trim()) return 'resourceForm.titleRequired';
+  if (!form.content_en.trim()) return 'resourceForm.contentRequired';
+  if (!form.category.trim()) return 'resourceForm.categoryRequired';
+  if (Boolean(form.title_hi.trim()) !== Boolean(form.content_hi.trim())) {
+    return 'resourceForm.hindiIncomplete';
+  }
+  if (form.status === 'scheduled') {
+    if (!form.publish_at) return 'resourceForm.scheduleRequired';
+    if (new Date(form.publish_at) <= new Date()) return 'resourceForm.scheduleInPast';
+  }
+  return null;
+}
+
+export default function ResourceForm() {
+  const { id } = useParams<{ id: string }>();
+  const isEdit = Boolean(id);
+  const { user, profile } = useAuth();
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<ResourceFormData>(emptyForm);
+  const [resourceId] = useState(() => id || crypto.randomUUID());
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [savedImageUrl, setSavedImageUrl] = useState<string | null>(null);
+  const [savedPublishedAt, setSavedPublishedAt] = useState<string | null>(null);
+  const [viewCount, setViewCount] = useState(0);
+  const [tagInput, setTagInput] = useState('');
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [previewLanguage, setPreviewLanguage] = useState<'en' | 'hi'>('en');
+  const [previewExpanded, setPreviewExpanded] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      loadData();
+    }
+  }, [profile?.role, id]);
+
+  const loadData = async () => {
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('educational_resources')
+        .select('category, tags');
+
+      if (existingError) throw existingError;
+      setKnownCategories(Array.from(new Set((existing || []).map(r => r.category))).sort());
+      setKnownTags(Array.from(new Set((existing || []).flatMap(r => r.tags || []))).sort());
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('educational_resources')
+          .select(`*, ${resourceTranslationsSelect}`)
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          setError(t('resourceForm.notFound'));
+          return;
+        }
+
+        const hindi = findTranslation<ResourceTranslation>(data.translations, 'hi');
+        const status = resourceStatus(data);
+        setForm({
+          title_en: data.title_en,
+          content_en: data.content_en,
+          title_hi: hindi?.title || '',
+          content_hi: hindi?.content || '',
+          category: data.category,
+          tags: data.tags || [],
+          status,
+          publish_at: status === 'scheduled' && data.published_at ? toLocalInput(data.published_at) : '',
+        });
+        setImageUrl(data.image_url);
+        setSavedImageUrl(data.image_url);
+        setSavedPublishedAt(status === 'published' ? data.published_at : null);
+        setViewCount(data.view_count);
+      }
+    } catch (error) {
+      console.error('Error loading resource:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addTags = (value: string) => {
+    const added = value.split(',').map(normalizeTag).filter(Boolean);
+    if (added.length > 0) {
+      setForm({ ...form, tags: Array.from(new Set([...form.tags, ...added])) });
+    }
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && form.tags.length > 0) {
+      setForm({ ...form, tags: form.tags.slice(0, -1) });
+    }
+  };
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError('');
+    try {
+      const url = await uploadResourceImage(resourceId, file);
+      if (imageUrl && imageUrl !== savedImageUrl) {
+        await deleteResourceImage(imageUrl).catch(err => console.error('Error deleting image:', err));
+      }
+      setImageUrl(url);
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeImage = () => {
+    if (imageUrl && imageUrl !== savedImageUrl) {
+      deleteResourceImage(imageUrl).catch(err => console.error('Error deleting image:', err));
+    }
+    setImageUrl(null);
+  };
+
+  const publishedAt = () => {
+    if (form.status === 'draft') return null;
+    if (form.status === 'scheduled') return new Date(form.publish_at).toISOString();
+    // Keep the original date when re-saving a published resource; otherwise
+    // the database stamps the moment it is published.
+    return savedPublishedAt;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const pendingTags = tagInput.split(',').map(normalizeTag).filter(Boolean);
+    const tags = Array.from(new Set([...form.tags, ...pendingTags]));
+    const validationError = validate(form);
+    if (validationError) {
+      setError(t(validationError));
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      title_en: form.title_en.trim(),
+      content_en: form.content_en.trim(),
+      category: form.category.trim(),
+      tags,
+      image_url: imageUrl,
+      is_published: form.status !== 'draft',
+      published_at: publishedAt(),
+    };
+
+    try {
+      const { error } = isEdit
+        ? await supabase
+            .from('educational_resources')
+            .update(payload)
+            .eq('id', resourceId)
+        : await supabase
+            .from('educational_resources')
+            .insert({ ...payload, id: resourceId, author_id: user!.id });
+
+      if (error) throw error;
+
+      const { error: translationError } = form.title_hi.trim()
+        ? await supabase
+            .from('resource_translations')
+            .upsert(
+              {
+                resource_id: resourceId,
+                language: 'hi',
+                title: form.title_hi.trim(),
+                content: form.content_hi.trim(),
+                updated_at: new Date().toISOString(),
+              },
+              { onConflict: 'resource_id,language' }
+            )
+        : await supabase
+            .from('resource_translations')
+            .delete()
+            .eq('resource_id', resourceId)
+            .eq('language', 'hi');
+
+      if (translationError) throw translationError;
+
+      if (savedImageUrl && savedImageUrl !== imageUrl) {
+        await deleteResourceImage(savedImageUrl).catch(err => {
+          console.error('Error deleting replaced image:', err);
+        });
+      }
+
+      navigate('/admin/resources');
+    } catch (err: any) {
+      console.error('Error saving resource:', err);
+      setError(err?.message || t('errors.unexpected'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (profile && profile.role !== 'admin') {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-orange-50 border border-orange-200 text-orange-800 rounded-lg p-6">
+          {t('resourceAdmin.adminsOnly')}
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  const preview: Resource = {
+    id: resourceId,
+    title_en: form.title_en || t('resourceForm.untitled'),
+    content_en: form.content_en,
+    category: form.category || '—',
+    tags: form.tags,
+    image_url: imageUrl,
+    is_published: form.status !== 'draft',
+    published_at: publishedAt() || new Date().toISOString(),
+    view_count: viewCount,
+    created_at: new Date().toISOString(),
+    translations: form.title_hi.trim()
+      ? [{ language: 'hi', title: form.title_hi, content: form.content_hi }]
+      : [],
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8">
+        {isEdit ? t('resourceForm.editTitle') : t('resourceForm.newTitle')}
+      </h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <p className="text-xs font-medium text-gray-500 uppercase">English</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('translations.resourceTitle')}</label>
+              <input
+                type="text"
+                value={form.title_en}
+                onChange={(e) => setForm({ ...form, title_en: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('translations.resourceContent')}</label>
+              <textarea
+                value={form.content_en}
+                onChange={(e) => setForm({ ...form, content_en: e.target.value })}
+                required
+                rows={14}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-xs font-medium text-gray-500 uppercase">हिन्दी</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('translations.resourceTitle')}</label>
+              <input
+                type="text"
+                lang="hi"
+                value={form.title_hi}
+                onChange={(e) => setForm({ ...form, title_hi: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('translations.resourceContent')}</label>
+              <textarea
+                lang="hi"
+                value={form.content_hi}
+                onChange={(e) => setForm({ ...form, content_hi: e.target.value })}
+                rows={14}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">{t('resourceForm.markdownHint')}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('resourceForm.category')}</label>
+            <input
+              type="text"
+              list="resource-categories"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              required
+              className={inputClass}
+            />
+            <datalist id="resource-categories">
+              {knownCategories.map(category => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.tags')}</label>
+            <div className="flex flex-wrap items-center gap-2 px-2 py-1 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-green-500">
+              {form.tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                  #{tag}
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, tags: form.tags.filter(x => x !== tag) })}
+                    aria-label={t('resourceForm.removeTag', { tag })}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                list="resource-tags"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={() => addTags(tagInput)}
+                className="flex-1 min-w-[8rem] py-1 text-sm border-0 focus:outline-none focus:ring-0"
+              />
+              <datalist id="resource-tags">
+                {knownTags.filter(tag => !form.tags.includes(tag)).map(tag => (
+                  <option key={tag} value={tag} />
+                ))}
+              </datalist>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{t('resourceForm.tagsHint')}</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('resourceForm.image')}</label>
+          {imageUrl ? (
+            <div className="flex items-center gap-4">
+              <img src={imageUrl} alt="" className="h-24 w-40 object-cover rounded-lg" />
+              <button
+                type="button"
+                onClick={removeImage}
+                className="text-red-600 hover:text-red-700 font-medium text-sm"
+              >
+                {t('resourceForm.removeImage')}
+              </button>
+            </div>
+          ) : (
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={handleImage}
+              disabled={uploading}
+              className="text-sm"
+            />
+          )}
+          {uploading && <p className="text-xs text-gray-500 mt-1">{t('resourceForm.uploading')}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('resourceForm.visibility')}</label>
+          <div className="flex flex-wrap gap-6">
+            {(['draft', 'published', 'scheduled'] as ResourceStatus[]).map(status => (
+              <label key={status} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="status"
+                  checked={form.status === status}
+                  onChange={() => setForm({ ...form, status })}
+                  className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 mr-2"
+                />
+                {t(`resourceForm.status.${status}`)}
+              </label>
+            ))}
+          </div>
+          {form.status === 'scheduled' && (
+            <input
+              type="datetime-local"
+              value={form.publish_at}
+              onChange={(e) => setForm({ ...form, publish_at: e.target.value })}
+              className={`${inputClass} mt-3 md:w-auto`}
+            />
+          )}
+        </div>
+
+        <div className="flex gap-4 pt-2">
+          <button
+            type="submit"
+            disabled={saving || uploading}
+            className="bg-green-600 text-white py-2 px-6 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? t('loading') : t('save')}
+          </button>
+          <Link
+            to="/admin/resources"
+            className="bg-gray-100 text-gray-700 py-2 px-6 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {t('cancel')}
+          </Link>
+        </div>
+      </form>
+
+      <div className="mt-8">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('resourceForm.preview')}</h2>
+          <div className="flex gap-2">
+            {(['en', 'hi'] as const).map(code => (
+              <button
+                key={code}
+                type="button"
+                onClick={() => setPreviewLanguage(code)}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  previewLanguage === code
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {code === 'en' ? 'English' : 'हिन्दी'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 sm:p-6">
+          <ResourceCard
+            resource={preview}
+            language={previewLanguage}
+            isExpanded={previewExpanded}
+            onToggle={() => setPreviewExpanded(!previewExpanded)}
+          />
+        </div>
+        {isEdit && (
+          <p className="text-sm text-gray-600 mt-4">
+            {t('resourceForm.otherLanguages')}{' '}
+            <Link
+              to={`/admin/translations?type=resources&id=${resourceId}`}
+              className="text-green-600 hover:text-green-700 font-medium"
+            >
+              {t('translations.manage')} →
+            </Link>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,39 +1,111 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { resourceTranslationsSelect } from '../lib/translations';
+import { Resource, ResourceProgress, recordResourceView } from '../lib/resources';
+import { isLanguage, languages } from '../locales';
+import ResourceCard from '../components/ResourceCard';
 
-interface Resource {
+const MAX_TAGS = 15;
+
+const resourceColumns = `id, title_en, content_en, category, tags, image_url, is_published, published_at, view_count, created_at, ${resourceTranslationsSelect}`;
+
+// Every published resource, without content: feeds the category and tag
+// lists and the progress bar, which should not shrink as filters narrow.
+interface ResourceSummary {
   id: string;
-  title_en: string;
-  title_hi: string;
-  content_en: string;
-  content_hi: string;
   category: string;
-  view_count: number;
-  created_at: string;
+  tags: string[];
 }
 
 export default function Resources() {
+  const { user } = useAuth();
   const { t, language } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [resources, setResources] = useState<Resource[]>([]);
+  const [summaries, setSummaries] = useState<ResourceSummary[]>([]);
+  const [bookmarks, setBookmarks] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<Record<string, ResourceProgress>>({});
   const [loading, setLoading] = useState(true);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [expandedResource, setExpandedResource] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') || '');
+  const [copied, setCopied] = useState(false);
+  const [expandedResource, setExpandedResource] = useState<string | null>(searchParams.get('resource'));
+  const linkedResource = useRef(searchParams.get('resource'));
+
+  const query = searchParams.get('q') || '';
+  const category = searchParams.get('category') || '';
+  const tags = searchParams.getAll('tag');
+  const savedOnly = searchParams.get('saved') === '1';
+  const requestedLanguage = searchParams.get('lang');
+  const contentLanguage = isLanguage(requestedLanguage) ? requestedLanguage : language;
+  const filterKey = [query, category, tags.join(','), contentLanguage].join('|');
 
   useEffect(() => {
-    loadResources();
+    loadSummaries();
   }, []);
 
-  const loadResources = async () => {
+  useEffect(() => {
+    if (searchInput.trim() !== query) setSearchInput(query);
+    setLoading(true);
+    loadResources();
+  }, [filterKey]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== query) updateFilter('q', searchInput.trim());
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (user) {
+      loadLearning();
+    } else {
+      setBookmarks(new Set());
+      setProgress({});
+    }
+  }, [user]);
+
+  useEffect(() => {
+    const linked = linkedResource.current;
+    if (!loading && linked && resources.some(r => r.id === linked)) {
+      linkedResource.current = null;
+      recordView(linked);
+      document.getElementById(`resource-${linked}`)?.scrollIntoView({ block: 'start' });
+    }
+  }, [loading]);
+
+  const loadSummaries = async () => {
     try {
       const { data, error } = await supabase
         .from('educational_resources')
-        .select('*')
+        .select('id, category, tags')
         .eq('is_published', true)
-        .order('created_at', { ascending: false });
+        .lte('published_at', new Date().toISOString());
+
+      if (error) throw error;
+      setSummaries(data || []);
+    } catch (error) {
+      console.error('Error loading resource categories:', error);
+    }
+  };
+
+  const loadResources = async () => {
+    try {
+      // A GET request, so the service worker can keep it for offline reading.
+      const { data, error } = await supabase
+        .rpc('search_resources', {
+          p_query: query || undefined,
+          p_category: category || undefined,
+          p_tags: tags.length > 0 ? tags : undefined,
+          p_language: contentLanguage,
+        }, { get: true })
+        .select(resourceColumns);
 
       if (error) throw error;
-      setResources(data || []);
+      setResources((data as Resource[]) || []);
     } catch (error) {
       console.error('Error loading resources:', error);
     } finally {
@@ -41,145 +113,337 @@ export default function Resources() {
     }
   };
 
-  const handleViewResource = async (resourceId: string) => {
+  const loadLearning = async () => {
+    try {
+      const [bookmarksRes, progressRes] = await Promise.all([
+        supabase.from('resource_bookmarks').select('resource_id').eq('user_id', user!.id),
+        supabase
+          .from('resource_progress')
+          .select('resource_id, last_viewed_at, completed_at')
+          .eq('user_id', user!.id),
+      ]);
+
+      if (bookmarksRes.error) throw bookmarksRes.error;
+      if (progressRes.error) throw progressRes.error;
+      setBookmarks(new Set(bookmarksRes.data.map(b => b.resource_id)));
+      setProgress(Object.fromEntries(progressRes.data.map(p => [p.resource_id, p])));
+    } catch (error) {
+      console.error('Error loading learning progress:', error);
+    }
+  };
+
+  const recordView = async (resourceId: string) => {
+    try {
+      const counted = await recordResourceView(resourceId, contentLanguage);
+      if (counted) {
+        setResources(current => current.map(r =>
+          r.id === resourceId ? { ...r, view_count: r.view_count + 1 } : r
+        ));
+      }
+      if (user) {
+        setProgress(current => ({
+          ...current,
+          [resourceId]: {
+            resource_id: resourceId,
+            last_viewed_at: new Date().toISOString(),
+            completed_at: current[resourceId]?.completed_at ?? null,
+          },
+        }));
+      }
+    } catch (error) {
+      console.error('Error recording view:', error);
+    }
+  };
+
+  const toggleBookmark = async (resourceId: string) => {
+    if (!user) return;
+    const saved = bookmarks.has(resourceId);
+    const next = new Set(bookmarks);
+    if (saved) {
+      next.delete(resourceId);
+    } else {
+      next.add(resourceId);
+    }
+    setBookmarks(next);
+
+    try {
+      const { error } = saved
+        ? await supabase
+            .from('resource_bookmarks')
+            .delete()
+            .eq('user_id', user.id)
+            .eq('resource_id', resourceId)
+        : await supabase
+            .from('resource_bookmarks')
+            .insert({ user_id: user.id, resource_id: resourceId });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating bookmark:', error);
+      setBookmarks(bookmarks);
+    }
+  };
+
+  const toggleCompleted = async (resourceId: string) => {
+    if (!user) return;
+    const previous = progress[resourceId];
+    const completedAt = previous?.completed_at ? null : new Date().toISOString();
+    setProgress({
+      ...progress,
+      [resourceId]: {
+        resource_id: resourceId,
+        last_viewed_at: previous?.last_viewed_at || new Date().toISOString(),
+        completed_at: completedAt,
+      },
+    });
+
+    try {
+      const { error } = await supabase
+        .from('resource_progress')
+        .upsert(
+          { user_id: user.id, resource_id: resourceId, completed_at: completedAt },
+          { onConflict: 'user_id,resource_id' }
+        );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating progress:', error);
+      setProgress(progress);
+    }
+  };
+
+  const handleViewResource = (resourceId: string) => {
     if (expandedResource === resourceId) {
       setExpandedResource(null);
       return;
     }
 
     setExpandedResource(resourceId);
+    recordView(resourceId);
+  };
 
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: key === 'q' });
+  };
+
+  const showCategory = (value: string, saved: boolean) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set('category', value);
+    } else {
+      next.delete('category');
+    }
+    if (saved) {
+      next.set('saved', '1');
+    } else {
+      next.delete('saved');
+    }
+    setSearchParams(next);
+  };
+
+  const toggleTag = (tag: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('tag');
+    const selected = tags.includes(tag) ? tags.filter(selectedTag => selectedTag !== tag) : [...tags, tag];
+    selected.forEach(selectedTag => next.append('tag', selectedTag));
+    setSearchParams(next);
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(new URLSearchParams());
+  };
+
+  const handleShare = async () => {
+    const url = window.location.href;
     try {
-      const resource = resources.find(r => r.id === resourceId);
-      if (resource) {
-        await supabase
-          .from('educational_resources')
-          .update({ view_count: resource.view_count + 1 })
-          .eq('id', resourceId);
-
-        setResources(resources.map(r =>
-          r.id === resourceId ? { ...r, view_count: r.view_count + 1 } : r
-        ));
+      if (navigator.share) {
+        await navigator.share({ title: t('resources.title'), url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
       }
     } catch (error) {
-      console.error('Error updating view count:', error);
+      console.error('Error sharing resources:', error);
     }
   };
 
-  const categories = ['all', ...Array.from(new Set(resources.map(r => r.category)))];
+  const categories = Array.from(new Set(summaries.map(r => r.category))).sort();
+
+  const tagCounts = new Map<string, number>();
+  summaries.forEach(r => r.tags.forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)));
+  const popularTags = Array.from(tagCounts.entries())
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, MAX_TAGS)
+    .map(([tag]) => tag);
+  const tagOptions = [...tags.filter(tag => !popularTags.includes(tag)), ...popularTags];
+
+  const filteredResources = savedOnly ? resources.filter(r => bookmarks.has(r.id)) : resources;
+  const hasFilters = Boolean(query || category || tags.length > 0);
 
-  const filteredResources = selectedCategory === 'all'
-    ? resources
-    : resources.filter(r => r.category === selectedCategory);
+  const completedCount = summaries.filter(r => progress[r.id]?.completed_at).length;
 
-  if (loading) return <div className="p-8 text-center">{t('loading')}</div>;
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-800 mb-2">{t('resources.title')}</h1>
         <p className="text-gray-600">
-          Learn about value addition, marketing strategies, and entrepreneurship
+          {t('resources.subtitle')}
         </p>
+        {user && summaries.length > 0 && (
+          <div className="mt-4 max-w-md">
+            <p className="text-sm text-gray-700 mb-1">
+              {t('resources.progress', { completed: completedCount, total: summaries.length })}
+            </p>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-600"
+                style={{ width: `${(completedCount / summaries.length) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
-      <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
-        <h3 className="text-sm font-medium text-gray-700 mb-3">Categories</h3>
-        <div className="flex flex-wrap gap-2">
-          {categories.map(category => (
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-8 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-3">
+            <input
+              type="search"
+              placeholder={t('resources.searchHint')}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <select
+            value={contentLanguage}
+            onChange={(e) => updateFilter('lang', e.target.value)}
+            aria-label={t('resources.readIn')}
+            className={inputClass}
+          >
+            {languages.map(option => (
+              <option key={option.code} value={option.code}>
+                {t('resources.readIn')}: {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">{t('resources.categories')}</h3>
+          <div className="flex flex-wrap gap-2">
+            {['', ...categories].map(option => (
+              <button
+                key={option || 'all'}
+                onClick={() => showCategory(option, false)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  category === option && !savedOnly
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option || t('resources.all')}
+              </button>
+            ))}
+            {user && (
+              <button
+                onClick={() => showCategory('', true)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  savedOnly
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                🔖 {t('resources.savedFilter', { count: bookmarks.size })}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {tagOptions.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">{t('resources.tags')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {tagOptions.map(tag => {
+                const active = tags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={active}
+                    title={active ? t('resources.removeTag', { tag }) : undefined}
+                    className={`text-xs px-2 py-1 rounded transition-colors ${
+                      active
+                        ? 'bg-green-600 text-white'
+                        : 'bg-gray-100 text-gray-600 hover:bg-green-100 hover:text-green-700'
+                    }`}
+                  >
+                    #{tag}{active && ' ✕'}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleShare}
+            className="text-sm text-green-600 hover:text-green-700 font-medium"
+          >
+            {copied ? t('resources.linkCopied') : t('resources.share')}
+          </button>
+          {(hasFilters || savedOnly || requestedLanguage) && (
             <button
-              key={category}
-              onClick={() => setSelectedCategory(category)}
-              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                selectedCategory === category
-                  ? 'bg-green-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
+              onClick={clearFilters}
+              className="text-sm text-gray-600 hover:text-green-600 font-medium"
             >
-              {category === 'all' ? 'All' : category}
+              {t('resources.clearFilters')}
             </button>
-          ))}
+          )}
         </div>
       </div>
 
-      {filteredResources.length === 0 ? (
+      {loading ? (
+        <div className="p-8 text-center">{t('loading')}</div>
+      ) : filteredResources.length === 0 ? (
         <div className="text-center py-12">
-          <p className="text-gray-600 text-lg">No resources found in this category.</p>
+          <p className="text-gray-600 text-lg">
+            {savedOnly ? t('resources.noneSaved') : hasFilters ? t('resources.noMatches') : t('resources.none')}
+          </p>
         </div>
       ) : (
         <div className="space-y-4">
           {filteredResources.map(resource => (
-            <ResourceCard
-              key={resource.id}
-              resource={resource}
-              language={language}
-              isExpanded={expandedResource === resource.id}
-              onToggle={() => handleViewResource(resource.id)}
-            />
+            <div key={resource.id} id={`resource-${resource.id}`} className="scroll-mt-4">
+              <ResourceCard
+                resource={resource}
+                language={contentLanguage}
+                isExpanded={expandedResource === resource.id}
+                onToggle={() => handleViewResource(resource.id)}
+                onTagClick={toggleTag}
+                learning={user ? {
+                  bookmarked: bookmarks.has(resource.id),
+                  completed: Boolean(progress[resource.id]?.completed_at),
+                  onToggleBookmark: () => toggleBookmark(resource.id),
+                  onToggleCompleted: () => toggleCompleted(resource.id),
+                } : undefined}
+              />
+            </div>
           ))}
         </div>
       )}
     </div>
   );
 }
-
-interface ResourceCardProps {
-  resource: Resource;
-  language: string;
-  isExpanded: boolean;
-  onToggle: () => void;
-}
-
-function ResourceCard({ resource, language, isExpanded, onToggle }: ResourceCardProps) {
-  const title = language === 'hi' ? resource.title_hi : resource.title_en;
-  const content = language === 'hi' ? resource.content_hi : resource.content_en;
-
-  return (
-    <div className="bg-white rounded-lg shadow-md overflow-hidden">
-      <div className="p-6">
-        <div className="flex justify-between items-start mb-4">
-          <div className="flex-1">
-            <h3 className="text-xl font-semibold text-gray-800 mb-2">{title}</h3>
-            <div className="flex items-center gap-4 text-sm text-gray-600">
-              <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full">
-                {resource.category}
-              </span>
-              <span className="flex items-center gap-1">
-                👁️ {resource.view_count} views
-              </span>
-              <span>
-                {new Date(resource.created_at).toLocaleDateString('en-IN', {
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
-              </span>
-            </div>
-          </div>
-        </div>
-
-        {isExpanded ? (
-          <div className="prose max-w-none">
-            <div className="text-gray-700 whitespace-pre-line">{content}</div>
-            <button
-              onClick={onToggle}
-              className="mt-4 text-green-600 hover:text-green-700 font-medium text-sm"
-            >
-              Show Less
-            </button>
-          </div>
-        ) : (
-          <div>
-            <p className="text-gray-700 line-clamp-2">{content}</p>
-            <button
-              onClick={onToggle}
-              className="mt-2 text-green-600 hover:text-green-700 font-medium text-sm"
-            >
-              Read More →
-            </button>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
@@ -8,7 +8,7 @@ export default function SignIn() {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, deactivated } = useAuth();
   const { t } = useLanguage();
   const navigate = useNavigate();
 
@@ -20,12 +20,12 @@ export default function SignIn() {
     try {
       const { error } = await signIn(email, password);
       if (error) {
-        setError(error.message);
+        setError(error.code === 'user_banned' ? t('auth.deactivated') : error.message);
       } else {
         navigate('/dashboard');
       }
     } catch (err) {
-      setError('An unexpected error occurred');
+      setError(t('errors.unexpected'));
     } finally {
       setLoading(false);
     }
@@ -41,6 +41,12 @@ export default function SignIn() {
 
         <h2 className="text-2xl font-semibold text-gray-800 mb-6">{t('auth.signin')}</h2>
 
+        {deactivated && !error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {t('auth.deactivated')}
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
             {error}
@@ -84,7 +90,7 @@ export default function SignIn() {
         </form>
 
         <p className="mt-6 text-center text-gray-600">
-          Don't have an account?{' '}
+          {t('auth.noAccount')}{' '}
           <button
             onClick={() => navigate('/signup')}
             className="text-green-600 hover:text-green-700 font-medium"
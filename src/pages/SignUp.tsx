@@ -3,16 +3,11 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { UserRole } from '../lib/supabase';
-
-const indianStates = [
-  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh',
-  'Goa', 'Gujarat', 'Haryana', 'Himachal Pradesh', 'Jharkhand', 'Karnataka',
-  'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram',
-  'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu',
-  'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal'
-];
+import { indianStates } from '../lib/indianStates';
+import { languages } from '../locales';
 
 export default function SignUp() {
+  const { t, language } = useLanguage();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -21,12 +16,11 @@ export default function SignUp() {
     role: 'farmer' as UserRole,
     state: '',
     district: '',
-    language_preference: 'en'
+    language_preference: language as string
   });
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
-  const { t } = useLanguage();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -44,7 +38,7 @@ export default function SignUp() {
         navigate('/dashboard');
       }
     } catch (err) {
-      setError('An unexpected error occurred');
+      setError(t('errors.unexpected'));
     } finally {
       setLoading(false);
     }
@@ -136,15 +130,16 @@ export default function SignUp() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Language / भाषा
+                {t('auth.language')}
               </label>
               <select
                 value={formData.language_preference}
                 onChange={(e) => setFormData({ ...formData, language_preference: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
               >
-                <option value="en">English</option>
-                <option value="hi">हिंदी (Hindi)</option>
+                {languages.map(l => (
+                  <option key={l.code} value={l.code}>{l.name}</option>
+                ))}
               </select>
             </div>
 
@@ -157,7 +152,7 @@ export default function SignUp() {
                 onChange={(e) => setFormData({ ...formData, state: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
               >
-                <option value="">Select State</option>
+                <option value="">{t('auth.selectState')}</option>
                 {indianStates.map(state => (
                   <option key={state} value={state}>{state}</option>
                 ))}
@@ -187,7 +182,7 @@ export default function SignUp() {
         </form>
 
         <p className="mt-6 text-center text-gray-600">
-          Already have an account?{' '}
+          {t('auth.haveAccount')}{' '}
           <button
             onClick={() => navigate('/signin')}
             className="text-green-600 hover:text-green-700 font-medium"
@@ -0,0 +1,34 @@
+import { MockPaymentProvider } from './mock.ts';
+import type { PaymentProvider } from './provider.ts';
+
+export * from './provider.ts';
+export { MockPaymentProvider } from './mock.ts';
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+/**
+ * Returns the gateway registered under `name`. New gateways are added here
+ * and selected with the PAYMENT_PROVIDER environment variable.
+ *
+ * The mock marks orders paid for anyone who asks, so it only exists where
+ * ALLOW_MOCK_PAYMENTS=true is set, and never with a default secret.
+ */
+export function getProvider(name: string): PaymentProvider {
+  switch (name) {
+    case 'mock':
+      if (Deno.env.get('ALLOW_MOCK_PAYMENTS') !== 'true') {
+        throw new Error('Mock payments are disabled; set ALLOW_MOCK_PAYMENTS=true in development only');
+      }
+      return new MockPaymentProvider(requireEnv('MOCK_PAYMENT_WEBHOOK_SECRET'));
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
+
+export function defaultProviderName(): string {
+  return requireEnv('PAYMENT_PROVIDER');
+}
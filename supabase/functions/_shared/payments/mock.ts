@@ -0,0 +1,78 @@
+import type {
+  CreatePaymentInput,
+  CreatedPayment,
+  PaymentEvent,
+  PaymentProvider,
+  RefundInput,
+  RefundResult,
+} from './provider.ts';
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+
+export interface MockPaymentDetails {
+  upi_id?: string;
+  card_number?: string;
+}
+
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Outcome is decided by the details entered, so the same input always gives
+ * the same result: UPI ids ending in `@fail` and the card 4000 0000 0000 0002
+ * are declined, everything else succeeds.
+ */
+export function mockOutcome(details: MockPaymentDetails): PaymentEvent['status'] {
+  const upiId = details.upi_id?.trim().toLowerCase() || '';
+  const card = details.card_number?.replace(/\s/g, '') || '';
+  return upiId.endsWith('@fail') || card === '4000000000000002' ? 'failed' : 'completed';
+}
+
+export class MockPaymentProvider implements PaymentProvider {
+  name = 'mock';
+
+  constructor(private secret: string) {}
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatedPayment> {
+    const reference = `mock_pay_${input.paymentId}`;
+    return {
+      reference,
+      checkout: { reference, amount: input.amount, method: input.method },
+    };
+  }
+
+  async verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | null> {
+    const signature = headers.get(SIGNATURE_HEADER);
+    if (!signature || signature !== await sign(this.secret, body)) return null;
+
+    const event = JSON.parse(body);
+    if (typeof event.reference !== 'string') return null;
+    if (event.status !== 'completed' && event.status !== 'failed') return null;
+    return { reference: event.reference, status: event.status };
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    return { reference: `mock_refund_${input.refundId}`, status: 'completed' };
+  }
+
+  /**
+   * Stands in for the gateway's hosted checkout: builds the signed webhook
+   * the gateway would send once the buyer has paid.
+   */
+  async simulate(reference: string, details: MockPaymentDetails): Promise<{ body: string; headers: Headers }> {
+    const body = JSON.stringify({ reference, status: mockOutcome(details) });
+    const headers = new Headers({ [SIGNATURE_HEADER]: await sign(this.secret, body) });
+    return { body, headers };
+  }
+}
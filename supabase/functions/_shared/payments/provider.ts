@@ -0,0 +1,43 @@
+export type PaymentMethod = 'upi' | 'card';
+
+export interface CreatePaymentInput {
+  paymentId: string;
+  amount: number;
+  currency: 'INR';
+  method: PaymentMethod;
+}
+
+export interface CreatedPayment {
+  // The gateway's id for this payment; webhooks refer to it.
+  reference: string;
+  // Whatever the browser needs to collect the payment (order id, key, ...).
+  checkout: Record<string, unknown>;
+}
+
+export interface PaymentEvent {
+  reference: string;
+  status: 'completed' | 'failed';
+}
+
+export interface RefundInput {
+  refundId: string;
+  paymentReference: string;
+  amount: number;
+}
+
+export interface RefundResult {
+  reference: string;
+  status: 'pending' | 'completed' | 'failed';
+}
+
+/**
+ * A payment gateway. Implementations must be safe to call repeatedly with
+ * the same input, since webhooks and refunds can be retried.
+ */
+export interface PaymentProvider {
+  name: string;
+  createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+  // Returns null when the payload's signature does not verify.
+  verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | null>;
+  refund(input: RefundInput): Promise<RefundResult>;
+}
@@ -0,0 +1,314 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  defaultProviderName,
+  getProvider,
+  MockPaymentProvider,
+  PaymentMethod,
+  PaymentProvider,
+  RefundResult,
+} from '../_shared/payments/index.ts';
+
+/*
+  Payments edge function.
+
+  POST /payments                      (JSON body, caller's JWT required)
+    { action: 'create', order_ids, method }  - starts one payment for the
+                                               caller's unpaid orders
+    { action: 'simulate', payment_id, details } - mock provider only: plays
+                                               the gateway and delivers its
+                                               signed webhook
+    { action: 'refund', order_id }           - sends the order's queued
+                                               refund to the gateway
+
+  POST /payments/webhook?provider=<name>      - gateway callback, verified by
+                                               the provider's signature check
+
+  POST /payments/refunds                      - sends every queued refund;
+                                               service role key required.
+                                               Called on a schedule by
+                                               pg_cron, so refunds go out
+                                               even when the cancelling
+                                               browser never asked
+
+  Gateways call the webhook without a Supabase JWT, so deploy with
+  `supabase functions deploy payments --no-verify-jwt`; every other route
+  checks the caller's token itself.
+*/
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+async function getCaller(req: Request): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) throw new HttpError(401, 'Not signed in');
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Not signed in');
+  return data.user.id;
+}
+
+async function handleWebhook(provider: PaymentProvider, body: string, headers: Headers) {
+  const event = await provider.verifyWebhook(body, headers);
+  if (!event) throw new HttpError(401, 'Invalid signature');
+
+  // Only the first event for a payment counts; retries are no-ops.
+  const { data, error } = await admin
+    .from('payments')
+    .update({ status: event.status, updated_at: new Date().toISOString() })
+    .eq('provider', provider.name)
+    .eq('provider_reference', event.reference)
+    .eq('status', 'created')
+    .select('id, status');
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+async function createPayment(buyerId: string, orderIds: string[], method: PaymentMethod) {
+  if (!Array.isArray(orderIds) || orderIds.length === 0) {
+    throw new HttpError(400, 'No orders to pay for');
+  }
+  if (method !== 'upi' && method !== 'card') {
+    throw new HttpError(400, 'Unsupported payment method');
+  }
+
+  const { data: orders, error } = await admin
+    .from('orders')
+    .select('id, buyer_id, status, payment_method, payment_status, total_amount')
+    .in('id', orderIds);
+
+  if (error) throw error;
+  if (!orders || orders.length !== new Set(orderIds).size) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  for (const order of orders) {
+    if (order.buyer_id !== buyerId) throw new HttpError(404, 'Order not found');
+    if (order.status === 'cancelled') throw new HttpError(409, 'Cancelled orders cannot be paid');
+    if (order.payment_method !== 'online') throw new HttpError(409, 'Cash on delivery orders are paid to the farmer');
+    if (order.payment_status !== 'pending' && order.payment_status !== 'failed') {
+      throw new HttpError(409, 'Order is already paid');
+    }
+  }
+
+  // Rounded to paise so it compares equal to the orders' decimal totals.
+  const amount = Math.round(orders.reduce((sum, order) => sum + Number(order.total_amount), 0) * 100) / 100;
+  const provider = getProvider(defaultProviderName());
+  const paymentId = crypto.randomUUID();
+  const created = await provider.createPayment({ paymentId, amount, currency: 'INR', method });
+
+  // The checks above only give early errors; link_payment repeats them with
+  // the orders locked, so nothing can change between the check and the link.
+  const { error: linkError } = await admin.rpc('link_payment', {
+    p_payment_id: paymentId,
+    p_buyer_id: buyerId,
+    p_order_ids: orderIds,
+    p_provider: provider.name,
+    p_provider_reference: created.reference,
+    p_method: method,
+    p_amount: amount,
+  });
+  // P0001: one of the function's own checks failed.
+  if (linkError?.code === 'P0001') throw new HttpError(409, linkError.message);
+  if (linkError) throw linkError;
+
+  return { payment_id: paymentId, provider: provider.name, checkout: created.checkout };
+}
+
+async function simulatePayment(buyerId: string, paymentId: string, details: Record<string, string>) {
+  const { data: payment, error } = await admin
+    .from('payments')
+    .select('buyer_id, provider, provider_reference')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment || payment.buyer_id !== buyerId) throw new HttpError(404, 'Payment not found');
+
+  const provider = getProvider(payment.provider);
+  if (!(provider instanceof MockPaymentProvider)) {
+    throw new HttpError(400, 'Only mock payments can be simulated');
+  }
+
+  const webhook = await provider.simulate(payment.provider_reference, details || {});
+  await handleWebhook(provider, webhook.body, webhook.headers);
+
+  const { data: updated } = await admin
+    .from('payments')
+    .select('status')
+    .eq('id', paymentId)
+    .single();
+
+  return { status: updated?.status };
+}
+
+const MAX_REFUNDS_PER_RUN = 50;
+// A declined refund is tried again after 10 minutes, then 20, 40, ...;
+// after the last attempt it is marked failed for an admin to settle.
+const MAX_REFUND_ATTEMPTS = 6;
+const REFUND_RETRY_BASE_MS = 10 * 60 * 1000;
+
+const refundColumns = 'id, amount, status, attempts, next_attempt_at, payment:payment_id (provider, provider_reference)';
+
+interface QueuedRefund {
+  id: string;
+  amount: number;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  payment: unknown;
+}
+
+async function sendRefund(refund: QueuedRefund) {
+  const payment = refund.payment as { provider: string; provider_reference: string };
+  let result: RefundResult | null = null;
+  let failure = '';
+  try {
+    result = await getProvider(payment.provider).refund({
+      refundId: refund.id,
+      paymentReference: payment.provider_reference,
+      amount: Number(refund.amount),
+    });
+    if (result.status === 'failed') failure = 'Declined by the payment gateway';
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+  }
+
+  const now = Date.now();
+  let changes: Record<string, unknown>;
+  if (!failure) {
+    changes = { status: result!.status, provider_reference: result!.reference, last_error: null };
+  } else {
+    const attempts = refund.attempts + 1;
+    const givingUp = attempts >= MAX_REFUND_ATTEMPTS;
+    console.error(`Refund ${refund.id} attempt ${attempts} failed:`, failure);
+    changes = {
+      status: givingUp ? 'failed' : 'pending',
+      provider_reference: result?.reference ?? null,
+      attempts,
+      last_error: failure,
+      next_attempt_at: givingUp ? null : new Date(now + REFUND_RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+    };
+  }
+
+  const { error } = await admin
+    .from('payment_refunds')
+    .update({ ...changes, updated_at: new Date(now).toISOString() })
+    .eq('id', refund.id)
+    .eq('status', 'pending');
+  if (error) throw error;
+
+  return changes.status as RefundResult['status'];
+}
+
+function isDue(refund: QueuedRefund) {
+  return !refund.next_attempt_at || new Date(refund.next_attempt_at).getTime() <= Date.now();
+}
+
+async function processRefund(userId: string, orderId: string) {
+  const { data: order, error } = await admin
+    .from('orders')
+    .select('buyer_id, farmer_id')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!order || (order.buyer_id !== userId && order.farmer_id !== userId)) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  const { data: refund, error: refundError } = await admin
+    .from('payment_refunds')
+    .select(refundColumns)
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (refundError) throw refundError;
+  if (!refund) return { status: null };
+  if (refund.status !== 'pending' || !isDue(refund)) return { status: refund.status };
+
+  return { status: await sendRefund(refund) };
+}
+
+// Oldest first, skipping refunds still waiting out their retry delay. An
+// error saving one refund does not hold up the rest.
+async function processQueuedRefunds() {
+  const { data: refunds, error } = await admin
+    .from('payment_refunds')
+    .select(refundColumns)
+    .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+    .order('created_at')
+    .limit(MAX_REFUNDS_PER_RUN);
+
+  if (error) throw error;
+
+  let sent = 0;
+  for (const refund of refunds || []) {
+    try {
+      if (await sendRefund(refund) !== 'pending') sent += 1;
+    } catch (refundError) {
+      console.error(`Error saving refund ${refund.id}:`, refundError);
+    }
+  }
+  return { due: refunds?.length ?? 0, sent };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const url = new URL(req.url);
+
+    if (url.pathname.endsWith('/webhook')) {
+      const provider = getProvider(url.searchParams.get('provider') || defaultProviderName());
+      await handleWebhook(provider, await req.text(), req.headers);
+      return json({ received: true });
+    }
+
+    if (url.pathname.endsWith('/refunds')) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) throw new HttpError(401, 'Not allowed');
+      return json(await processQueuedRefunds());
+    }
+
+    const userId = await getCaller(req);
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'create':
+        return json(await createPayment(userId, body.order_ids, body.method));
+      case 'simulate':
+        return json(await simulatePayment(userId, body.payment_id, body.details));
+      case 'refund':
+        return json(await processRefund(userId, body.order_id));
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) return json({ error: error.message }, error.status);
+    console.error('Payments error:', error);
+    return json({ error: 'Payment service error' }, 500);
+  }
+});
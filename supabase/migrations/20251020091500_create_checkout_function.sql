@@ -0,0 +1,86 @@
+/*
+  # Multi-farmer Checkout
+
+  ## Overview
+  Adds a single entry point for turning a buyer's cart into orders. A cart can
+  mix products from several farmers, while `orders` carries one `farmer_id`, so
+  the cart is split into one order per farmer.
+
+  ## New Functions
+
+  ### `place_orders(p_items jsonb, p_delivery_address jsonb, p_notes text)`
+  - `p_items` - Array of `{ "product_id": uuid, "quantity": integer }`
+  - `p_delivery_address` - Stored as-is on every resulting order
+  - `p_notes` - Optional buyer instructions, copied to every resulting order
+  - Returns the created `orders` rows
+
+  ## Security
+  - SECURITY INVOKER: the existing RLS policies on `orders` and `order_items`
+    still decide whether the caller may create orders (buyers only)
+
+  ## Important Notes
+  1. `unit_price` and `subtotal` are snapshotted from `products.price` on the
+     server, so a stale cart in the browser cannot change what is charged
+  2. The whole call runs in one transaction; if any order or item insert fails,
+     nothing is written and no order is left without its items
+*/
+
+CREATE OR REPLACE FUNCTION place_orders(
+  p_items jsonb,
+  p_delivery_address jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS SETOF orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_farmer_id uuid;
+  v_total decimal(10, 2);
+  v_order orders;
+  v_requested integer;
+  v_found integer;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  DROP TABLE IF EXISTS checkout_lines;
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.farmer_id, p.price, i.quantity
+  FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer)
+  JOIN products p ON p.id = i.product_id AND p.is_active = true;
+
+  v_requested := jsonb_array_length(p_items);
+  SELECT count(*) INTO v_found FROM checkout_lines;
+  IF v_found <> v_requested THEN
+    RAISE EXCEPTION 'One or more products in the cart are no longer available';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM checkout_lines WHERE quantity IS NULL OR quantity <= 0) THEN
+    RAISE EXCEPTION 'Quantities must be greater than zero';
+  END IF;
+
+  FOR v_farmer_id IN SELECT DISTINCT farmer_id FROM checkout_lines LOOP
+    SELECT sum(price * quantity) INTO v_total
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    INSERT INTO orders (buyer_id, farmer_id, total_amount, delivery_address, notes)
+    VALUES (auth.uid(), v_farmer_id, v_total, p_delivery_address, p_notes)
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT v_order.id, product_id, quantity, price, price * quantity
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    RETURN NEXT v_order;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_orders(jsonb, jsonb, text) TO authenticated;
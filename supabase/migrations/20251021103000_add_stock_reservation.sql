@@ -0,0 +1,170 @@
+/*
+  # Stock Reservation on Order Placement
+
+  ## Overview
+  Ties `order_items.quantity` to `products.stock_quantity`. Placing orders now
+  verifies and decrements stock in the same transaction that creates the
+  orders, and cancelling an order puts its stock back.
+
+  ## Modified Functions
+
+  ### `place_orders(p_items jsonb, p_delivery_address jsonb, p_notes text)`
+  - Locks every product in the cart (`FOR UPDATE`, in id order) before reading
+    its stock, so concurrent checkouts for the same product are serialised
+  - Rejects the whole call if any line is oversold. The error message is
+    'Insufficient stock' and the DETAIL is a JSON array of
+    `{ product_id, name, requested, available }`, one entry per failing line
+  - Decrements `products.stock_quantity` for every line on success
+
+  ## New Functions / Triggers
+
+  ### `restore_stock_on_cancel()` (trigger on `orders`)
+  - When an order moves to `cancelled`, adds each item's quantity back to
+    its product
+  - Cancelled orders cannot be moved to another status, since that would
+    hand out stock that was already returned
+
+  ## Security
+  - `place_orders` becomes SECURITY DEFINER because buyers have no UPDATE
+    access to `products`. It therefore performs the checks RLS used to do:
+    the caller must be an active buyer, and orders are always created for
+    `auth.uid()`
+
+  ## Important Notes
+  1. Stock is reserved at placement, so `stock_quantity` is what is still
+     available to other buyers
+  2. Inactive products are still rejected as unavailable
+*/
+
+CREATE OR REPLACE FUNCTION place_orders(
+  p_items jsonb,
+  p_delivery_address jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS SETOF orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_farmer_id uuid;
+  v_total decimal(10, 2);
+  v_order orders;
+  v_requested integer;
+  v_found integer;
+  v_oversold jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = v_buyer_id AND role = 'buyer' AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only buyer accounts can place orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::uuid FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be greater than zero';
+  END IF;
+
+  -- One line per product: a product listed twice is checked against stock
+  -- and decremented for its combined quantity.
+  DROP TABLE IF EXISTS checkout_lines;
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.name, p.farmer_id, p.price, p.stock_quantity, i.quantity
+  FROM (
+    SELECT product_id, sum(quantity)::integer AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer)
+    GROUP BY product_id
+  ) i
+  JOIN products p ON p.id = i.product_id AND p.is_active = true;
+
+  SELECT count(*) INTO v_requested
+  FROM (SELECT DISTINCT (item->>'product_id')::uuid FROM jsonb_array_elements(p_items) AS item) ids;
+  SELECT count(*) INTO v_found FROM checkout_lines;
+  IF v_found <> v_requested THEN
+    RAISE EXCEPTION 'One or more products in the cart are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'name', name,
+    'requested', quantity,
+    'available', stock_quantity
+  ))
+  INTO v_oversold
+  FROM checkout_lines
+  WHERE quantity > stock_quantity;
+
+  IF v_oversold IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient stock' USING DETAIL = v_oversold::text;
+  END IF;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity - l.quantity,
+      updated_at = now()
+  FROM checkout_lines l
+  WHERE p.id = l.product_id;
+
+  FOR v_farmer_id IN SELECT DISTINCT farmer_id FROM checkout_lines LOOP
+    SELECT sum(price * quantity) INTO v_total
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    INSERT INTO orders (buyer_id, farmer_id, total_amount, delivery_address, notes)
+    VALUES (v_buyer_id, v_farmer_id, v_total, p_delivery_address, p_notes)
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT v_order.id, product_id, quantity, price, price * quantity
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    RETURN NEXT v_order;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_stock_on_cancel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be reopened';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    UPDATE products p
+    SET stock_quantity = p.stock_quantity + oi.quantity,
+        updated_at = now()
+    FROM order_items oi
+    WHERE oi.order_id = NEW.id AND p.id = oi.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_restore_stock_on_cancel ON orders;
+CREATE TRIGGER orders_restore_stock_on_cancel
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION restore_stock_on_cancel();
@@ -0,0 +1,72 @@
+/*
+  # Product Images Storage
+
+  ## Overview
+  Creates the Supabase Storage bucket that backs `products.images`.
+
+  ## Storage Layout
+  - Bucket `product-images` (public read)
+  - Object path: `{farmer_id}/{product_id}/{file name}`
+  - `products.images` holds the ordered array of public URLs; the first
+    entry is the cover image
+
+  ## Security
+  Mirrors the `products` RLS policies:
+  - Anyone can read images (the bucket is public, like the catalog)
+  - Only farmers can upload, and only under their own `{farmer_id}/` folder
+  - Only the owning farmer can replace or delete their images
+
+  ## Important Notes
+  1. Images are resized and compressed in the browser before upload
+  2. Uploads are capped at 2 MB and restricted to common image types
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'product-images',
+  'product-images',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read product images"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'product-images');
+
+CREATE POLICY "Farmers can upload own product images"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'product-images' AND
+    (storage.foldername(name))[1] = auth.uid()::text AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'farmer'
+    )
+  );
+
+CREATE POLICY "Farmers can update own product images"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'product-images' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'product-images' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Farmers can delete own product images"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'product-images' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,53 @@
+/*
+  # Public Catalog Access
+
+  ## Overview
+  `/products` and `/products/:id` are public pages, but every catalog policy
+  was granted `TO authenticated` only, and farmer profiles were readable only
+  by the farmer themselves and admins. Signed-out visitors saw an empty
+  catalog and buyers saw "Farmer" instead of the seller's name.
+
+  ## Security
+  - `products`: anyone (including `anon`) can read active products
+  - `product_categories`: anyone can read categories
+  - `reviews`: anyone can read reviews
+  - `user_profiles`: anyone can read active farmer profiles, so product pages
+    can show the farmer's name, state and district
+  - `anon` cannot read `phone` on `user_profiles`; contact happens through
+    in-app messages
+
+  ## Important Notes
+  1. Inactive products stay visible only to their farmer and admins through
+     the existing policies
+  2. Buyer profiles remain private
+*/
+
+CREATE POLICY "Anyone can read active products"
+  ON products
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Public can read categories"
+  ON product_categories
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Public can read reviews"
+  ON reviews
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anyone can read farmer profiles"
+  ON user_profiles
+  FOR SELECT
+  TO anon, authenticated
+  USING (role = 'farmer' AND is_active = true);
+
+REVOKE SELECT ON user_profiles FROM anon;
+GRANT SELECT (id, role, full_name, state, district, profile_image_url, is_active, created_at)
+  ON user_profiles TO anon;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_product_created ON reviews(product_id, created_at DESC);
@@ -0,0 +1,122 @@
+/*
+  # Review Workflow
+
+  ## Overview
+  Lets buyers review products from delivered orders and lets farmers post a
+  single public reply to each review of their products.
+
+  ## Modified Tables
+
+  ### `reviews`
+  - `farmer_reply` (text) - The product farmer's public reply
+  - `farmer_replied_at` (timestamptz) - When the reply was last written
+
+  ## New Functions / Triggers
+
+  ### `prepare_review()` (BEFORE INSERT OR UPDATE on `reviews`)
+  - On insert, fills `order_id` with the buyer's most recent delivered order
+    containing the product when the client did not send one, and derives
+    `is_verified_purchase` from that order; client-sent values are ignored
+  - On update, `product_id`, `buyer_id`, `order_id` and
+    `is_verified_purchase` cannot change, the buyer cannot touch the farmer's
+    reply, and `updated_at` is refreshed. `order_id` may still be cleared,
+    which is what `ON DELETE SET NULL` does when the order is deleted
+
+  ### `reply_to_review(p_review_id uuid, p_reply text)`
+  - Sets (or replaces) the farmer reply on a review of one of the caller's
+    products. An empty reply removes it
+
+  ## Security
+  - `reply_to_review` is SECURITY DEFINER and checks that the caller owns the
+    reviewed product; farmers get no direct UPDATE access to `reviews`
+*/
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS farmer_reply text;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS farmer_replied_at timestamptz;
+
+CREATE OR REPLACE FUNCTION prepare_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.order_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM orders
+      JOIN order_items ON order_items.order_id = orders.id
+      WHERE orders.id = NEW.order_id
+      AND orders.buyer_id = NEW.buyer_id
+      AND orders.status = 'delivered'
+      AND order_items.product_id = NEW.product_id
+    ) THEN
+      SELECT orders.id INTO NEW.order_id
+      FROM orders
+      JOIN order_items ON order_items.order_id = orders.id
+      WHERE orders.buyer_id = NEW.buyer_id
+      AND orders.status = 'delivered'
+      AND order_items.product_id = NEW.product_id
+      ORDER BY orders.created_at DESC
+      LIMIT 1;
+    END IF;
+
+    NEW.is_verified_purchase := NEW.order_id IS NOT NULL;
+    NEW.farmer_reply := NULL;
+    NEW.farmer_replied_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.product_id := OLD.product_id;
+  NEW.buyer_id := OLD.buyer_id;
+  -- Deleting the order sets order_id to NULL through the foreign key; let
+  -- that through, and only stop it being pointed at another order.
+  IF NEW.order_id IS NOT NULL THEN
+    NEW.order_id := OLD.order_id;
+  END IF;
+  NEW.is_verified_purchase := OLD.is_verified_purchase;
+  NEW.created_at := OLD.created_at;
+
+  IF auth.uid() = OLD.buyer_id THEN
+    NEW.farmer_reply := OLD.farmer_reply;
+    NEW.farmer_replied_at := OLD.farmer_replied_at;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reviews_prepare ON reviews;
+CREATE TRIGGER reviews_prepare
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_review();
+
+CREATE OR REPLACE FUNCTION reply_to_review(p_review_id uuid, p_reply text)
+RETURNS reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review reviews;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM reviews
+    JOIN products ON products.id = reviews.product_id
+    WHERE reviews.id = p_review_id AND products.farmer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only reply to reviews of your own products';
+  END IF;
+
+  UPDATE reviews
+  SET farmer_reply = NULLIF(trim(p_reply), ''),
+      farmer_replied_at = CASE WHEN NULLIF(trim(p_reply), '') IS NULL THEN NULL ELSE now() END
+  WHERE id = p_review_id
+  RETURNING * INTO v_review;
+
+  RETURN v_review;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reply_to_review(uuid, text) TO authenticated;
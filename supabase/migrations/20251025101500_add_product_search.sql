@@ -0,0 +1,193 @@
+/*
+  # Product Catalog Search
+
+  ## Overview
+  Moves catalog search, filtering, sorting and pagination into the database so
+  the Products page no longer downloads every active listing.
+
+  ## Modified Tables
+
+  ### `products`
+  - `search_vector` (tsvector) - Weighted full-text document built from
+    `name` (A), `tags` (A) and `description` (B); kept current by trigger
+  - `average_rating` (numeric) - Mean of the product's review ratings
+  - `review_count` (integer) - Number of reviews; both kept current by a
+    trigger on `reviews` so the catalog can sort by rating cheaply
+
+  ## New Functions
+
+  ### `search_products(...)`
+  - `p_query` - Free text, matched against `search_vector` and, word by word,
+    against `tags` (uses the existing GIN index on `tags`)
+  - `p_category_id`, `p_state`, `p_min_price`, `p_max_price`,
+    `p_organic`, `p_traditional` - Optional filters
+  - `p_sort` - `relevance`, `newest`, `price_asc`, `price_desc` or `rating`
+  - `p_cursor_value`, `p_cursor_id` - Keyset cursor: the `sort_value` and `id`
+    of the last row of the previous page
+  - `p_limit` - Page size, capped at 100
+
+  Rows are ordered by `(sort_value, id)` ascending; descending sorts are
+  expressed by negating the sort value, so one cursor shape fits every sort.
+
+  ## Security
+  - SECURITY INVOKER: the caller's RLS policies on `products`,
+    `user_profiles` and `product_categories` still apply
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS average_rating numeric(3, 2) NOT NULL DEFAULT 0;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS review_count integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION products_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_search_vector ON products;
+CREATE TRIGGER products_search_vector
+  BEFORE INSERT OR UPDATE OF name, description, tags ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION products_search_vector_update();
+
+UPDATE products SET name = name;
+
+CREATE INDEX IF NOT EXISTS idx_products_search ON products USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_price ON products(price);
+CREATE INDEX IF NOT EXISTS idx_products_created ON products(created_at DESC);
+
+CREATE OR REPLACE FUNCTION refresh_product_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+  UPDATE products
+  SET average_rating = coalesce((SELECT round(avg(rating), 2) FROM reviews WHERE product_id = v_product_id), 0),
+      review_count = (SELECT count(*) FROM reviews WHERE product_id = v_product_id)
+  WHERE id = v_product_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reviews_refresh_product_rating ON reviews;
+CREATE TRIGGER reviews_refresh_product_rating
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_rating();
+
+UPDATE products p
+SET average_rating = r.average_rating,
+    review_count = r.review_count
+FROM (
+  SELECT product_id, round(avg(rating), 2) AS average_rating, count(*) AS review_count
+  FROM reviews
+  GROUP BY product_id
+) r
+WHERE r.product_id = p.id;
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_state text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_organic boolean DEFAULT false,
+  p_traditional boolean DEFAULT false,
+  p_sort text DEFAULT 'newest',
+  p_cursor_value numeric DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS TABLE (
+  id uuid,
+  farmer_id uuid,
+  name text,
+  description text,
+  price decimal(10, 2),
+  unit text,
+  stock_quantity integer,
+  images jsonb,
+  is_organic boolean,
+  is_traditional boolean,
+  tags text[],
+  created_at timestamptz,
+  average_rating numeric(3, 2),
+  review_count integer,
+  farmer_name text,
+  farmer_state text,
+  category_name_en text,
+  category_name_hi text,
+  sort_value numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN ARRAY[]::text[]
+           ELSE regexp_split_to_array(lower(trim(p_query)), '\s+') END AS terms
+  ),
+  matches AS (
+    SELECT
+      p.id, p.farmer_id, p.name, p.description, p.price, p.unit, p.stock_quantity,
+      p.images, p.is_organic, p.is_traditional, p.tags, p.created_at,
+      p.average_rating, p.review_count,
+      up.full_name AS farmer_name,
+      up.state AS farmer_state,
+      c.name_en AS category_name_en,
+      c.name_hi AS category_name_hi,
+      CASE WHEN s.tsq IS NULL THEN 0
+           ELSE ts_rank(p.search_vector, s.tsq) + CASE WHEN p.tags && s.terms THEN 0.5 ELSE 0 END
+      END AS rank
+    FROM products p
+    CROSS JOIN search s
+    LEFT JOIN user_profiles up ON up.id = p.farmer_id
+    LEFT JOIN product_categories c ON c.id = p.category_id
+    WHERE p.is_active = true
+      AND (s.tsq IS NULL OR p.search_vector @@ s.tsq OR p.tags && s.terms)
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_state IS NULL OR up.state = p_state)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT p_organic OR p.is_organic)
+      AND (NOT p_traditional OR p.is_traditional)
+  ),
+  sorted AS (
+    SELECT m.*,
+      CASE p_sort
+        WHEN 'price_asc' THEN m.price
+        WHEN 'price_desc' THEN -m.price
+        WHEN 'rating' THEN -m.average_rating
+        WHEN 'relevance' THEN -round(m.rank::numeric, 6)
+        ELSE -round(extract(epoch FROM m.created_at) * 1000)
+      END AS sort_value
+    FROM matches m
+  )
+  SELECT
+    s.id, s.farmer_id, s.name, s.description, s.price, s.unit, s.stock_quantity,
+    s.images, s.is_organic, s.is_traditional, s.tags, s.created_at,
+    s.average_rating, s.review_count, s.farmer_name, s.farmer_state,
+    s.category_name_en, s.category_name_hi, s.sort_value
+  FROM sorted s
+  WHERE p_cursor_id IS NULL OR (s.sort_value, s.id) > (p_cursor_value, p_cursor_id)
+  ORDER BY s.sort_value, s.id
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(text, uuid, text, numeric, numeric, boolean, boolean, text, numeric, uuid, integer)
+  TO anon, authenticated;
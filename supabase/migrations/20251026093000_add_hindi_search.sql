@@ -0,0 +1,377 @@
+/*
+  # Hindi and Transliteration-aware Search
+
+  ## Overview
+  Buyers type "achaar", "अचार" or "pickle" for the same thing. This migration
+  adds a phonetic key that maps Devanagari and Roman-script Hindi to the same
+  spelling, an English/Hindi synonym list, and matching on the bilingual
+  category names, and folds all of it into `search_products`.
+
+  ## New Functions
+
+  ### `devanagari_to_roman(p_text text)`
+  Letter-by-letter transliteration of one word. Consonants carry an inherent
+  "a" unless followed by a vowel sign or virama; the inherent "a" is dropped
+  at the end of the word, as it is in spoken Hindi. Input is NFD-normalised
+  so nukta letters (ड़, फ़, ज़ ...) arrive as consonant + nukta.
+
+  ### `phonetic_key(p_word text)`
+  Normalises one word so common spelling variants collide:
+  - Devanagari is transliterated first
+  - ph/f, w/v, z/j, q/k, c/k, sh/s are merged and aspiration is dropped
+  - long vowels and doubled letters are collapsed (aa, ee, oo, kk, ...)
+  - short "a" between consonants and at the end of a word is dropped, since
+    that is where Roman spellings disagree most ("sarson"/"sarason")
+
+  ### `phonetic_text(p_text text)`
+  `phonetic_key` applied to every word, joined with spaces.
+
+  ## New Tables
+
+  ### `search_synonyms`
+  - `term_key` (text) - Phonetic key of a word
+  - `synonym_key` (text) - Phonetic key of an equivalent word
+  Seeded in both directions with common English/Hindi product names.
+  Readable by everyone; managed by admins.
+
+  ## Modified Tables
+  - `products.search_phonetic` - Phonetic keys of `name` and `tags`,
+    maintained by the existing search trigger (trigram index)
+  - `product_categories.search_phonetic` - Phonetic keys of `name_en` and
+    `name_hi` (generated column)
+
+  ## Modified Functions
+
+  ### `search_products(...)`
+  Same signature. A product now matches when the full-text query matches, a
+  tag matches, or any query word (or one of its synonyms) matches a word in
+  the product's or its category's phonetic keys. Relevance adds the share of
+  query words matched phonetically, so products matching every word rank
+  above products matching one.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION devanagari_to_roman(p_text text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_consonants CONSTANT jsonb := '{
+    "क": "k", "ख": "kh", "ग": "g", "घ": "gh", "ङ": "n",
+    "च": "ch", "छ": "chh", "ज": "j", "झ": "jh", "ञ": "n",
+    "ट": "t", "ठ": "th", "ड": "d", "ढ": "dh", "ण": "n",
+    "त": "t", "थ": "th", "द": "d", "ध": "dh", "न": "n",
+    "प": "p", "फ": "ph", "ब": "b", "भ": "bh", "म": "m",
+    "य": "y", "र": "r", "ल": "l", "व": "v",
+    "श": "sh", "ष": "sh", "स": "s", "ह": "h"
+  }';
+  v_vowels CONSTANT jsonb := '{
+    "अ": "a", "आ": "aa", "इ": "i", "ई": "ii", "उ": "u", "ऊ": "uu",
+    "ऋ": "ri", "ए": "e", "ऐ": "ai", "ओ": "o", "औ": "au"
+  }';
+  v_signs CONSTANT jsonb := '{
+    "ा": "aa", "ि": "i", "ी": "ii", "ु": "u", "ू": "uu",
+    "ृ": "ri", "े": "e", "ै": "ai", "ो": "o", "ौ": "au"
+  }';
+  v_out text := '';
+  v_char text;
+  v_pending boolean := false;
+BEGIN
+  FOREACH v_char IN ARRAY regexp_split_to_array(normalize(coalesce(p_text, ''), NFD), '') LOOP
+    IF v_consonants ? v_char THEN
+      IF v_pending THEN v_out := v_out || 'a'; END IF;
+      v_out := v_out || (v_consonants->>v_char);
+      v_pending := true;
+    ELSIF v_signs ? v_char THEN
+      v_out := v_out || (v_signs->>v_char);
+      v_pending := false;
+    ELSIF v_char = '्' THEN
+      v_pending := false;
+    ELSIF v_char = '़' THEN
+      v_out := CASE
+        WHEN v_out LIKE '%dh' THEN left(v_out, -2) || 'rh'
+        WHEN v_out LIKE '%ph' THEN left(v_out, -2) || 'f'
+        WHEN v_out LIKE '%d' THEN left(v_out, -1) || 'r'
+        WHEN v_out LIKE '%j' THEN left(v_out, -1) || 'z'
+        WHEN v_out LIKE '%k' THEN left(v_out, -1) || 'q'
+        ELSE v_out
+      END;
+    ELSIF v_char IN ('ं', 'ँ') THEN
+      IF v_pending THEN v_out := v_out || 'a'; END IF;
+      v_out := v_out || 'n';
+      v_pending := false;
+    ELSIF v_char = 'ः' THEN
+      IF v_pending THEN v_out := v_out || 'a'; END IF;
+      v_out := v_out || 'h';
+      v_pending := false;
+    ELSIF v_vowels ? v_char THEN
+      IF v_pending THEN v_out := v_out || 'a'; END IF;
+      v_out := v_out || (v_vowels->>v_char);
+      v_pending := false;
+    ELSE
+      v_out := v_out || v_char;
+      v_pending := false;
+    END IF;
+  END LOOP;
+
+  RETURN v_out;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION phonetic_key(p_word text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key text := lower(devanagari_to_roman(p_word));
+BEGIN
+  v_key := regexp_replace(v_key, '[^a-z]', '', 'g');
+  v_key := replace(v_key, 'chh', 'ch');
+  v_key := replace(v_key, 'ck', 'k');
+  v_key := replace(v_key, 'ph', 'f');
+  v_key := replace(v_key, 'sh', 's');
+  v_key := regexp_replace(v_key, 'c(?!h)', 'k', 'g');
+  v_key := translate(v_key, 'qwzx', 'kvjk');
+  v_key := regexp_replace(v_key, '([bdgkpt])h', '\1', 'g');
+  v_key := replace(replace(v_key, 'ee', 'i'), 'oo', 'u');
+  v_key := regexp_replace(v_key, '(.)\1+', '\1', 'g');
+  v_key := regexp_replace(v_key, '([^aeiou])a(?=[^aeiou])', '\1', 'g');
+  v_key := regexp_replace(v_key, '([^aeiou])a$', '\1');
+  RETURN v_key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION phonetic_text(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(string_agg(key, ' '), '')
+  FROM (
+    SELECT phonetic_key(word) AS key
+    FROM regexp_split_to_table(coalesce(p_text, ''), '[\s,/()\-]+') AS word
+  ) keys
+  WHERE length(key) > 0;
+$$;
+
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  term_key text NOT NULL,
+  synonym_key text NOT NULL,
+  PRIMARY KEY (term_key, synonym_key)
+);
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read search synonyms"
+  ON search_synonyms
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can manage search synonyms"
+  ON search_synonyms
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+WITH pairs (english, hindi) AS (
+  VALUES
+    ('pickle', 'achaar'), ('jaggery', 'gur'), ('jaggery', 'gud'),
+    ('turmeric', 'haldi'), ('honey', 'shahad'), ('rice', 'chawal'),
+    ('flour', 'atta'), ('lentils', 'dal'), ('lentil', 'dal'),
+    ('mango', 'aam'), ('spices', 'masala'), ('spice', 'masala'),
+    ('millet', 'bajra'), ('sorghum', 'jowar'), ('mustard', 'sarson'),
+    ('oil', 'tel'), ('chilli', 'mirch'), ('chili', 'mirch'),
+    ('ginger', 'adrak'), ('garlic', 'lahsun'), ('tea', 'chai'),
+    ('butter', 'makkhan'), ('curd', 'dahi'), ('yogurt', 'dahi'),
+    ('cottage', 'paneer'), ('sugar', 'cheeni'), ('salt', 'namak'),
+    ('groundnut', 'moongphali'), ('peanut', 'moongphali'), ('sesame', 'til'),
+    ('cumin', 'jeera'), ('coriander', 'dhaniya'), ('wheat', 'gehun'),
+    ('milk', 'doodh'), ('gooseberry', 'amla'), ('jam', 'murabba'),
+    ('vermicelli', 'sevai'), ('fenugreek', 'methi'), ('cardamom', 'elaichi'),
+    ('chickpea', 'chana'), ('gram', 'chana'), ('lemon', 'nimbu'),
+    ('organic', 'jaivik'), ('traditional', 'paramparik')
+),
+keyed AS (
+  SELECT DISTINCT phonetic_key(english) AS a, phonetic_key(hindi) AS b
+  FROM pairs
+)
+INSERT INTO search_synonyms (term_key, synonym_key)
+SELECT a, b FROM keyed WHERE a <> b
+UNION
+SELECT b, a FROM keyed WHERE a <> b
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_phonetic text NOT NULL DEFAULT '';
+
+ALTER TABLE product_categories ADD COLUMN IF NOT EXISTS search_phonetic text
+  GENERATED ALWAYS AS (phonetic_text(name_en || ' ' || name_hi)) STORED;
+
+CREATE OR REPLACE FUNCTION products_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B');
+  NEW.search_phonetic :=
+    phonetic_text(coalesce(NEW.name, '') || ' ' || coalesce(array_to_string(NEW.tags, ' '), ''));
+  RETURN NEW;
+END;
+$$;
+
+UPDATE products SET name = name;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_phonetic ON products USING gin(search_phonetic gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_state text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_organic boolean DEFAULT false,
+  p_traditional boolean DEFAULT false,
+  p_sort text DEFAULT 'newest',
+  p_cursor_value numeric DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS TABLE (
+  id uuid,
+  farmer_id uuid,
+  name text,
+  description text,
+  price decimal(10, 2),
+  unit text,
+  stock_quantity integer,
+  images jsonb,
+  is_organic boolean,
+  is_traditional boolean,
+  tags text[],
+  created_at timestamptz,
+  average_rating numeric(3, 2),
+  review_count integer,
+  farmer_name text,
+  farmer_state text,
+  category_name_en text,
+  category_name_hi text,
+  sort_value numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN ARRAY[]::text[]
+           ELSE regexp_split_to_array(lower(trim(p_query)), '\s+') END AS terms
+  ),
+  words AS (
+    SELECT DISTINCT phonetic_key(word) AS word
+    FROM search s, unnest(s.terms) AS word
+    WHERE length(phonetic_key(word)) >= 2
+  ),
+  expanded AS (
+    SELECT word, word AS term FROM words
+    UNION
+    SELECT w.word, ss.synonym_key FROM words w
+    JOIN search_synonyms ss ON ss.term_key = w.word
+  ),
+  -- Matches on the bare column so the trigram index can serve them; the
+  -- second LIKE keeps them to the start of a word.
+  phonetic AS (
+    SELECT hit.id, count(DISTINCT hit.word) AS matches
+    FROM (
+      SELECT p.id, e.word
+      FROM expanded e
+      JOIN products p ON p.search_phonetic LIKE '%' || e.term || '%'
+      WHERE ' ' || p.search_phonetic LIKE '% ' || e.term || '%'
+      UNION ALL
+      SELECT p.id, e.word
+      FROM expanded e
+      JOIN product_categories c ON ' ' || c.search_phonetic LIKE '% ' || e.term || '%'
+      JOIN products p ON p.category_id = c.id
+    ) hit
+    GROUP BY hit.id
+  ),
+  matches AS (
+    SELECT
+      p.id, p.farmer_id, p.name, p.description, p.price, p.unit, p.stock_quantity,
+      p.images, p.is_organic, p.is_traditional, p.tags, p.created_at,
+      p.average_rating, p.review_count,
+      up.full_name AS farmer_name,
+      up.state AS farmer_state,
+      c.name_en AS category_name_en,
+      c.name_hi AS category_name_hi,
+      s.tsq,
+      p.search_vector,
+      p.tags && s.terms AS tag_match,
+      coalesce(ph.matches, 0) AS phonetic_matches,
+      (SELECT count(*) FROM words) AS word_count
+    FROM products p
+    CROSS JOIN search s
+    LEFT JOIN user_profiles up ON up.id = p.farmer_id
+    LEFT JOIN product_categories c ON c.id = p.category_id
+    LEFT JOIN phonetic ph ON ph.id = p.id
+    WHERE p.is_active = true
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_state IS NULL OR up.state = p_state)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT p_organic OR p.is_organic)
+      AND (NOT p_traditional OR p.is_traditional)
+  ),
+  ranked AS (
+    SELECT m.*,
+      CASE WHEN m.tsq IS NULL THEN 0
+           ELSE ts_rank(m.search_vector, m.tsq)
+             + CASE WHEN m.tag_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.word_count > 0 THEN m.phonetic_matches::real / m.word_count ELSE 0 END
+      END AS rank
+    FROM matches m
+    WHERE m.tsq IS NULL
+       OR m.search_vector @@ m.tsq
+       OR m.tag_match
+       OR m.phonetic_matches > 0
+  ),
+  sorted AS (
+    SELECT r.*,
+      CASE p_sort
+        WHEN 'price_asc' THEN r.price
+        WHEN 'price_desc' THEN -r.price
+        WHEN 'rating' THEN -r.average_rating
+        WHEN 'relevance' THEN -round(r.rank::numeric, 6)
+        ELSE -round(extract(epoch FROM r.created_at) * 1000)
+      END AS sort_value
+    FROM ranked r
+  )
+  SELECT
+    s.id, s.farmer_id, s.name, s.description, s.price, s.unit, s.stock_quantity,
+    s.images, s.is_organic, s.is_traditional, s.tags, s.created_at,
+    s.average_rating, s.review_count, s.farmer_name, s.farmer_state,
+    s.category_name_en, s.category_name_hi, s.sort_value
+  FROM sorted s
+  WHERE p_cursor_id IS NULL OR (s.sort_value, s.id) > (p_cursor_value, p_cursor_id)
+  ORDER BY s.sort_value, s.id
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
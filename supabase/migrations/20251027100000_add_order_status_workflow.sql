@@ -0,0 +1,155 @@
+/*
+  # Order Status Workflow
+
+  ## Overview
+  Farmers move their orders through a fixed lifecycle, and every change is
+  recorded with a timestamp:
+
+    pending -> confirmed -> shipped -> delivered
+    pending | confirmed -> cancelled
+
+  `delivered` and `cancelled` are final. Invalid transitions are rejected by
+  the database, not just hidden in the UI.
+
+  ## New Tables
+
+  ### `order_status_history`
+  - `id` (uuid, primary key)
+  - `order_id` (uuid) - References orders
+  - `from_status` (text) - Previous status, NULL for the initial entry
+  - `to_status` (text) - New status
+  - `changed_by` (uuid) - User who made the change
+  - `created_at` (timestamptz)
+
+  ## New Functions / Triggers
+  - `guard_order_status()` (BEFORE UPDATE OF status on `orders`) - rejects
+    transitions outside the lifecycle above and refreshes `updated_at`
+  - `record_order_status()` (AFTER INSERT / UPDATE OF status on `orders`) -
+    appends to `order_status_history`
+
+  ## Modified Functions
+  - `restore_stock_on_cancel()` no longer checks for reopened orders; the
+    status guard now covers that
+
+  ## Security
+  - Buyers and farmers can read the history of their own orders; admins can
+    read all history
+  - Rows are only written by the trigger (SECURITY DEFINER); there are no
+    INSERT/UPDATE/DELETE policies
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read history of their orders"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.farmer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can read all order history"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at DESC);
+
+CREATE OR REPLACE FUNCTION guard_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('shipped', 'cancelled')) OR
+    (OLD.status = 'shipped' AND NEW.status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_guard_status ON orders;
+CREATE TRIGGER orders_guard_status
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_order_status();
+
+CREATE OR REPLACE FUNCTION record_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status <> OLD.status THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_record_status ON orders;
+CREATE TRIGGER orders_record_status
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status();
+
+CREATE OR REPLACE FUNCTION restore_stock_on_cancel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    UPDATE products p
+    SET stock_quantity = p.stock_quantity + oi.quantity,
+        updated_at = now()
+    FROM order_items oi
+    WHERE oi.order_id = NEW.id AND p.id = oi.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, status, created_at
+FROM orders
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = orders.id
+);
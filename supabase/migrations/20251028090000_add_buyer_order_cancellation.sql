@@ -0,0 +1,54 @@
+/*
+  # Buyer Order Cancellation
+
+  ## Overview
+  Lets buyers cancel their own orders while the farmer has not yet confirmed
+  them. Buyers have no UPDATE policy on `orders`, so cancellation goes through
+  a function instead of a direct update.
+
+  ## New Functions
+
+  ### `cancel_order(p_order_id uuid)`
+  - Locks the order and checks that it belongs to the caller and is still
+    `pending`
+  - Sets the status to `cancelled`; the existing triggers record the change
+    in `order_status_history` and return the reserved stock
+  - Returns the updated order row
+
+  ## Security
+  - SECURITY DEFINER so it can update `orders` on the buyer's behalf; the
+    ownership and status checks above are the only way through
+*/
+
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND buyer_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be cancelled';
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_order(uuid) TO authenticated;
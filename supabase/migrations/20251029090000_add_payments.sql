@@ -0,0 +1,209 @@
+/*
+  # Online Payments
+
+  ## Overview
+  Adds the records behind online payment for orders. One checkout can create
+  several orders (one per farmer), so a single payment covers every order it
+  was started for. Gateways are called only from the `payments` edge
+  function; this migration stores their results and keeps
+  `orders.payment_status` in step with them.
+
+  ## New Tables
+
+  ### `payments`
+  - `id` (uuid, primary key)
+  - `buyer_id` (uuid) - References user_profiles
+  - `provider` (text) - Gateway name, e.g. `mock`
+  - `provider_reference` (text) - Gateway's id for the payment, unique per
+    provider
+  - `method` (text) - `upi` or `card`
+  - `amount` (decimal) - Sum of the covered orders' totals
+  - `status` (text) - `created`, `completed` or `failed`
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `payment_refunds`
+  - `id` (uuid, primary key)
+  - `payment_id` (uuid) - References payments
+  - `order_id` (uuid, unique) - The cancelled order being refunded
+  - `amount` (decimal) - The order's total
+  - `status` (text) - `pending`, `completed` or `failed`
+  - `provider_reference` (text) - Gateway's id for the refund
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `orders`
+  - `payment_id` (uuid) - The payment currently attached to the order. A
+    failed payment can be replaced by a new attempt
+
+  ## New Functions / Triggers
+  - `sync_order_payment_status()` (AFTER UPDATE OF status on `payments`) -
+    marks the attached orders `completed` or `failed`, and queues a refund
+    for any of them that was cancelled before the payment completed
+  - `queue_refund_on_cancel()` (AFTER UPDATE OF status on `orders`) - when a
+    paid order is cancelled, queues a `pending` refund for the edge function
+    to send to the gateway
+  - `sync_refund_status()` (AFTER UPDATE OF status on `payment_refunds`) -
+    marks the order `refunded` once the gateway confirms
+
+  ## Security
+  - Buyers can read their own payments; buyers and farmers can read refunds
+    for their orders; admins can read both
+  - There are no write policies. Rows are written by the edge function with
+    the service role key, and by the triggers above
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_reference text NOT NULL,
+  method text NOT NULL CHECK (method IN ('upi', 'card')),
+  amount decimal(10, 2) NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'created' CHECK (status IN ('created', 'completed', 'failed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (provider, provider_reference)
+);
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  amount decimal(10, 2) NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  provider_reference text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_id uuid REFERENCES payments(id) ON DELETE SET NULL;
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can read own payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid());
+
+CREATE POLICY "Admins can read all payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can read refunds for their orders"
+  ON payment_refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payment_refunds.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.farmer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can read all refunds"
+  ON payment_refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payments_buyer ON payments(buyer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment ON orders(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_pending ON payment_refunds(status) WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION sync_order_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'failed') AND NEW.status <> OLD.status THEN
+    UPDATE orders
+    SET payment_status = NEW.status,
+        updated_at = now()
+    WHERE payment_id = NEW.id;
+
+    -- An order cancelled while the gateway was still processing looked
+    -- unpaid to queue_refund_on_cancel, so its refund is queued here.
+    IF NEW.status = 'completed' THEN
+      INSERT INTO payment_refunds (payment_id, order_id, amount)
+      SELECT NEW.id, id, total_amount
+      FROM orders
+      WHERE payment_id = NEW.id AND status = 'cancelled'
+      ON CONFLICT (order_id) DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_sync_order_status ON payments;
+CREATE TRIGGER payments_sync_order_status
+  AFTER UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_payment_status();
+
+CREATE OR REPLACE FUNCTION queue_refund_on_cancel()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled'
+     AND NEW.payment_status = 'completed' AND NEW.payment_id IS NOT NULL THEN
+    INSERT INTO payment_refunds (payment_id, order_id, amount)
+    VALUES (NEW.payment_id, NEW.id, NEW.total_amount)
+    ON CONFLICT (order_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_queue_refund ON orders;
+CREATE TRIGGER orders_queue_refund
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_refund_on_cancel();
+
+CREATE OR REPLACE FUNCTION sync_refund_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    UPDATE orders
+    SET payment_status = 'refunded',
+        updated_at = now()
+    WHERE id = NEW.order_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_refunds_sync_order_status ON payment_refunds;
+CREATE TRIGGER payment_refunds_sync_order_status
+  AFTER UPDATE OF status ON payment_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_refund_status();
@@ -0,0 +1,241 @@
+/*
+  # Cash on Delivery
+
+  ## Overview
+  Orders can now be paid online or in cash when they are delivered. Each
+  farmer chooses which of the two they accept, the buyer picks one per
+  farmer at checkout, and the farmer records the cash once it is collected.
+
+  ## Modified Tables
+
+  ### `user_profiles`
+  - `accepts_cod` (boolean, default true) - Farmer accepts cash on delivery
+  - `accepts_online` (boolean, default true) - Farmer accepts online payment
+  - At least one of the two must stay enabled
+
+  ### `orders`
+  - `payment_method` (text) - `online` or `cod`; existing orders are `online`
+
+  ## Modified Functions
+
+  ### `place_orders(p_items, p_delivery_address, p_notes, p_payment_methods)`
+  - New `p_payment_methods` argument: a JSON object mapping farmer id to
+    `online` or `cod`. Farmers missing from it default to `online`
+  - Rejects a method the farmer does not accept
+
+  ## New Functions / Triggers
+
+  ### `mark_cod_paid(p_order_id uuid)`
+  - Lets the order's farmer mark a shipped or delivered COD order as paid
+
+  ### `guard_order_payment()` (BEFORE UPDATE on `orders`)
+  - Farmers can update their orders directly, but payment fields may only be
+    changed by `mark_cod_paid`, the payment triggers and the payments edge
+    function. Direct changes from signed-in users are rejected
+
+  ## Security
+  - `mark_cod_paid` is SECURITY DEFINER and checks the caller is the order's
+    farmer
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS accepts_cod boolean NOT NULL DEFAULT true;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS accepts_online boolean NOT NULL DEFAULT true;
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_payment_methods_check;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_payment_methods_check
+  CHECK (accepts_cod OR accepts_online);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_method text NOT NULL DEFAULT 'online'
+  CHECK (payment_method IN ('online', 'cod'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_farmer_payment ON orders(farmer_id, payment_status);
+
+CREATE OR REPLACE FUNCTION guard_order_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.payment_status IS DISTINCT FROM OLD.payment_status OR
+    NEW.payment_method IS DISTINCT FROM OLD.payment_method OR
+    NEW.payment_id IS DISTINCT FROM OLD.payment_id OR
+    NEW.total_amount IS DISTINCT FROM OLD.total_amount
+  ) THEN
+    RAISE EXCEPTION 'Payment details of an order cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_guard_payment ON orders;
+CREATE TRIGGER orders_guard_payment
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_order_payment();
+
+DROP FUNCTION IF EXISTS place_orders(jsonb, jsonb, text);
+
+CREATE OR REPLACE FUNCTION place_orders(
+  p_items jsonb,
+  p_delivery_address jsonb,
+  p_notes text DEFAULT NULL,
+  p_payment_methods jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id uuid := auth.uid();
+  v_farmer_id uuid;
+  v_farmer user_profiles;
+  v_method text;
+  v_total decimal(10, 2);
+  v_order orders;
+  v_requested integer;
+  v_found integer;
+  v_oversold jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = v_buyer_id AND role = 'buyer' AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only buyer accounts can place orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::uuid FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer)
+    WHERE i.quantity IS NULL OR i.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be greater than zero';
+  END IF;
+
+  -- One line per product: a product listed twice is checked against stock
+  -- and decremented for its combined quantity.
+  DROP TABLE IF EXISTS checkout_lines;
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT p.id AS product_id, p.name, p.farmer_id, p.price, p.stock_quantity, i.quantity
+  FROM (
+    SELECT product_id, sum(quantity)::integer AS quantity
+    FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer)
+    GROUP BY product_id
+  ) i
+  JOIN products p ON p.id = i.product_id AND p.is_active = true;
+
+  SELECT count(*) INTO v_requested
+  FROM (SELECT DISTINCT (item->>'product_id')::uuid FROM jsonb_array_elements(p_items) AS item) ids;
+  SELECT count(*) INTO v_found FROM checkout_lines;
+  IF v_found <> v_requested THEN
+    RAISE EXCEPTION 'One or more products in the cart are no longer available';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'name', name,
+    'requested', quantity,
+    'available', stock_quantity
+  ))
+  INTO v_oversold
+  FROM checkout_lines
+  WHERE quantity > stock_quantity;
+
+  IF v_oversold IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient stock' USING DETAIL = v_oversold::text;
+  END IF;
+
+  UPDATE products p
+  SET stock_quantity = p.stock_quantity - l.quantity,
+      updated_at = now()
+  FROM checkout_lines l
+  WHERE p.id = l.product_id;
+
+  FOR v_farmer_id IN SELECT DISTINCT farmer_id FROM checkout_lines LOOP
+    SELECT * INTO v_farmer FROM user_profiles WHERE id = v_farmer_id;
+    v_method := coalesce(p_payment_methods->>v_farmer_id::text, 'online');
+
+    IF v_method NOT IN ('online', 'cod') THEN
+      RAISE EXCEPTION 'Unknown payment method %', v_method;
+    END IF;
+
+    IF (v_method = 'cod' AND NOT v_farmer.accepts_cod) OR
+       (v_method = 'online' AND NOT v_farmer.accepts_online) THEN
+      RAISE EXCEPTION '% does not accept % payment', v_farmer.full_name,
+        CASE v_method WHEN 'cod' THEN 'cash on delivery' ELSE 'online' END;
+    END IF;
+
+    SELECT sum(price * quantity) INTO v_total
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    INSERT INTO orders (buyer_id, farmer_id, total_amount, delivery_address, notes, payment_method)
+    VALUES (v_buyer_id, v_farmer_id, v_total, p_delivery_address, p_notes, v_method)
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT v_order.id, product_id, quantity, price, price * quantity
+    FROM checkout_lines
+    WHERE farmer_id = v_farmer_id;
+
+    RETURN NEXT v_order;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_orders(jsonb, jsonb, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_cod_paid(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND farmer_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method <> 'cod' THEN
+    RAISE EXCEPTION 'Only cash on delivery orders can be marked as paid';
+  END IF;
+
+  IF v_order.status NOT IN ('shipped', 'delivered') THEN
+    RAISE EXCEPTION 'Orders can only be marked as paid once they are shipped or delivered';
+  END IF;
+
+  IF v_order.payment_status = 'completed' THEN
+    RETURN v_order;
+  END IF;
+
+  UPDATE orders
+  SET payment_status = 'completed',
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_cod_paid(uuid) TO authenticated;
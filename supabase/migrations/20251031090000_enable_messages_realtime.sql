@@ -0,0 +1,29 @@
+/*
+  # Realtime Messaging
+
+  ## Overview
+  Publishes `messages` to Supabase Realtime so open conversations and the
+  unread badge update as soon as a message is sent or read.
+
+  ## Changes
+  - Adds `messages` to the `supabase_realtime` publication. Realtime applies
+    the existing RLS policies, so subscribers only receive rows they can read
+  - Partial index for counting a user's unread messages
+
+  ## Important Notes
+  1. Read receipts are the receiver setting `is_read`, which the existing
+     "Users can mark their received messages as read" policy already allows
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(receiver_id) WHERE is_read = false;
@@ -0,0 +1,80 @@
+/*
+  # Message Attachments
+
+  ## Overview
+  Messages can carry one photo or one voice note. Files live in a private
+  Storage bucket that only the sender and receiver can read.
+
+  ## Modified Tables
+
+  ### `messages`
+  - `attachment_type` (text) - `image` or `audio`, NULL for text-only
+  - `attachment_path` (text) - Object path in `message-attachments`
+  - `attachment_thumbnail_path` (text) - Small preview for images
+  - `attachment_duration` (integer) - Voice note length in seconds
+  - `content` may now be empty when an attachment is present
+
+  ## Storage Layout
+  - Bucket `message-attachments` (private)
+  - Object path: `{sender_id}/{receiver_id}/{file name}`
+
+  ## Security
+  - Users can upload only under their own `{sender_id}/` folder
+  - Objects can be read by the two users named in the path, through
+    short-lived signed URLs
+  - Senders can delete their own uploads
+
+  ## Important Notes
+  1. Images are resized in the browser (1280px, plus a 320px thumbnail)
+  2. Voice notes are capped at 2 minutes in the browser; the bucket rejects
+     anything over 5 MB or of another type
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_type text CHECK (attachment_type IN ('image', 'audio'));
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_path text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_thumbnail_path text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_duration integer CHECK (attachment_duration > 0);
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_content_or_attachment_check;
+ALTER TABLE messages ADD CONSTRAINT messages_content_or_attachment_check
+  CHECK (
+    (attachment_type IS NULL) = (attachment_path IS NULL) AND
+    (length(trim(content)) > 0 OR attachment_path IS NOT NULL)
+  );
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'audio/webm', 'audio/ogg', 'audio/mp4']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can read message attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    auth.uid()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2])
+  );
+
+CREATE POLICY "Users can upload own message attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-attachments' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own message attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,418 @@
+/*
+  # Content Translations
+
+  ## Overview
+  Categories and resources had fixed `_en`/`_hi` columns and product names
+  were single-language, which capped content at two languages while the UI
+  now ships seven. Each translatable table gets a companion table holding
+  one row per language. The original columns stay as the English text and
+  are what readers fall back to when their language has no row.
+
+  ## New Tables
+
+  ### `product_category_translations`
+  - `category_id` (uuid) - References product_categories
+  - `language` (text) - Language code (hi, te, ta, ...)
+  - `name` (text) - Category name
+  - `description` (text) - Category description
+
+  ### `resource_translations`
+  - `resource_id` (uuid) - References educational_resources
+  - `language` (text) - Language code
+  - `title` (text) - Resource title
+  - `content` (text) - Resource body
+
+  ### `product_translations`
+  - `product_id` (uuid) - References products
+  - `language` (text) - Language code
+  - `name` (text) - Product name
+  - `description` (text) - Product description
+
+  All three are keyed on (parent, language) and carry `created_at` and
+  `updated_at`. `en` is rejected: English lives on the parent row.
+
+  ## Modified Tables
+  - `product_categories`: `name_hi` moved to `product_category_translations`
+    and dropped. `search_phonetic` is now a plain column kept up to date by
+    triggers, since it covers translated names from another table
+  - `educational_resources`: `title_hi` and `content_hi` moved to
+    `resource_translations` and dropped
+  - `products`: the search trigger also indexes translated names and
+    descriptions, so a product is found by its name in any language
+
+  ## Modified Functions
+
+  ### `search_products(...)`
+  Takes a trailing `p_language` (default 'en') and returns `name`,
+  `description` and `category_name` in that language, falling back to
+  English. `category_name_en`/`category_name_hi` are replaced by
+  `category_name`.
+
+  ## Security
+  - Translations are readable whenever their parent row is
+  - Admins manage category and resource translations
+  - Farmers manage translations of their own products
+*/
+
+CREATE TABLE IF NOT EXISTS product_category_translations (
+  category_id uuid NOT NULL REFERENCES product_categories(id) ON DELETE CASCADE,
+  language text NOT NULL CHECK (language ~ '^[a-z]{2,3}$' AND language <> 'en'),
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (category_id, language)
+);
+
+CREATE TABLE IF NOT EXISTS resource_translations (
+  resource_id uuid NOT NULL REFERENCES educational_resources(id) ON DELETE CASCADE,
+  language text NOT NULL CHECK (language ~ '^[a-z]{2,3}$' AND language <> 'en'),
+  title text NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (resource_id, language)
+);
+
+CREATE TABLE IF NOT EXISTS product_translations (
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  language text NOT NULL CHECK (language ~ '^[a-z]{2,3}$' AND language <> 'en'),
+  name text NOT NULL,
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (product_id, language)
+);
+
+ALTER TABLE product_category_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read category translations"
+  ON product_category_translations
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can manage category translations"
+  ON product_category_translations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Readers of a resource can read its translations"
+  ON resource_translations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM educational_resources r
+      WHERE r.id = resource_id
+    )
+  );
+
+CREATE POLICY "Admins can manage resource translations"
+  ON resource_translations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Readers of a product can read its translations"
+  ON product_translations
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = product_id
+    )
+  );
+
+CREATE POLICY "Farmers can manage translations of own products"
+  ON product_translations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = product_id AND p.farmer_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = product_id AND p.farmer_id = auth.uid()
+    )
+  );
+
+INSERT INTO product_category_translations (category_id, language, name)
+SELECT id, 'hi', name_hi FROM product_categories
+WHERE nullif(trim(name_hi), '') IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO resource_translations (resource_id, language, title, content)
+SELECT id, 'hi', title_hi, content_hi FROM educational_resources
+WHERE nullif(trim(title_hi), '') IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE product_categories DROP COLUMN IF EXISTS search_phonetic;
+ALTER TABLE product_categories DROP COLUMN IF EXISTS name_hi;
+ALTER TABLE product_categories ADD COLUMN IF NOT EXISTS search_phonetic text NOT NULL DEFAULT '';
+
+ALTER TABLE educational_resources DROP COLUMN IF EXISTS title_hi;
+ALTER TABLE educational_resources DROP COLUMN IF EXISTS content_hi;
+
+CREATE OR REPLACE FUNCTION product_categories_search_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_phonetic := phonetic_text(
+    coalesce(NEW.name_en, '') || ' ' ||
+    coalesce((SELECT string_agg(name, ' ') FROM product_category_translations WHERE category_id = NEW.id), '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_categories_search_update ON product_categories;
+CREATE TRIGGER product_categories_search_update
+  BEFORE INSERT OR UPDATE ON product_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION product_categories_search_update();
+
+CREATE OR REPLACE FUNCTION products_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_names text;
+  v_descriptions text;
+BEGIN
+  SELECT string_agg(name, ' '), string_agg(description, ' ')
+  INTO v_names, v_descriptions
+  FROM product_translations
+  WHERE product_id = NEW.id;
+
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(v_names, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(v_descriptions, '')), 'B');
+  NEW.search_phonetic := phonetic_text(
+    coalesce(NEW.name, '') || ' ' ||
+    coalesce(array_to_string(NEW.tags, ' '), '') || ' ' ||
+    coalesce(v_names, '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Translation rows feed their parent's search columns, so re-run the
+-- parent's trigger whenever one changes.
+CREATE OR REPLACE FUNCTION touch_translated_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record := coalesce(NEW, OLD);
+BEGIN
+  IF TG_TABLE_NAME = 'product_translations' THEN
+    UPDATE products SET name = name WHERE id = v_row.product_id;
+  ELSIF TG_TABLE_NAME = 'product_category_translations' THEN
+    UPDATE product_categories SET name_en = name_en WHERE id = v_row.category_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_translations_touch_parent ON product_translations;
+CREATE TRIGGER product_translations_touch_parent
+  AFTER INSERT OR UPDATE OR DELETE ON product_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_translated_parent();
+
+DROP TRIGGER IF EXISTS product_category_translations_touch_parent ON product_category_translations;
+CREATE TRIGGER product_category_translations_touch_parent
+  AFTER INSERT OR UPDATE OR DELETE ON product_category_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_translated_parent();
+
+UPDATE product_categories SET name_en = name_en;
+
+CREATE INDEX IF NOT EXISTS idx_product_translations_language ON product_translations(language);
+CREATE INDEX IF NOT EXISTS idx_resource_translations_language ON resource_translations(language);
+
+DROP FUNCTION IF EXISTS search_products(text, uuid, text, numeric, numeric, boolean, boolean, text, numeric, uuid, integer);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_state text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_organic boolean DEFAULT false,
+  p_traditional boolean DEFAULT false,
+  p_sort text DEFAULT 'newest',
+  p_cursor_value numeric DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 24,
+  p_language text DEFAULT 'en'
+)
+RETURNS TABLE (
+  id uuid,
+  farmer_id uuid,
+  name text,
+  description text,
+  price decimal(10, 2),
+  unit text,
+  stock_quantity integer,
+  images jsonb,
+  is_organic boolean,
+  is_traditional boolean,
+  tags text[],
+  created_at timestamptz,
+  average_rating numeric(3, 2),
+  review_count integer,
+  farmer_name text,
+  farmer_state text,
+  category_name text,
+  sort_value numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('simple', p_query) END AS tsq_simple,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN ARRAY[]::text[]
+           ELSE regexp_split_to_array(lower(trim(p_query)), '\s+') END AS terms
+  ),
+  words AS (
+    SELECT DISTINCT phonetic_key(word) AS word
+    FROM search s, unnest(s.terms) AS word
+    WHERE length(phonetic_key(word)) >= 2
+  ),
+  expanded AS (
+    SELECT word, word AS term FROM words
+    UNION
+    SELECT w.word, ss.synonym_key FROM words w
+    JOIN search_synonyms ss ON ss.term_key = w.word
+  ),
+  -- Same phonetic matching as in add_hindi_search.
+  phonetic AS (
+    SELECT hit.id, count(DISTINCT hit.word) AS matches
+    FROM (
+      SELECT p.id, e.word
+      FROM expanded e
+      JOIN products p ON p.search_phonetic LIKE '%' || e.term || '%'
+      WHERE ' ' || p.search_phonetic LIKE '% ' || e.term || '%'
+      UNION ALL
+      SELECT p.id, e.word
+      FROM expanded e
+      JOIN product_categories c ON ' ' || c.search_phonetic LIKE '% ' || e.term || '%'
+      JOIN products p ON p.category_id = c.id
+    ) hit
+    GROUP BY hit.id
+  ),
+  matches AS (
+    SELECT
+      p.id, p.farmer_id,
+      coalesce(pt.name, p.name) AS name,
+      coalesce(pt.description, p.description) AS description,
+      p.price, p.unit, p.stock_quantity,
+      p.images, p.is_organic, p.is_traditional, p.tags, p.created_at,
+      p.average_rating, p.review_count,
+      up.full_name AS farmer_name,
+      up.state AS farmer_state,
+      coalesce(ct.name, c.name_en) AS category_name,
+      s.tsq,
+      p.search_vector,
+      p.tags && s.terms AS tag_match,
+      s.tsq_simple IS NOT NULL AND p.search_vector @@ s.tsq_simple AS simple_match,
+      coalesce(ph.matches, 0) AS phonetic_matches,
+      (SELECT count(*) FROM words) AS word_count
+    FROM products p
+    CROSS JOIN search s
+    LEFT JOIN user_profiles up ON up.id = p.farmer_id
+    LEFT JOIN product_categories c ON c.id = p.category_id
+    LEFT JOIN phonetic ph ON ph.id = p.id
+    LEFT JOIN product_translations pt ON pt.product_id = p.id AND pt.language = p_language
+    LEFT JOIN product_category_translations ct ON ct.category_id = c.id AND ct.language = p_language
+    WHERE p.is_active = true
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_state IS NULL OR up.state = p_state)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT p_organic OR p.is_organic)
+      AND (NOT p_traditional OR p.is_traditional)
+  ),
+  ranked AS (
+    SELECT m.*,
+      CASE WHEN m.tsq IS NULL THEN 0
+           ELSE ts_rank(m.search_vector, m.tsq)
+             + CASE WHEN m.tag_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.simple_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.word_count > 0 THEN m.phonetic_matches::real / m.word_count ELSE 0 END
+      END AS rank
+    FROM matches m
+    WHERE m.tsq IS NULL
+       OR m.search_vector @@ m.tsq
+       OR m.simple_match
+       OR m.tag_match
+       OR m.phonetic_matches > 0
+  ),
+  sorted AS (
+    SELECT r.*,
+      CASE p_sort
+        WHEN 'price_asc' THEN r.price
+        WHEN 'price_desc' THEN -r.price
+        WHEN 'rating' THEN -r.average_rating
+        WHEN 'relevance' THEN -round(r.rank::numeric, 6)
+        ELSE -round(extract(epoch FROM r.created_at) * 1000)
+      END AS sort_value
+    FROM ranked r
+  )
+  SELECT
+    s.id, s.farmer_id, s.name, s.description, s.price, s.unit, s.stock_quantity,
+    s.images, s.is_organic, s.is_traditional, s.tags, s.created_at,
+    s.average_rating, s.review_count, s.farmer_name, s.farmer_state,
+    s.category_name, s.sort_value
+  FROM sorted s
+  WHERE p_cursor_id IS NULL OR (s.sort_value, s.id) > (p_cursor_value, p_cursor_id)
+  ORDER BY s.sort_value, s.id
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(text, uuid, text, numeric, numeric, boolean, boolean, text, numeric, uuid, integer, text)
+  TO anon, authenticated;
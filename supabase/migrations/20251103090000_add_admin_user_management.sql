@@ -0,0 +1,202 @@
+/*
+  # Admin User Management
+
+  ## Overview
+  Admins can now change a user's role and deactivate or reactivate accounts
+  from the users console. Deactivation has to mean something outside the
+  UI too: a deactivated user cannot sign in or refresh a session, and their
+  products drop out of the public catalog.
+
+  ## New Functions
+
+  ### `is_admin()`
+  True when the caller is an active admin. SECURITY DEFINER so policies on
+  `user_profiles` can use it without recursing into their own table.
+
+  ### `guard_profile_admin_fields()`
+  BEFORE UPDATE trigger on `user_profiles`. `role` and `is_active` can only
+  be changed by an admin, and never on the admin's own profile, so the last
+  admin cannot lock themselves out. Updates without a signed-in user
+  (service role, SQL console) are not restricted.
+
+  ### `sync_auth_ban()`
+  AFTER UPDATE trigger on `user_profiles`. Mirrors `is_active` onto
+  `auth.users.banned_until`, which makes Supabase Auth reject sign-in and
+  token refresh, and ends the user's open sessions on deactivation.
+
+  ### `guard_order_farmer_active()`
+  BEFORE INSERT trigger on `orders`. `place_orders` runs as SECURITY DEFINER
+  and so does not see the catalog policies; this rejects orders from a
+  stale cart for a farmer who has since been deactivated.
+
+  ## Security
+  - `user_profiles`: admins can update any profile; the admin read policy
+    now uses `is_admin()`
+  - `user_profiles`: sign-up can no longer create admin or inactive profiles
+  - `products`: the public catalog only shows products of active farmers.
+    Buyers and admins no longer read every product through the farmer
+    policy; buyers keep access to products they have ordered so order
+    history still shows names
+*/
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid() AND role = 'admin' AND is_active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Admins can read all profiles" ON user_profiles;
+
+CREATE POLICY "Admins can read all profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update profiles"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Users can insert own profile" ON user_profiles;
+
+CREATE POLICY "Users can insert own profile"
+  ON user_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = id AND
+    role IN ('farmer', 'buyer') AND
+    is_active = true
+  );
+
+CREATE OR REPLACE FUNCTION guard_profile_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    IF NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can change roles or account status';
+    END IF;
+    IF OLD.id = auth.uid() THEN
+      RAISE EXCEPTION 'Admins cannot change their own role or account status';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_admin_fields ON user_profiles;
+CREATE TRIGGER guard_profile_admin_fields
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_profile_admin_fields();
+
+CREATE OR REPLACE FUNCTION sync_auth_ban()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE auth.users
+  SET banned_until = CASE WHEN NEW.is_active THEN NULL ELSE 'infinity'::timestamptz END
+  WHERE id = NEW.id;
+
+  IF NOT NEW.is_active THEN
+    DELETE FROM auth.sessions WHERE user_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_auth_ban ON user_profiles;
+CREATE TRIGGER sync_auth_ban
+  AFTER UPDATE OF is_active ON user_profiles
+  FOR EACH ROW
+  WHEN (NEW.is_active IS DISTINCT FROM OLD.is_active)
+  EXECUTE FUNCTION sync_auth_ban();
+
+UPDATE auth.users u
+SET banned_until = 'infinity'::timestamptz
+FROM user_profiles p
+WHERE p.id = u.id AND p.is_active = false;
+
+DROP POLICY IF EXISTS "Farmers can read own products" ON products;
+
+CREATE POLICY "Farmers can read own products"
+  ON products
+  FOR SELECT
+  TO authenticated
+  USING (farmer_id = auth.uid() OR is_admin());
+
+DROP POLICY IF EXISTS "Anyone can read active products" ON products;
+
+CREATE POLICY "Anyone can read active products"
+  ON products
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    is_active = true AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = products.farmer_id AND user_profiles.is_active = true
+    )
+  );
+
+CREATE POLICY "Buyers can read products they ordered"
+  ON products
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM order_items
+      JOIN orders ON orders.id = order_items.order_id
+      WHERE order_items.product_id = products.id
+      AND orders.buyer_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION guard_order_farmer_active()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = NEW.farmer_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'One or more products in the cart are no longer available';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_order_farmer_active ON orders;
+CREATE TRIGGER guard_order_farmer_active
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_order_farmer_active();
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_active ON user_profiles(is_active);
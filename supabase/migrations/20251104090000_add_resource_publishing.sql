@@ -0,0 +1,110 @@
+/*
+  # Resource Publishing
+
+  ## Overview
+  Educational resources are now written in the admin editor instead of
+  arriving through seed SQL. A resource is a draft, scheduled or published:
+  - draft: `is_published = false`
+  - scheduled: `is_published = true` with `published_at` in the future
+  - published: `is_published = true` with `published_at` in the past
+
+  Content is Markdown, rendered by the client.
+
+  ## Modified Tables
+
+  ### `educational_resources`
+  - `published_at` (timestamptz) - When readers can first see the resource.
+    Set to now() on publish if the editor did not choose a time; existing
+    published rows are backfilled from `created_at`
+  - `tags` is now NOT NULL (empty array when there are none)
+  - `updated_at` is set on every update except one that only changes
+    `view_count`
+
+  ## Storage Layout
+  - Bucket `resource-images` (public read) for featured images
+  - Object path: `{resource_id}/{file name}`
+
+  ## Security
+  - Readers only see published resources whose `published_at` has passed;
+    authors and admins still see drafts and scheduled resources
+  - Only admins can upload, replace or delete resource images
+*/
+
+ALTER TABLE educational_resources ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE educational_resources
+SET published_at = created_at
+WHERE is_published = true AND published_at IS NULL;
+
+UPDATE educational_resources SET tags = ARRAY[]::text[] WHERE tags IS NULL;
+ALTER TABLE educational_resources ALTER COLUMN tags SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_resource_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_published AND NEW.published_at IS NULL THEN
+    NEW.published_at := now();
+  END IF;
+  -- Counting a view is not an edit.
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) - 'view_count' IS DISTINCT FROM to_jsonb(OLD) - 'view_count' THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_resource_published_at ON educational_resources;
+CREATE TRIGGER set_resource_published_at
+  BEFORE INSERT OR UPDATE ON educational_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION set_resource_published_at();
+
+DROP POLICY IF EXISTS "Anyone can read published resources" ON educational_resources;
+
+CREATE POLICY "Anyone can read published resources"
+  ON educational_resources
+  FOR SELECT
+  TO authenticated
+  USING (
+    (is_published = true AND published_at <= now()) OR
+    author_id = auth.uid() OR
+    is_admin()
+  );
+
+CREATE INDEX IF NOT EXISTS idx_resources_published_at ON educational_resources(published_at DESC);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resource-images',
+  'resource-images',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read resource images"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'resource-images');
+
+CREATE POLICY "Admins can upload resource images"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'resource-images' AND is_admin());
+
+CREATE POLICY "Admins can update resource images"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'resource-images' AND is_admin())
+  WITH CHECK (bucket_id = 'resource-images' AND is_admin());
+
+CREATE POLICY "Admins can delete resource images"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'resource-images' AND is_admin());
@@ -0,0 +1,59 @@
+/*
+  # Resource Reading Progress
+
+  ## Overview
+  Tracks which learning resources each user has opened and finished, so the
+  Resources page and the farmer dashboard can show saved guides, recently
+  viewed guides and what has been completed. Bookmarks keep using the
+  existing `resource_bookmarks` table.
+
+  ## New Tables
+
+  ### `resource_progress`
+  One row per user and resource, created the first time the user opens it
+  - `user_id` (uuid) - References user_profiles
+  - `resource_id` (uuid) - References educational_resources
+  - `last_viewed_at` (timestamptz) - Most recent time the resource was opened
+  - `completed_at` (timestamptz) - When the user marked it complete; null
+    while still in progress
+
+  ## Security
+  - Users can read, create, update and delete only their own progress
+*/
+
+CREATE TABLE IF NOT EXISTS resource_progress (
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  resource_id uuid NOT NULL REFERENCES educational_resources(id) ON DELETE CASCADE,
+  last_viewed_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz,
+  PRIMARY KEY (user_id, resource_id)
+);
+
+ALTER TABLE resource_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own progress"
+  ON resource_progress
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own progress"
+  ON resource_progress
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own progress"
+  ON resource_progress
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own progress"
+  ON resource_progress
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_resource_progress_recent ON resource_progress(user_id, last_viewed_at DESC);
@@ -0,0 +1,240 @@
+/*
+  # Resource View Tracking
+
+  ## Overview
+  Resource views were counted by the browser with a read-modify-write
+  update of `view_count`. That raced between readers and RLS rejected it
+  for everyone except admins, so the counts were wrong. Views are now
+  recorded by the database, one row per counted view, and `view_count` is
+  kept as a running total of those rows.
+
+  A signed-in reader opening the same resource again within 30 minutes is
+  not counted twice. Visitors who are not signed in are told apart by their
+  IP address as recorded by the proxy in front of the API
+  (`cf-connecting-ip`, or the last `X-Forwarded-For` hop), never from
+  anything the browser sends, and count at most once per resource per day. Requests
+  without an address are not counted.
+
+  ## New Tables
+
+  ### `resource_views`
+  - `id` (bigint, primary key)
+  - `resource_id` (uuid) - References educational_resources
+  - `user_id` (uuid, nullable) - References user_profiles
+  - `reader_hash` (text, nullable) - For visitors who are not signed in,
+    md5 of their IP address and the day; the address itself is not stored
+  - `language` (text) - Interface language the resource was read in
+  - `viewed_at` (timestamptz)
+
+  ## New Functions
+
+  ### `record_resource_view(p_resource_id, p_language)`
+  Records a view of a published resource unless it is a repeat, bumps
+  `view_count`, and for signed-in users updates `resource_progress`.
+  Returns whether the view was counted.
+
+  ### `resource_analytics(p_from, p_to)`
+  Admin only. Per resource: views, unique readers, bookmarks made,
+  completions and views by language in the period.
+
+  ### `resource_views_daily(p_resource_id, p_from, p_to)`
+  Admin only. Views and unique readers per day, for one resource or (with
+  a null id) all of them.
+
+  ## Security
+  - `resource_views` has no insert policy; rows only come from
+    `record_resource_view`. Only admins can read it
+  - `record_resource_view` only counts published resources and takes the
+    reader from `auth.uid()` or the request's IP address, never from the
+    caller
+  - The analytics functions raise unless the caller is an admin
+*/
+
+CREATE TABLE IF NOT EXISTS resource_views (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  resource_id uuid NOT NULL REFERENCES educational_resources(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  reader_hash text,
+  language text NOT NULL DEFAULT 'en',
+  viewed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE resource_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read resource views"
+  ON resource_views
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_resource_views_resource ON resource_views(resource_id, viewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_resource_views_viewed_at ON resource_views(viewed_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resource_views_reader
+  ON resource_views(resource_id, reader_hash)
+  WHERE reader_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION record_resource_view(
+  p_resource_id uuid,
+  p_language text DEFAULT 'en'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_headers json := current_setting('request.headers', true)::json;
+  v_hops text[] := string_to_array(v_headers->>'x-forwarded-for', ',');
+  v_ip text;
+  v_language text := CASE WHEN p_language ~ '^[a-z]{2,3}$' THEN p_language ELSE 'en' END;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM educational_resources
+    WHERE id = p_resource_id AND is_published = true AND published_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Resource not found';
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    -- Only addresses a proxy wrote: cf-connecting-ip (Cloudflare replaces
+    -- any value the client sent), else the last X-Forwarded-For hop, which
+    -- the proxy in front of the API appends. Earlier hops come from the
+    -- client and could be rotated to inflate the count.
+    v_ip := nullif(trim(coalesce(
+      v_headers->>'cf-connecting-ip',
+      v_hops[cardinality(v_hops)]
+    )), '');
+    IF v_ip IS NULL THEN
+      RETURN false;
+    END IF;
+
+    INSERT INTO resource_views (resource_id, reader_hash, language)
+    VALUES (p_resource_id, md5(v_ip || ':' || current_date), v_language)
+    ON CONFLICT (resource_id, reader_hash) WHERE reader_hash IS NOT NULL DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN false;
+    END IF;
+  ELSE
+    INSERT INTO resource_progress (user_id, resource_id, last_viewed_at)
+    VALUES (v_user_id, p_resource_id, now())
+    ON CONFLICT (user_id, resource_id) DO UPDATE SET last_viewed_at = now();
+
+    IF EXISTS (
+      SELECT 1 FROM resource_views
+      WHERE resource_id = p_resource_id
+      AND user_id = v_user_id
+      AND viewed_at > now() - interval '30 minutes'
+    ) THEN
+      RETURN false;
+    END IF;
+
+    INSERT INTO resource_views (resource_id, user_id, language)
+    VALUES (p_resource_id, v_user_id, v_language);
+  END IF;
+
+  UPDATE educational_resources
+  SET view_count = view_count + 1
+  WHERE id = p_resource_id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_resource_view(uuid, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION resource_analytics(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  resource_id uuid,
+  title_en text,
+  category text,
+  views bigint,
+  unique_readers bigint,
+  bookmarks bigint,
+  completions bigint,
+  languages jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view resource analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.title_en,
+    r.category,
+    coalesce(v.views, 0),
+    coalesce(v.unique_readers, 0),
+    (SELECT count(*) FROM resource_bookmarks b
+      WHERE b.resource_id = r.id AND b.created_at >= p_from AND b.created_at < p_to),
+    (SELECT count(*) FROM resource_progress p
+      WHERE p.resource_id = r.id AND p.completed_at >= p_from AND p.completed_at < p_to),
+    coalesce(l.languages, '{}'::jsonb)
+  FROM educational_resources r
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS views,
+      count(DISTINCT coalesce(rv.user_id::text, rv.reader_hash)) AS unique_readers
+    FROM resource_views rv
+    WHERE rv.resource_id = r.id AND rv.viewed_at >= p_from AND rv.viewed_at < p_to
+  ) v ON true
+  LEFT JOIN LATERAL (
+    SELECT jsonb_object_agg(counts.language, counts.views) AS languages
+    FROM (
+      SELECT rv.language, count(*) AS views
+      FROM resource_views rv
+      WHERE rv.resource_id = r.id AND rv.viewed_at >= p_from AND rv.viewed_at < p_to
+      GROUP BY rv.language
+    ) counts
+  ) l ON true
+  ORDER BY coalesce(v.views, 0) DESC, r.title_en;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resource_analytics(timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION resource_views_daily(
+  p_resource_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  day date,
+  views bigint,
+  unique_readers bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view resource analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(rv.id),
+    count(DISTINCT coalesce(rv.user_id::text, rv.reader_hash))
+  FROM generate_series(date_trunc('day', p_from), p_to - interval '1 microsecond', interval '1 day') AS d(day)
+  LEFT JOIN resource_views rv
+    ON rv.viewed_at >= d.day
+    AND rv.viewed_at < d.day + interval '1 day'
+    AND rv.viewed_at >= p_from
+    AND rv.viewed_at < p_to
+    AND (p_resource_id IS NULL OR rv.resource_id = p_resource_id)
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resource_views_daily(uuid, timestamptz, timestamptz) TO authenticated;
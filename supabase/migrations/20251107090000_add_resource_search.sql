@@ -0,0 +1,197 @@
+/*
+  # Resource Search
+
+  ## Overview
+  The resources page downloaded every published resource and filtered by
+  category in the browser; tags were shown but could not be used. Search,
+  category and tag filters now run in the database, in the same way as the
+  product catalog (see `search_products`).
+
+  ## Modified Tables
+
+  ### `educational_resources`
+  - `search_vector` (tsvector) - Weighted full-text document built from
+    `title_en` (A), `tags` (A), `content_en` (B) and every translation's
+    title (A) and content (B); kept current by trigger
+  - `search_phonetic` (text) - Phonetic keys of the titles and tags, so
+    "achaar" and "अचार" find the same guide (trigram index)
+
+  Translation rows re-run the resource's trigger through
+  `touch_translated_parent`, as they already do for products.
+
+  ## New Functions
+
+  ### `search_resources(p_query, p_category, p_tags, p_language)`
+  - `p_query` - Free text, matched against `search_vector`, `tags` and the
+    phonetic keys (with `search_synonyms`)
+  - `p_category` - Optional exact category
+  - `p_tags` - Optional tags; a resource must carry all of them
+  - `p_language` - Reading language; a match in that language's
+    translation ranks higher
+
+  Returns published resources, most relevant first when there is a query and
+  newest first otherwise. Rows are `educational_resources`, so callers can
+  embed `resource_translations` as with a plain select.
+
+  ## Security
+  - SECURITY INVOKER: the caller's RLS policies on `educational_resources`
+    still apply
+*/
+
+ALTER TABLE educational_resources ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE educational_resources ADD COLUMN IF NOT EXISTS search_phonetic text NOT NULL DEFAULT '';
+
+CREATE OR REPLACE FUNCTION resources_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_titles text;
+  v_contents text;
+BEGIN
+  SELECT string_agg(title, ' '), string_agg(content, ' ')
+  INTO v_titles, v_contents
+  FROM resource_translations
+  WHERE resource_id = NEW.id;
+
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title_en, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(v_titles, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.content_en, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(v_contents, '')), 'B');
+  NEW.search_phonetic := phonetic_text(
+    coalesce(NEW.title_en, '') || ' ' ||
+    coalesce(array_to_string(NEW.tags, ' '), '') || ' ' ||
+    coalesce(v_titles, '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS resources_search_vector ON educational_resources;
+CREATE TRIGGER resources_search_vector
+  BEFORE INSERT OR UPDATE OF title_en, content_en, tags ON educational_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION resources_search_vector_update();
+
+CREATE OR REPLACE FUNCTION touch_translated_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record := coalesce(NEW, OLD);
+BEGIN
+  IF TG_TABLE_NAME = 'product_translations' THEN
+    UPDATE products SET name = name WHERE id = v_row.product_id;
+  ELSIF TG_TABLE_NAME = 'product_category_translations' THEN
+    UPDATE product_categories SET name_en = name_en WHERE id = v_row.category_id;
+  ELSIF TG_TABLE_NAME = 'resource_translations' THEN
+    UPDATE educational_resources SET title_en = title_en WHERE id = v_row.resource_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS resource_translations_touch_parent ON resource_translations;
+CREATE TRIGGER resource_translations_touch_parent
+  AFTER INSERT OR UPDATE OR DELETE ON resource_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_translated_parent();
+
+-- Backfill without moving updated_at, which the publishing trigger bumps.
+ALTER TABLE educational_resources DISABLE TRIGGER set_resource_published_at;
+UPDATE educational_resources SET title_en = title_en;
+ALTER TABLE educational_resources ENABLE TRIGGER set_resource_published_at;
+
+CREATE INDEX IF NOT EXISTS idx_resources_search ON educational_resources USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_resources_search_phonetic ON educational_resources USING gin(search_phonetic gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_resources_category ON educational_resources(category);
+
+CREATE OR REPLACE FUNCTION search_resources(
+  p_query text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_language text DEFAULT 'en'
+)
+RETURNS SETOF educational_resources
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('simple', p_query) END AS tsq_simple,
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN ARRAY[]::text[]
+           ELSE regexp_split_to_array(lower(trim(p_query)), '\s+') END AS terms
+  ),
+  words AS (
+    SELECT DISTINCT phonetic_key(word) AS word
+    FROM search s, unnest(s.terms) AS word
+    WHERE length(phonetic_key(word)) >= 2
+  ),
+  expanded AS (
+    SELECT word, word AS term FROM words
+    UNION
+    SELECT w.word, ss.synonym_key FROM words w
+    JOIN search_synonyms ss ON ss.term_key = w.word
+  ),
+  -- The LIKE on the bare column is what idx_resources_search_phonetic
+  -- serves; the second one keeps matches to the start of a word.
+  phonetic AS (
+    SELECT r.id, count(DISTINCT e.word) AS matches
+    FROM expanded e
+    JOIN educational_resources r ON r.search_phonetic LIKE '%' || e.term || '%'
+    WHERE ' ' || r.search_phonetic LIKE '% ' || e.term || '%'
+    GROUP BY r.id
+  ),
+  matches AS (
+    SELECT
+      r AS resource,
+      r.published_at,
+      r.id,
+      s.tsq,
+      r.search_vector,
+      r.tags && s.terms AS tag_match,
+      s.tsq_simple IS NOT NULL AND r.search_vector @@ s.tsq_simple AS simple_match,
+      s.tsq_simple IS NOT NULL AND rt.resource_id IS NOT NULL
+        AND to_tsvector('simple', rt.title || ' ' || rt.content) @@ s.tsq_simple AS language_match,
+      coalesce(ph.matches, 0) AS phonetic_matches,
+      (SELECT count(*) FROM words) AS word_count
+    FROM educational_resources r
+    CROSS JOIN search s
+    LEFT JOIN resource_translations rt ON rt.resource_id = r.id AND rt.language = p_language
+    LEFT JOIN phonetic ph ON ph.id = r.id
+    WHERE r.is_published = true
+      AND r.published_at <= now()
+      AND (p_category IS NULL OR r.category = p_category)
+      AND (p_tags IS NULL OR r.tags @> p_tags)
+  ),
+  ranked AS (
+    SELECT m.*,
+      CASE WHEN m.tsq IS NULL THEN 0
+           ELSE ts_rank(m.search_vector, m.tsq)
+             + CASE WHEN m.tag_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.simple_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.language_match THEN 0.5 ELSE 0 END
+             + CASE WHEN m.word_count > 0 THEN m.phonetic_matches::real / m.word_count ELSE 0 END
+      END AS rank
+    FROM matches m
+    WHERE m.tsq IS NULL
+       OR m.search_vector @@ m.tsq
+       OR m.simple_match
+       OR m.tag_match
+       OR m.phonetic_matches > 0
+  )
+  SELECT (r.resource).*
+  FROM ranked r
+  ORDER BY r.rank DESC, r.published_at DESC, r.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_resources(text, text, text[], text) TO anon, authenticated;
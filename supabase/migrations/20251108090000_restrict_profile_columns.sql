@@ -0,0 +1,46 @@
+/*
+  # Restrict Profile Columns
+
+  ## Overview
+  "Anyone can read farmer profiles" applies to signed-in users as well as
+  `anon`, but only `anon` had its columns narrowed, so any signed-in user
+  could read every active farmer's phone number. Signed-in users now get the
+  same public columns, plus the payment options checkout needs. A user's own
+  profile and, for admins, every profile are read in full through
+  `private_user_profiles`.
+
+  ## New Views
+
+  ### `private_user_profiles`
+  Every column of `user_profiles`, limited to the caller's own row, or all
+  rows for an active admin. Runs with the owner's privileges so it is not
+  affected by the column grants; `security_barrier` keeps caller filters
+  from seeing rows outside the view's condition.
+
+  ## Security
+  - `user_profiles`: `authenticated` can only read `id`, `role`,
+    `full_name`, `state`, `district`, `profile_image_url`, `is_active`,
+    `accepts_cod`, `accepts_online` and `created_at`
+  - `phone`, `language_preference` and `updated_at` are only readable
+    through `private_user_profiles`
+
+  ## Important Notes
+  1. Updates on `user_profiles` cannot return the row any more; read it back
+     from `private_user_profiles`
+  2. The view is expanded when it is created: recreate it when a column is
+     added to `user_profiles`
+*/
+
+REVOKE SELECT ON user_profiles FROM authenticated;
+GRANT SELECT (id, role, full_name, state, district, profile_image_url, is_active, accepts_cod, accepts_online, created_at)
+  ON user_profiles TO authenticated;
+
+CREATE OR REPLACE VIEW private_user_profiles
+WITH (security_barrier)
+AS
+  SELECT *
+  FROM user_profiles
+  WHERE id = auth.uid() OR is_admin();
+
+REVOKE ALL ON private_user_profiles FROM anon, authenticated;
+GRANT SELECT ON private_user_profiles TO authenticated;
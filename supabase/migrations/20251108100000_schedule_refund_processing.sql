@@ -0,0 +1,64 @@
+/*
+  # Schedule Refund Processing
+
+  ## Overview
+  Refunds are queued in `payment_refunds` when a paid order is cancelled,
+  but were only sent to the gateway when the cancelling browser called the
+  `payments` edge function afterwards. A closed tab or a gateway error left
+  the refund pending for good. pg_cron now calls the function's `/refunds`
+  route every five minutes to send whatever is still pending.
+
+  A refund the gateway declines, or a call that errors, is retried with a
+  doubling delay. After the last attempt the refund is marked `failed` and
+  listed on the admin dashboard, to be settled by hand.
+
+  ## Modified Tables
+
+  ### `payment_refunds`
+  - `attempts` (integer) - Gateway calls that declined or errored so far
+  - `next_attempt_at` (timestamptz, nullable) - When a declined refund is
+    tried again; NULL when it can go now
+  - `last_error` (text, nullable) - Why the last attempt did not go through
+
+  ## Setup
+  The job reads two Vault secrets, which must exist before it first runs:
+  - `project_url` - e.g. `https://<project-ref>.supabase.co`
+  - `service_role_key` - the project's service role key
+
+  ```sql
+  SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+  SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+  ```
+
+  ## Security
+  - The `/refunds` route only accepts the service role key
+*/
+
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz;
+ALTER TABLE payment_refunds ADD COLUMN IF NOT EXISTS last_error text;
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_failed ON payment_refunds(created_at) WHERE status = 'failed';
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-payment-refunds',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/payments/refunds',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.payment_refunds
+    WHERE status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+  );
+  $$
+);
@@ -0,0 +1,50 @@
+/*
+  # Contact Profile Access
+
+  ## Overview
+  Message threads name the other person through the `sender` and `receiver`
+  embeds on `user_profiles`, but users could only read their own profile
+  and active farmer profiles. A farmer's threads with buyers showed
+  "unknown user", as did a new thread opened with "Contact buyer" before
+  any message was sent. Users can now read the profiles of people they
+  have exchanged messages with or share an order with.
+
+  ## New Functions
+
+  ### `is_contact(p_profile_id uuid)`
+  True when the caller and `p_profile_id` have a message between them, in
+  either direction, or are the buyer and farmer of the same order. SECURITY
+  DEFINER so the `user_profiles` policy does not recurse through the
+  `messages` and `orders` policies, which read `user_profiles` themselves.
+
+  ## Security
+  - `user_profiles`: signed-in users can read their contacts' profiles.
+    Only the public columns are granted to `authenticated`, so this exposes
+    names and roles, not phone numbers
+*/
+
+CREATE OR REPLACE FUNCTION is_contact(p_profile_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM messages
+    WHERE (sender_id = auth.uid() AND receiver_id = p_profile_id)
+       OR (sender_id = p_profile_id AND receiver_id = auth.uid())
+  ) OR EXISTS (
+    SELECT 1 FROM orders
+    WHERE (buyer_id = auth.uid() AND farmer_id = p_profile_id)
+       OR (buyer_id = p_profile_id AND farmer_id = auth.uid())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_contact(uuid) TO authenticated;
+
+CREATE POLICY "Users can read their contacts' profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_contact(id));
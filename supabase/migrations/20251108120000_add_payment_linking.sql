@@ -0,0 +1,103 @@
+/*
+  # Atomic Payment Linking
+
+  ## Overview
+  The `payments` edge function checked the orders, expired the previous
+  attempt, inserted the payment and linked it to the orders as separate
+  requests. A webhook completing an earlier payment, or a second create
+  call, could land in between: a paid order went back to `pending` and the
+  captured payment was left attached to nothing. These steps now run in one
+  function that locks the orders first.
+
+  ## New Functions
+
+  ### `link_payment(p_payment_id, p_buyer_id, p_order_ids, p_provider, p_provider_reference, p_method, p_amount)`
+  - Locks the orders and checks they belong to the buyer, are not
+    cancelled, are paid online and are still unpaid
+  - Rejects the request while one of the orders has a payment created in
+    the last 30 minutes that is still open; older open payments are marked
+    `failed`, so their webhook can no longer change anything
+  - Checks `p_amount` against the orders' totals, inserts the payment and
+    links the orders to it
+
+  ## Security
+  - Only the service role (the edge function) can execute it
+*/
+
+CREATE OR REPLACE FUNCTION link_payment(
+  p_payment_id uuid,
+  p_buyer_id uuid,
+  p_order_ids uuid[],
+  p_provider text,
+  p_provider_reference text,
+  p_method text,
+  p_amount numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_found integer := 0;
+  v_total numeric := 0;
+BEGIN
+  FOR v_order IN
+    SELECT * FROM orders
+    WHERE id = ANY(p_order_ids)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    IF v_order.buyer_id <> p_buyer_id THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+    IF v_order.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Cancelled orders cannot be paid';
+    END IF;
+    IF v_order.payment_method <> 'online' THEN
+      RAISE EXCEPTION 'Cash on delivery orders are paid to the farmer';
+    END IF;
+    IF v_order.payment_status NOT IN ('pending', 'failed') THEN
+      RAISE EXCEPTION 'Order is already paid';
+    END IF;
+
+    v_found := v_found + 1;
+    v_total := v_total + v_order.total_amount;
+  END LOOP;
+
+  IF v_found <> (SELECT count(DISTINCT id) FROM unnest(p_order_ids) AS id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_total <> p_amount THEN
+    RAISE EXCEPTION 'Order totals changed, please try again';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE status = 'created'
+    AND created_at > now() - interval '30 minutes'
+    AND id IN (SELECT payment_id FROM orders WHERE id = ANY(p_order_ids))
+  ) THEN
+    RAISE EXCEPTION 'A payment for this order is still in progress';
+  END IF;
+
+  UPDATE payments
+  SET status = 'failed',
+      updated_at = now()
+  WHERE status = 'created'
+  AND id IN (SELECT payment_id FROM orders WHERE id = ANY(p_order_ids));
+
+  INSERT INTO payments (id, buyer_id, provider, provider_reference, method, amount)
+  VALUES (p_payment_id, p_buyer_id, p_provider, p_provider_reference, p_method, p_amount);
+
+  UPDATE orders
+  SET payment_id = p_payment_id,
+      payment_status = 'pending',
+      updated_at = now()
+  WHERE id = ANY(p_order_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_payment(uuid, uuid, uuid[], text, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION link_payment(uuid, uuid, uuid[], text, text, text, numeric) TO service_role;